@@ -0,0 +1,101 @@
+/**
+ * Tests for the OpenAPI document and the client types generated from it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase, type LoopFlowDatabase } from "../../db/database.js";
+import { createApiServer } from "../server.js";
+import { API_ROUTES, buildOpenApiDocument } from "../openapi.js";
+import { generateClientTypes, typeOf } from "../typegen.js";
+
+const UI_TYPES = path.join(import.meta.dirname, "..", "..", "ui", "src", "api", "types.ts");
+
+describe("OpenAPI document", () => {
+  let testDir: string;
+  let database: LoopFlowDatabase;
+  let app: ReturnType<typeof createApiServer>;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    database = initializeDatabase(testDir);
+    app = createApiServer(database);
+  });
+
+  afterEach(() => {
+    database.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("documents every API route", () => {
+    const registered = app.routes
+      .filter(r => r.path.startsWith("/api/") && r.path !== "/api/*")
+      .map(r => `${r.method.toLowerCase()} ${r.path}`);
+    const documented = API_ROUTES.map(r => `${r.method} ${r.path}`);
+    expect([...new Set(registered)].sort()).toEqual([...documented].sort());
+  });
+
+  it("is served at /api/openapi.json", async () => {
+    const res = await app.request("/api/openapi.json");
+    const document = await res.json();
+    expect(document).toEqual(buildOpenApiDocument());
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.paths["/api/tasks/{id}"].patch.requestBody.content["application/json"].schema)
+      .toEqual({ $ref: "#/components/schemas/TaskUpdate" });
+    expect(JSON.stringify(document)).not.toContain("$defs");
+  });
+
+  it("describes what the routes return", async () => {
+    const send = (url: string, body: unknown) => app.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    await send("/api/tasks", { title: "[IMPL] Parent", acceptance_criteria: ["works"] });
+    await send("/api/tasks", { title: "Child", parent_id: "LF-001" });
+    await send("/api/insights", { content: "WAL mode", type: "technical", tags: ["sqlite"] });
+    await send("/api/sessions", { date: "2026-01-02", summary: "Set up", task_id: "LF-001" });
+    await app.request("/api/context", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ repo_summary: "A CLI" }),
+    });
+
+    const urls: Record<string, string> = {
+      "/api/tasks/:id": "/api/tasks/LF-001",
+      "/api/insights/:id": "/api/insights/INS-001",
+      "/api/sessions/:id": "/api/sessions/2026-01-02-S1",
+      "/api/history/:id": "/api/history/LF-001",
+      "/api/insights/search": "/api/insights/search?q=WAL",
+      "/api/tasks": "/api/tasks?tree=true",
+    };
+    for (const route of API_ROUTES.filter(r => r.method === "get" && r.response)) {
+      const url = urls[route.path] ?? route.path;
+      if (url.includes(":")) continue;
+      const res = await app.request(url);
+      expect(res.status, url).toBe(200);
+      const result = route.response!.safeParse(await res.json());
+      expect(result.error, url).toBeUndefined();
+    }
+  });
+
+  it("matches the UI's generated types", () => {
+    // Regenerate with `npm run generate:api-types`
+    expect(fs.readFileSync(UI_TYPES, "utf-8")).toBe(generateClientTypes(buildOpenApiDocument()));
+  });
+});
+
+describe("typeOf", () => {
+  it("maps JSON Schema to TypeScript", () => {
+    expect(typeOf({ anyOf: [{ type: "string" }, { type: "null" }] })).toBe("string | null");
+    expect(typeOf({ type: "array", items: { enum: ["a", "b"] } })).toBe("Array<'a' | 'b'>");
+    expect(typeOf({ type: "object", additionalProperties: { type: "integer" } })).toBe("Record<string, number>");
+    expect(typeOf({ $ref: "#/components/schemas/Task" })).toBe("Task");
+    expect(typeOf({ type: "object", properties: { id: { type: "string" } }, required: [] }))
+      .toBe("{\n  id?: string\n}");
+    expect(typeOf({})).toBe("unknown");
+  });
+});
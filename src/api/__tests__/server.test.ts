@@ -0,0 +1,321 @@
+/**
+ * Tests for the REST API: validation, error envelopes, writes and pagination
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase, type LoopFlowDatabase } from "../../db/database.js";
+import { createApiServer, startManagedServer, stopManagedServer, isManagedServerRunning } from "../server.js";
+
+describe("REST API", () => {
+  let testDir: string;
+  let database: LoopFlowDatabase;
+  let app: ReturnType<typeof createApiServer>;
+
+  const send = (method: string, url: string, body?: unknown) => app.request(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    database = initializeDatabase(testDir, { origin: "api" });
+    app = createApiServer(database);
+  });
+
+  afterEach(() => {
+    database.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("errors", () => {
+    it("wraps every error in the same envelope", async () => {
+      const missing = await send("GET", "/api/tasks/LF-404");
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ error: { code: "not_found", message: "Task LF-404 not found" } });
+
+      const noRoute = await send("GET", "/api/nope");
+      expect(noRoute.status).toBe(404);
+      expect((await noRoute.json()).error.code).toBe("not_found");
+
+      const malformed = await send("POST", "/api/tasks", "{not json");
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).error.code).toBe("bad_request");
+    });
+
+    it("hides the details of unexpected failures", async () => {
+      const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+      database.close();
+
+      const failed = await send("GET", "/api/tasks");
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toEqual({ error: { code: "internal", message: "Internal error" } });
+      expect(String(errors.mock.calls[0])).toContain("database connection is not open");
+      errors.mockRestore();
+    });
+
+    it("only allows cross-origin requests from the UI dev server", async () => {
+      const preflight = (origin: string) => app.request("/api/tasks", {
+        method: "OPTIONS",
+        headers: { Origin: origin, "Access-Control-Request-Method": "POST" },
+      });
+      expect((await preflight("http://localhost:5173")).headers.get("Access-Control-Allow-Origin"))
+        .toBe("http://localhost:5173");
+      expect((await preflight("https://evil.example")).headers.get("Access-Control-Allow-Origin")).toBeNull();
+    });
+
+    it("rejects bodies that don't match the tool schemas", async () => {
+      const res = await send("POST", "/api/tasks", { title: 42, owner: "me" });
+      expect(res.status).toBe(400);
+      const { error } = await res.json();
+      expect(error.code).toBe("validation_failed");
+      expect(error.details.map((d: { path: string }) => d.path)).toEqual(expect.arrayContaining(["title", ""]));
+    });
+  });
+
+  describe("tasks", () => {
+    it("creates, updates and deletes tasks through the workflow", async () => {
+      const created = await send("POST", "/api/tasks", { title: "[IMPL] First", acceptance_criteria: ["works"] });
+      expect(created.status).toBe(201);
+      const task = await created.json();
+      expect(task).toMatchObject({ status: "TODO", acceptance_criteria: [{ text: "works", met: false }] });
+
+      const blocked = await send("PATCH", `/api/tasks/${task.id}`, { status: "BLOCKED" });
+      expect(blocked.status).toBe(422);
+      expect((await blocked.json()).error).toMatchObject({ code: "unprocessable", details: { missing: ["reason"] } });
+
+      const started = await send("PATCH", `/api/tasks/${task.id}`, { status: "IN_PROGRESS", priority: "high" });
+      expect(await started.json()).toMatchObject({ status: "IN_PROGRESS", priority: "high" });
+
+      expect((await send("PATCH", `/api/tasks/${task.id}`, { priority: "urgent" })).status).toBe(422);
+      expect((await send("PATCH", `/api/tasks/${task.id}`, {})).status).toBe(400);
+
+      expect((await send("DELETE", `/api/tasks/${task.id}`)).status).toBe(204);
+      expect(database.tasks.findById(task.id)).toBeFalsy();
+      expect(database.events.findByEntity(task.id)[0]).toMatchObject({ action: "delete", origin: "api" });
+      expect((await send("DELETE", `/api/tasks/${task.id}`)).status).toBe(404);
+    });
+
+    it("keeps the dependency graph consistent", async () => {
+      await send("POST", "/api/tasks", { id: "LF-001", title: "Base" });
+      await send("POST", "/api/tasks", { id: "LF-002", title: "Next", depends_on: ["LF-001"] });
+
+      expect((await send("POST", "/api/tasks", { id: "LF-001", title: "Again" })).status).toBe(409);
+      const cycle = await send("PATCH", "/api/tasks/LF-001", { depends_on: ["LF-002"] });
+      expect((await cycle.json()).error.details.cycle).toEqual(expect.arrayContaining(["LF-001", "LF-002"]));
+
+      const referenced = await send("DELETE", "/api/tasks/LF-001");
+      expect(referenced.status).toBe(409);
+      expect((await referenced.json()).error.message).toMatch(/LF-002/);
+    });
+
+    it("pages lists with total count and link headers", async () => {
+      for (const title of ["A", "B", "C"]) {
+        await send("POST", "/api/tasks", { title });
+      }
+      const all = (await (await send("GET", "/api/tasks")).json()).map((t: { id: string }) => t.id);
+      const res = await send("GET", "/api/tasks?limit=2&offset=1");
+      expect((await res.json()).map((t: { id: string }) => t.id)).toEqual(all.slice(1));
+      expect(res.headers.get("X-Total-Count")).toBe("3");
+      expect(res.headers.get("Link")).toBe('</api/tasks?limit=2&offset=0>; rel="prev"');
+
+      expect((await send("GET", "/api/tasks?limit=0")).status).toBe(400);
+    });
+  });
+
+  describe("insights", () => {
+    it("creates insights and applies lifecycle rules on update", async () => {
+      const first = await (await send("POST", "/api/insights", { content: "Readers never block writers in WAL mode", tags: ["sqlite"] })).json();
+      const second = await send("POST", "/api/insights", { content: "In WAL mode readers never block writers" });
+      expect(second.status).toBe(201);
+      const duplicate = await second.json();
+      expect(duplicate.possible_duplicates.map((d: { id: string }) => d.id)).toEqual([first.id]);
+
+      const selfSupersede = await send("PATCH", `/api/insights/${first.id}`, { superseded_by: first.id });
+      expect(selfSupersede.status).toBe(422);
+
+      const superseded = await send("PATCH", `/api/insights/${first.id}`, { superseded_by: duplicate.id, add_links: [duplicate.id] });
+      expect(await superseded.json()).toMatchObject({ status: "superseded", superseded_by: duplicate.id, links: [duplicate.id] });
+
+      // Still named by superseded_by, so it stays
+      expect((await send("DELETE", `/api/insights/${duplicate.id}`)).status).toBe(409);
+      expect((await send("DELETE", `/api/insights/${first.id}`)).status).toBe(204);
+      expect(database.insightLinks.count()).toBe(0);
+    });
+
+    it("filters by status", async () => {
+      database.insights.insert({
+        id: "INS-001", content: "Old", summary: null, type: "technical", status: "archived",
+        tags: null, links: null, source: null, notes: null,
+      });
+      const res = await send("GET", "/api/insights?status=unprocessed");
+      expect(await res.json()).toEqual([]);
+      expect(res.headers.get("X-Total-Count")).toBe("0");
+    });
+
+    it("serves the knowledge graph", async () => {
+      const base = await (await send("POST", "/api/insights", { content: "SQLite runs in WAL mode", tags: ["sqlite"] })).json();
+      const linked = await (await send("POST", "/api/insights", {
+        content: "Checkpoint the WAL after bulk imports", tags: ["sqlite"], type: "architecture",
+      })).json();
+      await send("PATCH", `/api/insights/${linked.id}`, { add_links: [base.id], relation: "builds_on" });
+      await send("POST", "/api/insights", { content: "Release notes go in CHANGELOG.md" });
+      await send("POST", "/api/tasks", { title: "[IMPL] Tune checkpoints", notes: `See ${linked.id.toLowerCase()}` });
+
+      const graph = await (await send("GET", "/api/graph?tag=sqlite&tasks=true")).json();
+      expect(graph.nodes.map((n: { id: string; links: number }) => [n.id, n.links]).sort()).toEqual([
+        [base.id, 1], [linked.id, 1], ["LF-001", 0],
+      ]);
+      expect(graph.edges).toEqual([
+        { from: linked.id, to: base.id, relation: "builds_on", note: null },
+        { from: "LF-001", to: linked.id, relation: "references", note: null },
+      ]);
+
+      const orphans = await (await send("GET", "/api/graph?type=technical")).json();
+      expect(orphans.nodes.filter((n: { links: number }) => n.links === 0)).toHaveLength(1);
+      expect((await send("GET", "/api/graph?tasks=yes")).status).toBe(400);
+    });
+  });
+
+  describe("sessions, context and feedback", () => {
+    it("numbers new sessions per day and edits them", async () => {
+      await send("POST", "/api/tasks", { id: "LF-001", title: "[SPIKE] Look around" });
+      const first = await (await send("POST", "/api/sessions", { date: "2026-01-02", summary: "One", task_id: "LF-001" })).json();
+      const second = await (await send("POST", "/api/sessions", { date: "2026-01-02", summary: "Two" })).json();
+      expect([first.id, second.id]).toEqual(["2026-01-02-S1", "2026-01-02-S2"]);
+      expect(first).toMatchObject({ task_type: "[SPIKE]", task_title: "Look around", outcome: "COMPLETE" });
+
+      expect((await send("POST", "/api/sessions", { date: "Jan 2", summary: "x" })).status).toBe(400);
+      expect(await (await send("PATCH", `/api/sessions/${second.id}`, { outcome: "PARTIAL" })).json())
+        .toMatchObject({ outcome: "PARTIAL", summary: "Two" });
+      expect(await (await send("PATCH", `/api/sessions/${second.id}`, {})).json())
+        .toEqual({ error: { code: "bad_request", message: "No changes specified" } });
+
+      const page = await send("GET", "/api/sessions?limit=1");
+      expect(page.headers.get("X-Total-Count")).toBe("2");
+      expect(page.headers.get("Link")).toBe('</api/sessions?limit=1&offset=1>; rel="next"');
+
+      expect((await send("DELETE", `/api/sessions/${first.id}`)).status).toBe(204);
+      expect(database.sessions.count()).toBe(1);
+    });
+
+    it("edits repo context by key", async () => {
+      const res = await send("PATCH", "/api/context", { repo_summary: "A CLI" });
+      expect((await res.json()).repo_summary).toMatchObject({ value: "A CLI" });
+      expect((await send("PATCH", "/api/context", {})).status).toBe(400);
+
+      expect((await send("DELETE", "/api/context/repo_summary")).status).toBe(204);
+      expect((await send("DELETE", "/api/context/repo_summary")).status).toBe(404);
+      expect((await send("DELETE", "/api/context/secrets")).status).toBe(404);
+    });
+
+    it("queues feedback with a sanitized context", async () => {
+      const res = await send("POST", "/api/feedback", {
+        type: "bug", title: "Crash", description: "It crashed", context: "Mail me at dev@example.com",
+      });
+      expect(res.status).toBe(201);
+      const spec = await res.json();
+      expect(spec.context_summary).not.toContain("dev@example.com");
+
+      const shared = await (await send("PATCH", `/api/feedback/${spec.id}`, { status: "shared" })).json();
+      expect(shared.shared_at).not.toBeNull();
+      expect((await send("PATCH", `/api/feedback/${spec.id}`, { severity: "huge" })).status).toBe(400);
+      expect((await send("GET", "/api/feedback?type=nope")).status).toBe(400);
+      expect((await send("DELETE", `/api/feedback/${spec.id}`)).status).toBe(204);
+    });
+  });
+
+  describe("live updates", () => {
+    // Read the stream until `text` shows up
+    const readUntil = async (reader: ReadableStreamDefaultReader<Uint8Array>, text: string) => {
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value);
+      }
+      return received;
+    };
+
+    it("streams changes made by another connection", async () => {
+      const res = await app.request("/api/events");
+      expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+      const reader = res.body!.getReader();
+      await readUntil(reader, ": connected");
+
+      // Another process, e.g. the MCP server, writing to the same database
+      const mcp = initializeDatabase(testDir, { origin: "mcp" });
+      mcp.repoContext.set("repo_summary", "A CLI");
+      mcp.close();
+
+      const received = await readUntil(reader, "\n\n");
+      await reader.cancel();
+      const [, id] = received.match(/^id: (\d+)$/m)!;
+      const data = JSON.parse(received.match(/^data: (.*)$/m)![1]);
+      expect(received).toContain("event: change");
+      expect(data).toMatchObject({
+        id: Number(id), entity_type: "repo_context", entity_id: "repo_summary", action: "create", origin: "mcp",
+      });
+      expect(data.changes.value).toEqual({ from: null, to: "A CLI" });
+    }, 10_000);
+
+    it("resumes after Last-Event-ID", async () => {
+      await send("POST", "/api/tasks", { title: "First" });
+      await send("POST", "/api/tasks", { title: "Second" });
+      const [second, first] = database.events.findAll();
+
+      const res = await app.request("/api/events", { headers: { "Last-Event-ID": String(first.id) } });
+      const reader = res.body!.getReader();
+      const received = await readUntil(reader, `id: ${second.id}`);
+      await reader.cancel();
+      expect(received).not.toContain(`id: ${first.id}\n`);
+      expect(received).toContain(`"entity_id":"${second.entity_id}"`);
+    });
+  });
+
+  describe("managed server", () => {
+    afterEach(() => stopManagedServer());
+
+    it("serves one repo at a time, restarting for another repo on the same port", async () => {
+      const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+      fs.mkdirSync(path.join(otherDir, ".loop-flow"));
+      try {
+        const port = 39000 + Math.floor(Math.random() * 1000);
+        expect(startManagedServer({ port, repoPath: testDir, timeoutMs: 60_000 }).reused).toBe(false);
+        expect(startManagedServer({ port, repoPath: testDir, timeoutMs: 60_000 }).reused).toBe(true);
+
+        const other = startManagedServer({ port, repoPath: otherDir, timeoutMs: 60_000 });
+        expect(other.reused).toBe(false);
+        expect(isManagedServerRunning(otherDir)).toBe(true);
+        expect(isManagedServerRunning(testDir)).toBe(false);
+      } finally {
+        stopManagedServer();
+        fs.rmSync(otherDir, { recursive: true, force: true });
+      }
+    });
+
+    it("ends open event streams when it stops", async () => {
+      const port = 39000 + Math.floor(Math.random() * 1000);
+      const { url } = startManagedServer({ port, repoPath: testDir, timeoutMs: 60_000 });
+      const res = await fetch(`${url}/api/events`);
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      expect(decoder.decode((await reader.read()).value)).toContain(": connected");
+
+      // The stream ends instead of polling the closed database
+      const errors = vi.spyOn(console, "error");
+      stopManagedServer();
+      let chunk = await reader.read();
+      while (!chunk.done) chunk = await reader.read();
+      // Past one poll interval, when a loop still running would hit it
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      expect(errors.mock.calls.flat().join("\n")).not.toContain("database connection is not open");
+      errors.mockRestore();
+    }, 10_000);
+  });
+});
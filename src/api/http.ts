@@ -0,0 +1,144 @@
+/**
+ * API Request and Response Helpers
+ *
+ * Error envelope, body validation and pagination shared by the routes. Every
+ * error has the same shape:
+ *   { "error": { "code": "not_found", "message": "Task LF-404 not found", "details": ... } }
+ * Lists take ?limit and ?offset and report the unpaged size in X-Total-Count,
+ * with Link headers (rel="next" / rel="prev") to the neighbouring pages.
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { PageQuery } from "./schemas.js";
+import type { WriteRefusal } from "../db/database.js";
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export type ApiErrorCode =
+  | "bad_request"         // Malformed JSON or query string
+  | "validation_failed"   // Body doesn't match the schema (details: issues)
+  | "not_found"
+  | "conflict"            // Already exists, or still referenced
+  | "unprocessable"       // Valid shape, but the change breaks a rule (workflow, dependencies, lifecycle)
+  | "internal";
+
+const STATUS_BY_CODE: Record<ApiErrorCode, ContentfulStatusCode> = {
+  bad_request: 400,
+  validation_failed: 400,
+  not_found: 404,
+  conflict: 409,
+  unprocessable: 422,
+  internal: 500,
+};
+
+export interface ValidationIssue {
+  path: string;           // Dotted path into the body ("" for the body itself)
+  message: string;
+}
+
+export function apiError(c: Context, code: ApiErrorCode, message: string, details?: unknown) {
+  return c.json(
+    { error: details === undefined ? { code, message } : { code, message, details } },
+    STATUS_BY_CODE[code]
+  );
+}
+
+/**
+ * A task or insight write refused by the shared rules in db/database.ts
+ */
+export function refusal(c: Context, { code, error, details }: WriteRefusal) {
+  return apiError(c, code === "no_changes" ? "bad_request" : code, error, details);
+}
+
+export function validationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+// =============================================================================
+// Request Bodies
+// =============================================================================
+
+export type Parsed<T> = { ok: true; data: T } | { ok: false; response: Response };
+
+/**
+ * Parse and validate a JSON body. Unknown fields are rejected by the strict
+ * schemas the routes pass in.
+ */
+export async function readBody<T extends z.ZodType>(c: Context, schema: T): Promise<Parsed<z.infer<T>>> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return { ok: false, response: apiError(c, "bad_request", "Request body must be valid JSON") };
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return {
+      ok: false,
+      response: apiError(c, "validation_failed", "Request body is invalid", validationIssues(result.error)),
+    };
+  }
+  return { ok: true, data: result.data };
+}
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+export interface Page {
+  limit: number | null;   // null: everything after offset
+  offset: number;
+}
+
+/**
+ * ?limit and ?offset from the query string
+ */
+export function readPage(c: Context, defaultLimit: number | null = null): Parsed<Page> {
+  const result = PageQuery.safeParse({ limit: c.req.query("limit"), offset: c.req.query("offset") });
+  if (!result.success) {
+    return {
+      ok: false,
+      response: apiError(c, "bad_request", "Invalid pagination parameters", validationIssues(result.error)),
+    };
+  }
+  return { ok: true, data: { limit: result.data.limit ?? defaultLimit, offset: result.data.offset ?? 0 } };
+}
+
+/**
+ * Set the pagination headers for a list of `total` items
+ */
+export function setPageHeaders(c: Context, page: Page, total: number): void {
+  c.header("X-Total-Count", String(total));
+  if (page.limit === null) return;
+
+  const linkTo = (offset: number) => {
+    const url = new URL(c.req.url);
+    url.searchParams.set("limit", String(page.limit));
+    url.searchParams.set("offset", String(offset));
+    return `<${url.pathname}${url.search}>`;
+  };
+  const links: string[] = [];
+  if (page.offset + page.limit < total) {
+    links.push(`${linkTo(page.offset + page.limit)}; rel="next"`);
+  }
+  if (page.offset > 0) {
+    links.push(`${linkTo(Math.max(page.offset - page.limit, 0))}; rel="prev"`);
+  }
+  if (links.length > 0) {
+    c.header("Link", links.join(", "));
+  }
+}
+
+/**
+ * One page of a list, with the pagination headers set
+ */
+export function paginate<T>(c: Context, items: T[], page: Page): T[] {
+  setPageHeaders(c, page, items.length);
+  return page.limit === null
+    ? items.slice(page.offset)
+    : items.slice(page.offset, page.offset + page.limit);
+}
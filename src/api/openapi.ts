@@ -0,0 +1,211 @@
+/**
+ * OpenAPI Document
+ *
+ * Every REST route with the zod schemas of its query, body and response,
+ * turned into an OpenAPI 3.1 document (served at /api/openapi.json). The
+ * schemas are the ones the routes validate with, so the document can't drift
+ * from what the server accepts; a test checks that every registered route is
+ * listed here.
+ */
+
+import { z } from "zod";
+import { VERSION } from "../index.js";
+import {
+  apiSchemas,
+  MAX_PAGE_SIZE,
+  PageQuery,
+  TaskListQuery,
+  InsightListQuery,
+  FeedbackListQuery,
+  GraphQuery,
+  TaskCreateBody,
+  TaskUpdateBody,
+  InsightCreateBody,
+  InsightUpdateBody,
+  SessionCreateBody,
+  SessionUpdateBody,
+  RepoContextBody,
+  FeedbackCreateBody,
+  FeedbackUpdateBody,
+  TaskSchema,
+  WorkflowSchema,
+  CommitSchema,
+  InsightSchema,
+  InsightDetailSchema,
+  InsightSearchHitSchema,
+  CreatedInsightSchema,
+  InsightGraphSchema,
+  SessionSchema,
+  StatsSchema,
+  RepoContextSchema,
+  FeedbackSpecSchema,
+  CreatedFeedbackSpecSchema,
+  HistoryEventSchema,
+} from "./schemas.js";
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+export type HttpMethod = "get" | "post" | "patch" | "delete";
+
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;                     // Hono path: /api/tasks/:id
+  operationId: string;              // Method name in generated clients
+  tag: string;
+  summary: string;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  status: 200 | 201 | 204;
+  response?: z.ZodType;             // Omitted for 204 and for documents (/api/openapi.json)
+  stream?: z.ZodType;               // Server-Sent Events: data of each event
+  paged?: boolean;                  // Sets X-Total-Count and Link
+  errors: Array<400 | 404 | 409 | 422>;
+}
+
+const SearchQuery = z.object({ q: z.string().optional().describe("Full-text query (empty returns nothing)") });
+
+export const API_ROUTES: ApiRoute[] = [
+  { method: "get", path: "/api/openapi.json", operationId: "getOpenApiDocument", tag: "meta", summary: "This document", status: 200, errors: [] },
+  { method: "get", path: "/api/stats", operationId: "getStats", tag: "meta", summary: "Dashboard counts", status: 200, response: StatsSchema, errors: [] },
+  { method: "get", path: "/api/workflow", operationId: "getWorkflow", tag: "tasks", summary: "Statuses, transitions and board columns", status: 200, response: WorkflowSchema, errors: [] },
+
+  { method: "get", path: "/api/tasks", operationId: "getTasks", tag: "tasks", summary: "List tasks", query: TaskListQuery, status: 200, response: z.array(TaskSchema), paged: true, errors: [400] },
+  { method: "post", path: "/api/tasks", operationId: "createTask", tag: "tasks", summary: "Create a task (as loop_task_create)", body: TaskCreateBody, status: 201, response: TaskSchema, errors: [400, 409, 422] },
+  { method: "get", path: "/api/tasks/:id", operationId: "getTask", tag: "tasks", summary: "A task and its subtasks", status: 200, response: TaskSchema, errors: [404] },
+  { method: "patch", path: "/api/tasks/:id", operationId: "updateTask", tag: "tasks", summary: "Update a task (as loop_task_update)", body: TaskUpdateBody, status: 200, response: TaskSchema, errors: [400, 404, 422] },
+  { method: "delete", path: "/api/tasks/:id", operationId: "deleteTask", tag: "tasks", summary: "Delete a task without subtasks or dependents", status: 204, errors: [404, 409] },
+  { method: "get", path: "/api/tasks/:id/commits", operationId: "getTaskCommits", tag: "tasks", summary: "Commits that belong to a task", status: 200, response: z.array(CommitSchema), errors: [404] },
+
+  { method: "get", path: "/api/insights", operationId: "getInsights", tag: "insights", summary: "List insights", query: InsightListQuery, status: 200, response: z.array(InsightSchema), paged: true, errors: [400] },
+  { method: "post", path: "/api/insights", operationId: "createInsight", tag: "insights", summary: "Capture an insight (as loop_remember)", body: InsightCreateBody, status: 201, response: CreatedInsightSchema, errors: [400, 422] },
+  { method: "get", path: "/api/insights/search", operationId: "searchInsights", tag: "insights", summary: "Full-text search", query: SearchQuery, status: 200, response: z.array(InsightSearchHitSchema), errors: [] },
+  { method: "get", path: "/api/insights/:id", operationId: "getInsight", tag: "insights", summary: "An insight and its relations", status: 200, response: InsightDetailSchema, errors: [404] },
+  { method: "patch", path: "/api/insights/:id", operationId: "updateInsight", tag: "insights", summary: "Update an insight (as loop_insight_update)", body: InsightUpdateBody, status: 200, response: InsightSchema, errors: [400, 404, 422] },
+  { method: "delete", path: "/api/insights/:id", operationId: "deleteInsight", tag: "insights", summary: "Delete an insight no other insight is superseded by", status: 204, errors: [404, 409] },
+  { method: "get", path: "/api/graph", operationId: "getGraph", tag: "insights", summary: "Knowledge graph: insights, their links, and optionally the tasks that mention them", query: GraphQuery, status: 200, response: InsightGraphSchema, errors: [400] },
+
+  { method: "get", path: "/api/sessions", operationId: "getSessions", tag: "sessions", summary: "List sessions, newest first (20 per page by default)", query: PageQuery, status: 200, response: z.array(SessionSchema), paged: true, errors: [400] },
+  { method: "post", path: "/api/sessions", operationId: "createSession", tag: "sessions", summary: "Record a session under the next number for its date", body: SessionCreateBody, status: 201, response: SessionSchema, errors: [400, 422] },
+  { method: "get", path: "/api/sessions/:id", operationId: "getSession", tag: "sessions", summary: "A session", status: 200, response: SessionSchema, errors: [404] },
+  { method: "patch", path: "/api/sessions/:id", operationId: "updateSession", tag: "sessions", summary: "Update a session", body: SessionUpdateBody, status: 200, response: SessionSchema, errors: [400, 404, 422] },
+  { method: "delete", path: "/api/sessions/:id", operationId: "deleteSession", tag: "sessions", summary: "Delete a session", status: 204, errors: [404] },
+
+  { method: "get", path: "/api/context", operationId: "getContext", tag: "context", summary: "The agent's repo summary, folder structure and suggested actions", status: 200, response: RepoContextSchema, errors: [] },
+  { method: "patch", path: "/api/context", operationId: "updateContext", tag: "context", summary: "Set context keys (as loop_update_summary)", body: RepoContextBody, status: 200, response: RepoContextSchema, errors: [400] },
+  { method: "delete", path: "/api/context/:key", operationId: "deleteContextKey", tag: "context", summary: "Clear a context key", status: 204, errors: [404] },
+
+  { method: "get", path: "/api/feedback", operationId: "getFeedbackSpecs", tag: "feedback", summary: "List feedback specs", query: FeedbackListQuery, status: 200, response: z.array(FeedbackSpecSchema), paged: true, errors: [400] },
+  { method: "post", path: "/api/feedback", operationId: "createFeedbackSpec", tag: "feedback", summary: "Queue feedback (as loop_painpoint)", body: FeedbackCreateBody, status: 201, response: CreatedFeedbackSpecSchema, errors: [400] },
+  { method: "get", path: "/api/feedback/:id", operationId: "getFeedbackSpec", tag: "feedback", summary: "A feedback spec", status: 200, response: FeedbackSpecSchema, errors: [404] },
+  { method: "patch", path: "/api/feedback/:id", operationId: "updateFeedbackSpec", tag: "feedback", summary: "Update a feedback spec", body: FeedbackUpdateBody, status: 200, response: FeedbackSpecSchema, errors: [400, 404] },
+  { method: "delete", path: "/api/feedback/:id", operationId: "deleteFeedbackSpec", tag: "feedback", summary: "Delete a feedback spec", status: 204, errors: [404] },
+
+  { method: "get", path: "/api/events", operationId: "streamEvents", tag: "meta", summary: "Server-Sent Events: a `change` event per recorded event (resume with Last-Event-ID)", status: 200, stream: HistoryEventSchema, errors: [] },
+  { method: "get", path: "/api/history/:id", operationId: "getHistory", tag: "meta", summary: "Audit log of a task, insight, session or context key (50 per page by default)", query: PageQuery, status: 200, response: z.array(HistoryEventSchema), paged: true, errors: [400] },
+];
+
+// =============================================================================
+// Document
+// =============================================================================
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_REF = "#/components/schemas/";
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Malformed or invalid request (bad_request, validation_failed)",
+  404: "Not found (not_found)",
+  409: "Already exists, or still referenced (conflict)",
+  422: "Breaks a workflow, dependency or lifecycle rule (unprocessable)",
+};
+
+/**
+ * JSON Schema of a zod schema: registered schemas become component refs
+ */
+function schemaOf(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const meta = apiSchemas.get(schema);
+  if (meta) return { $ref: `${COMPONENT_REF}${meta.id}` };
+
+  const { $schema: _schema, $defs: _defs, ...json } = z.toJSONSchema(schema, { metadata: apiSchemas, io }) as JsonSchema;
+  return JSON.parse(JSON.stringify(json).replaceAll('"#/$defs/', `"${COMPONENT_REF}`));
+}
+
+function components(): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(apiSchemas, { uri: id => `${COMPONENT_REF}${id}` });
+  return Object.fromEntries(Object.entries(schemas).map(([name, schema]) => {
+    const { $schema: _schema, $id: _id, id: _name, ...json } = schema as JsonSchema;
+    return [name, json];
+  }));
+}
+
+function operation(route: ApiRoute): JsonSchema {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+  const queryParams = Object.entries(route.query?.shape ?? {}).map(([name, schema]) => {
+    const { description, ...json } = schemaOf(schema as z.ZodType, "input");
+    return { name, in: "query", required: false, ...(description ? { description } : {}), schema: json };
+  });
+
+  const headers = route.paged
+    ? { headers: { "X-Total-Count": { $ref: "#/components/headers/X-Total-Count" }, Link: { $ref: "#/components/headers/Link" } } }
+    : {};
+  const success = route.status === 204
+    ? { description: "Deleted" }
+    : route.stream
+    ? {
+        description: `text/event-stream; each event's data is a ${apiSchemas.get(route.stream)?.id} (JSON)`,
+        content: { "text/event-stream": { schema: { type: "string" } } },
+      }
+    : {
+        description: "OK",
+        ...headers,
+        content: { "application/json": { schema: route.response ? schemaOf(route.response, "output") : { type: "object" } } },
+      };
+  const errors = Object.fromEntries(route.errors.map(status => [String(status), {
+    description: ERROR_DESCRIPTIONS[status],
+    content: { "application/json": { schema: { $ref: `${COMPONENT_REF}ApiErrorBody` } } },
+  }]));
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    operationId: route.operationId,
+    ...(pathParams.length + queryParams.length > 0 ? { parameters: [...pathParams, ...queryParams] } : {}),
+    ...(route.body ? {
+      requestBody: { required: true, content: { "application/json": { schema: schemaOf(route.body, "input") } } },
+    } : {}),
+    responses: { [String(route.status)]: success, ...errors },
+  };
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of API_ROUTES) {
+    const openApiPath = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] = { ...paths[openApiPath], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "LoopFlow API",
+      version: VERSION,
+      description: "Tasks, insights, sessions, repo context and feedback of one repo. " +
+        `Errors share one body (ApiErrorBody); lists take limit (max ${MAX_PAGE_SIZE}) and offset.`,
+    },
+    paths,
+    components: {
+      schemas: components(),
+      headers: {
+        "X-Total-Count": { description: "Size of the whole list", schema: { type: "integer" } },
+        Link: { description: "URLs of the next and previous pages (rel=\"next\", rel=\"prev\")", schema: { type: "string" } },
+      },
+    },
+  };
+}
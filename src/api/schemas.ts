@@ -0,0 +1,345 @@
+/**
+ * API Schemas
+ *
+ * Zod schemas for what the REST API accepts and returns. Request bodies wrap
+ * the MCP tools' field shapes (src/mcp/schemas.ts); responses describe the
+ * JSON the routes build from repository records. Every schema registered in
+ * apiSchemas becomes a named component of the OpenAPI document, and from
+ * there a type in the UI client.
+ */
+
+import { z } from "zod";
+import {
+  TASK_CREATE_FIELDS,
+  TASK_UPDATE_FIELDS,
+  INSIGHT_CREATE_FIELDS,
+  INSIGHT_UPDATE_FIELDS,
+  SESSION_FIELDS,
+  REPO_CONTEXT_FIELDS,
+  FEEDBACK_TYPES,
+  FEEDBACK_SEVERITIES,
+  FEEDBACK_STATUSES,
+  FEEDBACK_CREATE_FIELDS,
+  FEEDBACK_UPDATE_FIELDS,
+} from "../mcp/schemas.js";
+import { INSIGHT_RELATIONS } from "../db/repositories/insight-links.js";
+import { EVENT_ORIGINS } from "../db/repositories/events.js";
+
+export interface ApiSchemaMeta {
+  id: string;               // Component name
+  description?: string;
+}
+
+export const apiSchemas = z.registry<ApiSchemaMeta>();
+
+// =============================================================================
+// Errors and Pagination
+// =============================================================================
+
+export const API_ERROR_CODES = [
+  "bad_request",
+  "validation_failed",
+  "not_found",
+  "conflict",
+  "unprocessable",
+  "internal",
+] as const;
+
+export const ApiErrorBodySchema = z.object({
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z.unknown().optional().describe("Validation issues, missing requirements, blocking tasks..."),
+  }),
+}).register(apiSchemas, { id: "ApiErrorBody", description: "Body of every error response" });
+
+export const MAX_PAGE_SIZE = 500;
+
+export const PageQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe("Page size"),
+  offset: z.coerce.number().int().min(0).optional().describe("Items to skip"),
+});
+
+// =============================================================================
+// Request Bodies
+// =============================================================================
+
+// The MCP tools' fields, unknown fields rejected
+export const TaskCreateBody = z.strictObject(TASK_CREATE_FIELDS)
+  .register(apiSchemas, { id: "TaskCreate" });
+export const TaskUpdateBody = z.strictObject(TASK_UPDATE_FIELDS)
+  .register(apiSchemas, { id: "TaskUpdate" });
+export const InsightCreateBody = z.strictObject(INSIGHT_CREATE_FIELDS)
+  .register(apiSchemas, { id: "InsightCreate" });
+export const InsightUpdateBody = z.strictObject(INSIGHT_UPDATE_FIELDS)
+  .register(apiSchemas, { id: "InsightUpdate" });
+export const SessionCreateBody = z.strictObject({ ...SESSION_FIELDS, summary: z.string().min(1) })
+  .register(apiSchemas, { id: "SessionCreate" });
+export const SessionUpdateBody = z.strictObject(SESSION_FIELDS).omit({ date: true })
+  .register(apiSchemas, { id: "SessionUpdate" });
+export const RepoContextBody = z.strictObject(REPO_CONTEXT_FIELDS)
+  .register(apiSchemas, { id: "RepoContextUpdate" });
+export const FeedbackCreateBody = z.strictObject(FEEDBACK_CREATE_FIELDS)
+  .register(apiSchemas, { id: "FeedbackCreate" });
+export const FeedbackUpdateBody = z.strictObject(FEEDBACK_UPDATE_FIELDS)
+  .register(apiSchemas, { id: "FeedbackUpdate" });
+
+export const TaskListQuery = PageQuery.extend({
+  status: z.string().optional(),
+  priority: z.string().optional(),
+  tree: z.enum(["true", "false"]).optional().describe("Nest subtasks under their parents (pages are of top-level tasks)"),
+});
+
+export const InsightListQuery = PageQuery.extend({
+  type: z.string().optional(),
+  status: z.string().optional(),
+});
+
+export const FeedbackListQuery = PageQuery.extend({
+  type: z.enum(FEEDBACK_TYPES).optional(),
+  status: z.enum(FEEDBACK_STATUSES).optional(),
+});
+
+export const GraphQuery = z.object({
+  tag: z.string().optional(),
+  type: z.string().optional(),
+  status: z.string().optional(),
+  tasks: z.enum(["true", "false"]).optional().describe("Add the tasks that mention the shown insights"),
+});
+
+// =============================================================================
+// Tasks
+// =============================================================================
+
+export const AcceptanceCriterionSchema = z.object({
+  text: z.string(),
+  met: z.boolean(),
+  evidence: z.string().nullable().describe("Test name, commit, or note on how it was verified"),
+  verified_at: z.string().nullable(),
+}).register(apiSchemas, { id: "AcceptanceCriterion" });
+
+export const CriteriaProgressSchema = z.object({
+  total: z.number(),
+  met: z.number(),
+  percent: z.number(),
+}).register(apiSchemas, { id: "CriteriaProgress" });
+
+export const TaskProgressSchema = z.object({
+  total: z.number(),
+  done: z.number(),
+  percent: z.number(),
+}).register(apiSchemas, { id: "TaskProgress", description: "Rolled up from subtasks" });
+
+export const TaskTestsSchema = z.object({
+  test_file: z.string(),
+  summary: z.string().describe("3/5 tests passing"),
+  passed: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  failing: z.array(z.string()),
+  recorded_at: z.string(),
+}).register(apiSchemas, { id: "TaskTests", description: "Latest recorded run of a task's test file" });
+
+const TaskFields = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  summary: z.string().nullable(),
+  status: z.string(),
+  status_reason: z.string().nullable().describe("Reason given with the last status change"),
+  priority: z.string(),
+  depends_on: z.array(z.string()).nullable(),
+  acceptance_criteria: z.array(AcceptanceCriterionSchema).nullable(),
+  criteria_progress: CriteriaProgressSchema,
+  test_file: z.string().nullable(),
+  tests: TaskTestsSchema.nullable().describe("null until a report covering test_file is recorded"),
+  notes: z.string().nullable(),
+  parent_id: z.string().nullable(),
+  progress: TaskProgressSchema.nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+type TaskJson = z.infer<typeof TaskFields> & { children?: TaskJson[] };
+
+export const TaskSchema: z.ZodType<TaskJson> = TaskFields.extend({
+  children: z.lazy(() => z.array(TaskSchema)).optional().describe("Subtasks (GET /api/tasks/:id, or ?tree=true)"),
+}).register(apiSchemas, { id: "Task" });
+
+export const WorkflowSchema = z.object({
+  statuses: z.array(z.string()),
+  columns: z.array(z.string()).describe("Kanban columns, in order"),
+  transitions: z.record(z.string(), z.array(z.string())).describe("status -> statuses it may move to"),
+  requirements: z.record(z.string(), z.array(z.string())).describe("status -> what entering it needs (e.g. reason)"),
+  priorities: z.array(z.string()),
+}).register(apiSchemas, { id: "Workflow", description: "Task state machine from .loop-flow/config.json" });
+
+export const CommitSchema = z.object({
+  sha: z.string(),
+  subject: z.string(),
+  author: z.string(),
+  date: z.string(),
+  task_ids: z.array(z.string()).describe("From the message, or the branch it was made on"),
+  session_id: z.string().nullable().optional().describe("Session that recorded it (task commits)"),
+}).register(apiSchemas, { id: "Commit" });
+
+// =============================================================================
+// Insights
+// =============================================================================
+
+export const InsightSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  summary: z.string().nullable(),
+  type: z.string(),
+  status: z.string(),
+  superseded_by: z.string().nullable().describe("Set when status is superseded"),
+  tags: z.array(z.string()).nullable(),
+  links: z.array(z.string()).nullable(),
+  source: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).register(apiSchemas, { id: "Insight" });
+
+export const InsightRelationSchema = z.object({
+  id: z.string().describe("The other insight"),
+  relation: z.enum(INSIGHT_RELATIONS),
+  direction: z.enum(["outgoing", "incoming"]),
+  note: z.string().nullable(),
+}).register(apiSchemas, { id: "InsightRelation" });
+
+export const InsightDetailSchema = InsightSchema.extend({
+  relations: z.array(InsightRelationSchema),
+}).register(apiSchemas, { id: "InsightDetail" });
+
+export const InsightSearchHitSchema = InsightSchema.extend({
+  rank: z.number().describe("FTS5 bm25 score (lower is better)"),
+}).register(apiSchemas, { id: "InsightSearchHit" });
+
+export const PossibleDuplicateSchema = z.object({
+  id: z.string(),
+  summary: z.string(),
+  score: z.number().describe("Word overlap, 0-1"),
+}).register(apiSchemas, { id: "PossibleDuplicate" });
+
+export const CreatedInsightSchema = InsightSchema.extend({
+  possible_duplicates: z.array(PossibleDuplicateSchema),
+}).register(apiSchemas, { id: "CreatedInsight" });
+
+export const GraphNodeSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["insight", "task"]),
+  label: z.string().describe("Insight summary, or task title"),
+  type: z.string().nullable().describe("Insight type (null for tasks)"),
+  status: z.string(),
+  tags: z.array(z.string()),
+  links: z.number().describe("Insight links in and out, counted over the whole graph (0: orphaned)"),
+}).register(apiSchemas, { id: "GraphNode" });
+
+export const GraphEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  relation: z.enum([...INSIGHT_RELATIONS, "references"]).describe("references: a task mentions the insight"),
+  note: z.string().nullable(),
+}).register(apiSchemas, { id: "GraphEdge" });
+
+export const InsightGraphSchema = z.object({
+  nodes: z.array(GraphNodeSchema),
+  edges: z.array(GraphEdgeSchema),
+}).register(apiSchemas, { id: "InsightGraph" });
+
+// =============================================================================
+// Sessions, Context, Feedback, History
+// =============================================================================
+
+export const SessionSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  session_number: z.number(),
+  task_id: z.string().nullable(),
+  task_type: z.string().nullable(),
+  task_title: z.string().nullable(),
+  outcome: z.string().nullable(),
+  summary: z.string(),
+  learnings: z.string().nullable(),
+  files_changed: z.array(z.string()).nullable(),
+  insights_added: z.array(z.string()).nullable(),
+  git_branch: z.string().nullable(),
+  start_commit: z.string().nullable().describe("HEAD at loop_orient"),
+  end_commit: z.string().nullable().describe("HEAD at loop_handoff"),
+  commits: z.array(CommitSchema),
+  reserved_at: z.string().nullable().describe("Set while the session is open (loop_orient until loop_handoff)"),
+  created_at: z.string(),
+}).register(apiSchemas, { id: "Session" });
+
+export const SessionSummarySchema = SessionSchema.pick({
+  id: true,
+  date: true,
+  session_number: true,
+  task_id: true,
+  task_title: true,
+  outcome: true,
+  summary: true,
+  created_at: true,
+}).register(apiSchemas, { id: "SessionSummary", description: "Summary cut to sessions.summary_chars" });
+
+export const StatsSchema = z.object({
+  tasks: z.object({
+    total: z.number(),
+    todo: z.number(),
+    in_progress: z.number(),
+    done: z.number(),
+    blocked: z.number(),
+    by_status: z.record(z.string(), z.number()),
+  }),
+  insights: z.object({
+    total: z.number(),
+    by_type: z.record(z.string(), z.number()),
+  }),
+  sessions: z.object({
+    total: z.number(),
+    recent: z.array(SessionSummarySchema),
+  }),
+}).register(apiSchemas, { id: "Stats" });
+
+export const RepoContextEntrySchema = z.object({
+  key: z.string(),
+  value: z.string(),
+  updated_at: z.string(),
+  updated_by_session: z.string().nullable(),
+}).register(apiSchemas, { id: "RepoContextEntry" });
+
+export const RepoContextSchema = z.object(
+  Object.fromEntries(Object.keys(REPO_CONTEXT_FIELDS).map(key => [key, RepoContextEntrySchema.nullable()]))
+).register(apiSchemas, { id: "RepoContext", description: "Each key, or null when it isn't set" });
+
+export const FeedbackSpecSchema = z.object({
+  id: z.string(),
+  type: z.enum(FEEDBACK_TYPES),
+  title: z.string(),
+  description: z.string(),
+  context_summary: z.string().nullable().describe("Sanitized context"),
+  severity: z.enum(FEEDBACK_SEVERITIES),
+  status: z.enum(FEEDBACK_STATUSES),
+  consent_given_at: z.string(),
+  shared_at: z.string().nullable(),
+  github_issue_url: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).register(apiSchemas, { id: "FeedbackSpec" });
+
+export const CreatedFeedbackSpecSchema = FeedbackSpecSchema.extend({
+  sanitization_warnings: z.array(z.string()),
+}).register(apiSchemas, { id: "CreatedFeedbackSpec" });
+
+export const HistoryEventSchema = z.object({
+  id: z.number(),
+  entity_type: z.string().describe("task | insight | session | repo_context | feedback"),
+  entity_id: z.string(),
+  action: z.string().describe("create | update | delete | commit"),
+  changes: z.record(z.string(), z.unknown()).describe("Field -> { from, to }; { commit, subject } for commits"),
+  session_id: z.string().nullable(),
+  origin: z.enum(EVENT_ORIGINS),
+  created_at: z.string(),
+}).register(apiSchemas, { id: "HistoryEvent" });
@@ -11,23 +11,68 @@
 
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { streamSSE } from "hono/streaming";
 import { serve, type ServerType } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
 import * as path from "path";
 import * as fs from "fs";
-import { initializeDatabase, type LoopFlowDatabase } from "../db/database.js";
+import {
+  initializeDatabase,
+  getPrefixRegistry,
+  createTask,
+  updateTask,
+  createInsight,
+  updateInsight,
+  deleteTask,
+  deleteInsight,
+  type LoopFlowDatabase,
+} from "../db/database.js";
+import type { TaskRecord } from "../db/repositories/tasks.js";
+import type { InsightRecord } from "../db/repositories/insights.js";
+import type { SessionRecord } from "../db/repositories/sessions.js";
+import type { ContextKey } from "../db/repositories/repo-context.js";
+import type { FeedbackSpecRecord } from "../db/repositories/feedback-specs.js";
+import type { EventRecord } from "../db/repositories/events.js";
+import { REPO_CONTEXT_FIELDS } from "../mcp/schemas.js";
+import {
+  TaskCreateBody,
+  TaskUpdateBody,
+  InsightCreateBody,
+  InsightUpdateBody,
+  SessionCreateBody,
+  SessionUpdateBody,
+  RepoContextBody,
+  FeedbackCreateBody,
+  FeedbackUpdateBody,
+  FeedbackListQuery,
+  GraphQuery,
+} from "./schemas.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { apiError, refusal, validationIssues, readBody, readPage, setPageHeaders, paginate } from "./http.js";
+import { computeProgress, buildTaskTree, type TaskProgress, type TaskTreeNode } from "../rules/subtasks.js";
+import { boardColumns, allowedTargets } from "../rules/workflow.js";
+import { parseCriteria, criteriaProgress } from "../rules/criteria.js";
+import { splitTaskTitle } from "../rules/summarization.js";
+import { prepareFeedbackContext } from "../rules/sanitization.js";
+import { taskTestStatus } from "../rules/test-report.js";
+import { linkCommits, parseLinkedCommits, mergeCommits } from "../rules/commits.js";
+import { getCommits } from "../git/adapter.js";
+import { extractEntityIds } from "../rules/ids.js";
+import { buildInsightGraph } from "../rules/graph.js";
 
 export interface ServerOptions {
   port: number;
+  host?: string;      // Interface to listen on (default: 127.0.0.1, this machine only)
   repoPath: string;
   staticDir?: string; // Path to built UI files (for production)
   managed?: boolean;  // If true, enable auto-shutdown (MCP mode)
-  timeoutMs?: number; // Auto-shutdown timeout (default: 30 min)
+  timeoutMs?: number; // Auto-shutdown timeout (default: ui.timeout_minutes from config, 30)
 }
 
 export interface ManagedServer {
   url: string;
   port: number;
+  reused: boolean;    // The server already running for this repo and port was kept
   stop: () => void;
 }
 
@@ -35,25 +80,68 @@ export interface ManagedServer {
 let managedServerInstance: {
   server: ServerType;
   port: number;
+  repoPath: string;
   timeoutId: NodeJS.Timeout | null;
   db: LoopFlowDatabase;
+  streams: AbortController;  // Ends open /api/events streams
 } | null = null;
 
-const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+// The API has no authentication, so it only listens on loopback unless told otherwise
+const DEFAULT_HOST = "127.0.0.1";
+
+// The built UI is served from the API's own origin; the Vite dev server
+// proxies /api, so its origin is the only other one the UI runs on
+const UI_DEV_ORIGINS = ["http://localhost:5173", "http://127.0.0.1:5173"];
+
+// Max commits searched in git log for one task
+const TASK_COMMITS_LIMIT = 100;
+
+// Page sizes when ?limit is not given (other lists return everything)
+const DEFAULT_SESSION_PAGE = 20;
+const DEFAULT_HISTORY_PAGE = 50;
+
+// Built on first request; the same for every repo
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | null = null;
 
-export function createApiServer(db: LoopFlowDatabase) {
+const CONTEXT_KEYS = Object.keys(REPO_CONTEXT_FIELDS) as ContextKey[];
+
+// /api/events: how often the events table is polled, and how long a quiet
+// stream waits before a comment line keeps proxies from closing it
+const EVENT_POLL_MS = 1000;
+const EVENT_HEARTBEAT_MS = 15_000;
+
+/**
+ * API routes over a repo's database. repoPath enables the git-backed routes.
+ * Writes go through the same schemas and rules as the MCP tools. Aborting
+ * signal ends any open /api/events streams.
+ */
+export function createApiServer(db: LoopFlowDatabase, repoPath?: string, signal?: AbortSignal) {
   const app = new Hono();
 
-  // CORS for development
-  app.use("/api/*", cors());
+  // CORS for the Vite dev server only
+  app.use("/api/*", cors({ origin: UI_DEV_ORIGINS, exposeHeaders: ["X-Total-Count", "Link"] }));
+
+  // Unexpected failures are logged here; clients only learn that one happened
+  app.onError((err, c) => {
+    console.error(`[LoopFlow UI] ${c.req.method} ${c.req.path} failed:`, err);
+    return apiError(c, "internal", "Internal error");
+  });
+  app.notFound((c) => apiError(c, "not_found", `No route for ${c.req.method} ${c.req.path}`));
 
   // API Routes
 
+  // OpenAPI 3.1 description of these routes
+  app.get("/api/openapi.json", (c) => {
+    openApiDocument ??= buildOpenApiDocument();
+    return c.json(openApiDocument);
+  });
+
   // Stats endpoint for dashboard
   app.get("/api/stats", (c) => {
     const tasks = db.tasks.findAll();
     const insights = db.insights.findAll();
     const sessions = db.sessions.getRecent(5);
+    const summaryChars = db.config.sessions.summary_chars;
 
     const taskStats = {
       total: tasks.length,
@@ -61,6 +149,10 @@ export function createApiServer(db: LoopFlowDatabase) {
       in_progress: tasks.filter(t => t.status === "IN_PROGRESS").length,
       done: tasks.filter(t => t.status === "DONE").length,
       blocked: tasks.filter(t => t.status === "BLOCKED").length,
+      by_status: tasks.reduce((acc, t) => {
+        acc[t.status] = (acc[t.status] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
     };
 
     const insightsByType = insights.reduce((acc, i) => {
@@ -83,15 +175,39 @@ export function createApiServer(db: LoopFlowDatabase) {
           task_id: s.task_id,
           task_title: s.task_title,
           outcome: s.outcome,
-          summary: s.summary.slice(0, 200) + (s.summary.length > 200 ? "..." : ""),
+          summary: s.summary.slice(0, summaryChars) + (s.summary.length > summaryChars ? "..." : ""),
           created_at: s.created_at,
         })),
       },
     });
   });
 
-  // Tasks
+  // Tasks: JSON columns parsed, plus progress rolled up from subtasks and the latest test run
+  const taskJson = (t: TaskRecord, progress: Map<string, TaskProgress>) => ({
+    ...t,
+    depends_on: t.depends_on ? JSON.parse(t.depends_on) : null,
+    acceptance_criteria: t.acceptance_criteria ? parseCriteria(t.acceptance_criteria) : null,
+    criteria_progress: criteriaProgress(parseCriteria(t.acceptance_criteria)),
+    progress: progress.get(t.id) ?? null,
+    tests: t.test_file ? taskTestStatus(t.test_file, db.testResults.find(t.id)) : null,
+  });
+  const currentTaskJson = (t: TaskRecord) => taskJson(t, computeProgress(db.tasks.findAll()));
+
+  // Task workflow: statuses, allowed transitions and Kanban columns from config.json
+  app.get("/api/workflow", (c) => {
+    const workflow = db.config.tasks;
+    return c.json({
+      statuses: workflow.statuses,
+      columns: boardColumns(workflow),
+      transitions: Object.fromEntries(workflow.statuses.map(s => [s, allowedTargets(workflow, s)])),
+      requirements: workflow.requirements,
+      priorities: workflow.priorities,
+    });
+  });
+
   app.get("/api/tasks", (c) => {
+    const page = readPage(c);
+    if (!page.ok) return page.response;
     const status = c.req.query("status");
     const priority = c.req.query("priority");
     
@@ -101,62 +217,114 @@ export function createApiServer(db: LoopFlowDatabase) {
     };
     
     const tasks = db.tasks.findAll(filters);
-    return c.json(tasks.map(t => ({
-      ...t,
-      depends_on: t.depends_on ? JSON.parse(t.depends_on) : null,
-      acceptance_criteria: t.acceptance_criteria ? JSON.parse(t.acceptance_criteria) : null,
-    })));
+    const progress = computeProgress(db.tasks.findAll());
+
+    // ?tree=true nests subtasks under their parents (pages are of top-level tasks)
+    if (c.req.query("tree") === "true") {
+      const toNode = (node: TaskTreeNode<TaskRecord>): unknown => ({
+        ...taskJson(node.task, progress),
+        children: node.children.map(toNode),
+      });
+      return c.json(paginate(c, buildTaskTree(tasks), page.data).map(toNode));
+    }
+    return c.json(paginate(c, tasks, page.data).map(t => taskJson(t, progress)));
   });
 
   app.get("/api/tasks/:id", (c) => {
     const task = db.tasks.findById(c.req.param("id"));
     if (!task) {
-      return c.json({ error: "Task not found" }, 404);
+      return apiError(c, "not_found", `Task ${c.req.param("id")} not found`);
     }
+    const progress = computeProgress(db.tasks.findAll());
     return c.json({
-      ...task,
-      depends_on: task.depends_on ? JSON.parse(task.depends_on) : null,
-      acceptance_criteria: task.acceptance_criteria ? JSON.parse(task.acceptance_criteria) : null,
+      ...taskJson(task, progress),
+      children: db.tasks.findChildren(task.id).map(t => taskJson(t, progress)),
     });
   });
 
+  // Same checks as loop_task_create
+  app.post("/api/tasks", async (c) => {
+    const body = await readBody(c, TaskCreateBody);
+    if (!body.ok) return body.response;
+    const result = createTask(db, body.data);
+    if (!result.ok) return refusal(c, result);
+    const { task } = result;
+    return c.json(currentTaskJson(task), 201);
+  });
+
+  // Same checks as loop_task_update
   app.patch("/api/tasks/:id", async (c) => {
     const id = c.req.param("id");
-    const updates = await c.req.json();
-    
-    // Convert arrays back to JSON strings for storage
-    if (updates.depends_on) {
-      updates.depends_on = JSON.stringify(updates.depends_on);
+    if (!db.tasks.findById(id)) {
+      return apiError(c, "not_found", `Task ${id} not found`);
     }
-    if (updates.acceptance_criteria) {
-      updates.acceptance_criteria = JSON.stringify(updates.acceptance_criteria);
+    const body = await readBody(c, TaskUpdateBody);
+    if (!body.ok) return body.response;
+
+    const result = updateTask(db, id, body.data);
+    if (!result.ok) return refusal(c, result);
+    const { task } = result;
+    return c.json(currentTaskJson(task));
+  });
+
+  app.delete("/api/tasks/:id", (c) => {
+    const id = c.req.param("id");
+    try {
+      if (!deleteTask(db, id)) {
+        return apiError(c, "not_found", `Task ${id} not found`);
+      }
+    } catch (err) {
+      return apiError(c, "conflict", (err as Error).message);
     }
-    
-    const task = db.tasks.update(id, updates);
+    return c.body(null, 204);
+  });
+
+  // Commits for a task: recorded on sessions (message or branch named after it),
+  // plus any commit in git whose message mentions it
+  app.get("/api/tasks/:id/commits", (c) => {
+    const task = db.tasks.findById(c.req.param("id"));
     if (!task) {
-      return c.json({ error: "Task not found" }, 404);
+      return apiError(c, "not_found", `Task ${c.req.param("id")} not found`);
     }
-    return c.json({
-      ...task,
-      depends_on: task.depends_on ? JSON.parse(task.depends_on) : null,
-      acceptance_criteria: task.acceptance_criteria ? JSON.parse(task.acceptance_criteria) : null,
-    });
+
+    const recorded = db.sessions.findByCommitTask(task.id).flatMap(s =>
+      parseLinkedCommits(s.commits)
+        .filter(commit => commit.task_ids.includes(task.id))
+        .map(commit => ({ ...commit, session_id: s.id }))
+    );
+    // git's --grep matches substrings (LF-04 in LF-042): keep real mentions only
+    const fromLog = repoPath
+      ? linkCommits(getCommits(repoPath, { all: true, grep: task.id, limit: TASK_COMMITS_LIMIT }) ?? [], null, getPrefixRegistry(db))
+          .filter(commit => commit.task_ids.includes(task.id))
+      : [];
+
+    const sessionBySha = new Map(recorded.map(commit => [commit.sha, commit.session_id]));
+    return c.json(mergeCommits(recorded, fromLog).map(commit => ({
+      ...commit,
+      session_id: sessionBySha.get(commit.sha) ?? null,
+    })));
+  });
+
+  // Insights: JSON columns parsed
+  const insightJson = (i: InsightRecord) => ({
+    ...i,
+    tags: i.tags ? JSON.parse(i.tags) : null,
+    links: i.links ? JSON.parse(i.links) : null,
   });
 
-  // Insights
   app.get("/api/insights", (c) => {
+    const page = readPage(c);
+    if (!page.ok) return page.response;
     const type = c.req.query("type");
+    const status = c.req.query("status");
     
     const filters = {
       types: type ? [type] : undefined,
+      statuses: status ? [status] : undefined,
     };
     
     const insights = db.insights.findAll(filters);
-    return c.json(insights.map(i => ({
-      ...i,
-      tags: i.tags ? JSON.parse(i.tags) : null,
-      links: i.links ? JSON.parse(i.links) : null,
-    })));
+    return c.json(paginate(c, insights, page.data).map(insightJson));
   });
 
   app.get("/api/insights/search", (c) => {
@@ -166,56 +334,331 @@ export function createApiServer(db: LoopFlowDatabase) {
     }
     
     const insights = db.insights.search(query);
-    return c.json(insights.map(i => ({
-      ...i,
-      tags: i.tags ? JSON.parse(i.tags) : null,
-      links: i.links ? JSON.parse(i.links) : null,
-    })));
+    return c.json(insights.map(insightJson));
   });
 
   app.get("/api/insights/:id", (c) => {
     const insight = db.insights.findById(c.req.param("id"));
     if (!insight) {
-      return c.json({ error: "Insight not found" }, 404);
+      return apiError(c, "not_found", `Insight ${c.req.param("id")} not found`);
     }
     return c.json({
-      ...insight,
-      tags: insight.tags ? JSON.parse(insight.tags) : null,
-      links: insight.links ? JSON.parse(insight.links) : null,
+      ...insightJson(insight),
+      relations: db.insightLinks.findForInsights([insight.id]).get(insight.id) || [],
     });
   });
 
-  // Sessions
+  // Same as loop_remember: flags likely duplicates, but the insight is created either way
+  app.post("/api/insights", async (c) => {
+    const body = await readBody(c, InsightCreateBody);
+    if (!body.ok) return body.response;
+    const result = createInsight(db, body.data);
+    if (!result.ok) return refusal(c, result);
+    const { insight, duplicates } = result;
+    return c.json({
+      ...insightJson(insight),
+      possible_duplicates: duplicates.map(d => ({ id: d.id, summary: d.summary, score: d.score })),
+    }, 201);
+  });
+
+  // Same checks as loop_insight_update
+  app.patch("/api/insights/:id", async (c) => {
+    const id = c.req.param("id");
+    if (!db.insights.findById(id)) {
+      return apiError(c, "not_found", `Insight ${id} not found`);
+    }
+    const body = await readBody(c, InsightUpdateBody);
+    if (!body.ok) return body.response;
+
+    const result = updateInsight(db, id, body.data);
+    if (!result.ok) return refusal(c, result);
+    return c.json(insightJson(result.insight));
+  });
+
+  app.delete("/api/insights/:id", (c) => {
+    const id = c.req.param("id");
+    try {
+      if (!deleteInsight(db, id)) {
+        return apiError(c, "not_found", `Insight ${id} not found`);
+      }
+    } catch (err) {
+      return apiError(c, "conflict", (err as Error).message);
+    }
+    return c.body(null, 204);
+  });
+
+  // Knowledge graph: insights and their links, plus (?tasks=true) the tasks whose
+  // title, description, notes, criteria or status reason mention an insight ID
+  app.get("/api/graph", (c) => {
+    const query = GraphQuery.safeParse(c.req.query());
+    if (!query.success) {
+      return apiError(c, "bad_request", "Invalid filters", validationIssues(query.error));
+    }
+
+    const { tasks: withTasks, ...filters } = query.data;
+    const insights = db.insights.findAll().map(i => ({ ...i, tags: i.tags ? JSON.parse(i.tags) as string[] : [] }));
+    const registry = getPrefixRegistry(db);
+    const tasks = withTasks === "true"
+      ? db.tasks.findAll().map(t => ({
+          id: t.id,
+          title: t.title,
+          status: t.status,
+          insight_ids: extractEntityIds(
+            [t.title, t.description, t.notes, t.acceptance_criteria, t.status_reason].filter(Boolean).join("\n"),
+            registry,
+            "insight"
+          ),
+        }))
+      : [];
+    return c.json(buildInsightGraph(insights, db.insightLinks.findAll(), filters, tasks));
+  });
+
+  // Sessions: JSON columns parsed
+  const sessionJson = (s: SessionRecord) => ({
+    ...s,
+    files_changed: s.files_changed ? JSON.parse(s.files_changed) : null,
+    insights_added: s.insights_added ? JSON.parse(s.insights_added) : null,
+    commits: parseLinkedCommits(s.commits),
+  });
+
+  // Task fields of a session: the title (and its [TYPE] prefix) defaults to the task's
+  const sessionTask = (taskId: string | null | undefined, taskTitle: string | null | undefined) => {
+    const title = taskTitle ?? (taskId ? db.tasks.findById(taskId)?.title ?? null : null);
+    const split = title ? splitTaskTitle(title) : null;
+    return { task_id: taskId ?? null, task_type: split?.type ?? null, task_title: split?.title ?? null };
+  };
+
   app.get("/api/sessions", (c) => {
-    const limitParam = c.req.query("limit");
-    const limit = limitParam ? parseInt(limitParam, 10) : 20;
-    
-    const sessions = db.sessions.findAll(undefined, { limit });
-    return c.json(sessions);
+    const page = readPage(c, DEFAULT_SESSION_PAGE);
+    if (!page.ok) return page.response;
+
+    setPageHeaders(c, page.data, db.sessions.count());
+    const sessions = db.sessions.findAll(undefined, { limit: page.data.limit ?? undefined, offset: page.data.offset });
+    return c.json(sessions.map(sessionJson));
   });
 
   app.get("/api/sessions/:id", (c) => {
     const session = db.sessions.findById(c.req.param("id"));
     if (!session) {
-      return c.json({ error: "Session not found" }, 404);
+      return apiError(c, "not_found", `Session ${c.req.param("id")} not found`);
+    }
+    return c.json(sessionJson(session));
+  });
+
+  app.post("/api/sessions", async (c) => {
+    const body = await readBody(c, SessionCreateBody);
+    if (!body.ok) return body.response;
+    const { date = new Date().toISOString().split("T")[0], task_id, task_title, outcome, summary, learnings } = body.data;
+
+    if (task_id && !db.tasks.findById(task_id)) {
+      return apiError(c, "unprocessable", `Task ${task_id} not found`);
+    }
+    const session = db.sessions.insertWithNextNumber({
+      date,
+      ...sessionTask(task_id, task_title),
+      outcome: outcome ?? "COMPLETE",
+      summary,
+      learnings: learnings ?? null,
+      files_changed: null,
+      insights_added: null,
+    });
+    return c.json(sessionJson(session), 201);
+  });
+
+  app.patch("/api/sessions/:id", async (c) => {
+    const id = c.req.param("id");
+    const existing = db.sessions.findById(id);
+    if (!existing) {
+      return apiError(c, "not_found", `Session ${id} not found`);
+    }
+    const body = await readBody(c, SessionUpdateBody);
+    if (!body.ok) return body.response;
+    const { task_id, task_title, outcome, summary, learnings } = body.data;
+    if (Object.keys(body.data).length === 0) {
+      return apiError(c, "bad_request", "No changes specified");
+    }
+
+    if (task_id && !db.tasks.findById(task_id)) {
+      return apiError(c, "unprocessable", `Task ${task_id} not found`);
+    }
+    const changes: Partial<SessionRecord> = {};
+    if (task_id !== undefined || task_title !== undefined) {
+      Object.assign(changes, sessionTask(task_id !== undefined ? task_id : existing.task_id, task_title));
+    }
+    if (outcome !== undefined) changes.outcome = outcome;
+    if (summary !== undefined) changes.summary = summary;
+    if (learnings !== undefined) changes.learnings = learnings;
+
+    return c.json(sessionJson(db.sessions.update(id, changes)!));
+  });
+
+  app.delete("/api/sessions/:id", (c) => {
+    const id = c.req.param("id");
+    if (!db.sessions.delete(id)) {
+      return apiError(c, "not_found", `Session ${id} not found`);
+    }
+    return c.body(null, 204);
+  });
+
+  // Repo context: the agent's summary, folder structure and suggested actions
+  const contextJson = () => Object.fromEntries(CONTEXT_KEYS.map(key => [key, db.repoContext.get(key) ?? null]));
+
+  app.get("/api/context", (c) => c.json(contextJson()));
+
+  app.patch("/api/context", async (c) => {
+    const body = await readBody(c, RepoContextBody);
+    if (!body.ok) return body.response;
+    if (Object.keys(body.data).length === 0) {
+      return apiError(c, "validation_failed", `Provide at least one of: ${CONTEXT_KEYS.join(", ")}`);
+    }
+    db.repoContext.setMultiple(body.data);
+    return c.json(contextJson());
+  });
+
+  app.delete("/api/context/:key", (c) => {
+    const key = c.req.param("key") as ContextKey;
+    if (!CONTEXT_KEYS.includes(key)) {
+      return apiError(c, "not_found", `Unknown context key "${key}". Keys: ${CONTEXT_KEYS.join(", ")}`);
+    }
+    if (!db.repoContext.delete(key)) {
+      return apiError(c, "not_found", `Context ${key} is not set`);
+    }
+    return c.body(null, 204);
+  });
+
+  // Feedback specs (pain points, feature ideas, bugs queued for sharing)
+  app.get("/api/feedback", (c) => {
+    const page = readPage(c);
+    if (!page.ok) return page.response;
+    const query = FeedbackListQuery.safeParse(c.req.query());
+    if (!query.success) {
+      return apiError(c, "bad_request", "Invalid filters", validationIssues(query.error));
+    }
+
+    const specs = db.feedbackSpecs.findAll({
+      types: query.data.type ? [query.data.type] : undefined,
+      statuses: query.data.status ? [query.data.status] : undefined,
+    });
+    return c.json(paginate(c, specs, page.data));
+  });
+
+  app.get("/api/feedback/:id", (c) => {
+    const spec = db.feedbackSpecs.findById(c.req.param("id"));
+    if (!spec) {
+      return apiError(c, "not_found", `Feedback ${c.req.param("id")} not found`);
     }
-    return c.json(session);
+    return c.json(spec);
   });
 
+  // Same as loop_painpoint: context is sanitized before it is stored
+  app.post("/api/feedback", async (c) => {
+    const body = await readBody(c, FeedbackCreateBody);
+    if (!body.ok) return body.response;
+    const { type, title, description, context, severity = "medium" } = body.data;
+
+    const sanitized = context ? prepareFeedbackContext(context) : null;
+    const spec = db.feedbackSpecs.insertWithNextId({
+      type,
+      title,
+      description,
+      context_summary: sanitized?.sanitized ?? null,
+      severity,
+      status: "queued",
+      consent_given_at: new Date().toISOString(),
+      shared_at: null,
+      github_issue_url: null,
+    });
+    return c.json({ ...spec, sanitization_warnings: sanitized?.warnings ?? [] }, 201);
+  });
+
+  app.patch("/api/feedback/:id", async (c) => {
+    const id = c.req.param("id");
+    const existing = db.feedbackSpecs.findById(id);
+    if (!existing) {
+      return apiError(c, "not_found", `Feedback ${id} not found`);
+    }
+    const body = await readBody(c, FeedbackUpdateBody);
+    if (!body.ok) return body.response;
+
+    const changes: Partial<FeedbackSpecRecord> = { ...body.data };
+    if (body.data.status === "shared" && existing.status !== "shared") {
+      changes.shared_at = new Date().toISOString();
+    }
+    return c.json(db.feedbackSpecs.update(id, changes));
+  });
+
+  app.delete("/api/feedback/:id", (c) => {
+    const id = c.req.param("id");
+    if (!db.feedbackSpecs.delete(id)) {
+      return apiError(c, "not_found", `Feedback ${id} not found`);
+    }
+    return c.body(null, 204);
+  });
+
+  const eventJson = (e: EventRecord) => ({
+    ...e,
+    changes: JSON.parse(e.changes),
+  });
+
+  // History (audit log) for a task, insight, session, repo_context key or feedback spec
+  app.get("/api/history/:id", (c) => {
+    const page = readPage(c, DEFAULT_HISTORY_PAGE);
+    if (!page.ok) return page.response;
+
+    const entityId = c.req.param("id");
+    setPageHeaders(c, page.data, db.events.count({ entityId }));
+    const events = db.events.findByEntity(entityId, { limit: page.data.limit ?? undefined, offset: page.data.offset });
+    return c.json(events.map(eventJson));
+  });
+
+  // Live updates: every event recorded after the client connected (or after
+  // Last-Event-ID when the browser reconnects), found by polling the events
+  // table, so writes from an MCP server in another process show up too
+  app.get("/api/events", (c) => streamSSE(c, async (stream) => {
+    let after = Number(c.req.header("Last-Event-ID")) || db.events.latestId();
+    let idle = 0;
+    const end = () => void stream.close();
+    signal?.addEventListener("abort", end);
+    await stream.write(": connected\n\n");
+
+    while (!stream.aborted && !stream.closed && !signal?.aborted) {
+      const events = db.events.findAfter(after);
+      for (const event of events) {
+        await stream.writeSSE({ event: "change", id: String(event.id), data: JSON.stringify(eventJson(event)) });
+        after = event.id;
+      }
+      idle = events.length > 0 ? 0 : idle + EVENT_POLL_MS;
+      if (idle >= EVENT_HEARTBEAT_MS) {
+        await stream.write(": ping\n\n");
+        idle = 0;
+      }
+      await stream.sleep(EVENT_POLL_MS);
+    }
+    signal?.removeEventListener("abort", end);
+  }));
+
   return app;
 }
 
 /**
- * Start server in CLI mode (manual lifecycle)
+ * Where a browser reaches the server. Wildcard hosts are reached through localhost.
+ */
+function serverUrl(host: string, port: number): string {
+  const name = host === "0.0.0.0" || host === "::" ? "localhost" : host.includes(":") ? `[${host}]` : host;
+  return `http://${name}:${port}`;
+}
+
+/**
+ * Start server in CLI mode (manual lifecycle). Returns the URL it listens on.
  */
-export async function startServer(options: ServerOptions): Promise<void> {
-  const { port, repoPath, staticDir } = options;
+export async function startServer(options: ServerOptions): Promise<string> {
+  const { port, host = DEFAULT_HOST, repoPath, staticDir } = options;
   
   // Initialize database
-  const db = initializeDatabase(repoPath);
+  const db = initializeDatabase(repoPath, { origin: "api" });
   
   // Create API server
-  const app = createApiServer(db);
+  const app = createApiServer(db, repoPath);
   
   // Serve static files in production
   if (staticDir && fs.existsSync(staticDir)) {
@@ -231,50 +674,58 @@ export async function startServer(options: ServerOptions): Promise<void> {
     });
   }
   
-  console.log(`LoopFlow UI starting on http://localhost:${port}`);
+  const url = serverUrl(host, port);
+  console.log(`LoopFlow UI starting on ${url}`);
   
   serve({
     fetch: app.fetch,
     port,
+    hostname: host,
   });
+  return url;
 }
 
 /**
  * Start server in MCP mode (managed lifecycle)
  * - Returns handle to stop the server
  * - Auto-stops after timeout
- * - Singleton: reuses existing server if already running on same port
+ * - Singleton: reuses the running server if it serves the same repo on the
+ *   same port, otherwise stops it and starts one for this repo
  */
 export function startManagedServer(options: ServerOptions): ManagedServer {
-  const { port, repoPath, staticDir, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const { port, host = DEFAULT_HOST, repoPath, staticDir } = options;
+  const timeoutFor = (db: LoopFlowDatabase) => options.timeoutMs ?? db.config.ui.timeout_minutes * 60 * 1000;
   
-  // If server already running on this port, reuse it (reset timeout)
-  if (managedServerInstance && managedServerInstance.port === port) {
+  // If server already running for this repo on this port, reuse it (reset timeout)
+  if (managedServerInstance && managedServerInstance.port === port && managedServerInstance.repoPath === repoPath) {
     // Reset timeout
     if (managedServerInstance.timeoutId) {
       clearTimeout(managedServerInstance.timeoutId);
     }
     managedServerInstance.timeoutId = setTimeout(() => {
       stopManagedServer();
-    }, timeoutMs);
+    }, timeoutFor(managedServerInstance.db));
     
     return {
-      url: `http://localhost:${port}`,
+      url: serverUrl(host, port),
       port,
+      reused: true,
       stop: stopManagedServer,
     };
   }
   
-  // Stop any existing server on different port
+  // Stop any existing server on a different port or for another repo
   if (managedServerInstance) {
     stopManagedServer();
   }
   
   // Initialize database
-  const db = initializeDatabase(repoPath);
+  const db = initializeDatabase(repoPath, { origin: "api" });
+  const timeoutMs = timeoutFor(db);
   
   // Create API server
-  const app = createApiServer(db);
+  const streams = new AbortController();
+  const app = createApiServer(db, repoPath, streams.signal);
   
   // Serve static files
   if (staticDir && fs.existsSync(staticDir)) {
@@ -293,6 +744,7 @@ export function startManagedServer(options: ServerOptions): ManagedServer {
   const server = serve({
     fetch: app.fetch,
     port,
+    hostname: host,
   });
   
   // Set up auto-shutdown timeout
@@ -304,15 +756,19 @@ export function startManagedServer(options: ServerOptions): ManagedServer {
   managedServerInstance = {
     server,
     port,
+    repoPath,
     timeoutId,
     db,
+    streams,
   };
   
-  console.error(`[LoopFlow UI] Started on http://localhost:${port} (auto-shutdown in ${timeoutMs / 60000} min)`);
+  const url = serverUrl(host, port);
+  console.error(`[LoopFlow UI] Started on ${url} (auto-shutdown in ${timeoutMs / 60000} min)`);
   
   return {
-    url: `http://localhost:${port}`,
+    url,
     port,
+    reused: false,
     stop: stopManagedServer,
   };
 }
@@ -330,6 +786,9 @@ export function stopManagedServer(): void {
     clearTimeout(managedServerInstance.timeoutId);
   }
   
+  // End live event streams, which would otherwise keep polling the database
+  managedServerInstance.streams.abort();
+  
   // Close server
   managedServerInstance.server.close();
   
@@ -342,8 +801,8 @@ export function stopManagedServer(): void {
 }
 
 /**
- * Check if managed server is running
+ * Check if managed server is running (for the given repo, if one is given)
  */
-export function isManagedServerRunning(): boolean {
-  return managedServerInstance !== null;
+export function isManagedServerRunning(repoPath?: string): boolean {
+  return managedServerInstance !== null && (repoPath === undefined || managedServerInstance.repoPath === repoPath);
 }
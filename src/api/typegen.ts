@@ -0,0 +1,104 @@
+/**
+ * Client Type Generator
+ *
+ * Turns the component schemas of the OpenAPI document into TypeScript types
+ * for the web UI (src/ui/src/api/types.ts), written in the UI's style. Covers
+ * the JSON Schema the API schemas produce: objects, arrays, records, enums,
+ * nullable unions and component refs.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+export const CLIENT_TYPES_HEADER = `// Generated from the OpenAPI document (GET /api/openapi.json) by
+// \`loopflow openapi --types src/ui/src/api/types.ts\`. Do not edit by hand.`;
+
+const COMPONENT_REF = "#/components/schemas/";
+
+function literal(value: unknown): string {
+  return typeof value === "string" ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? "never" : unique.join(" | ");
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+/**
+ * Object members, one per line, with descriptions as trailing comments
+ */
+function members(schema: JsonSchema, indent: string): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  return Object.entries(properties).map(([name, property]) => {
+    const optional = required.has(name) ? "" : "?";
+    const comment = typeof property.description === "string" ? `   // ${property.description}` : "";
+    return `${indent}${propertyName(name)}${optional}: ${typeOf(property, indent)}${comment}`;
+  });
+}
+
+/**
+ * TypeScript type of a JSON Schema
+ */
+export function typeOf(schema: JsonSchema, indent = ""): string {
+  if (typeof schema.$ref === "string") {
+    return schema.$ref.startsWith(COMPONENT_REF) ? schema.$ref.slice(COMPONENT_REF.length) : "unknown";
+  }
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map(literal));
+  }
+  if ("const" in schema) {
+    return literal(schema.const);
+  }
+  const alternatives = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (alternatives) {
+    return union(alternatives.map(s => typeOf(s, indent)));
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map(type => typeOf({ ...schema, type }, indent)));
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const item = schema.items ? typeOf(schema.items as JsonSchema, indent) : "unknown";
+      return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case "object": {
+      if (schema.properties) {
+        return `{\n${members(schema, `${indent}  `).join("\n")}\n${indent}}`;
+      }
+      const values = schema.additionalProperties;
+      return typeof values === "object" && values !== null
+        ? `Record<string, ${typeOf(values as JsonSchema, indent)}>`
+        : "Record<string, unknown>";
+    }
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * One exported type per component schema: interfaces for objects, aliases otherwise
+ */
+export function generateClientTypes(document: { components?: { schemas?: Record<string, JsonSchema> } }): string {
+  const schemas = document.components?.schemas ?? {};
+  const declarations = Object.entries(schemas).map(([name, schema]) => {
+    const doc = typeof schema.description === "string" ? `// ${schema.description}\n` : "";
+    return schema.type === "object" && schema.properties
+      ? `${doc}export interface ${name} {\n${members(schema, "  ").join("\n")}\n}`
+      : `${doc}export type ${name} = ${typeOf(schema)}`;
+  });
+  return `${CLIENT_TYPES_HEADER}\n\n${declarations.join("\n\n")}\n`;
+}
@@ -0,0 +1,62 @@
+/**
+ * Tests for loopflow config get / set
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { runConfigGet, runConfigSet } from "../config.js";
+
+describe("config command", () => {
+  let testDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    configFile = path.join(testDir, ".loop-flow", "config.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("gets defaults and whole sections", () => {
+    expect(runConfigGet({ repoPath: testDir, key: "page_sizes.scan" })).toEqual({ output: "20", ok: true });
+    const section = runConfigGet({ repoPath: testDir, key: "insights" });
+    expect(JSON.parse(section.output).default_type).toBe("technical");
+    expect(runConfigGet({ repoPath: testDir, key: "nope" }).ok).toBe(false);
+  });
+
+  it("writes only the keys that were set", () => {
+    expect(runConfigSet({ repoPath: testDir, key: "page_sizes.task_list", value: "50" }).ok).toBe(true);
+    expect(runConfigSet({ repoPath: testDir, key: "tasks.id_prefix", value: "api" }).output)
+      .toBe('tasks.id_prefix = "API"');
+
+    expect(JSON.parse(fs.readFileSync(configFile, "utf-8"))).toEqual({
+      page_sizes: { task_list: 50 },
+      tasks: { id_prefix: "api" },
+    });
+    expect(runConfigGet({ repoPath: testDir, key: "page_sizes.task_list" }).output).toBe("50");
+  });
+
+  it("parses JSON lists", () => {
+    const result = runConfigSet({
+      repoPath: testDir,
+      key: "tasks.statuses",
+      value: '["TODO","IN_REVIEW","DONE"]',
+    });
+    expect(result.ok).toBe(true);
+    expect(JSON.parse(runConfigGet({ repoPath: testDir, key: "tasks.statuses" }).output))
+      .toEqual(["TODO", "IN_REVIEW", "DONE"]);
+  });
+
+  it("rejects invalid values without writing", () => {
+    const result = runConfigSet({ repoPath: testDir, key: "tasks.statuses", value: '["OPEN"]' });
+    expect(result.ok).toBe(false);
+    expect(result.output).toContain("statuses must include TODO and DONE");
+    expect(runConfigSet({ repoPath: testDir, key: "ui.colour", value: "blue" }).ok).toBe(false);
+    expect(fs.existsSync(configFile)).toBe(false);
+  });
+});
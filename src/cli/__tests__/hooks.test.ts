@@ -0,0 +1,147 @@
+/**
+ * Tests for loopflow hooks install/uninstall and loopflow hook (runs git against a temp repo)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase } from "../../db/database.js";
+import { writeRawConfig } from "../../config/repo-config.js";
+import { runHooksInstall, runHooksUninstall, runHook } from "../hooks.js";
+
+describe("git hooks", () => {
+  let testDir: string;
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: testDir, stdio: "ignore" });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+
+    const database = initializeDatabase(testDir);
+    const base = {
+      description: null,
+      summary: null,
+      priority: "high",
+      depends_on: null,
+      acceptance_criteria: null,
+      test_file: null,
+      notes: null,
+      parent_id: null,
+    };
+    database.tasks.insert({ ...base, id: "LF-001", title: "[IMPL] Sync", status: "IN_PROGRESS" });
+    database.tasks.insert({ ...base, id: "LF-002", title: "[IMPL] Export", status: "TODO" });
+    database.tasks.insert({ ...base, id: "LF-003", title: "[IMPL] Import", status: "TODO", depends_on: JSON.stringify(["LF-002"]) });
+    database.close();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const commit = (message: string) => git("commit", "-q", "--allow-empty", "-m", message);
+
+  const commitEvents = (id: string) => {
+    const database = initializeDatabase(testDir);
+    try {
+      return database.events.findByEntity(id).filter(e => e.action === "commit").map(e => ({
+        origin: e.origin,
+        changes: JSON.parse(e.changes),
+      }));
+    } finally {
+      database.close();
+    }
+  };
+
+  const status = (id: string) => {
+    const database = initializeDatabase(testDir);
+    try {
+      return database.tasks.findById(id);
+    } finally {
+      database.close();
+    }
+  };
+
+  it("installs and uninstalls hooks without touching foreign ones", () => {
+    // Ignore core.hooksPath passed in through the environment (GIT_CONFIG_KEY_n)
+    vi.stubEnv("GIT_CONFIG_COUNT", "0");
+    const hooksDir = path.join(fs.realpathSync(testDir), ".git", "hooks");
+    fs.writeFileSync(path.join(hooksDir, "post-commit"), "#!/bin/sh\necho mine\n");
+
+    const first = runHooksInstall({ repoPath: testDir });
+    expect(first.ok).toBe(false);
+    expect(first.output).toContain("Installed prepare-commit-msg");
+    expect(first.output).toContain("Skipped post-commit");
+    const script = fs.readFileSync(path.join(hooksDir, "prepare-commit-msg"), "utf-8");
+    expect(script).toContain('loopflow hook prepare-commit-msg "$@"');
+    expect(fs.statSync(path.join(hooksDir, "prepare-commit-msg")).mode & 0o111).not.toBe(0);
+
+    const uninstall = runHooksUninstall({ repoPath: testDir });
+    expect(uninstall.output).toContain("Removed prepare-commit-msg");
+    expect(uninstall.output).toContain("Left post-commit");
+    expect(fs.readFileSync(path.join(hooksDir, "post-commit"), "utf-8")).toContain("echo mine");
+
+    const forced = runHooksInstall({ repoPath: testDir, force: true });
+    expect(forced.ok).toBe(true);
+    expect(fs.readFileSync(path.join(hooksDir, "post-commit"), "utf-8")).toContain("loopflow hook post-commit");
+    // Reinstalling replaces loopflow's own hooks without --force
+    expect(runHooksInstall({ repoPath: testDir }).ok).toBe(true);
+  });
+
+  it("prefixes commit messages with the task in progress", () => {
+    const file = path.join(testDir, "COMMIT_EDITMSG");
+    const prepare = (message: string, ...args: string[]) => {
+      fs.writeFileSync(file, message);
+      expect(runHook({ repoPath: testDir, name: "prepare-commit-msg", args: [file, ...args] }).ok).toBe(true);
+      return fs.readFileSync(file, "utf-8");
+    };
+
+    expect(prepare("add sync\n", "message")).toBe("LF-001: add sync\n");
+    expect(prepare("LF-002: export\n", "message")).toBe("LF-002: export\n");
+    expect(prepare("amended\n", "commit", "HEAD")).toBe("amended\n");
+    expect(prepare("Merge branch 'x'\n", "merge")).toBe("Merge branch 'x'\n");
+  });
+
+  it("records commits on the tasks they mention, else the task in progress", () => {
+    commit("LF-002: export");
+    expect(runHook({ repoPath: testDir, name: "post-commit", args: [] }).output).toMatch(/recorded [0-9a-f]{7} on LF-002/);
+    commit("tidy up");
+    runHook({ repoPath: testDir, name: "post-commit", args: [] });
+
+    expect(commitEvents("LF-002")).toEqual([{
+      origin: "git",
+      changes: { commit: { from: null, to: expect.stringMatching(/^[0-9a-f]{40}$/) }, subject: { from: null, to: "LF-002: export" } },
+    }]);
+    expect(commitEvents("LF-001").map(e => e.changes.subject.to)).toEqual(["tidy up"]);
+  });
+
+  it("moves closed tasks to DONE when the workflow allows it", () => {
+    commit("LF-001: finish sync\n\nCloses LF-001, fixes LF-003");
+    const result = runHook({ repoPath: testDir, name: "post-commit", args: [] });
+
+    expect(result.output).toContain("LF-001 -> DONE");
+    expect(result.output).toContain("LF-003 not moved to DONE: LF-003 depends on unfinished tasks: LF-002");
+    expect(status("LF-001")).toMatchObject({ status: "DONE", status_reason: expect.stringMatching(/^Closed by commit [0-9a-f]{7}$/) });
+    expect(status("LF-003")?.status).toBe("TODO");
+  });
+
+  it("leaves statuses alone when hooks.close_on_commit is off", () => {
+    writeRawConfig(testDir, { hooks: { close_on_commit: false } });
+    commit("closes LF-002");
+    runHook({ repoPath: testDir, name: "post-commit", args: [] });
+
+    expect(status("LF-002")?.status).toBe("TODO");
+    expect(commitEvents("LF-002")).toHaveLength(1);
+  });
+
+  it("does nothing in repos without LoopFlow and rejects unknown hooks", () => {
+    fs.rmSync(path.join(testDir, ".loop-flow"), { recursive: true });
+    expect(runHook({ repoPath: testDir, name: "post-commit", args: [] })).toEqual({ output: "", ok: true });
+    expect(runHook({ repoPath: testDir, name: "pre-push", args: [] }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for loopflow status / tasks commands
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase } from "../../db/database.js";
+import { runStatus, runTasks, formatTable } from "../status.js";
+
+describe("status and tasks commands", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+
+    const database = initializeDatabase(testDir);
+    const base = {
+      description: null,
+      summary: null,
+      depends_on: null,
+      acceptance_criteria: null,
+      test_file: null,
+      notes: null,
+      parent_id: null,
+    };
+    database.tasks.insert({ ...base, id: "LF-001", title: "[IMPL] Active work", status: "IN_PROGRESS", priority: "high" });
+    database.tasks.insert({ ...base, id: "LF-002", title: "[IMPL] Next up", status: "TODO", priority: "high" });
+    database.tasks.insert({ ...base, id: "LF-003", title: "[DOCS] Later", status: "TODO", priority: "low" });
+    database.sessions.insert({
+      id: "2026-01-22-S1",
+      date: "2026-01-22",
+      session_number: 1,
+      task_id: "LF-001",
+      task_type: "[IMPL]",
+      task_title: "Active work",
+      outcome: "PARTIAL",
+      summary: "In progress: halfway there",
+      learnings: null,
+      files_changed: null,
+      insights_added: null,
+    });
+    database.repoContext.set("suggested_actions", "Finish LF-001");
+    database.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("reports current task, latest session and suggested actions", () => {
+    const output = runStatus({ repoPath: testDir });
+
+    expect(output).toContain("LF-001  [IMPL] Active work");
+    expect(output).toContain("Backlog: 3 tasks");
+    expect(output).toContain("2026-01-22-S1  LF-001  PARTIAL");
+    expect(output).toContain("Finish LF-001");
+  });
+
+  it("emits JSON status", () => {
+    const report = JSON.parse(runStatus({ repoPath: testDir, json: true }));
+
+    expect(report.in_progress.map((t: { id: string }) => t.id)).toEqual(["LF-001"]);
+    expect(report.backlog.by_status).toEqual({ IN_PROGRESS: 1, TODO: 2 });
+    expect(report.backlog.high_priority_todo.map((t: { id: string }) => t.id)).toEqual(["LF-002"]);
+    expect(report.suggested_actions).toBe("Finish LF-001");
+  });
+
+  it("filters tasks case-insensitively", () => {
+    const tasks = JSON.parse(runTasks({ repoPath: testDir, json: true, statuses: ["todo"], priorities: ["HIGH"] }));
+
+    expect(tasks.map((t: { id: string }) => t.id)).toEqual(["LF-002"]);
+  });
+
+  it("renders a task table", () => {
+    const output = runTasks({ repoPath: testDir, statuses: ["todo"] });
+    const lines = output.split("\n");
+
+    expect(lines[0]).toMatch(/^ID\s+STATUS\s+PRIORITY\s+TITLE$/);
+    expect(lines).toHaveLength(4);
+  });
+
+  it("pads and truncates table cells", () => {
+    const table = formatTable(["A", "B"], [["x", "y".repeat(10)]], 8);
+
+    expect(table.split("\n")[2]).toBe("x  yyyyy...");
+  });
+});
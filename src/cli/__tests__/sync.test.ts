@@ -0,0 +1,172 @@
+/**
+ * Tests for loopflow sync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase, type LoopFlowDatabase } from "../../db/database.js";
+import { syncMarkdown } from "../sync.js";
+
+describe("sync command", () => {
+  let testDir: string;
+  let database: LoopFlowDatabase;
+  let taskFile: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    taskFile = path.join(testDir, ".loop-flow", "tasks", "LF-001.md");
+
+    database = initializeDatabase(testDir);
+    database.tasks.insert({
+      id: "LF-001",
+      title: "[IMPL] Sync",
+      description: "Original description",
+      summary: null,
+      status: "TODO",
+      priority: "high",
+      depends_on: null,
+      acceptance_criteria: null,
+      test_file: null,
+      notes: null,
+      parent_id: null,
+    });
+    database.insights.insert({
+      id: "INS-001",
+      content: "Hashes beat timestamps for change detection",
+      summary: null,
+      type: "technical",
+      status: "unprocessed",
+      tags: null,
+      links: null,
+      source: null,
+      notes: null,
+    });
+  });
+
+  afterEach(() => {
+    database.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("exports every record on first sync, then does nothing", () => {
+    const first = syncMarkdown(database, testDir);
+    expect(first.tasks.exported).toEqual(["LF-001"]);
+    expect(first.insights.exported).toEqual(["INS-001"]);
+    expect(fs.readFileSync(taskFile, "utf-8")).toContain("Original description");
+
+    const second = syncMarkdown(database, testDir);
+    expect(second.tasks).toMatchObject({ exported: [], imported: [], unchanged: 1 });
+  });
+
+  it("imports edits made in Markdown", () => {
+    syncMarkdown(database, testDir);
+    fs.writeFileSync(taskFile, fs.readFileSync(taskFile, "utf-8").replace("status: TODO", "status: CANCELLED"));
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.tasks.imported).toEqual(["LF-001"]);
+    expect(database.tasks.findById("LF-001")!.status).toBe("CANCELLED");
+  });
+
+  it("creates records from new files", () => {
+    syncMarkdown(database, testDir);
+    fs.writeFileSync(
+      path.join(testDir, ".loop-flow", "tasks", "LF-002.md"),
+      "---\nid: LF-002\ntitle: [DOCS] Written in a PR\nstatus: TODO\ndepends_on: [LF-001]\n---\n"
+    );
+
+    syncMarkdown(database, testDir);
+    expect(database.tasks.findById("LF-002")).toMatchObject({ title: "[DOCS] Written in a PR", priority: "medium" });
+  });
+
+  it("reports conflicts instead of overwriting, and resolves with prefer", () => {
+    syncMarkdown(database, testDir);
+    fs.writeFileSync(taskFile, fs.readFileSync(taskFile, "utf-8").replace("Original description", "Edited in git"));
+    database.tasks.update("LF-001", { description: "Edited by an agent" });
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.tasks.conflicts.map(c => c.id)).toEqual(["LF-001"]);
+    expect(database.tasks.findById("LF-001")!.description).toBe("Edited by an agent");
+    expect(fs.readFileSync(taskFile, "utf-8")).toContain("Edited in git");
+
+    syncMarkdown(database, testDir, { prefer: "markdown" });
+    expect(database.tasks.findById("LF-001")!.description).toBe("Edited in git");
+  });
+
+  it("reports invalid files without touching the database", () => {
+    syncMarkdown(database, testDir);
+    fs.writeFileSync(taskFile, "---\nid: LF-001\ntitle: Broken\nstatus: SOMEDAY\n---\n");
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.tasks.errors).toHaveLength(1);
+    expect(database.tasks.findById("LF-001")!.status).toBe("TODO");
+  });
+
+  it("rejects unknown dependencies", () => {
+    syncMarkdown(database, testDir);
+    fs.writeFileSync(taskFile, fs.readFileSync(taskFile, "utf-8").replace("depends_on: []", "depends_on: [LF-404]"));
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.tasks.errors[0].error).toContain("LF-404");
+  });
+
+  it("supersedes insights from Markdown, checking the replacement", () => {
+    database.insights.insert({
+      id: "INS-002",
+      content: "Content hashes of the canonical rendering detect changes",
+      summary: null,
+      type: "technical",
+      status: "unprocessed",
+      tags: null,
+      links: null,
+      source: null,
+      notes: null,
+    });
+    syncMarkdown(database, testDir);
+    const insightFile = path.join(testDir, ".loop-flow", "insights", "INS-001.md");
+    const original = fs.readFileSync(insightFile, "utf-8");
+
+    fs.writeFileSync(insightFile, original.replace("status: unprocessed", "status: superseded\nsuperseded_by: INS-404"));
+    expect(syncMarkdown(database, testDir).insights.errors[0].error).toContain("INS-404");
+
+    fs.writeFileSync(insightFile, original.replace("status: unprocessed", "status: superseded\nsuperseded_by: INS-002"));
+    expect(syncMarkdown(database, testDir).insights.imported).toEqual(["INS-001"]);
+    expect(database.insights.findById("INS-001")).toMatchObject({ status: "superseded", superseded_by: "INS-002" });
+  });
+
+  it("links insights to others added in the same sync", () => {
+    syncMarkdown(database, testDir);
+    const insightsDir = path.join(testDir, ".loop-flow", "insights");
+    fs.writeFileSync(
+      path.join(insightsDir, "INS-002.md"),
+      "---\nid: INS-002\ntype: technical\nstatus: unprocessed\nlinks: [INS-003]\n---\nRefines the next one\n"
+    );
+    fs.writeFileSync(
+      path.join(insightsDir, "INS-003.md"),
+      "---\nid: INS-003\ntype: technical\nstatus: unprocessed\nlinks: [INS-001]\n---\nWritten in the same PR\n"
+    );
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.insights).toMatchObject({ imported: ["INS-002", "INS-003"], errors: [] });
+    expect(database.insightLinks.findOutgoing("INS-002").map(l => l.to_id)).toEqual(["INS-003"]);
+    expect(syncMarkdown(database, testDir).insights).toMatchObject({ exported: [], imported: [], unchanged: 3 });
+  });
+
+  it("rejects insight types the repo doesn't define", () => {
+    syncMarkdown(database, testDir);
+    const insightFile = path.join(testDir, ".loop-flow", "insights", "INS-001.md");
+    fs.writeFileSync(insightFile, fs.readFileSync(insightFile, "utf-8").replace("type: technical", "type: musing"));
+
+    const report = syncMarkdown(database, testDir);
+    expect(report.insights.errors[0].error).toContain("musing");
+    expect(database.insights.findById("INS-001")!.type).toBe("technical");
+  });
+
+  it("writes nothing on dry run", () => {
+    const report = syncMarkdown(database, testDir, { dryRun: true });
+    expect(report.tasks.exported).toEqual(["LF-001"]);
+    expect(fs.existsSync(taskFile)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for loopflow test-status
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase } from "../../db/database.js";
+import { runTestStatus } from "../test-status.js";
+
+const REPORT = `<testsuites>
+  <testsuite name="src/sync.test.ts">
+    <testcase classname="src/sync.test.ts" name="round-trips"/>
+    <testcase classname="src/sync.test.ts" name="reports conflicts"><failure message="nope"/></testcase>
+  </testsuite>
+  <testsuite name="src/other.test.ts">
+    <testcase classname="src/other.test.ts" name="unrelated"/>
+  </testsuite>
+</testsuites>`;
+
+describe("test-status command", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    fs.writeFileSync(path.join(testDir, "report.xml"), REPORT);
+
+    const database = initializeDatabase(testDir);
+    const base = {
+      description: null,
+      summary: null,
+      status: "IN_PROGRESS",
+      priority: "high",
+      depends_on: null,
+      acceptance_criteria: null,
+      notes: null,
+      parent_id: null,
+    };
+    database.tasks.insert({ ...base, id: "LF-001", title: "[IMPL] Sync", test_file: "src/sync.test.ts" });
+    database.tasks.insert({ ...base, id: "LF-002", title: "[IMPL] Not run", test_file: "src/new.test.ts" });
+    database.tasks.insert({ ...base, id: "LF-003", title: "[DOCS] No tests", test_file: null });
+    database.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("records a report against linked tasks", () => {
+    const result = runTestStatus({ repoPath: testDir, report: "report.xml" });
+    expect(result.ok).toBe(true);
+    expect(result.output).toContain("Recorded report.xml (junit, 3 tests) for 1 task(s)");
+    expect(result.output).toContain("Not linked to any task: 1 file(s)");
+    expect(result.output).toMatch(/LF-001\s+IN_PROGRESS\s+1\/2 tests passing\s+src\/sync\.test\.ts/);
+    expect(result.output).toMatch(/LF-002\s+IN_PROGRESS\s+not run/);
+    expect(result.output).toContain("FAIL LF-001  reports conflicts");
+    expect(result.output).not.toContain("LF-003");
+  });
+
+  it("keeps results between runs", () => {
+    runTestStatus({ repoPath: testDir, report: "report.xml" });
+    const report = JSON.parse(runTestStatus({ repoPath: testDir, json: true }).output);
+    expect(report.recorded).toBeNull();
+    expect(report.tasks.find((t: { id: string }) => t.id === "LF-001")).toMatchObject({
+      tests: { summary: "1/2 tests passing", failing: ["reports conflicts"], passed: 1, failed: 1 },
+    });
+  });
+
+  it("fails on a missing or unreadable report", () => {
+    expect(runTestStatus({ repoPath: testDir, report: "nope.xml" })).toMatchObject({ ok: false });
+    fs.writeFileSync(path.join(testDir, "bad.json"), "{}");
+    expect(runTestStatus({ repoPath: testDir, report: "bad.json" }).output).toMatch(/testResults/);
+  });
+});
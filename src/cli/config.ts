@@ -0,0 +1,72 @@
+/**
+ * Config CLI Command
+ *
+ * `loopflow config get [key]` and `loopflow config set <key> <value>` for
+ * .loop-flow/config.json. Keys are dotted paths (tasks.statuses, page_sizes.scan).
+ *
+ * Values are parsed as JSON when possible (30, true, '["TODO","DONE"]') and
+ * kept as strings otherwise. The whole file is validated before it is written,
+ * so a bad value never reaches the MCP server.
+ */
+
+import {
+  loadRepoConfig,
+  readRawConfig,
+  writeRawConfig,
+  parseRepoConfig,
+  getConfigValue,
+  setConfigValue,
+} from "../config/repo-config.js";
+
+interface ConfigCommandOptions {
+  repoPath: string;
+  json?: boolean;
+}
+
+/**
+ * Effective value of a key (defaults included), or the whole config without one
+ */
+export function runConfigGet(options: ConfigCommandOptions & { key?: string }): { output: string; ok: boolean } {
+  try {
+    const config = loadRepoConfig(options.repoPath);
+    const value = options.key ? getConfigValue(config, options.key) : config;
+    if (value === undefined) {
+      return { output: `Error: Unknown config key "${options.key}"`, ok: false };
+    }
+    const output = typeof value === "object" || options.json
+      ? JSON.stringify(value, null, 2)
+      : String(value);
+    return { output, ok: true };
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+  }
+}
+
+export function runConfigSet(options: ConfigCommandOptions & { key: string; value: string }): { output: string; ok: boolean } {
+  try {
+    const next = setConfigValue(readRawConfig(options.repoPath), options.key, parseValue(options.value));
+    const parsed = parseRepoConfig(next);
+    if (!parsed.ok) {
+      return { output: `Error: Invalid config:\n  ${parsed.errors.join("\n  ")}`, ok: false };
+    }
+    writeRawConfig(options.repoPath, next);
+
+    const value = getConfigValue(parsed.config, options.key);
+    return {
+      output: options.json
+        ? JSON.stringify({ key: options.key, value }, null, 2)
+        : `${options.key} = ${JSON.stringify(value)}`,
+      ok: true,
+    };
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+  }
+}
+
+function parseValue(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
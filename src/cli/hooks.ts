@@ -0,0 +1,220 @@
+/**
+ * Git Hooks CLI Commands
+ *
+ * `loopflow hooks install` writes prepare-commit-msg and post-commit hooks
+ * into the repo's hooks directory (`loopflow hooks uninstall` removes them).
+ * Each hook calls `loopflow hook <name>`, which opens the database directly -
+ * no MCP server involved:
+ * - prepare-commit-msg: prefixes the message with the IN_PROGRESS task ID
+ * - post-commit: records the commit in its tasks' history, and moves tasks the
+ *   message closes ("closes LF-042") to DONE unless hooks.close_on_commit is off
+ *
+ * Hooks never stop a commit: when loopflow isn't installed or fails, the
+ * script still exits 0.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { initializeDatabase, getPrefixRegistry, type LoopFlowDatabase } from "../db/database.js";
+import type { TaskRecord } from "../db/repositories/tasks.js";
+import { getBranch, getCommits, getHooksDir } from "../git/adapter.js";
+import { linkCommits, prefixCommitMessage, closedTaskIds } from "../rules/commits.js";
+import { checkTaskUpdate } from "../rules/workflow.js";
+import { checkStatusTransition, toDependencyNodes } from "../rules/dependencies.js";
+
+export const HOOK_NAMES = ["prepare-commit-msg", "post-commit"] as const;
+export type HookName = typeof HOOK_NAMES[number];
+
+// Marks hooks written by loopflow, so install may replace them and uninstall may remove them
+const HOOK_MARKER = "# loopflow-hook";
+
+// prepare-commit-msg sources (2nd argument) whose message is left alone
+const SKIPPED_SOURCES = new Set(["merge", "squash", "commit"]);
+
+export interface HooksOptions {
+  repoPath: string;
+  force?: boolean;    // Replace hooks that weren't written by loopflow
+}
+
+export interface HookOptions {
+  repoPath: string;
+  name: string;
+  args: string[];     // Arguments git passed to the hook
+}
+
+export function isHookName(name: string): name is HookName {
+  return (HOOK_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Shell script for a hook
+ */
+export function hookScript(name: HookName): string {
+  return [
+    "#!/bin/sh",
+    `${HOOK_MARKER}: written by \`loopflow hooks install\`, removed by \`loopflow hooks uninstall\``,
+    "command -v loopflow >/dev/null 2>&1 || exit 0",
+    `loopflow hook ${name} "$@" || true`,
+    "",
+  ].join("\n");
+}
+
+function isLoopflowHook(file: string): boolean {
+  return fs.readFileSync(file, "utf-8").includes(HOOK_MARKER);
+}
+
+// =============================================================================
+// hooks install / uninstall
+// =============================================================================
+
+/**
+ * `loopflow hooks install`
+ */
+export function runHooksInstall(options: HooksOptions): { output: string; ok: boolean } {
+  const hooksDir = getHooksDir(options.repoPath);
+  if (!hooksDir) {
+    return { output: "Error: Not a git repository", ok: false };
+  }
+
+  const lines: string[] = [];
+  let ok = true;
+  fs.mkdirSync(hooksDir, { recursive: true });
+  for (const name of HOOK_NAMES) {
+    const file = path.join(hooksDir, name);
+    if (fs.existsSync(file) && !isLoopflowHook(file) && !options.force) {
+      lines.push(`Skipped ${name}: ${file} already exists (use --force to replace it)`);
+      ok = false;
+      continue;
+    }
+    fs.writeFileSync(file, hookScript(name));
+    fs.chmodSync(file, 0o755);
+    lines.push(`Installed ${name}`);
+  }
+  lines.push(`Hooks directory: ${hooksDir}`);
+  return { output: lines.join("\n"), ok };
+}
+
+/**
+ * `loopflow hooks uninstall`: removes only hooks loopflow wrote
+ */
+export function runHooksUninstall(options: HooksOptions): { output: string; ok: boolean } {
+  const hooksDir = getHooksDir(options.repoPath);
+  if (!hooksDir) {
+    return { output: "Error: Not a git repository", ok: false };
+  }
+
+  const lines: string[] = [];
+  for (const name of HOOK_NAMES) {
+    const file = path.join(hooksDir, name);
+    if (!fs.existsSync(file)) continue;
+    if (!isLoopflowHook(file)) {
+      lines.push(`Left ${name}: not installed by loopflow`);
+      continue;
+    }
+    fs.rmSync(file);
+    lines.push(`Removed ${name}`);
+  }
+  return { output: lines.length > 0 ? lines.join("\n") : "No loopflow hooks installed", ok: true };
+}
+
+// =============================================================================
+// hook <name>
+// =============================================================================
+
+/**
+ * The task being worked on: the most recently updated IN_PROGRESS task
+ */
+function activeTask(database: LoopFlowDatabase): TaskRecord | null {
+  const inProgress = database.tasks.findAll({ statuses: ["IN_PROGRESS"] });
+  return inProgress.sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0] ?? null;
+}
+
+/**
+ * prepare-commit-msg <file> [source] [sha]
+ */
+function prepareCommitMsg(database: LoopFlowDatabase, args: string[]): string[] {
+  const [messageFile, source] = args;
+  if (!messageFile || SKIPPED_SOURCES.has(source)) return [];
+
+  const task = activeTask(database);
+  if (!task) return [];
+
+  const message = fs.readFileSync(messageFile, "utf-8");
+  const prefixed = prefixCommitMessage(message, task.id, getPrefixRegistry(database));
+  if (prefixed !== message) {
+    fs.writeFileSync(messageFile, prefixed);
+  }
+  return [];
+}
+
+/**
+ * post-commit: record HEAD on its tasks (or the IN_PROGRESS task), then close tasks
+ */
+function postCommit(database: LoopFlowDatabase, repoPath: string): string[] {
+  const commit = getCommits(repoPath, { limit: 1 })?.[0];
+  if (!commit) return [];
+
+  const registry = getPrefixRegistry(database);
+  const [linked] = linkCommits([commit], getBranch(repoPath), registry);
+  const mentioned = database.tasks.findByIds(linked.task_ids).map(t => t.id);
+  const taskIds = mentioned.length > 0 ? mentioned : [activeTask(database)?.id].filter((id): id is string => !!id);
+  const shortSha = commit.sha.slice(0, 7);
+  const lines: string[] = [];
+
+  database.db.transaction(() => {
+    for (const id of taskIds) {
+      database.events.record("task", id, "commit", {
+        commit: { from: null, to: commit.sha },
+        subject: { from: null, to: commit.subject },
+      });
+    }
+  })();
+  if (taskIds.length > 0) {
+    lines.push(`loopflow: recorded ${shortSha} on ${taskIds.join(", ")}`);
+  }
+
+  if (!database.config.hooks.close_on_commit) return lines;
+
+  for (const id of closedTaskIds(`${commit.subject}\n${commit.body}`, registry)) {
+    const task = database.tasks.findById(id);
+    if (!task || task.status === "DONE") continue;
+
+    // Same checks as loop_task_update
+    const workflowCheck = checkTaskUpdate(database.config.tasks, task, { status: "DONE" });
+    const transition = checkStatusTransition(id, "DONE", toDependencyNodes(database.tasks.findAll()));
+    const error = !workflowCheck.ok ? workflowCheck.error : !transition.allowed ? transition.reason : null;
+    if (error) {
+      lines.push(`loopflow: ${id} not moved to DONE: ${error}`);
+      continue;
+    }
+    database.tasks.update(id, { status: "DONE", status_reason: `Closed by commit ${shortSha}` });
+    lines.push(`loopflow: ${id} -> DONE`);
+  }
+  return lines;
+}
+
+/**
+ * `loopflow hook <name> [args...]`, run by the installed hooks. A repo
+ * without .loop-flow is left alone.
+ */
+export function runHook(options: HookOptions): { output: string; ok: boolean } {
+  if (!isHookName(options.name)) {
+    return { output: `Error: Unknown hook "${options.name}" (expected ${HOOK_NAMES.join(" or ")})`, ok: false };
+  }
+  if (!fs.existsSync(path.join(options.repoPath, ".loop-flow"))) {
+    return { output: "", ok: true };
+  }
+
+  let database: LoopFlowDatabase | null = null;
+  try {
+    database = initializeDatabase(options.repoPath, { origin: "git" });
+    const lines = options.name === "prepare-commit-msg"
+      ? prepareCommitMsg(database, options.args)
+      : postCommit(database, options.repoPath);
+    return { output: lines.join("\n"), ok: true };
+  } catch (error) {
+    return { output: `loopflow: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+  } finally {
+    database?.close();
+  }
+}
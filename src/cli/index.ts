@@ -5,20 +5,72 @@
  * Commands:
  * - init: Initialize loop-flow for current repo (with setup wizard)
  * - setup: Run setup wizard to configure AI tools
+ * - status: Show current task, backlog, latest session, suggested actions
+ * - tasks: List backlog tasks
+ * - sync: Two-way sync between SQLite and Markdown task/insight files
+ * - test-status: Record a test report against tasks' test files, show results
+ * - config: Read and change .loop-flow/config.json
+ * - hooks: Install/uninstall git hooks that tie commits to tasks
+ * - hook: Run one of those hooks (called by git, not by hand)
  * - ui: Start web UI dashboard
+ * - openapi: Print the REST API's OpenAPI document, or generate client types
  * - mcp: Start MCP server
  * - share-feedback: Review and share queued feedback as GitHub issues
  * 
- * Note: Task management, export, and migration are handled via MCP tools
- * (loop_task_list, loop_export, loop_import) for use within AI sessions.
+ * Note: Task mutation, export, and migration are handled via MCP tools
+ * (loop_task_update, loop_export, loop_import) for use within AI sessions.
+ * `sync` is the exception: it applies Markdown edits made by humans in git.
  */
 
 import { Command } from "commander";
+import * as fs from "fs";
 import * as path from "path";
 import { VERSION } from "../index.js";
 import { initLoopFlow, formatInitResult } from "./init.js";
 import { runSetupWizard } from "./wizard.js";
 import { shareFeedback } from "./share-feedback.js";
+import { runStatus, runTasks } from "./status.js";
+import { runSync, type SyncPreference } from "./sync.js";
+import { runConfigGet, runConfigSet } from "./config.js";
+import { runTestStatus } from "./test-status.js";
+import { runHooksInstall, runHooksUninstall, runHook } from "./hooks.js";
+import { runOpenApi } from "./openapi.js";
+import { loadRepoConfig, type RepoConfig } from "../config/repo-config.js";
+
+/**
+ * Exit with a hint to run init when the repo has no .loop-flow directory
+ */
+function requireLoopFlowDir(repoPath: string): void {
+  if (!fs.existsSync(path.join(repoPath, ".loop-flow"))) {
+    console.error("Error: No .loop-flow directory found.");
+    console.error("Run 'loopflow init' first to initialize LoopFlow.");
+    process.exit(1);
+  }
+}
+
+/**
+ * Load .loop-flow/config.json, exiting with its validation errors when it is invalid
+ */
+function requireValidConfig(repoPath: string): RepoConfig {
+  try {
+    return loadRepoConfig(repoPath);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse a numeric option, exiting when it isn't a positive integer
+ */
+function parsePositiveInt(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    console.error(`Error: ${option} must be a positive integer (got "${value}")`);
+    process.exit(1);
+  }
+  return parsed;
+}
 
 const program = new Command();
 
@@ -81,8 +133,8 @@ program
   .description("Start MCP server")
   .option("--stdio", "Use stdio transport (default)")
   .action(async () => {
-    // Import and run the MCP server
-    await import("../mcp/server.js");
+    const { main } = await import("../mcp/server.js");
+    await main();
   });
 
 // Share feedback command
@@ -94,15 +146,7 @@ program
   .option("--export <file>", "Export to markdown file instead of creating GitHub issues")
   .action(async (options) => {
     const repoPath = options.path ? path.resolve(options.path) : process.cwd();
-    
-    // Check if .loop-flow exists
-    const loopFlowDir = path.join(repoPath, ".loop-flow");
-    const fs = await import("fs");
-    if (!fs.existsSync(loopFlowDir)) {
-      console.error("Error: No .loop-flow directory found.");
-      console.error("Run 'loopflow init' first to initialize LoopFlow.");
-      process.exit(1);
-    }
+    requireLoopFlowDir(repoPath);
     
     const result = await shareFeedback({
       repoPath,
@@ -113,25 +157,209 @@ program
     process.exit(result.success ? 0 : 1);
   });
 
+// Status command
+program
+  .command("status")
+  .description("Show current task, backlog summary, latest session and suggested actions")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+    requireValidConfig(repoPath);
+    
+    console.log(runStatus({ repoPath, json: options.json }));
+  });
+
+// Tasks command
+program
+  .command("tasks")
+  .description("List backlog tasks")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("-s, --status <statuses>", "Filter by status, comma-separated (e.g. todo,in_progress)")
+  .option("--priority <priorities>", "Filter by priority, comma-separated (e.g. high)")
+  .option("-n, --limit <limit>", "Max tasks to show")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+    requireValidConfig(repoPath);
+    
+    console.log(runTasks({
+      repoPath,
+      json: options.json,
+      statuses: options.status ? options.status.split(",") : undefined,
+      priorities: options.priority ? options.priority.split(",") : undefined,
+      limit: options.limit ? parsePositiveInt(options.limit, "--limit") : undefined,
+    }));
+  });
+
+// Sync command
+program
+  .command("sync")
+  .description("Sync tasks and insights with Markdown files in .loop-flow/tasks and .loop-flow/insights")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("--dry-run", "Report what would change without writing anything")
+  .option("--prefer <side>", "Resolve conflicts: db, markdown, or newer")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+    requireValidConfig(repoPath);
+
+    if (options.prefer && !["db", "markdown", "newer"].includes(options.prefer)) {
+      console.error(`Error: --prefer must be db, markdown, or newer (got "${options.prefer}")`);
+      process.exit(1);
+    }
+    
+    const result = runSync({
+      repoPath,
+      json: options.json,
+      dryRun: options.dryRun,
+      prefer: options.prefer as SyncPreference | undefined,
+    });
+    console.log(result.output);
+    process.exit(result.ok ? 0 : 1);
+  });
+
+// Test status command
+program
+  .command("test-status [report]")
+  .description("Record a JUnit XML or vitest/jest JSON report against tasks' test files, then show each task's results")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("--json", "Output as JSON")
+  .action(async (report: string | undefined, options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+    requireValidConfig(repoPath);
+
+    // The report path is given relative to where the command runs
+    const result = runTestStatus({ repoPath, report: report ? path.resolve(report) : undefined, json: options.json });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
+// Config command
+const configCommand = program
+  .command("config")
+  .description("Read and change repo settings in .loop-flow/config.json");
+
+configCommand
+  .command("get [key]")
+  .description("Show a setting (dotted key, e.g. page_sizes.scan), or the whole config")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("--json", "Output as JSON")
+  .action(async (key: string | undefined, options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+
+    const result = runConfigGet({ repoPath, key, json: options.json });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
+configCommand
+  .command("set <key> <value>")
+  .description("Change a setting; the value is parsed as JSON when possible (30, true, [...])")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("--json", "Output as JSON")
+  .action(async (key: string, value: string, options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+
+    const result = runConfigSet({ repoPath, key, value, json: options.json });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
+// Hooks command
+const hooksCommand = program
+  .command("hooks")
+  .description("Manage git hooks that prefix commit messages with the task in progress and record commits on tasks");
+
+hooksCommand
+  .command("install")
+  .description("Write prepare-commit-msg and post-commit hooks into the repo's hooks directory")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .option("-f, --force", "Replace existing hooks not written by loopflow")
+  .action(async (options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    requireLoopFlowDir(repoPath);
+
+    const result = runHooksInstall({ repoPath, force: options.force });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
+hooksCommand
+  .command("uninstall")
+  .description("Remove the hooks written by loopflow hooks install")
+  .option("--path <path>", "Repository path (defaults to current directory)")
+  .action(async (options) => {
+    const repoPath = options.path ? path.resolve(options.path) : process.cwd();
+    const result = runHooksUninstall({ repoPath });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
+// Hook command (run by the installed git hooks from the repo root)
+program
+  .command("hook <name> [args...]")
+  .description("Run a git hook: prepare-commit-msg or post-commit")
+  .action(async (name: string, args: string[]) => {
+    const result = runHook({ repoPath: process.cwd(), name, args });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    if (result.output) {
+      console.log(result.output);
+    }
+  });
+
+// OpenAPI command
+program
+  .command("openapi")
+  .description("Print the REST API's OpenAPI 3.1 document (served at /api/openapi.json)")
+  .option("--types <file>", "Write TypeScript types generated from it to <file> instead")
+  .action((options) => {
+    const result = runOpenApi({ types: options.types ? path.resolve(options.types) : undefined });
+    if (!result.ok) {
+      console.error(result.output);
+      process.exit(1);
+    }
+    console.log(result.output);
+  });
+
 // UI command
 program
   .command("ui")
   .description("Start web UI dashboard")
-  .option("-p, --port <port>", "Port to run on", "3000")
+  .option("-p, --port <port>", "Port to run on (default: ui.port from config, 3000)")
+  .option("--host <host>", "Interface to listen on (default: 127.0.0.1, this machine only)")
   .option("--no-open", "Don't auto-open browser")
   .option("--path <path>", "Repository path (defaults to current directory)")
   .action(async (options) => {
-    const port = parseInt(options.port, 10);
     const repoPath = options.path ? path.resolve(options.path) : process.cwd();
-    
-    // Check if .loop-flow exists
-    const loopFlowDir = path.join(repoPath, ".loop-flow");
-    const fs = await import("fs");
-    if (!fs.existsSync(loopFlowDir)) {
-      console.error("Error: No .loop-flow directory found.");
-      console.error("Run 'loopflow init' first to initialize LoopFlow.");
-      process.exit(1);
-    }
+    requireLoopFlowDir(repoPath);
+
+    const config = requireValidConfig(repoPath);
+    const port = options.port ? parsePositiveInt(options.port, "--port") : config.ui.port;
     
     // Determine static directory (built UI files)
     // In development, UI is served by Vite dev server
@@ -151,8 +379,9 @@ program
     
     // Start the server
     const { startServer } = await import("../api/server.js");
-    await startServer({
+    const url = await startServer({
       port,
+      host: options.host,
       repoPath,
       staticDir: hasBuiltUI ? staticDir : undefined,
     });
@@ -160,7 +389,6 @@ program
     // Auto-open browser
     if (options.open) {
       const open = (await import("open")).default;
-      const url = `http://localhost:${port}`;
       console.log(`\nOpening ${url} in browser...`);
       await open(url);
     }
@@ -146,6 +146,7 @@ The backlog is a **menu, not a queue** — pick the most valuable task for right
 - Tests must be human-readable: describe INTENT, not mechanics
 - Business rule tests should be simple input/output — **no mocks needed**
 - Run tests: \`npm test\`
+- Link the task's test file (\`test_file\` on \`loop_task_update\`) and record runs with \`loop_test_report\`
 - **No commit if tests fail**
 
 ### 5. COMPLETE — \`loop_task_update\`
@@ -272,10 +273,10 @@ src/
   "id": "LF-XXX",
   "title": "[TYPE] Short descriptive title",
   "description": "What needs to be done and why",
-  "status": "TODO | IN_PROGRESS | DONE | BLOCKED | CANCELLED",
+  "status": "TODO | IN_PROGRESS | REVIEW | QA | DONE | BLOCKED | CANCELLED",
   "priority": "high | medium | low",
   "depends_on": ["LF-YYY"],
-  "acceptance_criteria": ["Criterion 1", "Criterion 2"],
+  "acceptance_criteria": [{ "text": "Criterion 1", "met": false, "evidence": null, "verified_at": null }],
   "notes": "Optional context"
 }
 \`\`\`
@@ -0,0 +1,29 @@
+/**
+ * OpenAPI CLI Command
+ *
+ * `loopflow openapi` prints the REST API's OpenAPI 3.1 document (the same one
+ * the server serves at /api/openapi.json) without starting a server.
+ * `--types <file>` writes the TypeScript types generated from it instead;
+ * the web UI's src/ui/src/api/types.ts comes from here.
+ */
+
+import * as fs from "fs";
+import { buildOpenApiDocument } from "../api/openapi.js";
+import { generateClientTypes } from "../api/typegen.js";
+
+export interface OpenApiOptions {
+  types?: string;     // Write generated types to this file
+}
+
+export function runOpenApi(options: OpenApiOptions = {}): { output: string; ok: boolean } {
+  const document = buildOpenApiDocument();
+  if (!options.types) {
+    return { output: JSON.stringify(document, null, 2), ok: true };
+  }
+  try {
+    fs.writeFileSync(options.types, generateClientTypes(document));
+    return { output: `Wrote ${options.types}`, ok: true };
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+  }
+}
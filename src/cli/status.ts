@@ -0,0 +1,208 @@
+/**
+ * Status & Tasks CLI Commands
+ *
+ * Human-facing views of project state, read straight from .loop-flow/loopflow.db:
+ * - status: current task, backlog counts, latest session, suggested_actions
+ * - tasks: backlog table with status/priority filters
+ *
+ * Both support --json for scripting.
+ */
+
+import { initializeDatabase, type LoopFlowDatabase } from "../db/database.js";
+import type { TaskRecord } from "../db/repositories/tasks.js";
+import { parseCriteria } from "../rules/criteria.js";
+
+export interface StatusReport {
+  repo_path: string;
+  in_progress: Array<{ id: string; title: string; priority: string }>;
+  backlog: {
+    total: number;
+    by_status: Record<string, number>;
+    high_priority_todo: Array<{ id: string; title: string }>;
+  };
+  latest_session: {
+    id: string;
+    task_id: string | null;
+    outcome: string | null;
+    summary: string;
+  } | null;
+  suggested_actions: string | null;
+  insights: {
+    total: number;
+    unprocessed: number;
+  };
+}
+
+export interface TaskListOptions {
+  statuses?: string[];
+  priorities?: string[];
+  limit?: number;
+}
+
+interface CommandOptions {
+  repoPath: string;
+  json?: boolean;
+}
+
+/**
+ * Collect the status report from an open database
+ */
+export function getStatusReport(database: LoopFlowDatabase, repoPath: string): StatusReport {
+  const tasks = database.tasks.findAll();
+  const byStatus: Record<string, number> = {};
+  for (const task of tasks) {
+    byStatus[task.status] = (byStatus[task.status] || 0) + 1;
+  }
+
+  const latest = database.sessions.getRecent(1)[0];
+
+  return {
+    repo_path: repoPath,
+    in_progress: tasks
+      .filter(t => t.status === "IN_PROGRESS")
+      .map(t => ({ id: t.id, title: t.title, priority: t.priority })),
+    backlog: {
+      total: tasks.length,
+      by_status: byStatus,
+      high_priority_todo: tasks
+        .filter(t => t.status === "TODO" && t.priority === "high")
+        .slice(0, 5)
+        .map(t => ({ id: t.id, title: t.title })),
+    },
+    latest_session: latest
+      ? {
+          id: latest.id,
+          task_id: latest.task_id,
+          outcome: latest.outcome,
+          summary: latest.summary,
+        }
+      : null,
+    suggested_actions: database.repoContext.getValue("suggested_actions"),
+    insights: {
+      total: database.insights.count(),
+      unprocessed: database.insights.count({ statuses: ["unprocessed"] }),
+    },
+  };
+}
+
+/**
+ * List tasks with filters. Status and priority filters are case-insensitive
+ * (`--status=todo` matches TODO).
+ */
+export function getTaskList(database: LoopFlowDatabase, options: TaskListOptions = {}): TaskRecord[] {
+  return database.tasks.findAll(
+    {
+      statuses: options.statuses?.map(s => s.toUpperCase()),
+      priorities: options.priorities?.map(p => p.toLowerCase()),
+    },
+    { limit: options.limit }
+  );
+}
+
+/**
+ * Render rows as a fixed-width text table
+ */
+export function formatTable(headers: string[], rows: string[][], maxWidth = 60): string {
+  const cells = [headers, ...rows].map(row =>
+    row.map(cell => (cell.length > maxWidth ? cell.slice(0, maxWidth - 3) + "..." : cell))
+  );
+  const widths = headers.map((_, col) => Math.max(...cells.map(row => (row[col] || "").length)));
+  const line = (row: string[]) => row.map((cell, col) => (cell || "").padEnd(widths[col])).join("  ").trimEnd();
+
+  return [
+    line(cells[0]),
+    widths.map(w => "-".repeat(w)).join("  "),
+    ...cells.slice(1).map(line),
+  ].join("\n");
+}
+
+export function formatStatusReport(report: StatusReport): string {
+  const lines: string[] = [];
+
+  lines.push(`LoopFlow status: ${report.repo_path}`);
+  lines.push("");
+
+  lines.push("In progress:");
+  if (report.in_progress.length === 0) {
+    lines.push("  (none)");
+  } else {
+    for (const task of report.in_progress) {
+      lines.push(`  ${task.id}  ${task.title}  [${task.priority}]`);
+    }
+  }
+  lines.push("");
+
+  const counts = Object.entries(report.backlog.by_status)
+    .map(([status, count]) => `${status}: ${count}`)
+    .join(", ");
+  lines.push(`Backlog: ${report.backlog.total} tasks${counts ? ` (${counts})` : ""}`);
+  for (const task of report.backlog.high_priority_todo) {
+    lines.push(`  ${task.id}  ${task.title}  [high]`);
+  }
+  lines.push("");
+
+  lines.push(`Insights: ${report.insights.total} (${report.insights.unprocessed} unprocessed)`);
+  lines.push("");
+
+  lines.push("Latest session:");
+  if (report.latest_session) {
+    const s = report.latest_session;
+    lines.push(`  ${s.id}${s.task_id ? `  ${s.task_id}` : ""}${s.outcome ? `  ${s.outcome}` : ""}`);
+    for (const summaryLine of s.summary.split("\n")) {
+      lines.push(`  ${summaryLine}`);
+    }
+  } else {
+    lines.push("  (none)");
+  }
+  lines.push("");
+
+  lines.push("Suggested actions:");
+  lines.push(report.suggested_actions
+    ? report.suggested_actions.split("\n").map(l => `  ${l}`).join("\n")
+    : "  (none)");
+
+  return lines.join("\n");
+}
+
+export function formatTaskTable(tasks: TaskRecord[]): string {
+  if (tasks.length === 0) {
+    return "No tasks found.";
+  }
+  return formatTable(
+    ["ID", "STATUS", "PRIORITY", "TITLE"],
+    tasks.map(t => [t.id, t.status, t.priority, t.title])
+  );
+}
+
+/**
+ * `loopflow status`
+ */
+export function runStatus(options: CommandOptions): string {
+  const database = initializeDatabase(options.repoPath);
+  try {
+    const report = getStatusReport(database, options.repoPath);
+    return options.json ? JSON.stringify(report, null, 2) : formatStatusReport(report);
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * `loopflow tasks`
+ */
+export function runTasks(options: CommandOptions & TaskListOptions): string {
+  const database = initializeDatabase(options.repoPath);
+  try {
+    const tasks = getTaskList(database, options);
+    if (options.json) {
+      return JSON.stringify(tasks.map(t => ({
+        ...t,
+        depends_on: t.depends_on ? JSON.parse(t.depends_on) : null,
+        acceptance_criteria: t.acceptance_criteria ? parseCriteria(t.acceptance_criteria) : null,
+      })), null, 2);
+    }
+    return formatTaskTable(tasks);
+  } finally {
+    database.close();
+  }
+}
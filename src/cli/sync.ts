@@ -0,0 +1,384 @@
+/**
+ * Sync CLI Command
+ *
+ * `loopflow sync`: two-way sync between SQLite and Markdown files
+ * (.loop-flow/tasks/LF-042.md, .loop-flow/insights/INS-007.md) so tasks and
+ * insights can be reviewed and edited in PRs.
+ *
+ * Each record is compared against the hash stored at the last sync:
+ * - only the DB changed -> file is rewritten
+ * - only the file changed -> DB is updated
+ * - both changed -> reported as a conflict (resolve with --prefer)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { initializeDatabase, repointSuperseded, type LoopFlowDatabase } from "../db/database.js";
+import type { SyncEntityType } from "../db/repositories/sync-state.js";
+import {
+  hashContent,
+  decideSync,
+  taskRecordToMarkdown,
+  renderTaskMarkdown,
+  parseTaskMarkdown,
+  markdownTaskToChanges,
+  insightRecordToMarkdown,
+  renderInsightMarkdown,
+  parseInsightMarkdown,
+  type MarkdownTask,
+  type MarkdownInsight,
+  type ParseResult,
+} from "../rules/markdown-sync.js";
+import { toDependencyNodes, validateTaskDependencies, withNode } from "../rules/dependencies.js";
+import { summarizeInsight, summarizeTask } from "../rules/summarization.js";
+import { resolveLifecycleChange } from "../rules/insight-lifecycle.js";
+
+export const TASKS_DIR = "tasks";
+export const INSIGHTS_DIR = "insights";
+
+export type SyncPreference = "db" | "markdown" | "newer";
+
+export interface SyncOptions {
+  dryRun?: boolean;
+  prefer?: SyncPreference;   // How to resolve conflicts (default: report them)
+}
+
+export interface SyncConflict {
+  id: string;
+  file: string;
+  reason: string;
+  db_updated_at: string | null;
+  file_modified_at: string | null;
+}
+
+export interface EntitySyncReport {
+  exported: string[];
+  imported: string[];
+  unchanged: number;
+  conflicts: SyncConflict[];
+  errors: Array<{ file: string; error: string }>;
+}
+
+export interface SyncReport {
+  dry_run: boolean;
+  tasks: EntitySyncReport;
+  insights: EntitySyncReport;
+}
+
+interface SyncFile<T> {
+  file: string;
+  modifiedAt: string;
+  value: T;
+}
+
+/**
+ * Read and parse every *.md file in a directory. Files that fail to parse,
+ * or whose id doesn't match the file name, are reported and left alone.
+ */
+function readMarkdownDir<T extends { id: string }>(
+  dir: string,
+  parse: (markdown: string) => ParseResult<T>,
+  report: EntitySyncReport
+): { files: Map<string, SyncFile<T>>; invalid: Set<string> } {
+  const files = new Map<string, SyncFile<T>>();
+  const invalid = new Set<string>();
+  if (!fs.existsSync(dir)) return { files, invalid };
+
+  for (const name of fs.readdirSync(dir).filter(n => n.endsWith(".md")).sort()) {
+    const file = path.join(dir, name);
+    const fileId = name.replace(/\.md$/, "");
+    const parsed = parse(fs.readFileSync(file, "utf-8"));
+    if (!parsed.ok) {
+      report.errors.push({ file, error: parsed.error });
+      invalid.add(fileId);
+    } else if (parsed.value.id !== fileId) {
+      report.errors.push({ file, error: `id ${parsed.value.id} doesn't match file name` });
+      invalid.add(fileId);
+    } else {
+      files.set(fileId, { file, modifiedAt: fs.statSync(file).mtime.toISOString(), value: parsed.value });
+    }
+  }
+  return { files, invalid };
+}
+
+function emptyReport(): EntitySyncReport {
+  return { exported: [], imported: [], unchanged: 0, conflicts: [], errors: [] };
+}
+
+/**
+ * Sync one entity type. `apply` writes a parsed file to the DB and returns an
+ * error message if the file can't be applied.
+ */
+function syncEntities<R extends { id: string; updated_at: string }, T extends { id: string }>(
+  database: LoopFlowDatabase,
+  entityType: SyncEntityType,
+  dir: string,
+  records: R[],
+  render: (record: R) => string,
+  parse: (markdown: string) => ParseResult<T>,
+  renderParsed: (value: T) => string,
+  apply: (value: T, fileValues: T[]) => string | null,
+  reload: (id: string) => R | null,
+  options: SyncOptions
+): EntitySyncReport {
+  const report = emptyReport();
+  const { files, invalid } = readMarkdownDir(dir, parse, report);
+  const byId = new Map(records.map(r => [r.id, r]));
+  const bases = database.syncState.findAll(entityType);
+  const ids = [...new Set([...byId.keys(), ...files.keys()])].filter(id => !invalid.has(id)).sort();
+
+  for (const id of ids) {
+    const record = byId.get(id) ?? null;
+    const synced = files.get(id) ?? null;
+    const file = synced?.file ?? path.join(dir, `${id}.md`);
+    const dbMarkdown = record ? render(record) : null;
+    const dbHash = dbMarkdown !== null ? hashContent(dbMarkdown) : null;
+    const fileHash = synced ? hashContent(renderParsed(synced.value)) : null;
+    const base = bases.get(id) ?? null;
+
+    let action = decideSync({ dbHash, fileHash, baseHash: base?.hash ?? null });
+
+    if (action === "conflict") {
+      const conflict: SyncConflict = {
+        id,
+        file,
+        reason: synced ? "Changed in both the database and Markdown since the last sync" : "File deleted but record still exists",
+        db_updated_at: record?.updated_at ?? null,
+        file_modified_at: synced?.modifiedAt ?? null,
+      };
+      const newer = !synced || (record !== null && record.updated_at >= synced.modifiedAt) ? "db" : "markdown";
+      const winner = options.prefer === "newer" ? newer : options.prefer;
+      if (winner === "db" || (winner === "markdown" && synced)) {
+        action = winner === "db" ? "export" : "import";
+      } else {
+        report.conflicts.push(conflict);
+        continue;
+      }
+    }
+
+    if (action === "unchanged") {
+      report.unchanged++;
+      if (!options.dryRun && dbHash && base?.hash !== dbHash) {
+        database.syncState.set(entityType, id, dbHash, record!.updated_at);
+      }
+      continue;
+    }
+
+    if (action === "export") {
+      report.exported.push(id);
+      if (!options.dryRun) {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(file, dbMarkdown!);
+        database.syncState.set(entityType, id, dbHash!, record!.updated_at);
+      }
+      continue;
+    }
+
+    // import
+    if (options.dryRun) {
+      report.imported.push(id);
+      continue;
+    }
+    const error = apply(synced!.value, [...files.values()].map(f => f.value));
+    if (error) {
+      report.errors.push({ file, error });
+      continue;
+    }
+    report.imported.push(id);
+    const updated = reload(id)!;
+    database.syncState.set(entityType, id, hashContent(render(updated)), updated.updated_at);
+  }
+
+  return report;
+}
+
+/**
+ * Sync tasks and insights between the database and .loop-flow/{tasks,insights}/
+ */
+export function syncMarkdown(
+  database: LoopFlowDatabase,
+  repoPath: string,
+  options: SyncOptions = {}
+): SyncReport {
+  const loopFlowDir = path.join(repoPath, ".loop-flow");
+
+  // Dependencies are checked against the DB plus every task file, so a PR can
+  // add a task and a dependency on it together
+  const applyTask = (task: MarkdownTask, fileTasks: MarkdownTask[]): string | null => {
+    let nodes = toDependencyNodes(database.tasks.findAll());
+    for (const other of fileTasks) {
+      if (!nodes.some(n => n.id === other.id)) {
+        nodes = withNode(nodes, { id: other.id, status: other.status, depends_on: other.depends_on });
+      }
+    }
+    if (task.parent_id && !nodes.some(n => n.id === task.parent_id)) {
+      return `Unknown parent_id: ${task.parent_id}`;
+    }
+    const validation = validateTaskDependencies(task.id, task.depends_on, nodes);
+    if (!validation.valid) {
+      return validation.cycle
+        ? `Dependency cycle: ${validation.cycle.join(" -> ")}`
+        : `Unknown depends_on: ${validation.missing.join(", ")}`;
+    }
+
+    const changes = markdownTaskToChanges(task);
+    const existing = database.tasks.findById(task.id);
+    if (existing) {
+      database.tasks.update(task.id, {
+        ...changes,
+        summary: existing.title === task.title ? existing.summary : summarizeTask(task.title),
+      });
+    } else {
+      database.tasks.insert({ id: task.id, summary: summarizeTask(task.title), ...changes });
+    }
+    return null;
+  };
+
+  // Links to insights whose files are imported later in the same sync
+  const pendingLinks = new Map<string, string[]>();
+
+  // Link targets may be in the DB or among the insight files being synced
+  const applyInsight = (insight: MarkdownInsight, fileInsights: MarkdownInsight[]): string | null => {
+    const incoming = new Set(fileInsights.map(i => i.id));
+    const missing = insight.links.filter(id =>
+      id === insight.id || (!incoming.has(id) && !database.insights.findById(id))
+    );
+    if (missing.length > 0) {
+      return `Unknown or self links: ${missing.join(", ")}`;
+    }
+    const existing = database.insights.findById(insight.id);
+    const lifecycle = resolveLifecycleChange(
+      existing ?? { id: insight.id, status: insight.status, superseded_by: null },
+      { status: insight.status, superseded_by: insight.superseded_by },
+      insight.superseded_by ? database.insights.findById(insight.superseded_by) : null
+    );
+    if (!lifecycle.ok) {
+      return lifecycle.error;
+    }
+
+    const fields = {
+      content: insight.content,
+      summary: summarizeInsight(insight.content),
+      type: insight.type,
+      status: insight.status,
+      tags: insight.tags.length ? JSON.stringify(insight.tags) : null,
+      notes: insight.notes,
+      superseded_by: lifecycle.changes.superseded_by,
+    };
+    if (existing) {
+      database.insights.update(insight.id, fields);
+      if (lifecycle.changes.status === "superseded") {
+        repointSuperseded(database, insight.id, lifecycle.changes.superseded_by!);
+      }
+    } else {
+      database.insights.insert({ id: insight.id, ...fields, links: null, source: null });
+    }
+
+    // Links in Markdown are targets only: new targets become relates_to,
+    // removed targets lose every relation. Typed relations on kept targets survive.
+    const current = new Set(database.insightLinks.findOutgoing(insight.id).map(l => l.to_id));
+    const added = insight.links.filter(id => !current.has(id));
+    const pending = added.filter(id => !database.insights.findById(id));
+    for (const target of added.filter(id => !pending.includes(id))) {
+      database.insightLinks.link(insight.id, target, "relates_to");
+    }
+    if (pending.length > 0) {
+      pendingLinks.set(insight.id, pending);
+    }
+    for (const target of [...current].filter(id => !insight.links.includes(id))) {
+      database.insightLinks.unlink(insight.id, target);
+    }
+    return null;
+  };
+
+  const tasks = syncEntities(
+    database,
+    "task",
+    path.join(loopFlowDir, TASKS_DIR),
+    database.tasks.findAll(),
+    record => renderTaskMarkdown(taskRecordToMarkdown(record)),
+    markdown => parseTaskMarkdown(markdown, database.config.tasks),
+    renderTaskMarkdown,
+    applyTask,
+    id => database.tasks.findById(id),
+    options
+  );
+
+  const insights = syncEntities(
+    database,
+    "insight",
+    path.join(loopFlowDir, INSIGHTS_DIR),
+    database.insights.findAll(),
+    record => renderInsightMarkdown(insightRecordToMarkdown(record)),
+    markdown => parseInsightMarkdown(markdown, database.config.insights),
+    renderInsightMarkdown,
+    applyInsight,
+    id => database.insights.findById(id),
+    options
+  );
+
+  for (const [id, targets] of pendingLinks) {
+    const file = path.join(loopFlowDir, INSIGHTS_DIR, `${id}.md`);
+    const unresolved = targets.filter(target => !database.insights.findById(target));
+    for (const target of targets.filter(t => !unresolved.includes(t))) {
+      database.insightLinks.link(id, target, "relates_to");
+    }
+    if (unresolved.length > 0) {
+      // The base hash stays without these links, so the next sync retries them
+      insights.errors.push({ file, error: `Linked insights failed to import: ${unresolved.join(", ")}` });
+      continue;
+    }
+    const updated = database.insights.findById(id)!;
+    database.syncState.set("insight", id, hashContent(renderInsightMarkdown(insightRecordToMarkdown(updated))), updated.updated_at);
+  }
+
+  return { dry_run: !!options.dryRun, tasks, insights };
+}
+
+export function formatSyncReport(report: SyncReport): string {
+  const lines: string[] = [];
+  const section = (label: string, r: EntitySyncReport) => {
+    lines.push(`${label}: ${r.exported.length} exported, ${r.imported.length} imported, ${r.unchanged} unchanged`);
+    if (r.exported.length) lines.push(`  -> markdown: ${r.exported.join(", ")}`);
+    if (r.imported.length) lines.push(`  -> database: ${r.imported.join(", ")}`);
+    for (const c of r.conflicts) {
+      lines.push(`  CONFLICT ${c.id}: ${c.reason}`);
+      lines.push(`    db updated ${c.db_updated_at ?? "-"}, file modified ${c.file_modified_at ?? "-"}`);
+    }
+    for (const e of r.errors) {
+      lines.push(`  ERROR ${e.file}: ${e.error}`);
+    }
+  };
+
+  if (report.dry_run) {
+    lines.push("Dry run - nothing written.");
+  }
+  section("Tasks", report.tasks);
+  section("Insights", report.insights);
+
+  const conflicts = report.tasks.conflicts.length + report.insights.conflicts.length;
+  if (conflicts > 0) {
+    lines.push("");
+    lines.push(`${conflicts} conflict(s). Re-run with --prefer db|markdown|newer to resolve.`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * `loopflow sync`
+ */
+export function runSync(options: SyncOptions & { repoPath: string; json?: boolean }): { output: string; ok: boolean } {
+  const database = initializeDatabase(options.repoPath);
+  try {
+    const report = syncMarkdown(database, options.repoPath, options);
+    const problems = [report.tasks, report.insights]
+      .reduce((n, r) => n + r.conflicts.length + r.errors.length, 0);
+    return {
+      output: options.json ? JSON.stringify(report, null, 2) : formatSyncReport(report),
+      ok: problems === 0,
+    };
+  } finally {
+    database.close();
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Test Status CLI Command
+ *
+ * `loopflow test-status [report]`: with a report (JUnit XML or vitest/jest
+ * JSON), records its results against every task whose test_file it covers;
+ * then lists the tasks that have a test file and their latest results.
+ */
+
+import { initializeDatabase, importTestReport, type TestReportImport } from "../db/database.js";
+import { taskTestStatus, type TaskTestStatus } from "../rules/test-report.js";
+import { formatTable } from "./status.js";
+
+export interface TestStatusOptions {
+  repoPath: string;
+  report?: string;    // Report to record first (relative to repoPath)
+  json?: boolean;
+}
+
+export interface TestStatusEntry {
+  id: string;
+  title: string;
+  status: string;
+  test_file: string;
+  tests: TaskTestStatus | null;   // null: not run since the test file was linked
+}
+
+export interface TestStatusReport {
+  recorded: TestReportImport | null;
+  tasks: TestStatusEntry[];
+}
+
+export function formatTestStatus(report: TestStatusReport): string {
+  const lines: string[] = [];
+
+  if (report.recorded) {
+    const r = report.recorded;
+    lines.push(`Recorded ${r.report_file} (${r.format}, ${r.test_count} tests) for ${r.tasks.length} task(s)`);
+    if (r.unmatched_files.length > 0) {
+      lines.push(`Not linked to any task: ${r.unmatched_files.length} file(s)`);
+    }
+    lines.push("");
+  }
+
+  if (report.tasks.length === 0) {
+    lines.push("No tasks have a test file. Link one with loop_task_update test_file.");
+    return lines.join("\n");
+  }
+
+  lines.push(formatTable(
+    ["ID", "STATUS", "TESTS", "TEST FILE"],
+    report.tasks.map(t => [t.id, t.status, t.tests?.summary ?? "not run", t.test_file])
+  ));
+
+  for (const task of report.tasks) {
+    for (const name of task.tests?.failing ?? []) {
+      lines.push(`  FAIL ${task.id}  ${name}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * `loopflow test-status`
+ */
+export function runTestStatus(options: TestStatusOptions): { output: string; ok: boolean } {
+  const database = initializeDatabase(options.repoPath);
+  try {
+    const recorded = options.report
+      ? importTestReport(database, options.repoPath, options.report)
+      : null;
+
+    const results = database.testResults.findAll();
+    const tasks = database.tasks.findAll()
+      .filter(t => t.test_file)
+      .map(t => ({
+        id: t.id,
+        title: t.title,
+        status: t.status,
+        test_file: t.test_file!,
+        tests: taskTestStatus(t.test_file, results.get(t.id) ?? null),
+      }));
+
+    const report = { recorded, tasks };
+    return { output: options.json ? JSON.stringify(report, null, 2) : formatTestStatus(report), ok: true };
+  } catch (error) {
+    return { output: `Error: ${error instanceof Error ? error.message : String(error)}`, ok: false };
+  } finally {
+    database.close();
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  DEFAULT_CONFIG,
+  parseRepoConfig,
+  loadRepoConfig,
+  getConfigValue,
+  setConfigValue,
+} from "../repo-config.js";
+import { initializeDatabase, getTaskIdPrefix } from "../../db/database.js";
+
+describe("parseRepoConfig", () => {
+  it("fills defaults for missing keys", () => {
+    const parsed = parseRepoConfig({ page_sizes: { scan: 30 } });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.config.page_sizes).toEqual({ ...DEFAULT_CONFIG.page_sizes, scan: 30 });
+    expect(parsed.config.tasks.statuses).toEqual(["TODO", "IN_PROGRESS", "REVIEW", "QA", "DONE", "BLOCKED", "CANCELLED"]);
+    expect(parsed.config.tasks.transitions).toEqual({
+      REVIEW: ["IN_PROGRESS", "QA", "DONE", "BLOCKED", "CANCELLED"],
+      QA: ["IN_PROGRESS", "REVIEW", "DONE", "BLOCKED", "CANCELLED"],
+    });
+    expect(parsed.config.tasks.requirements).toEqual({ BLOCKED: ["reason"] });
+    expect(parsed.config.export.on_graceful_handoff).toBe(true);
+  });
+
+  it("normalizes the task ID prefix", () => {
+    const parsed = parseRepoConfig({ tasks: { id_prefix: "api-" } });
+    expect(parsed.ok && parsed.config.tasks.id_prefix).toBe("API");
+  });
+
+  it("reports every problem with its key", () => {
+    const parsed = parseRepoConfig({
+      tasks: { statuses: ["OPEN", "CLOSED"], id_prefix: "INS" },
+      page_sizes: { scan: 0 },
+      colour: "blue",
+    });
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.errors.some(e => e.startsWith("tasks.id_prefix: Prefix INS is reserved"))).toBe(true);
+    expect(parsed.errors.some(e => e.startsWith("page_sizes.scan:"))).toBe(true);
+    expect(parsed.errors.some(e => e.includes("colour"))).toBe(true);
+  });
+
+  it("checks the workflow only references declared statuses", () => {
+    const parsed = parseRepoConfig({
+      tasks: { statuses: ["TODO", "DONE"], transitions: { TODO: ["REVIEW"] } },
+    });
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.errors).toContain("tasks: transitions: unknown status REVIEW");
+
+    const badRequirement = parseRepoConfig({ tasks: { requirements: { DONE: ["signoff"] } } });
+    expect(!badRequirement.ok && badRequirement.errors[0]).toMatch(/^tasks\.requirements\.DONE/);
+    // Without BLOCKED, REVIEW or QA there is no default requirement or transition to dangle
+    expect(parseRepoConfig({ tasks: { statuses: ["TODO", "DONE"] } }).ok).toBe(true);
+    const reviewOnly = parseRepoConfig({ tasks: { statuses: ["TODO", "REVIEW", "DONE"] } });
+    expect(reviewOnly.ok && reviewOnly.config.tasks.transitions).toEqual({ REVIEW: ["DONE"] });
+  });
+
+  it("requires the default priority and type to be in their lists", () => {
+    expect(parseRepoConfig({ tasks: { priorities: ["p0", "p1"] } }).ok).toBe(false);
+    expect(parseRepoConfig({ tasks: { priorities: ["p0", "p1"], default_priority: "p1" } }).ok).toBe(true);
+    expect(parseRepoConfig({ insights: { types: ["gotcha"] } }).ok).toBe(false);
+  });
+
+  it("requires a command for the command embedder", () => {
+    const parsed = parseRepoConfig({ embeddings: { provider: "command" } });
+    expect(!parsed.ok && parsed.errors).toEqual(["embeddings.command: command is required when provider is command"]);
+    expect(parseRepoConfig({ embeddings: { provider: "command", command: ["python", "embed.py"] } }).ok).toBe(true);
+    expect(parseRepoConfig({ embeddings: { provider: "command", command: "python embed.py" } }).ok).toBe(false);
+  });
+});
+
+describe("dotted keys", () => {
+  it("reads nested values", () => {
+    expect(getConfigValue(DEFAULT_CONFIG, "ui.port")).toBe(3000);
+    expect(getConfigValue(DEFAULT_CONFIG, "ui.nope")).toBeUndefined();
+  });
+
+  it("sets values without touching siblings", () => {
+    const raw = { tasks: { id_prefix: "API" } };
+    expect(setConfigValue(raw, "tasks.priorities", ["p0", "p1"])).toEqual({
+      tasks: { id_prefix: "API", priorities: ["p0", "p1"] },
+    });
+    expect(raw).toEqual({ tasks: { id_prefix: "API" } });
+  });
+});
+
+describe("loadRepoConfig", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: string) =>
+    fs.writeFileSync(path.join(testDir, ".loop-flow", "config.json"), content);
+
+  it("uses defaults without a config file", () => {
+    expect(loadRepoConfig(testDir)).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("throws on invalid JSON or values", () => {
+    writeConfig("{ not json");
+    expect(() => loadRepoConfig(testDir)).toThrow(/config\.json/);
+    writeConfig(JSON.stringify({ ui: { port: "eighty" } }));
+    expect(() => loadRepoConfig(testDir)).toThrow(/ui\.port/);
+  });
+
+  it("is loaded by initializeDatabase", () => {
+    writeConfig(JSON.stringify({ tasks: { id_prefix: "web" } }));
+    const database = initializeDatabase(testDir);
+    try {
+      expect(database.config.tasks.id_prefix).toBe("WEB");
+      expect(getTaskIdPrefix(database)).toBe("WEB");
+    } finally {
+      database.close();
+    }
+  });
+});
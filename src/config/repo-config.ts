@@ -0,0 +1,223 @@
+/**
+ * Repo Config
+ *
+ * Per-repo settings in .loop-flow/config.json, validated with zod.
+ * Every key is optional: missing keys fall back to the defaults, and
+ * `loopflow config set` only writes the keys a team actually changed.
+ *
+ * Example:
+ *   {
+ *     "tasks": {
+ *       "statuses": ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE"],
+ *       "transitions": { "TODO": ["IN_PROGRESS"], "IN_PROGRESS": ["IN_REVIEW"], "IN_REVIEW": ["IN_PROGRESS", "DONE"] },
+ *       "requirements": { "DONE": ["acceptance_criteria_met"] },
+ *       "id_prefix": "API"
+ *     },
+ *     "page_sizes": { "task_list": 50 }
+ *   }
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { validateTaskPrefix } from "../rules/ids.js";
+import { TRANSITION_REQUIREMENTS, validateWorkflow } from "../rules/workflow.js";
+
+export const CONFIG_FILE = "config.json";
+
+const list = z.array(z.string().min(1)).min(1);
+const count = z.number().int().positive();
+
+// Default ways out of the review stages (other statuses may move anywhere, so into them too)
+const REVIEW_TRANSITIONS: Record<string, string[]> = {
+  REVIEW: ["IN_PROGRESS", "QA", "DONE", "BLOCKED", "CANCELLED"],
+  QA: ["IN_PROGRESS", "REVIEW", "DONE", "BLOCKED", "CANCELLED"],
+};
+
+const TasksConfigSchema = z.strictObject({
+  statuses: list.default(["TODO", "IN_PROGRESS", "REVIEW", "QA", "DONE", "BLOCKED", "CANCELLED"]),
+  // Status -> statuses it may move to. Statuses not listed may move anywhere.
+  // Default: REVIEW_TRANSITIONS for whichever review stages are in statuses
+  transitions: z.record(z.string(), z.array(z.string())).optional(),
+  // Status -> what a task needs to enter it (see rules/workflow.ts). Default: BLOCKED needs a reason
+  requirements: z.record(z.string(), z.array(z.enum(TRANSITION_REQUIREMENTS))).optional(),
+  board_columns: list.optional(),
+  priorities: list.default(["high", "medium", "low"]),
+  default_priority: z.string().default("medium"),
+  // Prefix for generated task IDs (API -> API-001). Unset: inferred from existing tasks
+  id_prefix: z.string()
+    .transform((value, ctx) => {
+      const result = validateTaskPrefix(value);
+      if (!result.ok) {
+        ctx.addIssue({ code: "custom", message: result.error });
+        return z.NEVER;
+      }
+      return result.prefix;
+    })
+    .optional(),
+})
+  .transform(t => ({
+    ...t,
+    transitions: t.transitions ?? Object.fromEntries(
+      Object.entries(REVIEW_TRANSITIONS)
+        .filter(([from]) => t.statuses.includes(from))
+        .map(([from, targets]) => [from, targets.filter(to => t.statuses.includes(to))])
+    ),
+    requirements: t.requirements ?? (t.statuses.includes("BLOCKED") ? { BLOCKED: ["reason" as const] } : {}),
+  }))
+  // TODO is where new tasks start and DONE is what progress and dependencies count
+  .refine(t => t.statuses.includes("TODO") && t.statuses.includes("DONE"), {
+    message: "statuses must include TODO and DONE",
+    path: ["statuses"],
+  })
+  .refine(t => t.priorities.includes(t.default_priority), {
+    message: "default_priority must be one of priorities",
+    path: ["default_priority"],
+  })
+  .superRefine((t, ctx) => {
+    for (const message of validateWorkflow(t)) {
+      ctx.addIssue({ code: "custom", message });
+    }
+  });
+
+export const RepoConfigSchema = z.strictObject({
+  tasks: TasksConfigSchema.prefault({}),
+  insights: z.strictObject({
+    types: list.default(["domain", "architecture", "edge_case", "technical"]),
+    default_type: z.string().default("technical"),
+    // Shingle (Jaccard) similarity at which insights count as possible duplicates
+    duplicate_threshold: z.number().min(0).max(1).default(0.5),
+  })
+    .refine(i => i.types.includes(i.default_type), {
+      message: "default_type must be one of types",
+      path: ["default_type"],
+    })
+    .prefault({}),
+  page_sizes: z.strictObject({
+    orient_insights: count.default(50),   // Insights in loop_orient before suggesting loop_expand
+    scan: count.default(20),
+    task_list: count.default(20),
+    history: count.default(50),
+  }).prefault({}),
+  sessions: z.strictObject({
+    summary_chars: count.default(300),    // Session summaries are truncated to this in orient/dashboard
+  }).prefault({}),
+  export: z.strictObject({
+    on_graceful_handoff: z.boolean().default(true),
+    on_emergency_handoff: z.boolean().default(false),
+  }).prefault({}),
+  embeddings: z.strictObject({
+    enabled: z.boolean().default(true),
+    provider: z.enum(["hashing", "command"]).default("hashing"),
+    // provider "command": program and arguments (run without a shell) that read {"texts": [...]}
+    // as JSON on stdin and print {"vectors": [[...], ...]}. Only runs when the user opts in with
+    // LOOPFLOW_ALLOW_EMBEDDING_COMMAND=1, since config.json comes with the repo
+    command: list.optional(),
+    min_similarity: z.number().min(0).max(1).default(0.15),   // Weakest match semantic search returns
+  })
+    .refine(e => e.provider !== "command" || e.command !== undefined, {
+      message: "command is required when provider is command",
+      path: ["command"],
+    })
+    .prefault({}),
+  hooks: z.strictObject({
+    close_on_commit: z.boolean().default(true),   // post-commit: "closes LF-042" moves LF-042 to DONE
+  }).prefault({}),
+  ui: z.strictObject({
+    port: count.default(3000),
+    timeout_minutes: count.default(30),   // Auto-stop for the MCP-managed UI server
+  }).prefault({}),
+});
+
+export type RepoConfig = z.output<typeof RepoConfigSchema>;
+
+export const DEFAULT_CONFIG: RepoConfig = RepoConfigSchema.parse({});
+
+export function getConfigPath(repoPath: string): string {
+  return path.join(repoPath, ".loop-flow", CONFIG_FILE);
+}
+
+/**
+ * Validate a raw config object, returning readable errors ("tasks.statuses: ...")
+ */
+export function parseRepoConfig(raw: unknown): { ok: true; config: RepoConfig } | { ok: false; errors: string[] } {
+  const result = RepoConfigSchema.safeParse(raw);
+  if (result.success) {
+    return { ok: true, config: result.data };
+  }
+  return {
+    ok: false,
+    errors: result.error.issues.map(issue =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+/**
+ * The file as written (no defaults filled in). Missing file -> {}
+ */
+export function readRawConfig(repoPath: string): Record<string, unknown> {
+  const configPath = getConfigPath(repoPath);
+  if (!fs.existsSync(configPath)) return {};
+  try {
+    const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new Error("expected a JSON object");
+    }
+    return raw as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(`Invalid ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function writeRawConfig(repoPath: string, raw: Record<string, unknown>): void {
+  fs.writeFileSync(getConfigPath(repoPath), JSON.stringify(raw, null, 2) + "\n");
+}
+
+/**
+ * Load and validate .loop-flow/config.json. Throws with every problem listed.
+ */
+export function loadRepoConfig(repoPath: string): RepoConfig {
+  const parsed = parseRepoConfig(readRawConfig(repoPath));
+  if (!parsed.ok) {
+    throw new Error(`Invalid ${getConfigPath(repoPath)}:\n  ${parsed.errors.join("\n  ")}`);
+  }
+  return parsed.config;
+}
+
+/**
+ * Read a dotted key ("page_sizes.scan"). Undefined for unknown keys.
+ */
+export function getConfigValue(config: RepoConfig, key: string): unknown {
+  let value: unknown = config;
+  for (const part of key.split(".")) {
+    if (typeof value !== "object" || value === null || !(part in value)) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Copy of a raw config with a dotted key set (or removed, for undefined)
+ */
+export function setConfigValue(
+  raw: Record<string, unknown>,
+  key: string,
+  value: unknown
+): Record<string, unknown> {
+  const [head, ...rest] = key.split(".");
+  const next = { ...raw };
+  if (rest.length === 0) {
+    if (value === undefined) {
+      delete next[head];
+    } else {
+      next[head] = value;
+    }
+    return next;
+  }
+  const child = typeof raw[head] === "object" && raw[head] !== null && !Array.isArray(raw[head])
+    ? raw[head] as Record<string, unknown>
+    : {};
+  next[head] = setConfigValue(child, rest.join("."), value);
+  return next;
+}
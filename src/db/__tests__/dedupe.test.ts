@@ -0,0 +1,106 @@
+/**
+ * Tests for duplicate detection and insight merging
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  initializeDatabase,
+  findPossibleDuplicates,
+  findDuplicateClusters,
+  mergeInsights,
+  type LoopFlowDatabase,
+} from "../database.js";
+import { INACTIVE_INSIGHT_STATUSES } from "../../rules/insight-lifecycle.js";
+
+describe("insight dedupe", () => {
+  let testDir: string;
+  let database: LoopFlowDatabase;
+
+  const insight = (id: string, content: string, tags: string[] | null = null) => database.insights.insert({
+    id,
+    content,
+    summary: null,
+    type: "technical",
+    status: "unprocessed",
+    tags: tags ? JSON.stringify(tags) : null,
+    links: null,
+    source: null,
+    notes: null,
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    database = initializeDatabase(testDir);
+    insight("INS-001", "WAL mode lets readers proceed while a writer holds the lock", ["sqlite"]);
+    insight("INS-002", "The CLI prints tables with padded columns");
+    insight("INS-003", "In WAL mode, readers proceed while the writer holds the lock!", ["wal", "locking"]);
+    insight("INS-004", "Busy timeout avoids SQLITE_BUSY errors");
+  });
+
+  afterEach(() => {
+    database.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("finds possible duplicates of new content", () => {
+    const matches = findPossibleDuplicates(database, "With WAL mode - readers proceed while a writer holds the lock", "INS-001");
+    expect(matches.map(m => m.id)).toEqual(["INS-003"]);
+    expect(findPossibleDuplicates(database, "Something else entirely")).toEqual([]);
+  });
+
+  it("proposes clusters with the oldest insight first", () => {
+    expect(findDuplicateClusters(database).map(c => c.ids)).toEqual([["INS-001", "INS-003"]]);
+    expect(findDuplicateClusters(database, 0.99)).toEqual([]);
+  });
+
+  it("merges content, tags and links and retires the merged insight", () => {
+    database.insightLinks.link("INS-004", "INS-003", "builds_on");
+
+    const result = mergeInsights(database, "INS-001", ["INS-003"]);
+
+    expect(result).toMatchObject({ merged: ["INS-003"], links_rewritten: 1 });
+    expect(result.into.content).toBe(
+      "WAL mode lets readers proceed while a writer holds the lock\n\nIn WAL mode, readers proceed while the writer holds the lock!"
+    );
+    expect(JSON.parse(result.into.tags!)).toEqual(["sqlite", "wal", "locking"]);
+    expect(result.into.notes).toBe("Merged INS-003");
+    expect(database.insightLinks.findIncoming("INS-001")).toMatchObject([{ from_id: "INS-004", relation: "builds_on" }]);
+
+    const merged = database.insights.findById("INS-003")!;
+    expect(merged).toMatchObject({ status: "merged", notes: "Merged into INS-001" });
+
+    // Merged insights drop out of search and dedupe
+    const active = { excludeStatuses: INACTIVE_INSIGHT_STATUSES };
+    expect(database.insights.search("readers", active).map(i => i.id)).toEqual(["INS-001"]);
+    expect(database.insights.count(active)).toBe(3);
+    expect(findDuplicateClusters(database)).toEqual([]);
+  });
+
+  it("re-points insights superseded by a merged insight", () => {
+    database.insights.update("INS-004", { status: "superseded", superseded_by: "INS-003" });
+
+    mergeInsights(database, "INS-001", ["INS-003"]);
+
+    expect(database.insights.findById("INS-004")!.superseded_by).toBe("INS-001");
+  });
+
+  it("keeps rewritten content when given", () => {
+    const result = mergeInsights(database, "INS-001", ["INS-003"], "WAL: readers never wait for the writer");
+    expect(result.into).toMatchObject({ content: "WAL: readers never wait for the writer", summary: "WAL: readers never wait for the writer" });
+  });
+
+  it("rejects invalid merges", () => {
+    expect(() => mergeInsights(database, "INS-404", ["INS-001"])).toThrow("Insight not found: INS-404");
+    expect(() => mergeInsights(database, "INS-001", ["INS-001"])).toThrow(/Nothing to merge/);
+    expect(() => mergeInsights(database, "INS-001", ["INS-003", "INS-999"])).toThrow("Insights not found: INS-999");
+
+    mergeInsights(database, "INS-001", ["INS-003"]);
+    expect(() => mergeInsights(database, "INS-003", ["INS-002"])).toThrow("Not active: INS-003 (merged)");
+    // Nothing changed by the failed merges
+    expect(database.insights.findById("INS-002")!.status).toBe("unprocessed");
+  });
+});
@@ -15,6 +15,8 @@ import { createTasksRepository } from "../repositories/tasks.js";
 import { createSessionsRepository } from "../repositories/sessions.js";
 import { createRepoContextRepository } from "../repositories/repo-context.js";
 import { createFeedbackSpecsRepository } from "../repositories/feedback-specs.js";
+import { createInsightLinksRepository } from "../repositories/insight-links.js";
+import { createEventsRepository, diffFields } from "../repositories/events.js";
 
 describe("Database Integration", () => {
   let tempDir: string;
@@ -115,6 +117,29 @@ describe("Database Integration", () => {
 
       db.close();
     });
+
+    it("allocates IDs across connections without collisions", () => {
+      const db1 = openDatabase(dbPath);
+      const db2 = openDatabase(dbPath);
+      const a = createInsightsRepository(db1);
+      const b = createInsightsRepository(db2);
+      const fields = {
+        content: "Captured",
+        summary: "Captured",
+        type: "technical",
+        status: "unprocessed",
+        tags: null,
+        links: null,
+        source: null,
+        notes: null,
+      };
+
+      const ids = [a, b, a, b].map(repo => repo.insertWithNextId(fields).id);
+      expect(ids).toEqual(["INS-001", "INS-002", "INS-003", "INS-004"]);
+
+      db1.close();
+      db2.close();
+    });
   });
 
   describe("SessionsRepository", () => {
@@ -226,6 +251,89 @@ describe("Database Integration", () => {
 
       db.close();
     });
+
+    it("reserves distinct session IDs for concurrent sessions", () => {
+      const db1 = openDatabase(dbPath);
+      const db2 = openDatabase(dbPath);
+
+      const first = createSessionsRepository(db1).reserve("2026-01-22");
+      const second = createSessionsRepository(db2).reserve("2026-01-22");
+
+      expect(first.id).toBe("2026-01-22-S1");
+      expect(second.id).toBe("2026-01-22-S2");
+      expect(second.outcome).toBe("IN_PROGRESS");
+      expect(createSessionsRepository(db1).reserve("2026-01-23").id).toBe("2026-01-23-S1");
+
+      db1.close();
+      db2.close();
+    });
+
+    it("hides reservations from readers until the session is written, and expires stale ones", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db);
+      const sessions = createSessionsRepository(db, events);
+
+      const abandoned = sessions.reserve("2026-01-20");
+      const open = sessions.reserve("2026-01-21");
+      expect(sessions.getRecent(5)).toEqual([]);
+      expect(sessions.findAll()).toEqual([]);
+      expect(sessions.count()).toBe(0);
+      expect(sessions.getLastSessionId()).toBeNull();
+      expect(sessions.findAll({ includeReserved: true }).map(s => s.id)).toEqual([open.id, abandoned.id]);
+
+      sessions.upsert({ ...open, outcome: "COMPLETE", summary: "Handed off" });
+      expect(sessions.getRecent(5).map(s => s.id)).toEqual([open.id]);
+      expect(sessions.findById(open.id)!.reserved_at).toBeNull();
+
+      // A reservation from two days back never handed off, unless its session is still running
+      const running = sessions.reserve("2026-01-19");
+      sessions.reserve("2026-01-22", [running.id]);
+      expect(sessions.findById(abandoned.id)).toBeUndefined();
+      expect(sessions.findById(running.id)).toBeDefined();
+      expect(sessions.count({ includeReserved: true })).toBe(3);
+      // Expiry is housekeeping, not a change anyone made
+      expect(events.findByEntity(abandoned.id).map(e => e.action)).toEqual(["create"]);
+
+      db.close();
+    });
+
+    it("keeps the git range on upserts without one and finds sessions by commit task", () => {
+      const db = openDatabase(dbPath);
+      const sessions = createSessionsRepository(db);
+      const base = {
+        id: "2026-01-22-S1",
+        date: "2026-01-22",
+        session_number: 1,
+        task_id: null,
+        task_type: null,
+        task_title: null,
+        outcome: "COMPLETE",
+        summary: "Landed sync",
+        learnings: null,
+        files_changed: null,
+        insights_added: null,
+      };
+      const commits = [
+        { sha: "abc1234", subject: "LF-042: add sync", author: "Dev", date: "2026-01-22T10:00:00Z", task_ids: ["LF-042"] },
+      ];
+
+      sessions.upsert({ ...base, git_branch: "lf-042-sync", start_commit: "aaa", end_commit: "abc1234", commits: JSON.stringify(commits) });
+      sessions.upsert({ ...base, summary: "Landed sync (edited)" });
+
+      const retrieved = sessions.findById("2026-01-22-S1")!;
+      expect(retrieved.git_branch).toBe("lf-042-sync");
+      expect(retrieved.end_commit).toBe("abc1234");
+      expect(sessions.findByCommitTask("LF-042").map(s => s.id)).toEqual(["2026-01-22-S1"]);
+      expect(sessions.findByCommitTask("LF-04")).toEqual([]);
+
+      db.close();
+    });
+
+    it("opens the database in WAL mode", () => {
+      const db = openDatabase(dbPath);
+      expect(db.pragma("journal_mode", { simple: true })).toBe("wal");
+      db.close();
+    });
   });
 
   describe("RepoContextRepository", () => {
@@ -413,6 +521,381 @@ describe("Database Integration", () => {
     });
   });
 
+  describe("InsightLinksRepository", () => {
+    function insertInsight(insights: ReturnType<typeof createInsightsRepository>, id: string, links: string[] | null = null) {
+      insights.insert({
+        id,
+        content: `Insight ${id}`,
+        summary: null,
+        type: "technical",
+        status: "unprocessed",
+        tags: null,
+        links: links ? JSON.stringify(links) : null,
+        source: null,
+        notes: null,
+      });
+    }
+
+    it("stores typed links and reports direction from both ends", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      insertInsight(insights, "INS-044");
+      insertInsight(insights, "INS-120");
+
+      links.link("INS-120", "INS-044", "contradicts", "Newer benchmark disagrees");
+
+      const views = links.findForInsights(["INS-120", "INS-044"]);
+      expect(views.get("INS-120")).toEqual([
+        { id: "INS-044", relation: "contradicts", direction: "outgoing", note: "Newer benchmark disagrees" },
+      ]);
+      expect(views.get("INS-044")).toEqual([
+        { id: "INS-120", relation: "contradicts", direction: "incoming", note: "Newer benchmark disagrees" },
+      ]);
+
+      // Legacy column mirrors outgoing targets
+      expect(JSON.parse(insights.findById("INS-120")!.links!)).toEqual(["INS-044"]);
+
+      db.close();
+    });
+
+    it("unlinks and clears the legacy column", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      insertInsight(insights, "INS-001");
+      insertInsight(insights, "INS-002");
+
+      links.link("INS-001", "INS-002", "builds_on");
+      links.link("INS-001", "INS-002", "exemplifies");
+      expect(links.unlink("INS-001", "INS-002", "builds_on")).toBe(1);
+      expect(links.findOutgoing("INS-001").map(l => l.relation)).toEqual(["exemplifies"]);
+
+      expect(links.unlink("INS-001", "INS-002")).toBe(1);
+      expect(links.count()).toBe(0);
+      expect(insights.findById("INS-001")!.links).toBeNull();
+
+      db.close();
+    });
+
+    it("replaces outgoing links of one relation only", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      for (const id of ["INS-001", "INS-002", "INS-003", "INS-004"]) insertInsight(insights, id);
+      links.link("INS-001", "INS-002", "contradicts", "Benchmarks disagree");
+      links.link("INS-001", "INS-003", "relates_to", "Kept note");
+      links.link("INS-001", "INS-004", "relates_to");
+
+      links.replaceOutgoing("INS-001", ["INS-003"], "relates_to");
+
+      expect(links.findOutgoing("INS-001")).toMatchObject([
+        { to_id: "INS-002", relation: "contradicts", note: "Benchmarks disagree" },
+        { to_id: "INS-003", relation: "relates_to", note: "Kept note" },
+      ]);
+
+      links.replaceOutgoing("INS-001", [], "relates_to");
+      expect(links.findOutgoing("INS-001").map(l => l.relation)).toEqual(["contradicts"]);
+      expect(JSON.parse(insights.findById("INS-001")!.links!)).toEqual(["INS-002"]);
+
+      db.close();
+    });
+
+    it("rejects links to missing insights", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      insertInsight(insights, "INS-001");
+
+      expect(() => links.link("INS-001", "INS-999", "builds_on")).toThrow();
+
+      db.close();
+    });
+
+    it("backfills legacy links column, dropping dangling IDs", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      insertInsight(insights, "INS-001");
+      insertInsight(insights, "INS-002", ["INS-001", "INS-404"]);
+
+      expect(links.backfillFromLegacyColumn()).toBe(1);
+      expect(links.findIncoming("INS-001")).toMatchObject([
+        { from_id: "INS-002", relation: "relates_to" },
+      ]);
+
+      // Idempotent
+      expect(links.backfillFromLegacyColumn()).toBe(0);
+
+      db.close();
+    });
+
+    it("re-points links when an insight is merged away", () => {
+      const db = openDatabase(dbPath);
+      const insights = createInsightsRepository(db);
+      const links = createInsightLinksRepository(db);
+
+      for (const id of ["INS-001", "INS-002", "INS-003", "INS-004"]) insertInsight(insights, id);
+      links.link("INS-003", "INS-002", "builds_on", "Same idea");
+      links.link("INS-002", "INS-004", "contradicts");
+      links.link("INS-002", "INS-001", "relates_to");
+      links.link("INS-003", "INS-001", "builds_on");
+
+      expect(links.replaceInsight("INS-002", "INS-001")).toBe(3);
+
+      expect(links.findIncoming("INS-001")).toMatchObject([{ from_id: "INS-003", relation: "builds_on" }]);
+      expect(links.findOutgoing("INS-001")).toMatchObject([{ to_id: "INS-004", relation: "contradicts" }]);
+      expect(links.findForInsights(["INS-002"]).get("INS-002") ?? []).toEqual([]);
+      expect(JSON.parse(insights.findById("INS-003")!.links!)).toEqual(["INS-001"]);
+      expect(insights.findById("INS-002")!.links).toBeNull();
+
+      db.close();
+    });
+  });
+
+  describe("TasksRepository IDs and subtasks", () => {
+    const fields = {
+      title: "Step",
+      description: null,
+      summary: null,
+      status: "TODO",
+      priority: "medium",
+      depends_on: null,
+      acceptance_criteria: null,
+      test_file: null,
+      notes: null,
+    };
+
+    it("auto-numbers children with dotted IDs", () => {
+      const db = openDatabase(dbPath);
+      const tasks = createTasksRepository(db);
+
+      tasks.insert({ ...fields, id: "LF-042", parent_id: null });
+      const ids = [1, 2, 3].map(() => tasks.insertChild("LF-042", fields).id);
+      tasks.insertChild("LF-042.2", fields);
+
+      expect(ids).toEqual(["LF-042.1", "LF-042.2", "LF-042.3"]);
+      expect(tasks.getNextChildId("LF-042.2")).toBe("LF-042.2.2");
+      expect(tasks.findChildren("LF-042").map(t => t.id)).toEqual(ids);
+      expect(tasks.findById("LF-042.3")!.parent_id).toBe("LF-042");
+
+      db.close();
+    });
+
+    it("orders children numerically", () => {
+      const db = openDatabase(dbPath);
+      const tasks = createTasksRepository(db);
+
+      tasks.insert({ ...fields, id: "LF-1", parent_id: null });
+      for (const id of ["LF-1.10", "LF-1.9"]) {
+        tasks.insert({ ...fields, id, parent_id: "LF-1" });
+      }
+
+      expect(tasks.findChildren("LF-1").map(t => t.id)).toEqual(["LF-1.9", "LF-1.10"]);
+      expect(tasks.getNextChildId("LF-1")).toBe("LF-1.11");
+
+      db.close();
+    });
+
+    it("allocates top-level IDs per prefix, ignoring subtasks", () => {
+      const db = openDatabase(dbPath);
+      const tasks = createTasksRepository(db);
+
+      expect(tasks.getNextId("API")).toBe("API-001");
+      tasks.insert({ ...fields, id: "API-009", parent_id: null });
+      tasks.insert({ ...fields, id: "API-009.12", parent_id: "API-009" });
+      tasks.insert({ ...fields, id: "WEB-041", parent_id: null });
+
+      expect(tasks.insertWithNextId("API", { ...fields, parent_id: null }).id).toBe("API-010");
+      expect(tasks.getNextId("WEB")).toBe("WEB-042");
+      expect(tasks.getNextId("LF")).toBe("LF-001");
+      expect(tasks.getIdPrefixes().sort()).toEqual(["API", "WEB"]);
+
+      db.close();
+    });
+
+    it("backfills parents from dotted IDs when the parent exists", () => {
+      const db = openDatabase(dbPath);
+      const tasks = createTasksRepository(db);
+
+      for (const id of ["LF-042", "LF-042.1", "LF-042.1.1", "LF-050.1"]) {
+        tasks.insert({ ...fields, id, parent_id: null });
+      }
+
+      expect(tasks.backfillParentsFromIds()).toBe(2);
+      expect(tasks.findById("LF-042.1")!.parent_id).toBe("LF-042");
+      expect(tasks.findById("LF-042.1.1")!.parent_id).toBe("LF-042.1");
+      expect(tasks.findById("LF-050.1")!.parent_id).toBeNull();
+      expect(tasks.backfillParentsFromIds()).toBe(0);
+
+      db.close();
+    });
+  });
+
+  describe("EventsRepository", () => {
+    function insertTask(tasks: ReturnType<typeof createTasksRepository>, id: string) {
+      tasks.insert({
+        id,
+        title: `Task ${id}`,
+        description: null,
+        summary: null,
+        status: "TODO",
+        priority: "medium",
+        depends_on: null,
+        acceptance_criteria: null,
+        test_file: null,
+        notes: null,
+        parent_id: null,
+      });
+    }
+
+    it("diffs only changed fields, ignoring timestamps", () => {
+      expect(diffFields(
+        { status: "TODO", notes: null, updated_at: "a" },
+        { status: "DONE", notes: null, updated_at: "b" }
+      )).toEqual({ status: { from: "TODO", to: "DONE" } });
+      expect(diffFields(null, { title: "New" })).toEqual({ title: { from: null, to: "New" } });
+    });
+
+    it("records task create and update with origin and session", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db, { origin: "mcp", sessionId: "2026-01-22-S1" });
+      const tasks = createTasksRepository(db, events);
+
+      insertTask(tasks, "LF-042");
+      tasks.update("LF-042", { status: "CANCELLED", notes: "Superseded by LF-050" });
+
+      const history = events.findByEntity("LF-042");
+      expect(history.map(e => e.action)).toEqual(["update", "create"]);
+      expect(history[0]).toMatchObject({ entity_type: "task", origin: "mcp", session_id: "2026-01-22-S1" });
+      expect(JSON.parse(history[0].changes)).toEqual({
+        status: { from: "TODO", to: "CANCELLED" },
+        notes: { from: null, to: "Superseded by LF-050" },
+      });
+
+      db.close();
+    });
+
+    it("skips no-op updates", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db);
+      const tasks = createTasksRepository(db, events);
+
+      insertTask(tasks, "LF-001");
+      tasks.update("LF-001", { status: "TODO" });
+
+      expect(events.count({ entityId: "LF-001" })).toBe(1);
+
+      db.close();
+    });
+
+    it("scopes origin overrides with withContext", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db, { origin: "api", sessionId: null });
+      const repoContext = createRepoContextRepository(db, events);
+
+      events.withContext({ origin: "import" }, () => repoContext.set("suggested_actions", "first"));
+      repoContext.set("suggested_actions", "second");
+
+      const history = events.findByEntity("suggested_actions");
+      expect(history.map(e => [e.action, e.origin])).toEqual([["update", "api"], ["create", "import"]]);
+      expect(JSON.parse(history[0].changes)).toEqual({ value: { from: "first", to: "second" } });
+      expect(events.getContext().origin).toBe("api");
+
+      db.close();
+    });
+
+    it("keeps events whose session was deleted", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db, { origin: "api", sessionId: null });
+      const sessions = createSessionsRepository(db, events);
+      const tasks = createTasksRepository(db, events);
+
+      for (const number of [1, 2]) {
+        sessions.insert({
+          id: `2026-01-22-S${number}`,
+          date: "2026-01-22",
+          session_number: number,
+          task_id: null,
+          task_type: null,
+          task_title: null,
+          outcome: "COMPLETE",
+          summary: `Session ${number}`,
+          learnings: null,
+          files_changed: null,
+          insights_added: null,
+        });
+        events.withContext({ sessionId: `2026-01-22-S${number}` }, () => {
+          if (number === 1) insertTask(tasks, "LF-042");
+          else tasks.update("LF-042", { status: "CANCELLED" });
+        });
+      }
+      sessions.delete("2026-01-22-S1");
+
+      const sessionIds = events.findByEntity("LF-042").map(e => e.session_id!);
+      expect(sessionIds).toEqual(["2026-01-22-S2", "2026-01-22-S1"]);
+      expect(sessions.findById("2026-01-22-S1")).toBeUndefined();
+      expect(sessions.findByIds(sessionIds).map(s => s.id)).toEqual(["2026-01-22-S2"]);
+
+      db.close();
+    });
+
+    it("records feedback spec changes", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db, { origin: "cli", sessionId: null });
+      const feedbackSpecs = createFeedbackSpecsRepository(db, events);
+
+      feedbackSpecs.insert({
+        id: "FB-001",
+        type: "bug",
+        title: "Orient crashes",
+        description: "Stack trace on empty repo",
+        context_summary: null,
+        severity: "high",
+        status: "queued",
+        consent_given_at: new Date().toISOString(),
+        shared_at: null,
+        github_issue_url: null,
+      });
+      feedbackSpecs.update("FB-001", { status: "dismissed" });
+      expect(feedbackSpecs.delete("FB-001")).toBe(true);
+      expect(feedbackSpecs.delete("FB-001")).toBe(false);
+
+      const history = events.findByEntity("FB-001");
+      expect(history.map(e => [e.entity_type, e.action])).toEqual([
+        ["feedback", "delete"], ["feedback", "update"], ["feedback", "create"],
+      ]);
+      expect(JSON.parse(history[1].changes)).toEqual({ status: { from: "queued", to: "dismissed" } });
+
+      db.close();
+    });
+
+    it("records link changes as insight updates", () => {
+      const db = openDatabase(dbPath);
+      const events = createEventsRepository(db);
+      const insights = createInsightsRepository(db, events);
+      const links = createInsightLinksRepository(db, events);
+
+      for (const id of ["INS-001", "INS-002"]) {
+        insights.insert({
+          id, content: id, summary: null, type: "technical", status: "unprocessed",
+          tags: null, links: null, source: null, notes: null,
+        });
+      }
+      links.link("INS-001", "INS-002", "builds_on");
+
+      const [latest] = events.findByEntity("INS-001");
+      expect(JSON.parse(latest.changes)).toEqual({ links: { from: null, to: JSON.stringify(["INS-002"]) } });
+
+      db.close();
+    });
+  });
+
   describe("Cross-repository workflow", () => {
     it("simulates loop_handoff saving suggested_actions", () => {
       const db = openDatabase(dbPath);
@@ -9,11 +9,18 @@ import Database from "better-sqlite3";
 import * as fs from "fs";
 import * as path from "path";
 import { openDatabase } from "./schema.js";
-import { createInsightsRepository, type InsightsRepository } from "./repositories/insights.js";
-import { createTasksRepository, type TasksRepository } from "./repositories/tasks.js";
+import { createInsightsRepository, type InsightsRepository, type InsightRecord } from "./repositories/insights.js";
+import { createTasksRepository, type TasksRepository, type TaskRecord } from "./repositories/tasks.js";
 import { createSessionsRepository, type SessionsRepository } from "./repositories/sessions.js";
 import { createRepoContextRepository, type RepoContextRepository } from "./repositories/repo-context.js";
 import { createFeedbackSpecsRepository, type FeedbackSpecsRepository } from "./repositories/feedback-specs.js";
+import { createInsightLinksRepository, type InsightLinksRepository } from "./repositories/insight-links.js";
+import { createEventsRepository, type EventsRepository, type EventOrigin } from "./repositories/events.js";
+import { createSyncStateRepository, type SyncStateRepository } from "./repositories/sync-state.js";
+import { createTestResultsRepository, type TestResultsRepository } from "./repositories/test-results.js";
+import { createEmbeddingsRepository, type EmbeddingsRepository } from "./repositories/embeddings.js";
+import { createEmbedder, type Embedder } from "../embeddings/embedder.js";
+import { scheduleEmbeddingBackfill } from "../embeddings/search.js";
 import { 
   transformInsightsFile, 
   transformBacklogFile,
@@ -21,6 +28,36 @@ import {
   type JsonBacklog 
 } from "../rules/migration.js";
 import { parseProgressFile } from "../rules/progress-parser.js";
+import {
+  parseTestReport,
+  summarizeTestFile,
+  unmatchedTestFiles,
+  type TestReportFormat,
+  type TestFileSummary,
+} from "../rules/test-report.js";
+import { inferTaskPrefix, createPrefixRegistry, type PrefixRegistry } from "../rules/ids.js";
+import {
+  findDuplicates,
+  duplicateClusters,
+  mergeContent,
+  mergeTags,
+  type DuplicateMatch,
+  type DuplicateCluster,
+} from "../rules/dedupe.js";
+import { summarizeInsight } from "../rules/summarization.js";
+import {
+  toDependencyNodes,
+  getDependents,
+  validateTaskDependencies,
+  withNode,
+  checkStatusTransition,
+} from "../rules/dependencies.js";
+import { INACTIVE_INSIGHT_STATUSES, resolveLifecycleChange } from "../rules/insight-lifecycle.js";
+import { checkTaskUpdate, checkTransition, vocabularyError } from "../rules/workflow.js";
+import { parseCriteria, serializeCriteria, mergeCriteria, normalizeCriteria } from "../rules/criteria.js";
+import { parentTaskId } from "../rules/subtasks.js";
+import { loadRepoConfig, type RepoConfig } from "../config/repo-config.js";
+import type { TaskCreateInput, TaskUpdateInput, InsightCreateInput, InsightUpdateInput } from "../mcp/schemas.js";
 
 export interface LoopFlowDatabase {
   db: Database.Database;
@@ -29,9 +66,20 @@ export interface LoopFlowDatabase {
   sessions: SessionsRepository;
   repoContext: RepoContextRepository;
   feedbackSpecs: FeedbackSpecsRepository;
+  insightLinks: InsightLinksRepository;
+  events: EventsRepository;
+  syncState: SyncStateRepository;
+  testResults: TestResultsRepository;
+  embeddings: EmbeddingsRepository;
+  config: RepoConfig;     // .loop-flow/config.json with defaults filled in
+  embedder: Embedder | null;  // From config.embeddings; null when semantic search is off
   close: () => void;
 }
 
+export interface DatabaseOptions {
+  origin?: EventOrigin;   // Recorded on every event (default: "cli")
+}
+
 export interface MigrationStats {
   insightsImported: number;
   tasksImported: number;
@@ -43,6 +91,23 @@ export interface ProgressImportStats {
   skipped: number;
 }
 
+export interface TestReportImport {
+  report_file: string;
+  format: TestReportFormat;
+  test_count: number;
+  tasks: Array<TestFileSummary & { id: string; test_file: string }>;
+  unmatched_files: string[];    // Files in the report no task's test_file covers
+}
+
+export interface InsightMerge {
+  into: InsightRecord;
+  merged: string[];             // IDs now marked merged
+  links_rewritten: number;      // Edges re-pointed at the target
+}
+
+// FTS candidates re-scored for duplicate detection at capture
+const DUPLICATE_CANDIDATES = 20;
+
 /**
  * Get database path for a repo.
  * Database is stored in .loop-flow/loopflow.db
@@ -86,7 +151,8 @@ function migrateFromJson(
   _db: Database.Database,
   repoPath: string,
   insights: InsightsRepository,
-  tasks: TasksRepository
+  tasks: TasksRepository,
+  insightLinks: InsightLinksRepository
 ): MigrationStats {
   const stats: MigrationStats = { insightsImported: 0, tasksImported: 0, skipped: 0 };
 
@@ -110,6 +176,9 @@ function migrateFromJson(
         insights.insert(record);
         stats.insightsImported++;
       }
+
+      // Imported records only carry the legacy links column
+      insightLinks.backfillFromLegacyColumn();
     } catch (e) {
       console.error("Error importing insights:", e);
     }
@@ -134,6 +203,9 @@ function migrateFromJson(
         tasks.insert(record);
         stats.tasksImported++;
       }
+
+      // Older backlogs only express subtasks through dotted IDs
+      tasks.backfillParentsFromIds();
     } catch (e) {
       console.error("Error importing tasks:", e);
     }
@@ -146,10 +218,14 @@ function migrateFromJson(
  * Initialize database for a repository.
  * - Creates SQLite database if not exists
  * - Migrates from JSON files if database is empty
- * - Returns repositories
+ * - Loads .loop-flow/config.json (throws if it doesn't validate)
+ * - Returns repositories (mutations are recorded in events with options.origin)
  */
-export function initializeDatabase(repoPath: string): LoopFlowDatabase {
+export function initializeDatabase(repoPath: string, options: DatabaseOptions = {}): LoopFlowDatabase {
   const dbPath = getDatabasePath(repoPath);
+
+  // Validate config before touching the database so a bad file fails fast
+  const config = loadRepoConfig(repoPath);
   
   // Ensure directory exists
   const dbDir = path.dirname(dbPath);
@@ -161,15 +237,22 @@ export function initializeDatabase(repoPath: string): LoopFlowDatabase {
   const db = openDatabase(dbPath);
   
   // Create repositories
-  const insights = createInsightsRepository(db);
-  const tasks = createTasksRepository(db);
-  const sessions = createSessionsRepository(db);
-  const repoContext = createRepoContextRepository(db);
-  const feedbackSpecs = createFeedbackSpecsRepository(db);
+  const events = createEventsRepository(db, { origin: options.origin ?? "cli", sessionId: null });
+  const insights = createInsightsRepository(db, events);
+  const tasks = createTasksRepository(db, events);
+  const sessions = createSessionsRepository(db, events);
+  const repoContext = createRepoContextRepository(db, events);
+  const feedbackSpecs = createFeedbackSpecsRepository(db, events);
+  const insightLinks = createInsightLinksRepository(db, events);
+  const syncState = createSyncStateRepository(db);
+  const testResults = createTestResultsRepository(db);
+  const embeddings = createEmbeddingsRepository(db);
 
   // Auto-migrate from JSON if database is empty and JSON files exist
   if (!hasDatabaseData(db) && hasJsonFiles(repoPath)) {
-    const stats = migrateFromJson(db, repoPath, insights, tasks);
+    const stats = events.withContext({ origin: "import" }, () =>
+      migrateFromJson(db, repoPath, insights, tasks, insightLinks)
+    );
     console.error(
       `[LoopFlow] Migrated from JSON: ${stats.insightsImported} insights, ${stats.tasksImported} tasks`
     );
@@ -180,8 +263,10 @@ export function initializeDatabase(repoPath: string): LoopFlowDatabase {
   const progressPath = fs.existsSync(path.join(loopFlowDirForProgress, "progress.txt"))
     ? path.join(loopFlowDirForProgress, "progress.txt")
     : path.join(loopFlowDirForProgress, "plan", "progress.txt");
-  if (sessions.count() === 0 && fs.existsSync(progressPath)) {
-    const progressStats = importProgressFromFile(progressPath, sessions);
+  if (sessions.count({ includeReserved: true }) === 0 && fs.existsSync(progressPath)) {
+    const progressStats = events.withContext({ origin: "import" }, () =>
+      importProgressFromFile(progressPath, sessions)
+    );
     if (progressStats.imported > 0) {
       console.error(
         `[LoopFlow] Imported progress.txt: ${progressStats.imported} sessions`
@@ -196,15 +281,40 @@ export function initializeDatabase(repoPath: string): LoopFlowDatabase {
     sessions,
     repoContext,
     feedbackSpecs,
+    insightLinks,
+    events,
+    syncState,
+    testResults,
+    embeddings,
+    config,
+    embedder: createEmbedder(config.embeddings, repoPath),
     close: () => db.close(),
   };
 }
 
+/**
+ * Prefix for new task IDs: tasks.id_prefix from config.json, else the
+ * prefix most existing tasks use (LF for an empty backlog)
+ */
+export function getTaskIdPrefix(database: LoopFlowDatabase): string {
+  return database.config.tasks.id_prefix
+    ?? inferTaskPrefix(database.tasks.findAll().map(t => t.id));
+}
+
+/**
+ * Prefixes this repo's IDs can start with, for telling tasks from insights
+ */
+export function getPrefixRegistry(database: LoopFlowDatabase): PrefixRegistry {
+  return createPrefixRegistry([getTaskIdPrefix(database), ...database.tasks.getIdPrefixes()]);
+}
+
 /**
  * Force re-import from JSON files (one-time migration)
  */
 export function importFromJson(database: LoopFlowDatabase, repoPath: string): MigrationStats {
-  return migrateFromJson(database.db, repoPath, database.insights, database.tasks);
+  return database.events.withContext({ origin: "import" }, () =>
+    migrateFromJson(database.db, repoPath, database.insights, database.tasks, database.insightLinks)
+  );
 }
 
 /**
@@ -260,5 +370,446 @@ export function importProgress(database: LoopFlowDatabase, repoPath: string): Pr
   if (!fs.existsSync(progressPath)) {
     return { imported: 0, skipped: 0 };
   }
-  return importProgressFromFile(progressPath, database.sessions);
+  return database.events.withContext({ origin: "import" }, () =>
+    importProgressFromFile(progressPath, database.sessions)
+  );
+}
+
+/**
+ * Record a test report (JUnit XML or vitest/jest JSON) against the tasks whose
+ * test_file it covers. Tasks the report doesn't cover keep their last result.
+ */
+export function importTestReport(database: LoopFlowDatabase, repoPath: string, reportPath: string): TestReportImport {
+  const absolutePath = path.resolve(repoPath, reportPath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Test report not found: ${reportPath}`);
+  }
+  const parsed = parseTestReport(fs.readFileSync(absolutePath, "utf-8"));
+  if (!parsed.ok) {
+    throw new Error(`Could not read test report ${reportPath}: ${parsed.error}`);
+  }
+
+  const relative = path.relative(repoPath, absolutePath);
+  const reportFile = relative.startsWith("..") ? absolutePath : relative;
+  const recordedAt = new Date().toISOString();
+  const linked = database.tasks.findAll().filter(t => t.test_file);
+
+  const tasks: TestReportImport["tasks"] = [];
+  database.db.transaction(() => {
+    for (const task of linked) {
+      const summary = summarizeTestFile(parsed.cases, task.test_file!);
+      if (!summary) continue;
+      database.testResults.set({
+        task_id: task.id,
+        test_file: task.test_file!,
+        passed: summary.passed,
+        failed: summary.failed,
+        skipped: summary.skipped,
+        failing: summary.failing.length > 0 ? JSON.stringify(summary.failing) : null,
+        report_file: reportFile,
+        recorded_at: recordedAt,
+      });
+      tasks.push({ id: task.id, test_file: task.test_file!, ...summary });
+    }
+  })();
+
+  return {
+    report_file: reportFile,
+    format: parsed.format,
+    test_count: parsed.cases.length,
+    tasks,
+    unmatched_files: unmatchedTestFiles(parsed.cases, linked.map(t => t.test_file!)),
+  };
+}
+
+/**
+ * Active insights that look like duplicates of `content`: FTS candidates
+ * re-scored by shingle similarity (insights.duplicate_threshold)
+ */
+export function findPossibleDuplicates(
+  database: LoopFlowDatabase,
+  content: string,
+  excludeId?: string
+): DuplicateMatch[] {
+  const candidates = database.insights
+    .search(content, { excludeStatuses: INACTIVE_INSIGHT_STATUSES }, { limit: DUPLICATE_CANDIDATES })
+    .filter(i => i.id !== excludeId);
+  return findDuplicates(content, candidates, database.config.insights.duplicate_threshold);
+}
+
+/**
+ * Clusters of active insights that say the same thing. The oldest insight
+ * of each cluster comes first (the suggested merge target).
+ */
+export function findDuplicateClusters(database: LoopFlowDatabase, threshold?: number): DuplicateCluster[] {
+  const insights = database.insights.findAll({ excludeStatuses: INACTIVE_INSIGHT_STATUSES })
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+  return duplicateClusters(insights, threshold ?? database.config.insights.duplicate_threshold);
+}
+
+/**
+ * Merge insights into one: the target gets their content (or `content`) and
+ * tags, every link to or from them now points at the target, and they are
+ * kept as status "merged" with a note naming the target.
+ */
+export function mergeInsights(
+  database: LoopFlowDatabase,
+  intoId: string,
+  ids: string[],
+  content?: string
+): InsightMerge {
+  const target = database.insights.findById(intoId);
+  if (!target) {
+    throw new Error(`Insight not found: ${intoId}`);
+  }
+  const sourceIds = [...new Set(ids)].filter(id => id !== intoId);
+  if (sourceIds.length === 0) {
+    throw new Error("Nothing to merge: give at least one insight besides the target");
+  }
+  const found = new Map(database.insights.findByIds(sourceIds).map(i => [i.id, i]));
+  const missing = sourceIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Insights not found: ${missing.join(", ")}`);
+  }
+  const sources = sourceIds.map(id => found.get(id)!);
+  const inactive = [target, ...sources].filter(i => INACTIVE_INSIGHT_STATUSES.includes(i.status));
+  if (inactive.length > 0) {
+    throw new Error(`Not active: ${inactive.map(i => `${i.id} (${i.status})`).join(", ")}`);
+  }
+
+  const tagsOf = (insight: InsightRecord) => insight.tags ? JSON.parse(insight.tags) as string[] : [];
+  const withNote = (notes: string | null, note: string) => notes ? `${notes}\n${note}` : note;
+  const mergedContent = content ?? mergeContent(target.content, sources.map(s => s.content));
+  const tags = mergeTags([target, ...sources].map(tagsOf));
+
+  let linksRewritten = 0;
+  database.db.transaction(() => {
+    database.insights.update(intoId, {
+      content: mergedContent,
+      summary: mergedContent === target.content ? target.summary : summarizeInsight(mergedContent),
+      tags: tags.length > 0 ? JSON.stringify(tags) : null,
+      notes: withNote(target.notes, `Merged ${sourceIds.join(", ")}`),
+    });
+    for (const source of sources) {
+      linksRewritten += database.insightLinks.replaceInsight(source.id, intoId);
+      repointSuperseded(database, source.id, intoId);
+      database.insights.update(source.id, {
+        status: "merged",
+        notes: withNote(source.notes, `Merged into ${intoId}`),
+      });
+    }
+  })();
+
+  return { into: database.insights.findById(intoId)!, merged: sourceIds, links_rewritten: linksRewritten };
+}
+
+/**
+ * Point insights superseded by `oldId` at `newId` instead, once `oldId` is
+ * itself superseded or merged, so superseded_by always names a current insight
+ */
+export function repointSuperseded(database: LoopFlowDatabase, oldId: string, newId: string): number {
+  const stale = database.insights.findAll({ statuses: ["superseded"] }).filter(i => i.superseded_by === oldId);
+  for (const insight of stale) {
+    database.insights.update(insight.id, { superseded_by: newId });
+  }
+  return stale.length;
+}
+
+/**
+ * A task or insight write refused by the vocabulary, workflow, dependency or
+ * lifecycle rules. The MCP tools return error and details as they are; the
+ * API maps code onto its error codes.
+ */
+export interface WriteRefusal {
+  ok: false;
+  code: "not_found" | "conflict" | "unprocessable" | "no_changes";
+  error: string;
+  details?: Record<string, unknown>;
+}
+
+function refuse(code: WriteRefusal["code"], error: string, details?: Record<string, unknown>): WriteRefusal {
+  return { ok: false, code, error, details };
+}
+
+/**
+ * Create a task (loop_task_create, POST /api/tasks): configured status and
+ * priority, an existing parent, a free ID, dependencies that exist without a
+ * cycle, and the workflow's requirements for the initial status.
+ */
+export function createTask(
+  database: LoopFlowDatabase,
+  input: TaskCreateInput
+): { ok: true; task: TaskRecord } | WriteRefusal {
+  const { id, parent_id, title, description, priority, status = "TODO", reason, depends_on, acceptance_criteria, test_file, notes } = input;
+
+  const taskConfig = database.config.tasks;
+  const vocabError = vocabularyError("status", status, taskConfig.statuses)
+    ?? (priority !== undefined ? vocabularyError("priority", priority, taskConfig.priorities) : null);
+  if (vocabError) return refuse("unprocessable", vocabError);
+
+  // An explicit parent must exist; a dotted ID attaches to its parent only if that exists
+  const parent = parent_id ?? (id ? parentTaskId(id) : null);
+  const parentTask = parent ? database.tasks.findById(parent) : null;
+  if (parent_id && !parentTask) return refuse("unprocessable", `Parent task ${parent_id} not found`);
+
+  const prefix = getTaskIdPrefix(database);
+  const taskId = id ?? (parent_id ? database.tasks.getNextChildId(parent_id) : database.tasks.getNextId(prefix));
+  const existing = database.tasks.findById(taskId);
+  if (existing) {
+    return refuse("conflict", `Task ${taskId} already exists`, {
+      existing: { id: existing.id, title: existing.title, status: existing.status },
+    });
+  }
+
+  if (depends_on?.length) {
+    const validation = validateTaskDependencies(taskId, depends_on, toDependencyNodes(database.tasks.findAll()));
+    if (!validation.valid) {
+      return refuse("unprocessable", "Invalid depends_on", { missing: validation.missing, cycle: validation.cycle });
+    }
+  }
+
+  const fields = {
+    title,
+    description: description || null,
+    summary: title,
+    status,
+    status_reason: reason || null,
+    priority: priority ?? taskConfig.default_priority,
+    depends_on: depends_on ? JSON.stringify(depends_on) : null,
+    acceptance_criteria: serializeCriteria(normalizeCriteria(acceptance_criteria ?? [])),
+    test_file: test_file || null,
+    notes: notes || null,
+  };
+  // The initial status has to meet the workflow's requirements too
+  const workflowCheck = checkTransition(taskConfig, { from: null, to: status, reason, task: fields });
+  if (!workflowCheck.ok) {
+    return refuse("unprocessable", workflowCheck.error, { missing: workflowCheck.missing });
+  }
+
+  // Generated IDs are allocated inside the insert transaction
+  const task = id
+    ? database.tasks.insert({ ...fields, id, parent_id: parentTask?.id ?? null })
+    : parent_id
+      ? database.tasks.insertChild(parent_id, fields)
+      : database.tasks.insertWithNextId(prefix, { ...fields, parent_id: null });
+  return { ok: true, task };
+}
+
+/**
+ * Update a task (loop_task_update, PATCH /api/tasks/:id) through the
+ * workflow's transitions and requirements, keeping the dependency graph
+ * acyclic and dependents from finishing before what they depend on.
+ */
+export function updateTask(
+  database: LoopFlowDatabase,
+  id: string,
+  input: TaskUpdateInput
+): { ok: true; task: TaskRecord; changes: string[] } | WriteRefusal {
+  const existing = database.tasks.findById(id);
+  if (!existing) return refuse("not_found", `Task ${id} not found`);
+  const { status, reason, priority, title, description, notes, depends_on, acceptance_criteria, test_file } = input;
+
+  const taskConfig = database.config.tasks;
+  const vocabError = (status !== undefined ? vocabularyError("status", status, taskConfig.statuses) : null)
+    ?? (priority !== undefined ? vocabularyError("priority", priority, taskConfig.priorities) : null);
+  if (vocabError) return refuse("unprocessable", vocabError);
+
+  const changes: Partial<TaskRecord> = {};
+  if (status !== undefined) changes.status = status;
+  if (priority !== undefined) changes.priority = priority;
+  if (title !== undefined) {
+    changes.title = title;
+    changes.summary = title;
+  }
+  if (description !== undefined) changes.description = description;
+  if (notes !== undefined) changes.notes = notes;
+  if (test_file !== undefined) changes.test_file = test_file || null;
+  if (depends_on !== undefined) changes.depends_on = JSON.stringify(depends_on);
+  // Criteria whose text is unchanged keep their met state
+  if (acceptance_criteria !== undefined) {
+    changes.acceptance_criteria = serializeCriteria(
+      mergeCriteria(parseCriteria(existing.acceptance_criteria), acceptance_criteria)
+    );
+  }
+  // A status change replaces the old reason; a reason alone just updates it
+  if (reason !== undefined || (status !== undefined && status !== existing.status)) {
+    changes.status_reason = reason || null;
+  }
+  if (Object.keys(changes).length === 0) return refuse("no_changes", "No changes specified");
+
+  let dependencyNodes = toDependencyNodes(database.tasks.findAll());
+  if (depends_on !== undefined) {
+    const validation = validateTaskDependencies(id, depends_on, dependencyNodes);
+    if (!validation.valid) {
+      return refuse("unprocessable", "Invalid depends_on", { missing: validation.missing, cycle: validation.cycle });
+    }
+    dependencyNodes = withNode(dependencyNodes, { id, status: existing.status, depends_on });
+  }
+  const workflowCheck = checkTaskUpdate(taskConfig, existing, changes, reason);
+  if (!workflowCheck.ok) {
+    return refuse("unprocessable", workflowCheck.error, {
+      allowed_transitions: workflowCheck.allowed,
+      missing: workflowCheck.missing,
+    });
+  }
+  if (status !== undefined) {
+    const transition = checkStatusTransition(id, status, dependencyNodes);
+    if (!transition.allowed) {
+      return refuse("unprocessable", transition.reason!, { blocking: transition.blocking });
+    }
+  }
+
+  return { ok: true, task: database.tasks.update(id, changes)!, changes: Object.keys(changes) };
+}
+
+/**
+ * Capture an insight (loop_remember, POST /api/insights) and queue its
+ * embedding. Likely duplicates are flagged, but the insight is created either way.
+ */
+export function createInsight(
+  database: LoopFlowDatabase,
+  input: InsightCreateInput,
+  sourceTask: string | null = null
+): { ok: true; insight: InsightRecord; duplicates: Array<DuplicateMatch & { summary: string }> } | WriteRefusal {
+  const { content, type, tags = [] } = input;
+  const insightConfig = database.config.insights;
+  const typeError = type !== undefined ? vocabularyError("insight type", type, insightConfig.types) : null;
+  if (typeError) return refuse("unprocessable", typeError);
+
+  // The ID is allocated in the same write transaction, so concurrent sessions can't collide
+  const insight = database.insights.insertWithNextId({
+    content,
+    summary: summarizeInsight(content),
+    type: type ?? insightConfig.default_type,
+    status: "unprocessed",
+    tags: tags.length ? JSON.stringify(tags) : null,
+    links: null,
+    source: JSON.stringify({ task: sourceTask || "ad-hoc", session: new Date().toISOString().split("T")[0] }),
+    notes: null,
+  });
+  scheduleEmbeddingBackfill(database);
+
+  const matches = findPossibleDuplicates(database, content, insight.id);
+  const summaries = new Map(
+    database.insights.findByIds(matches.map(d => d.id)).map(i => [i.id, i.summary || i.content.substring(0, 100)])
+  );
+  return { ok: true, insight, duplicates: matches.map(d => ({ ...d, summary: summaries.get(d.id)! })) };
+}
+
+/**
+ * Update an insight (loop_insight_update, PATCH /api/insights/:id): lifecycle
+ * status, tags, notes and typed links, all in one transaction. Link targets
+ * must exist; insights this one superseded follow it to its replacement.
+ */
+export function updateInsight(
+  database: LoopFlowDatabase,
+  id: string,
+  input: InsightUpdateInput
+): { ok: true; insight: InsightRecord; changes: string[] } | WriteRefusal {
+  const existing = database.insights.findById(id);
+  if (!existing) return refuse("not_found", `Insight ${id} not found`);
+  const { status, superseded_by, tags, add_tags, links, add_links, remove_links, relation = "relates_to", notes } = input;
+
+  const changes: Partial<InsightRecord> = {};
+  if (status !== undefined || superseded_by !== undefined) {
+    const replacement = superseded_by ? database.insights.findById(superseded_by) : null;
+    const lifecycle = resolveLifecycleChange(existing, { status, superseded_by }, replacement);
+    if (!lifecycle.ok) return refuse("unprocessable", lifecycle.error);
+    changes.status = lifecycle.changes.status;
+    if (lifecycle.changes.superseded_by !== existing.superseded_by) {
+      changes.superseded_by = lifecycle.changes.superseded_by;
+    }
+  }
+  if (notes !== undefined) changes.notes = notes;
+  if (tags !== undefined) {
+    changes.tags = JSON.stringify(tags);
+  } else if (add_tags !== undefined) {
+    const existingTags: string[] = existing.tags ? JSON.parse(existing.tags) : [];
+    changes.tags = JSON.stringify([...new Set([...existingTags, ...add_tags])]);
+  }
+
+  // Validate link targets before touching anything
+  const linkTargets = [...new Set(links ?? add_links ?? [])];
+  if (linkTargets.includes(id)) return refuse("unprocessable", `Insight ${id} cannot link to itself`);
+  const foundTargets = new Set(database.insights.findByIds(linkTargets).map(i => i.id));
+  const missingTargets = linkTargets.filter(target => !foundTargets.has(target));
+  if (missingTargets.length > 0) {
+    return refuse("unprocessable", "Link targets not found", { not_found: missingTargets });
+  }
+
+  const hasLinkChanges = links !== undefined || add_links !== undefined || remove_links !== undefined;
+  if (Object.keys(changes).length === 0 && !hasLinkChanges) return refuse("no_changes", "No changes specified");
+
+  database.db.transaction(() => {
+    // Links are stored as typed edges; insights.links is kept in sync
+    if (links !== undefined) {
+      database.insightLinks.replaceOutgoing(id, linkTargets, relation);
+    } else if (add_links !== undefined) {
+      for (const target of linkTargets) {
+        database.insightLinks.link(id, target, relation);
+      }
+    }
+    for (const target of remove_links ?? []) {
+      database.insightLinks.unlink(id, target);
+    }
+    if (Object.keys(changes).length > 0) {
+      database.insights.update(id, changes);
+    }
+    // Whatever this insight superseded now points at its replacement
+    if (changes.superseded_by) {
+      repointSuperseded(database, id, changes.superseded_by);
+    }
+  })();
+  // Tags are embedded with the content
+  scheduleEmbeddingBackfill(database);
+
+  return {
+    ok: true,
+    insight: database.insights.findById(id)!,
+    changes: hasLinkChanges ? [...Object.keys(changes), "links"] : Object.keys(changes),
+  };
+}
+
+/**
+ * Delete a task and its test results. Refuses while subtasks or other tasks'
+ * depends_on still point at it. False if the task doesn't exist.
+ */
+export function deleteTask(database: LoopFlowDatabase, id: string): boolean {
+  if (!database.tasks.findById(id)) return false;
+  const children = database.tasks.findChildren(id);
+  if (children.length > 0) {
+    throw new Error(`Task ${id} has subtasks: ${children.map(t => t.id).join(", ")}`);
+  }
+  const dependents = getDependents(toDependencyNodes(database.tasks.findAll())).get(id) ?? [];
+  if (dependents.length > 0) {
+    throw new Error(`Tasks depend on ${id}: ${dependents.join(", ")}`);
+  }
+
+  database.db.transaction(() => {
+    database.testResults.delete(id);
+    database.tasks.delete(id);
+  })();
+  return true;
+}
+
+/**
+ * Delete an insight, its embedding and every link to or from it. Refuses
+ * while other insights are superseded by it. False if it doesn't exist.
+ */
+export function deleteInsight(database: LoopFlowDatabase, id: string): boolean {
+  if (!database.insights.findById(id)) return false;
+  const superseded = database.insights.findAll({ statuses: ["superseded"] }).filter(i => i.superseded_by === id);
+  if (superseded.length > 0) {
+    throw new Error(`Insights superseded by ${id}: ${superseded.map(i => i.id).join(", ")}`);
+  }
+
+  database.db.transaction(() => {
+    // Unlinking keeps the linking insights' links column in sync; the
+    // outgoing rows and the embedding go with the insight (ON DELETE CASCADE)
+    for (const link of database.insightLinks.findIncoming(id)) {
+      database.insightLinks.unlink(link.from_id, id);
+    }
+    database.insights.delete(id);
+  })();
+  return true;
 }
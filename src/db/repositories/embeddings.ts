@@ -0,0 +1,71 @@
+/**
+ * Embeddings Repository
+ *
+ * One vector per insight for semantic search, tagged with the embedder
+ * (model) that produced it. Vectors from another model, or older than the
+ * insight's last update, are stale and get re-embedded by the backfill.
+ */
+
+import Database from "better-sqlite3";
+import { encodeVector, decodeVector } from "../../rules/embeddings.js";
+import type { InsightRecord } from "./insights.js";
+
+export interface EmbeddingRecord {
+  insight_id: string;
+  model: string;          // Embedder that produced the vector (hashing-1024, command:...)
+  dimensions: number;
+  vector: Buffer;         // float32 little-endian
+  embedded_at: string;
+}
+
+export function createEmbeddingsRepository(db: Database.Database) {
+  return {
+    find(insightId: string): EmbeddingRecord | undefined {
+      return db.prepare("SELECT * FROM insight_embeddings WHERE insight_id = ?").get(insightId) as EmbeddingRecord | undefined;
+    },
+
+    /**
+     * Every vector from a model, keyed by insight ID
+     */
+    findVectors(model: string): Map<string, number[]> {
+      const rows = db.prepare(
+        "SELECT insight_id, vector FROM insight_embeddings WHERE model = ?"
+      ).all(model) as Array<Pick<EmbeddingRecord, "insight_id" | "vector">>;
+      return new Map(rows.map(r => [r.insight_id, decodeVector(r.vector)]));
+    },
+
+    /**
+     * Insights with no up-to-date vector from a model, oldest first
+     */
+    findStale(model: string, limit: number): InsightRecord[] {
+      return db.prepare(`
+        SELECT i.* FROM insights i
+        LEFT JOIN insight_embeddings e ON e.insight_id = i.id AND e.model = ?
+        WHERE e.insight_id IS NULL OR e.embedded_at < i.updated_at
+        ORDER BY i.created_at, i.id
+        LIMIT ?
+      `).all(model, limit) as InsightRecord[];
+    },
+
+    set(insightId: string, model: string, vector: number[]): void {
+      db.prepare(`
+        INSERT INTO insight_embeddings (insight_id, model, dimensions, vector, embedded_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(insight_id) DO UPDATE SET
+          model = excluded.model,
+          dimensions = excluded.dimensions,
+          vector = excluded.vector,
+          embedded_at = excluded.embedded_at
+      `).run(insightId, model, vector.length, encodeVector(vector), new Date().toISOString());
+    },
+
+    count(model: string): number {
+      const result = db.prepare(
+        "SELECT COUNT(*) as count FROM insight_embeddings WHERE model = ?"
+      ).get(model) as { count: number };
+      return result.count;
+    },
+  };
+}
+
+export type EmbeddingsRepository = ReturnType<typeof createEmbeddingsRepository>;
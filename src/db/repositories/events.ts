@@ -0,0 +1,245 @@
+/**
+ * Events Repository
+ *
+ * Append-only audit log. Other repositories record one event per mutation
+ * with a field-level diff, plus the origin (MCP, REST API, CLI, import, git
+ * hooks) and session taken from the current audit context. The post-commit
+ * hook records a "commit" event ({commit, subject}) on the tasks a commit
+ * belongs to.
+ */
+
+import Database from "better-sqlite3";
+
+export const EVENT_ORIGINS = ["mcp", "api", "cli", "import", "git"] as const;
+export type EventOrigin = typeof EVENT_ORIGINS[number];
+
+export const EVENT_ENTITY_TYPES = ["task", "insight", "session", "repo_context", "feedback"] as const;
+export type EventEntityType = typeof EVENT_ENTITY_TYPES[number];
+export type EventAction = "create" | "update" | "delete" | "commit";
+
+/**
+ * Field diff: only fields whose value changed
+ */
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface EventRecord {
+  id: number;
+  entity_type: EventEntityType;
+  entity_id: string;
+  action: EventAction;
+  changes: string;              // JSON FieldChanges
+  session_id: string | null;
+  origin: EventOrigin;
+  created_at: string;
+}
+
+/**
+ * Who is mutating: set once per process/session by the caller
+ */
+export interface AuditContext {
+  origin: EventOrigin;
+  sessionId: string | null;
+}
+
+export interface EventFilters {
+  entityId?: string;
+  entityTypes?: EventEntityType[];
+  origins?: EventOrigin[];
+  sessionId?: string;
+}
+
+export interface PaginationParams {
+  limit?: number;
+  offset?: number;
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["created_at", "updated_at"]);
+
+/**
+ * Diff two row snapshots. A missing `before` diffs against an empty row (create).
+ */
+export function diffFields(
+  before: object | null,
+  after: object
+): FieldChanges {
+  const changes: FieldChanges = {};
+  const previous = (before ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(after)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const old = previous[key] ?? null;
+    if (old !== (value ?? null)) {
+      changes[key] = { from: old, to: value ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diff for a deleted row: every field goes to null
+ */
+export function deletedFields(before: object): FieldChanges {
+  return diffFields(before, Object.fromEntries(Object.keys(before).map(key => [key, null])));
+}
+
+export function createEventsRepository(
+  db: Database.Database,
+  initialContext: AuditContext = { origin: "cli", sessionId: null }
+) {
+  let context: AuditContext = { ...initialContext };
+
+  return {
+    getContext(): AuditContext {
+      return { ...context };
+    },
+
+    setContext(changes: Partial<AuditContext>): void {
+      context = { ...context, ...changes };
+    },
+
+    /**
+     * Run fn under a temporary context (e.g. origin "import"), then restore
+     */
+    withContext<T>(changes: Partial<AuditContext>, fn: () => T): T {
+      const previous = context;
+      context = { ...context, ...changes };
+      try {
+        return fn();
+      } finally {
+        context = previous;
+      }
+    },
+
+    /**
+     * Append an event. Updates with no changed fields are not recorded.
+     */
+    record(
+      entityType: EventEntityType,
+      entityId: string,
+      action: EventAction,
+      changes: FieldChanges
+    ): EventRecord | null {
+      if (action === "update" && Object.keys(changes).length === 0) {
+        return null;
+      }
+      const result = db.prepare(`
+        INSERT INTO events (entity_type, entity_id, action, changes, session_id, origin, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entityType,
+        entityId,
+        action,
+        JSON.stringify(changes),
+        context.sessionId,
+        context.origin,
+        new Date().toISOString()
+      );
+      return this.findById(Number(result.lastInsertRowid));
+    },
+
+    findById(id: number): EventRecord | null {
+      return db.prepare("SELECT * FROM events WHERE id = ?").get(id) as EventRecord | null;
+    },
+
+    /**
+     * Events matching the filters, newest first
+     */
+    findAll(filters?: EventFilters, pagination?: PaginationParams): EventRecord[] {
+      let sql = "SELECT * FROM events WHERE 1=1";
+      const params: unknown[] = [];
+
+      if (filters?.entityId) {
+        sql += " AND entity_id = ?";
+        params.push(filters.entityId);
+      }
+
+      if (filters?.entityTypes?.length) {
+        const placeholders = filters.entityTypes.map(() => "?").join(",");
+        sql += ` AND entity_type IN (${placeholders})`;
+        params.push(...filters.entityTypes);
+      }
+
+      if (filters?.origins?.length) {
+        const placeholders = filters.origins.map(() => "?").join(",");
+        sql += ` AND origin IN (${placeholders})`;
+        params.push(...filters.origins);
+      }
+
+      if (filters?.sessionId) {
+        sql += " AND session_id = ?";
+        params.push(filters.sessionId);
+      }
+
+      sql += " ORDER BY id DESC";
+
+      if (pagination?.limit) {
+        sql += " LIMIT ?";
+        params.push(pagination.limit);
+      }
+
+      if (pagination?.offset) {
+        sql += " OFFSET ?";
+        params.push(pagination.offset);
+      }
+
+      return db.prepare(sql).all(...params) as EventRecord[];
+    },
+
+    /**
+     * Events recorded after the given id, oldest first. The id is a watermark
+     * for following the log from another process (the UI's live updates).
+     */
+    findAfter(afterId: number, limit = 100): EventRecord[] {
+      return db.prepare(
+        "SELECT * FROM events WHERE id > ? ORDER BY id ASC LIMIT ?"
+      ).all(afterId, limit) as EventRecord[];
+    },
+
+    /**
+     * Id of the newest event (0 when the log is empty)
+     */
+    latestId(): number {
+      const result = db.prepare("SELECT MAX(id) as id FROM events").get() as { id: number | null };
+      return result.id ?? 0;
+    },
+
+    /**
+     * Full history of one entity, newest first
+     */
+    findByEntity(entityId: string, pagination?: PaginationParams): EventRecord[] {
+      return this.findAll({ entityId }, pagination);
+    },
+
+    count(filters?: EventFilters): number {
+      let sql = "SELECT COUNT(*) as count FROM events WHERE 1=1";
+      const params: unknown[] = [];
+
+      if (filters?.entityId) {
+        sql += " AND entity_id = ?";
+        params.push(filters.entityId);
+      }
+
+      if (filters?.entityTypes?.length) {
+        const placeholders = filters.entityTypes.map(() => "?").join(",");
+        sql += ` AND entity_type IN (${placeholders})`;
+        params.push(...filters.entityTypes);
+      }
+
+      if (filters?.origins?.length) {
+        const placeholders = filters.origins.map(() => "?").join(",");
+        sql += ` AND origin IN (${placeholders})`;
+        params.push(...filters.origins);
+      }
+
+      if (filters?.sessionId) {
+        sql += " AND session_id = ?";
+        params.push(filters.sessionId);
+      }
+
+      const result = db.prepare(sql).get(...params) as { count: number };
+      return result.count;
+    },
+  };
+}
+
+export type EventsRepository = ReturnType<typeof createEventsRepository>;
@@ -5,6 +5,7 @@
  */
 
 import Database from "better-sqlite3";
+import { diffFields, deletedFields, type EventsRepository } from "./events.js";
 
 export interface FeedbackSpecRecord {
   id: string;
@@ -32,7 +33,7 @@ export interface PaginationParams {
   offset?: number;
 }
 
-export function createFeedbackSpecsRepository(db: Database.Database) {
+export function createFeedbackSpecsRepository(db: Database.Database, events?: EventsRepository) {
   return {
     findById(id: string): FeedbackSpecRecord | null {
       return db.prepare("SELECT * FROM feedback_specs WHERE id = ?").get(id) as FeedbackSpecRecord | null;
@@ -97,7 +98,9 @@ export function createFeedbackSpecsRepository(db: Database.Database) {
         now,
         now
       );
-      return this.findById(spec.id)!;
+      const created = this.findById(spec.id)!;
+      events?.record("feedback", spec.id, "create", diffFields(null, created));
+      return created;
     },
 
     update(id: string, changes: Partial<FeedbackSpecRecord>): FeedbackSpecRecord | null {
@@ -119,7 +122,9 @@ export function createFeedbackSpecsRepository(db: Database.Database) {
       params.push(id);
 
       db.prepare(`UPDATE feedback_specs SET ${updates.join(", ")} WHERE id = ?`).run(...params);
-      return this.findById(id);
+      const updated = this.findById(id)!;
+      events?.record("feedback", id, "update", diffFields(existing, updated));
+      return updated;
     },
 
     count(filters?: FeedbackSpecFilters): number {
@@ -142,6 +147,13 @@ export function createFeedbackSpecsRepository(db: Database.Database) {
       return result.count;
     },
 
+    /**
+     * Allocate the next ID and insert in one IMMEDIATE transaction
+     */
+    insertWithNextId(spec: Omit<FeedbackSpecRecord, "id" | "created_at" | "updated_at">): FeedbackSpecRecord {
+      return db.transaction(() => this.insert({ ...spec, id: this.getNextId() })).immediate();
+    },
+
     getNextId(): string {
       const result = db.prepare(
         "SELECT id FROM feedback_specs ORDER BY CAST(SUBSTR(id, 4) AS INTEGER) DESC LIMIT 1"
@@ -154,8 +166,11 @@ export function createFeedbackSpecsRepository(db: Database.Database) {
     },
 
     delete(id: string): boolean {
-      const result = db.prepare("DELETE FROM feedback_specs WHERE id = ?").run(id);
-      return result.changes > 0;
+      const existing = this.findById(id);
+      if (!existing) return false;
+      db.prepare("DELETE FROM feedback_specs WHERE id = ?").run(id);
+      events?.record("feedback", id, "delete", deletedFields(existing));
+      return true;
     },
   };
 }
@@ -0,0 +1,250 @@
+/**
+ * Insight Links Repository
+ *
+ * Typed, directional edges between insights (the knowledge graph).
+ * Keeps the legacy insights.links column in sync as a list of outgoing IDs
+ * so JSON export/import stays backward compatible.
+ */
+
+import Database from "better-sqlite3";
+import { diffFields, type EventsRepository } from "./events.js";
+
+// Relation vocabulary (see docs/DESIGN.md "Learning-to-Learning Relationships")
+export const INSIGHT_RELATIONS = [
+  "builds_on",    // This insight extends or deepens another
+  "contradicts",  // This insight challenges or refines another
+  "exemplifies",  // This is a concrete example of an abstract insight
+  "synthesizes",  // This insight was created by combining others
+  "relates_to",   // Untyped link (legacy links column, add_links without relation)
+] as const;
+
+export type InsightRelation = typeof INSIGHT_RELATIONS[number];
+
+export interface InsightLinkRecord {
+  from_id: string;
+  to_id: string;
+  relation: InsightRelation;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * A link seen from one insight's point of view.
+ * "outgoing" = this insight -> other, "incoming" = other -> this insight.
+ */
+export interface InsightLinkView {
+  id: string;
+  relation: InsightRelation;
+  direction: "outgoing" | "incoming";
+  note: string | null;
+}
+
+/**
+ * Copy IDs from the legacy insights.links JSON column into insight_links.
+ * Dangling IDs and self-links are dropped. Idempotent.
+ */
+export const BACKFILL_LEGACY_LINKS_SQL = `
+INSERT OR IGNORE INTO insight_links (from_id, to_id, relation, note, created_at)
+SELECT i.id, j.value, 'relates_to', NULL, i.updated_at
+FROM insights i, json_each(i.links) j
+WHERE i.links IS NOT NULL
+  AND json_valid(i.links)
+  AND j.value != i.id
+  AND j.value IN (SELECT id FROM insights)
+`;
+
+export function isInsightRelation(value: string): value is InsightRelation {
+  return (INSIGHT_RELATIONS as readonly string[]).includes(value);
+}
+
+export function createInsightLinksRepository(db: Database.Database, events?: EventsRepository) {
+  /**
+   * Rewrite insights.links for an insight from its outgoing edges.
+   * The change is recorded as an update of the insight's links field.
+   */
+  function syncLegacyColumn(fromId: string): void {
+    const previous = db.prepare("SELECT links FROM insights WHERE id = ?").get(fromId) as
+      { links: string | null } | undefined;
+    const rows = db.prepare(
+      "SELECT DISTINCT to_id FROM insight_links WHERE from_id = ? ORDER BY to_id"
+    ).all(fromId) as Array<{ to_id: string }>;
+    const links = rows.length ? JSON.stringify(rows.map(r => r.to_id)) : null;
+    db.prepare("UPDATE insights SET links = ?, updated_at = ? WHERE id = ?").run(
+      links,
+      new Date().toISOString(),
+      fromId
+    );
+    if (previous) {
+      events?.record("insight", fromId, "update", diffFields(previous, { links }));
+    }
+  }
+
+  return {
+    find(fromId: string, toId: string, relation: InsightRelation): InsightLinkRecord | null {
+      return db.prepare(
+        "SELECT * FROM insight_links WHERE from_id = ? AND to_id = ? AND relation = ?"
+      ).get(fromId, toId, relation) as InsightLinkRecord | null;
+    },
+
+    findOutgoing(fromId: string): InsightLinkRecord[] {
+      return db.prepare(
+        "SELECT * FROM insight_links WHERE from_id = ? ORDER BY created_at"
+      ).all(fromId) as InsightLinkRecord[];
+    },
+
+    findIncoming(toId: string): InsightLinkRecord[] {
+      return db.prepare(
+        "SELECT * FROM insight_links WHERE to_id = ? ORDER BY created_at"
+      ).all(toId) as InsightLinkRecord[];
+    },
+
+    /**
+     * All edges touching the given insights, from each insight's point of view
+     */
+    findForInsights(ids: string[]): Map<string, InsightLinkView[]> {
+      const result = new Map<string, InsightLinkView[]>(ids.map(id => [id, []]));
+      if (ids.length === 0) return result;
+
+      const placeholders = ids.map(() => "?").join(",");
+      const rows = db.prepare(`
+        SELECT * FROM insight_links
+        WHERE from_id IN (${placeholders}) OR to_id IN (${placeholders})
+        ORDER BY created_at
+      `).all(...ids, ...ids) as InsightLinkRecord[];
+
+      for (const row of rows) {
+        result.get(row.from_id)?.push({
+          id: row.to_id,
+          relation: row.relation,
+          direction: "outgoing",
+          note: row.note,
+        });
+        result.get(row.to_id)?.push({
+          id: row.from_id,
+          relation: row.relation,
+          direction: "incoming",
+          note: row.note,
+        });
+      }
+
+      return result;
+    },
+
+    findAll(): InsightLinkRecord[] {
+      return db.prepare("SELECT * FROM insight_links ORDER BY created_at").all() as InsightLinkRecord[];
+    },
+
+    /**
+     * Create (or re-annotate) a typed edge. Callers validate that both IDs exist.
+     */
+    link(fromId: string, toId: string, relation: InsightRelation, note?: string | null): InsightLinkRecord {
+      db.prepare(`
+        INSERT INTO insight_links (from_id, to_id, relation, note, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(from_id, to_id, relation) DO UPDATE SET
+          note = COALESCE(excluded.note, insight_links.note)
+      `).run(fromId, toId, relation, note ?? null, new Date().toISOString());
+      syncLegacyColumn(fromId);
+      return this.find(fromId, toId, relation)!;
+    },
+
+    /**
+     * Remove edges from -> to. Without a relation, removes every relation between them.
+     */
+    unlink(fromId: string, toId: string, relation?: InsightRelation): number {
+      const result = relation
+        ? db.prepare(
+            "DELETE FROM insight_links WHERE from_id = ? AND to_id = ? AND relation = ?"
+          ).run(fromId, toId, relation)
+        : db.prepare(
+            "DELETE FROM insight_links WHERE from_id = ? AND to_id = ?"
+          ).run(fromId, toId);
+      if (result.changes > 0) {
+        syncLegacyColumn(fromId);
+      }
+      return result.changes;
+    },
+
+    /**
+     * Replace the outgoing edges of one relation with the given targets.
+     * Edges of other relations, and the notes of kept targets, are untouched.
+     */
+    replaceOutgoing(fromId: string, toIds: string[], relation: InsightRelation): void {
+      db.transaction(() => {
+        const placeholders = toIds.map(() => "?").join(",");
+        db.prepare(`
+          DELETE FROM insight_links WHERE from_id = ? AND relation = ?
+          ${toIds.length ? `AND to_id NOT IN (${placeholders})` : ""}
+        `).run(fromId, relation, ...toIds);
+        const insert = db.prepare(`
+          INSERT OR IGNORE INTO insight_links (from_id, to_id, relation, note, created_at)
+          VALUES (?, ?, ?, NULL, ?)
+        `);
+        const now = new Date().toISOString();
+        for (const toId of toIds) {
+          insert.run(fromId, toId, relation, now);
+        }
+        syncLegacyColumn(fromId);
+      })();
+    },
+
+    /**
+     * Re-point every edge touching oldId at newId (insight merge). Edges that
+     * would become self-links or duplicates are dropped.
+     */
+    replaceInsight(oldId: string, newId: string): number {
+      return db.transaction(() => {
+        const rows = db.prepare(
+          "SELECT * FROM insight_links WHERE from_id = ? OR to_id = ?"
+        ).all(oldId, oldId) as InsightLinkRecord[];
+        if (rows.length === 0) return 0;
+
+        db.prepare("DELETE FROM insight_links WHERE from_id = ? OR to_id = ?").run(oldId, oldId);
+        const insert = db.prepare(`
+          INSERT OR IGNORE INTO insight_links (from_id, to_id, relation, note, created_at)
+          VALUES (?, ?, ?, ?, ?)
+        `);
+        const touched = new Set<string>([oldId]);
+        for (const row of rows) {
+          const fromId = row.from_id === oldId ? newId : row.from_id;
+          const toId = row.to_id === oldId ? newId : row.to_id;
+          touched.add(fromId);
+          if (fromId === toId) continue;
+          insert.run(fromId, toId, row.relation, row.note, row.created_at);
+        }
+        for (const id of touched) {
+          syncLegacyColumn(id);
+        }
+        return rows.length;
+      })();
+    },
+
+    /**
+     * Import links written directly to insights.links (e.g. JSON import)
+     */
+    backfillFromLegacyColumn(): number {
+      return db.prepare(BACKFILL_LEGACY_LINKS_SQL).run().changes;
+    },
+
+    /**
+     * Link degree (incoming + outgoing) per insight, for centrality scoring
+     */
+    countByInsight(): Map<string, number> {
+      const rows = db.prepare(`
+        SELECT id, COUNT(*) as count FROM (
+          SELECT from_id as id FROM insight_links
+          UNION ALL
+          SELECT to_id as id FROM insight_links
+        ) GROUP BY id
+      `).all() as Array<{ id: string; count: number }>;
+      return new Map(rows.map(r => [r.id, r.count]));
+    },
+
+    count(): number {
+      const result = db.prepare("SELECT COUNT(*) as count FROM insight_links").get() as { count: number };
+      return result.count;
+    },
+  };
+}
+
+export type InsightLinksRepository = ReturnType<typeof createInsightLinksRepository>;
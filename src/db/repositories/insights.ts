@@ -5,6 +5,7 @@
  */
 
 import Database from "better-sqlite3";
+import { diffFields, deletedFields, type EventsRepository } from "./events.js";
 
 export interface InsightRecord {
   id: string;
@@ -16,13 +17,27 @@ export interface InsightRecord {
   links: string | null;     // JSON array as string
   source: string | null;    // JSON object as string
   notes: string | null;
+  superseded_by: string | null;   // Replacement, when status is superseded
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Fields for a new insight. superseded_by is optional: it's normally set by a status change
+ */
+export type NewInsight = Omit<InsightRecord, "created_at" | "updated_at" | "superseded_by"> & {
+  superseded_by?: string | null;
+};
+
+/**
+ * Search hit with its FTS5 bm25 rank (lower = better match)
+ */
+export type InsightSearchResult = InsightRecord & { rank: number };
+
 export interface InsightFilters {
   types?: string[];
   statuses?: string[];
+  excludeStatuses?: string[];
   tags?: string[];
 }
 
@@ -31,7 +46,7 @@ export interface PaginationParams {
   offset?: number;
 }
 
-export function createInsightsRepository(db: Database.Database) {
+export function createInsightsRepository(db: Database.Database, events?: EventsRepository) {
   return {
     findById(id: string): InsightRecord | null {
       return db.prepare("SELECT * FROM insights WHERE id = ?").get(id) as InsightRecord | null;
@@ -59,6 +74,12 @@ export function createInsightsRepository(db: Database.Database) {
         params.push(...filters.statuses);
       }
 
+      if (filters?.excludeStatuses?.length) {
+        const placeholders = filters.excludeStatuses.map(() => "?").join(",");
+        sql += ` AND status NOT IN (${placeholders})`;
+        params.push(...filters.excludeStatuses);
+      }
+
       sql += " ORDER BY created_at DESC";
 
       if (pagination?.limit) {
@@ -77,7 +98,7 @@ export function createInsightsRepository(db: Database.Database) {
     /**
      * Full-text search using FTS5
      */
-    search(query: string, filters?: InsightFilters, pagination?: PaginationParams): InsightRecord[] {
+    search(query: string, filters?: InsightFilters, pagination?: PaginationParams): InsightSearchResult[] {
       // FTS5 query - escape special characters and use prefix matching
       const ftsQuery = query
         .split(/\s+/)
@@ -107,6 +128,12 @@ export function createInsightsRepository(db: Database.Database) {
         params.push(...filters.statuses);
       }
 
+      if (filters?.excludeStatuses?.length) {
+        const placeholders = filters.excludeStatuses.map(() => "?").join(",");
+        sql += ` AND i.status NOT IN (${placeholders})`;
+        params.push(...filters.excludeStatuses);
+      }
+
       sql += " ORDER BY rank";
 
       if (pagination?.limit) {
@@ -119,14 +146,14 @@ export function createInsightsRepository(db: Database.Database) {
         params.push(pagination.offset);
       }
 
-      return db.prepare(sql).all(...params) as InsightRecord[];
+      return db.prepare(sql).all(...params) as InsightSearchResult[];
     },
 
-    insert(insight: Omit<InsightRecord, "created_at" | "updated_at">): InsightRecord {
+    insert(insight: NewInsight): InsightRecord {
       const now = new Date().toISOString();
       db.prepare(`
-        INSERT INTO insights (id, content, summary, type, status, tags, links, source, notes, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO insights (id, content, summary, type, status, tags, links, source, notes, superseded_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         insight.id,
         insight.content,
@@ -137,10 +164,13 @@ export function createInsightsRepository(db: Database.Database) {
         insight.links,
         insight.source,
         insight.notes,
+        insight.superseded_by ?? null,
         now,
         now
       );
-      return this.findById(insight.id)!;
+      const created = this.findById(insight.id)!;
+      events?.record("insight", insight.id, "create", diffFields(null, created));
+      return created;
     },
 
     update(id: string, changes: Partial<InsightRecord>): InsightRecord | null {
@@ -162,7 +192,20 @@ export function createInsightsRepository(db: Database.Database) {
       params.push(id);
 
       db.prepare(`UPDATE insights SET ${updates.join(", ")} WHERE id = ?`).run(...params);
-      return this.findById(id);
+      const updated = this.findById(id)!;
+      events?.record("insight", id, "update", diffFields(existing, updated));
+      return updated;
+    },
+
+    /**
+     * Delete an insight. Its links go with it (ON DELETE CASCADE).
+     */
+    delete(id: string): boolean {
+      const existing = this.findById(id);
+      if (!existing) return false;
+      db.prepare("DELETE FROM insights WHERE id = ?").run(id);
+      events?.record("insight", id, "delete", deletedFields(existing));
+      return true;
     },
 
     count(filters?: InsightFilters): number {
@@ -181,10 +224,24 @@ export function createInsightsRepository(db: Database.Database) {
         params.push(...filters.statuses);
       }
 
+      if (filters?.excludeStatuses?.length) {
+        const placeholders = filters.excludeStatuses.map(() => "?").join(",");
+        sql += ` AND status NOT IN (${placeholders})`;
+        params.push(...filters.excludeStatuses);
+      }
+
       const result = db.prepare(sql).get(...params) as { count: number };
       return result.count;
     },
 
+    /**
+     * Allocate the next ID and insert in one IMMEDIATE transaction, so
+     * concurrent writers (other agents on the same repo) can't get the same ID
+     */
+    insertWithNextId(insight: Omit<NewInsight, "id">): InsightRecord {
+      return db.transaction(() => this.insert({ ...insight, id: this.getNextId() })).immediate();
+    },
+
     getNextId(): string {
       const result = db.prepare(
         "SELECT id FROM insights ORDER BY CAST(SUBSTR(id, 5) AS INTEGER) DESC LIMIT 1"
@@ -7,6 +7,7 @@
  */
 
 import Database from "better-sqlite3";
+import { diffFields, deletedFields, type EventsRepository } from "./events.js";
 
 export interface RepoContextRecord {
   key: string;
@@ -21,7 +22,7 @@ export type ContextKey =
   | "folder_structure"   // Agent's annotated folder tree
   | "suggested_actions"; // Free-form notes for next session
 
-export function createRepoContextRepository(db: Database.Database) {
+export function createRepoContextRepository(db: Database.Database, events?: EventsRepository) {
   return {
     get(key: ContextKey): RepoContextRecord | null {
       return db.prepare("SELECT * FROM repo_context WHERE key = ?").get(key) as RepoContextRecord | null;
@@ -37,6 +38,7 @@ export function createRepoContextRepository(db: Database.Database) {
     },
 
     set(key: ContextKey, value: string, sessionId?: string): RepoContextRecord {
+      const existing = this.get(key);
       const now = new Date().toISOString();
       db.prepare(`
         INSERT INTO repo_context (key, value, updated_at, updated_by_session)
@@ -46,7 +48,22 @@ export function createRepoContextRepository(db: Database.Database) {
           updated_at = excluded.updated_at,
           updated_by_session = excluded.updated_by_session
       `).run(key, value, now, sessionId || null);
-      return this.get(key)!;
+      const updated = this.get(key)!;
+      events?.record(
+        "repo_context",
+        key,
+        existing ? "update" : "create",
+        diffFields(existing && { value: existing.value }, { value: updated.value })
+      );
+      return updated;
+    },
+
+    delete(key: ContextKey): boolean {
+      const existing = this.get(key);
+      if (!existing) return false;
+      db.prepare("DELETE FROM repo_context WHERE key = ?").run(key);
+      events?.record("repo_context", key, "delete", deletedFields({ value: existing.value }));
+      return true;
     },
 
     /**
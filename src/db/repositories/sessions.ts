@@ -2,9 +2,13 @@
  * Sessions Repository
  * 
  * Data access for sessions table (parsed from progress.txt).
+ * loop_orient reserves a session's ID with a placeholder row (reserved_at set)
+ * that loop_handoff fills in. Readers skip reservations, and ones left behind
+ * by sessions that never handed off expire.
  */
 
 import Database from "better-sqlite3";
+import { diffFields, deletedFields, type EventsRepository } from "./events.js";
 
 export interface SessionRecord {
   id: string;                 // "2026-01-22-S21"
@@ -18,14 +22,33 @@ export interface SessionRecord {
   learnings: string | null;
   files_changed: string | null;  // JSON array
   insights_added: string | null; // JSON array
+  git_branch: string | null;
+  start_commit: string | null;    // HEAD at loop_orient
+  end_commit: string | null;      // HEAD at loop_handoff
+  commits: string | null;         // JSON array of commits made in the session
+  reserved_at: string | null;     // Set from loop_orient until loop_handoff writes the session
   created_at: string;
 }
 
+type GitFields = "git_branch" | "start_commit" | "end_commit" | "commits";
+
+// Reservations from before this many days ago belong to sessions that never handed off
+const RESERVATION_TTL_DAYS = 1;
+
+const NOT_RESERVED = "reserved_at IS NULL";
+
+/**
+ * A session to write. Git fields are optional: sessions imported from
+ * progress.txt have none, and an upsert without them keeps the stored ones.
+ */
+export type NewSession = Omit<SessionRecord, "created_at" | "reserved_at" | GitFields> & Partial<Pick<SessionRecord, GitFields>>;
+
 export interface SessionFilters {
   taskIds?: string[];
   outcomes?: string[];
   dateFrom?: string;
   dateTo?: string;
+  includeReserved?: boolean;   // Also return sessions still open (default: false)
 }
 
 export interface PaginationParams {
@@ -33,16 +56,31 @@ export interface PaginationParams {
   offset?: number;
 }
 
-export function createSessionsRepository(db: Database.Database) {
+export function createSessionsRepository(db: Database.Database, events?: EventsRepository) {
   return {
-    findById(id: string): SessionRecord | null {
-      return db.prepare("SELECT * FROM sessions WHERE id = ?").get(id) as SessionRecord | null;
+    findById(id: string): SessionRecord | undefined {
+      return db.prepare("SELECT * FROM sessions WHERE id = ?").get(id) as SessionRecord | undefined;
+    },
+
+    /**
+     * The sessions that exist among the given IDs (deleted ones are skipped)
+     */
+    findByIds(ids: string[]): SessionRecord[] {
+      if (ids.length === 0) return [];
+      const placeholders = ids.map(() => "?").join(",");
+      return db.prepare(
+        `SELECT * FROM sessions WHERE id IN (${placeholders}) ORDER BY date DESC, session_number DESC`
+      ).all(...ids) as SessionRecord[];
     },
 
     findAll(filters?: SessionFilters, pagination?: PaginationParams): SessionRecord[] {
       let sql = "SELECT * FROM sessions WHERE 1=1";
       const params: unknown[] = [];
 
+      if (!filters?.includeReserved) {
+        sql += ` AND ${NOT_RESERVED}`;
+      }
+
       if (filters?.taskIds?.length) {
         const placeholders = filters.taskIds.map(() => "?").join(",");
         sql += ` AND task_id IN (${placeholders})`;
@@ -81,21 +119,36 @@ export function createSessionsRepository(db: Database.Database) {
     },
 
     /**
-     * Get N most recent sessions
+     * Sessions that recorded a commit belonging to a task
+     */
+    findByCommitTask(taskId: string): SessionRecord[] {
+      return db.prepare(`
+        SELECT * FROM sessions s
+        WHERE EXISTS (
+          SELECT 1 FROM json_each(s.commits) c, json_each(c.value, '$.task_ids') t
+          WHERE t.value = ?
+        )
+        ORDER BY date DESC, session_number DESC
+      `).all(taskId) as SessionRecord[];
+    },
+
+    /**
+     * Get N most recent sessions (reservations excluded)
      */
     getRecent(n: number): SessionRecord[] {
       return db.prepare(
-        "SELECT * FROM sessions ORDER BY date DESC, session_number DESC LIMIT ?"
+        `SELECT * FROM sessions WHERE ${NOT_RESERVED} ORDER BY date DESC, session_number DESC LIMIT ?`
       ).all(n) as SessionRecord[];
     },
 
-    insert(session: Omit<SessionRecord, "created_at">): SessionRecord {
+    insert(session: NewSession, reservedAt: string | null = null): SessionRecord {
       const now = new Date().toISOString();
       db.prepare(`
         INSERT INTO sessions (
           id, date, session_number, task_id, task_type, task_title,
-          outcome, summary, learnings, files_changed, insights_added, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          outcome, summary, learnings, files_changed, insights_added,
+          git_branch, start_commit, end_commit, commits, reserved_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         session.id,
         session.date,
@@ -108,12 +161,23 @@ export function createSessionsRepository(db: Database.Database) {
         session.learnings,
         session.files_changed,
         session.insights_added,
+        session.git_branch ?? null,
+        session.start_commit ?? null,
+        session.end_commit ?? null,
+        session.commits ?? null,
+        reservedAt,
         now
       );
-      return this.findById(session.id)!;
+      const created = this.findById(session.id)!;
+      events?.record("session", session.id, "create", diffFields(null, created));
+      return created;
     },
 
-    upsert(session: Omit<SessionRecord, "created_at">): SessionRecord {
+    /**
+     * Write a whole session (loop_handoff, progress.txt import). A reservation
+     * written this way becomes a regular session.
+     */
+    upsert(session: NewSession): SessionRecord {
       const existing = this.findById(session.id);
       if (existing) {
         // Update existing
@@ -121,7 +185,9 @@ export function createSessionsRepository(db: Database.Database) {
           UPDATE sessions SET
             date = ?, session_number = ?, task_id = ?, task_type = ?,
             task_title = ?, outcome = ?, summary = ?, learnings = ?,
-            files_changed = ?, insights_added = ?
+            files_changed = ?, insights_added = ?,
+            git_branch = ?, start_commit = ?, end_commit = ?, commits = ?,
+            reserved_at = NULL
           WHERE id = ?
         `).run(
           session.date,
@@ -134,21 +200,113 @@ export function createSessionsRepository(db: Database.Database) {
           session.learnings,
           session.files_changed,
           session.insights_added,
+          session.git_branch !== undefined ? session.git_branch : existing.git_branch,
+          session.start_commit !== undefined ? session.start_commit : existing.start_commit,
+          session.end_commit !== undefined ? session.end_commit : existing.end_commit,
+          session.commits !== undefined ? session.commits : existing.commits,
           session.id
         );
-        return this.findById(session.id)!;
+        const updated = this.findById(session.id)!;
+        events?.record("session", session.id, "update", diffFields(existing, updated));
+        return updated;
       }
       return this.insert(session);
     },
 
-    count(): number {
-      const result = db.prepare("SELECT COUNT(*) as count FROM sessions").get() as { count: number };
+    update(id: string, changes: Partial<SessionRecord>): SessionRecord | null {
+      const existing = this.findById(id);
+      if (!existing) return null;
+
+      const updates: string[] = [];
+      const params: unknown[] = [];
+
+      for (const [key, value] of Object.entries(changes)) {
+        if (key !== "id" && key !== "created_at") {
+          updates.push(`${key} = ?`);
+          params.push(value);
+        }
+      }
+      if (updates.length === 0) return existing;
+
+      params.push(id);
+      db.prepare(`UPDATE sessions SET ${updates.join(", ")} WHERE id = ?`).run(...params);
+      const updated = this.findById(id)!;
+      events?.record("session", id, "update", diffFields(existing, updated));
+      return updated;
+    },
+
+    delete(id: string): boolean {
+      const existing = this.findById(id);
+      if (!existing) return false;
+      db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+      events?.record("session", id, "delete", deletedFields(existing));
+      return true;
+    },
+
+    count(filters?: Pick<SessionFilters, "includeReserved">): number {
+      const where = filters?.includeReserved ? "" : ` WHERE ${NOT_RESERVED}`;
+      const result = db.prepare(`SELECT COUNT(*) as count FROM sessions${where}`).get() as { count: number };
       return result.count;
     },
 
+    /**
+     * Next session number for a date (1 for the first session of the day)
+     */
+    getNextSessionNumber(date: string): number {
+      const result = db.prepare(
+        "SELECT MAX(session_number) as max FROM sessions WHERE date = ?"
+      ).get(date) as { max: number | null };
+      return (result.max ?? 0) + 1;
+    },
+
+    /**
+     * Insert a session under the next number for its date. Runs in an
+     * IMMEDIATE transaction so concurrent sessions get distinct IDs.
+     */
+    insertWithNextNumber(session: Omit<NewSession, "id" | "session_number">, reservedAt: string | null = null): SessionRecord {
+      return db.transaction(() => {
+        const sessionNumber = this.getNextSessionNumber(session.date);
+        return this.insert({ ...session, id: `${session.date}-S${sessionNumber}`, session_number: sessionNumber }, reservedAt);
+      }).immediate();
+    },
+
+    /**
+     * Claim the next session ID for a date by inserting a reserved IN_PROGRESS
+     * record, expiring reservations abandoned on earlier days first. `live`
+     * lists reservations whose sessions are known to be still running.
+     */
+    reserve(date: string, live: string[] = []): SessionRecord {
+      const cutoff = new Date(Date.parse(date) - RESERVATION_TTL_DAYS * 86_400_000).toISOString().split("T")[0];
+      this.expireReservations(cutoff, live);
+      return this.insertWithNextNumber({
+        date,
+        task_id: null,
+        task_type: null,
+        task_title: null,
+        outcome: "IN_PROGRESS",
+        summary: "Session in progress",
+        learnings: null,
+        files_changed: null,
+        insights_added: null,
+      }, new Date().toISOString());
+    },
+
+    /**
+     * Delete reservations dated before the given date (sessions that never
+     * handed off), except the live ones. Earlier dates only, so their numbers
+     * are never reused. Housekeeping, not an edit: no events are recorded.
+     */
+    expireReservations(before: string, live: string[] = []): number {
+      const placeholders = live.map(() => "?").join(",");
+      const result = db.prepare(
+        `DELETE FROM sessions WHERE reserved_at IS NOT NULL AND date < ?${live.length ? ` AND id NOT IN (${placeholders})` : ""}`
+      ).run(before, ...live);
+      return result.changes;
+    },
+
     getLastSessionId(): string | null {
       const result = db.prepare(
-        "SELECT id FROM sessions ORDER BY date DESC, session_number DESC LIMIT 1"
+        `SELECT id FROM sessions WHERE ${NOT_RESERVED} ORDER BY date DESC, session_number DESC LIMIT 1`
       ).get() as { id: string } | undefined;
       return result?.id || null;
     },
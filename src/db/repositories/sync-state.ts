@@ -0,0 +1,56 @@
+/**
+ * Sync State Repository
+ *
+ * Merge base for `loopflow sync`: the hash of each record's Markdown
+ * rendering as of the last successful sync.
+ */
+
+import Database from "better-sqlite3";
+
+export type SyncEntityType = "task" | "insight";
+
+export interface SyncStateRecord {
+  entity_type: SyncEntityType;
+  entity_id: string;
+  hash: string;
+  db_updated_at: string | null;
+  synced_at: string;
+}
+
+export function createSyncStateRepository(db: Database.Database) {
+  return {
+    find(entityType: SyncEntityType, entityId: string): SyncStateRecord | null {
+      return db.prepare(
+        "SELECT * FROM sync_state WHERE entity_type = ? AND entity_id = ?"
+      ).get(entityType, entityId) as SyncStateRecord | null;
+    },
+
+    /**
+     * All sync bases for an entity type, keyed by ID
+     */
+    findAll(entityType: SyncEntityType): Map<string, SyncStateRecord> {
+      const rows = db.prepare(
+        "SELECT * FROM sync_state WHERE entity_type = ?"
+      ).all(entityType) as SyncStateRecord[];
+      return new Map(rows.map(r => [r.entity_id, r]));
+    },
+
+    set(entityType: SyncEntityType, entityId: string, hash: string, dbUpdatedAt: string | null): void {
+      db.prepare(`
+        INSERT INTO sync_state (entity_type, entity_id, hash, db_updated_at, synced_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(entity_type, entity_id) DO UPDATE SET
+          hash = excluded.hash,
+          db_updated_at = excluded.db_updated_at,
+          synced_at = excluded.synced_at
+      `).run(entityType, entityId, hash, dbUpdatedAt, new Date().toISOString());
+    },
+
+    count(): number {
+      const result = db.prepare("SELECT COUNT(*) as count FROM sync_state").get() as { count: number };
+      return result.count;
+    },
+  };
+}
+
+export type SyncStateRepository = ReturnType<typeof createSyncStateRepository>;
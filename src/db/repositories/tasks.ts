@@ -5,6 +5,7 @@
  */
 
 import Database from "better-sqlite3";
+import { diffFields, deletedFields, type EventsRepository } from "./events.js";
 
 export interface TaskRecord {
   id: string;
@@ -14,13 +15,27 @@ export interface TaskRecord {
   status: string;
   priority: string;
   depends_on: string | null;        // JSON array as string
-  acceptance_criteria: string | null; // JSON array as string
+  acceptance_criteria: string | null; // JSON array of {text, met, evidence, verified_at} as string
   test_file: string | null;
   notes: string | null;
+  parent_id: string | null;         // Set for subtasks (LF-042.1 -> LF-042)
+  status_reason: string | null;     // Reason given with the last status change (BLOCKED on ...)
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Fields for a new task. status_reason is optional: it's normally set by a status change
+ */
+export type NewTask = Omit<TaskRecord, "created_at" | "updated_at" | "status_reason"> & {
+  status_reason?: string | null;
+};
+
+/**
+ * Search hit with its FTS5 bm25 rank (lower = better match)
+ */
+export type TaskSearchResult = TaskRecord & { rank: number };
+
 export interface TaskFilters {
   statuses?: string[];
   priorities?: string[];
@@ -31,7 +46,38 @@ export interface PaginationParams {
   offset?: number;
 }
 
-export function createTasksRepository(db: Database.Database) {
+/**
+ * Attach dotted IDs (LF-042.1, LF-042.1.2) to the task one level up, when it
+ * exists and no parent is set yet. Idempotent.
+ */
+export const BACKFILL_TASK_PARENTS_SQL = `
+UPDATE tasks
+SET parent_id = substr(rtrim(id, '0123456789'), 1, length(rtrim(id, '0123456789')) - 1)
+WHERE parent_id IS NULL
+  AND rtrim(id, '0123456789') LIKE '%_.'
+  AND substr(rtrim(id, '0123456789'), 1, length(rtrim(id, '0123456789')) - 1) IN (SELECT id FROM tasks)
+`;
+
+/**
+ * Turn plain-string acceptance criteria (before checkable criteria) into
+ * unmet criterion objects. Idempotent.
+ */
+export const UPGRADE_CRITERIA_SQL = `
+UPDATE tasks
+SET acceptance_criteria = (
+  SELECT json_group_array(
+    CASE WHEN type = 'text'
+      THEN json_object('text', value, 'met', json('false'), 'evidence', NULL, 'verified_at', NULL)
+      ELSE json(value)
+    END
+  )
+  FROM json_each(tasks.acceptance_criteria)
+)
+WHERE json_valid(acceptance_criteria)
+  AND EXISTS (SELECT 1 FROM json_each(tasks.acceptance_criteria) WHERE type = 'text')
+`;
+
+export function createTasksRepository(db: Database.Database, events?: EventsRepository) {
   return {
     findById(id: string): TaskRecord | null {
       return db.prepare("SELECT * FROM tasks WHERE id = ?").get(id) as TaskRecord | null;
@@ -77,7 +123,7 @@ export function createTasksRepository(db: Database.Database) {
     /**
      * Full-text search using FTS5
      */
-    search(query: string, filters?: TaskFilters, pagination?: PaginationParams): TaskRecord[] {
+    search(query: string, filters?: TaskFilters, pagination?: PaginationParams): TaskSearchResult[] {
       const ftsQuery = query
         .split(/\s+/)
         .filter(Boolean)
@@ -118,14 +164,14 @@ export function createTasksRepository(db: Database.Database) {
         params.push(pagination.offset);
       }
 
-      return db.prepare(sql).all(...params) as TaskRecord[];
+      return db.prepare(sql).all(...params) as TaskSearchResult[];
     },
 
-    insert(task: Omit<TaskRecord, "created_at" | "updated_at">): TaskRecord {
+    insert(task: NewTask): TaskRecord {
       const now = new Date().toISOString();
       db.prepare(`
-        INSERT INTO tasks (id, title, description, summary, status, priority, depends_on, acceptance_criteria, test_file, notes, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO tasks (id, title, description, summary, status, priority, depends_on, acceptance_criteria, test_file, notes, parent_id, status_reason, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         task.id,
         task.title,
@@ -137,10 +183,82 @@ export function createTasksRepository(db: Database.Database) {
         task.acceptance_criteria,
         task.test_file,
         task.notes,
+        task.parent_id,
+        task.status_reason ?? null,
         now,
         now
       );
-      return this.findById(task.id)!;
+      const created = this.findById(task.id)!;
+      events?.record("task", task.id, "create", diffFields(null, created));
+      return created;
+    },
+
+    /**
+     * Insert a top-level task with the next ID for a prefix (API -> API-008).
+     * The ID is allocated inside the write transaction.
+     */
+    insertWithNextId(prefix: string, task: Omit<NewTask, "id">): TaskRecord {
+      return db.transaction(() => this.insert({ ...task, id: this.getNextId(prefix) })).immediate();
+    },
+
+    getNextId(prefix: string): string {
+      // Top-level IDs only (PREFIX-N): subtasks share the parent's number
+      const result = db.prepare(`
+        SELECT MAX(CAST(SUBSTR(id, LENGTH(?) + 2) AS INTEGER)) as last
+        FROM tasks
+        WHERE SUBSTR(id, 1, LENGTH(?) + 1) = ? || '-' AND INSTR(id, '.') = 0
+      `).get(prefix, prefix, prefix) as { last: number | null };
+      return `${prefix}-${String((result.last ?? 0) + 1).padStart(3, "0")}`;
+    },
+
+    /**
+     * Distinct ID prefixes in use (LF, API, ...)
+     */
+    getIdPrefixes(): string[] {
+      const rows = db.prepare(`
+        SELECT DISTINCT SUBSTR(id, 1, INSTR(id, '-') - 1) as prefix
+        FROM tasks
+        WHERE INSTR(id, '-') > 1
+      `).all() as Array<{ prefix: string }>;
+      return rows.map(r => r.prefix);
+    },
+
+    /**
+     * Insert a subtask with the next dotted ID under its parent (LF-042 -> LF-042.3).
+     * The ID is allocated inside the write transaction.
+     */
+    insertChild(parentId: string, task: Omit<NewTask, "id" | "parent_id">): TaskRecord {
+      return db.transaction(() => this.insert({
+        ...task,
+        id: this.getNextChildId(parentId),
+        parent_id: parentId,
+      })).immediate();
+    },
+
+    getNextChildId(parentId: string): string {
+      const result = db.prepare(`
+        SELECT MAX(CAST(SUBSTR(id, LENGTH(?) + 2) AS INTEGER)) as last
+        FROM tasks
+        WHERE parent_id = ? AND SUBSTR(id, 1, LENGTH(?) + 1) = ? || '.'
+      `).get(parentId, parentId, parentId, parentId) as { last: number | null };
+      return `${parentId}.${(result.last ?? 0) + 1}`;
+    },
+
+    /**
+     * Direct subtasks, in ID order
+     */
+    findChildren(parentId: string): TaskRecord[] {
+      return db.prepare(`
+        SELECT * FROM tasks WHERE parent_id = ?
+        ORDER BY CAST(SUBSTR(id, LENGTH(?) + 2) AS INTEGER), id
+      `).all(parentId, parentId) as TaskRecord[];
+    },
+
+    /**
+     * Re-run the dotted-ID parent backfill (after importing JSON)
+     */
+    backfillParentsFromIds(): number {
+      return db.prepare(BACKFILL_TASK_PARENTS_SQL).run().changes;
     },
 
     update(id: string, changes: Partial<TaskRecord>): TaskRecord | null {
@@ -162,7 +280,17 @@ export function createTasksRepository(db: Database.Database) {
       params.push(id);
 
       db.prepare(`UPDATE tasks SET ${updates.join(", ")} WHERE id = ?`).run(...params);
-      return this.findById(id);
+      const updated = this.findById(id)!;
+      events?.record("task", id, "update", diffFields(existing, updated));
+      return updated;
+    },
+
+    delete(id: string): boolean {
+      const existing = this.findById(id);
+      if (!existing) return false;
+      db.prepare("DELETE FROM tasks WHERE id = ?").run(id);
+      events?.record("task", id, "delete", deletedFields(existing));
+      return true;
     },
 
     count(filters?: TaskFilters): number {
@@ -0,0 +1,56 @@
+/**
+ * Test Results Repository
+ *
+ * Latest test run of each task's test_file, recorded from a test report by
+ * `loopflow test-status` or loop_test_report.
+ */
+
+import Database from "better-sqlite3";
+
+export interface TestResultRecord {
+  task_id: string;
+  test_file: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failing: string | null;       // JSON array of failed test names
+  report_file: string | null;   // Report the result came from
+  recorded_at: string;
+}
+
+export function createTestResultsRepository(db: Database.Database) {
+  return {
+    find(taskId: string): TestResultRecord | null {
+      return db.prepare("SELECT * FROM test_results WHERE task_id = ?").get(taskId) as TestResultRecord | null;
+    },
+
+    /**
+     * All recorded results, keyed by task ID
+     */
+    findAll(): Map<string, TestResultRecord> {
+      const rows = db.prepare("SELECT * FROM test_results ORDER BY task_id").all() as TestResultRecord[];
+      return new Map(rows.map(r => [r.task_id, r]));
+    },
+
+    set(result: TestResultRecord): void {
+      db.prepare(`
+        INSERT INTO test_results (task_id, test_file, passed, failed, skipped, failing, report_file, recorded_at)
+        VALUES (@task_id, @test_file, @passed, @failed, @skipped, @failing, @report_file, @recorded_at)
+        ON CONFLICT(task_id) DO UPDATE SET
+          test_file = excluded.test_file,
+          passed = excluded.passed,
+          failed = excluded.failed,
+          skipped = excluded.skipped,
+          failing = excluded.failing,
+          report_file = excluded.report_file,
+          recorded_at = excluded.recorded_at
+      `).run(result);
+    },
+
+    delete(taskId: string): void {
+      db.prepare("DELETE FROM test_results WHERE task_id = ?").run(taskId);
+    },
+  };
+}
+
+export type TestResultsRepository = ReturnType<typeof createTestResultsRepository>;
@@ -6,8 +6,10 @@
  */
 
 import Database from "better-sqlite3";
+import { BACKFILL_LEGACY_LINKS_SQL } from "./repositories/insight-links.js";
+import { BACKFILL_TASK_PARENTS_SQL, UPGRADE_CRITERIA_SQL } from "./repositories/tasks.js";
 
-export const CURRENT_SCHEMA_VERSION = 3;
+export const CURRENT_SCHEMA_VERSION = 15;
 
 /**
  * SQL statements to create the database schema
@@ -21,7 +23,7 @@ CREATE TABLE IF NOT EXISTS insights (
   type TEXT NOT NULL,               -- process|domain|architecture|edge_case|technical
   status TEXT NOT NULL DEFAULT 'unprocessed',  -- unprocessed|discussed
   tags TEXT,                        -- JSON array as text
-  links TEXT,                       -- JSON array of insight IDs
+  links TEXT,                       -- JSON array of outgoing insight IDs (mirror of insight_links)
   source TEXT,                      -- JSON object {task, session, original_id?}
   notes TEXT,
   created_at TEXT NOT NULL,
@@ -173,6 +175,166 @@ CREATE INDEX IF NOT EXISTS idx_feedback_specs_status ON feedback_specs(status);
 CREATE INDEX IF NOT EXISTS idx_feedback_specs_type ON feedback_specs(type);
 `;
 
+/**
+ * Schema V4 - Add insight_links table for typed insight relations
+ */
+const SCHEMA_V4 = `
+-- Insight links: typed, directional edges between insights
+CREATE TABLE IF NOT EXISTS insight_links (
+  from_id TEXT NOT NULL REFERENCES insights(id) ON DELETE CASCADE,
+  to_id TEXT NOT NULL REFERENCES insights(id) ON DELETE CASCADE,
+  relation TEXT NOT NULL,           -- builds_on|contradicts|exemplifies|synthesizes|relates_to
+  note TEXT,                        -- The link itself can be an insight
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (from_id, to_id, relation)
+);
+
+-- Index for incoming-link lookups
+CREATE INDEX IF NOT EXISTS idx_insight_links_to ON insight_links(to_id);
+`;
+
+/**
+ * Schema V5 - Add events table (append-only audit log)
+ */
+const SCHEMA_V5 = `
+-- Events: one row per mutation of a task, insight, session, repo_context key or feedback spec
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL,        -- task|insight|session|repo_context|feedback
+  entity_id TEXT NOT NULL,          -- LF-042, INS-007, 2026-01-22-S3, suggested_actions
+  action TEXT NOT NULL,             -- create|update|delete|commit
+  changes TEXT NOT NULL,            -- JSON object {field: {from, to}}
+  session_id TEXT,                  -- Session active when the change was made
+  origin TEXT NOT NULL,             -- mcp|api|cli|import|git
+  created_at TEXT NOT NULL
+);
+
+-- Index for per-entity history
+CREATE INDEX IF NOT EXISTS idx_events_entity ON events(entity_id, id);
+CREATE INDEX IF NOT EXISTS idx_events_session ON events(session_id);
+`;
+
+/**
+ * Schema V6 - Add sync_state table for Markdown sync
+ */
+const SCHEMA_V6 = `
+-- Sync state: hash of each record's Markdown rendering at the last sync (the merge base)
+CREATE TABLE IF NOT EXISTS sync_state (
+  entity_type TEXT NOT NULL,        -- task|insight
+  entity_id TEXT NOT NULL,
+  hash TEXT NOT NULL,               -- Content hash of the canonical Markdown
+  db_updated_at TEXT,               -- Record's updated_at when synced
+  synced_at TEXT NOT NULL,
+  PRIMARY KEY (entity_type, entity_id)
+);
+`;
+
+/**
+ * Schema V7 - Add parent_id to tasks for subtasks
+ */
+const SCHEMA_V7 = `
+-- Subtasks: LF-042.1 has parent_id LF-042
+ALTER TABLE tasks ADD COLUMN parent_id TEXT;
+
+-- Index for child lookups
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);
+`;
+
+/**
+ * Schema V8 - Add status_reason to tasks for workflow transitions
+ */
+const SCHEMA_V8 = `
+-- Why a task is in its status (e.g. what it's BLOCKED on), set with the status change
+ALTER TABLE tasks ADD COLUMN status_reason TEXT;
+`;
+
+/**
+ * Schema V10 - Add test_results table for tasks' test files
+ */
+const SCHEMA_V10 = `
+-- Test results: latest run of each task's test_file, from an ingested report
+CREATE TABLE IF NOT EXISTS test_results (
+  task_id TEXT PRIMARY KEY,
+  test_file TEXT NOT NULL,          -- tasks.test_file at the time of the run
+  passed INTEGER NOT NULL,
+  failed INTEGER NOT NULL,
+  skipped INTEGER NOT NULL,
+  failing TEXT,                     -- JSON array of failed test names
+  report_file TEXT,                 -- Report the result was read from
+  recorded_at TEXT NOT NULL
+);
+`;
+
+/**
+ * Schema V11 - Add git branch and commit range to sessions
+ */
+const SCHEMA_V11 = `
+-- What landed in git during a session (recorded at loop_handoff)
+ALTER TABLE sessions ADD COLUMN git_branch TEXT;
+ALTER TABLE sessions ADD COLUMN start_commit TEXT;   -- HEAD at loop_orient
+ALTER TABLE sessions ADD COLUMN end_commit TEXT;     -- HEAD at loop_handoff
+ALTER TABLE sessions ADD COLUMN commits TEXT;        -- JSON array [{sha, subject, author, date, task_ids}]
+`;
+
+/**
+ * Schema V12 - Add insight_embeddings table for semantic search
+ */
+const SCHEMA_V12 = `
+-- One vector per insight, filled in by the embedding backfill
+CREATE TABLE IF NOT EXISTS insight_embeddings (
+  insight_id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,              -- Embedder that produced it; another model means re-embedding
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,             -- float32 little-endian
+  embedded_at TEXT NOT NULL         -- Older than insights.updated_at -> stale
+);
+
+CREATE INDEX IF NOT EXISTS idx_insight_embeddings_model ON insight_embeddings(model);
+`;
+
+/**
+ * Schema V13 - Add superseded_by to insights
+ */
+const SCHEMA_V13 = `
+-- Set when an insight is superseded: the insight that replaces it
+ALTER TABLE insights ADD COLUMN superseded_by TEXT;
+`;
+
+/**
+ * Schema V14 - Mark sessions reserved at loop_orient
+ */
+const SCHEMA_V14 = `
+-- Set while a session is open; readers skip these placeholder rows
+ALTER TABLE sessions ADD COLUMN reserved_at TEXT;
+
+-- Placeholders written by loop_orient before this column existed
+UPDATE sessions SET reserved_at = created_at
+WHERE outcome = 'IN_PROGRESS' AND summary = 'Session in progress';
+`;
+
+/**
+ * Schema V15 - Delete an insight's embedding with the insight
+ */
+const SCHEMA_V15 = `
+-- SQLite can't add a foreign key to an existing table: rebuild it, dropping
+-- vectors of insights that are already gone
+CREATE TABLE insight_embeddings_v15 (
+  insight_id TEXT PRIMARY KEY REFERENCES insights(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  embedded_at TEXT NOT NULL
+);
+
+INSERT INTO insight_embeddings_v15 (insight_id, model, dimensions, vector, embedded_at)
+SELECT insight_id, model, dimensions, vector, embedded_at FROM insight_embeddings
+WHERE insight_id IN (SELECT id FROM insights);
+
+DROP TABLE insight_embeddings;
+ALTER TABLE insight_embeddings_v15 RENAME TO insight_embeddings;
+CREATE INDEX IF NOT EXISTS idx_insight_embeddings_model ON insight_embeddings(model);
+`;
+
 export interface MigrationResult {
   fromVersion: number;
   toVersion: number;
@@ -228,6 +390,95 @@ export function migrateToLatest(db: Database.Database): MigrationResult {
       ).run(3, new Date().toISOString(), "Add feedback_specs table for pain point capture");
     }
 
+    if (fromVersion < 4) {
+      db.exec(SCHEMA_V4);
+      // Carry untyped links from the legacy JSON column into the new table
+      db.exec(BACKFILL_LEGACY_LINKS_SQL);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(4, new Date().toISOString(), "Add insight_links table for typed insight relations");
+    }
+
+    if (fromVersion < 5) {
+      db.exec(SCHEMA_V5);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(5, new Date().toISOString(), "Add events table for audit history");
+    }
+
+    if (fromVersion < 6) {
+      db.exec(SCHEMA_V6);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(6, new Date().toISOString(), "Add sync_state table for Markdown sync");
+    }
+
+    if (fromVersion < 7) {
+      db.exec(SCHEMA_V7);
+      // Dotted IDs were already used by convention: attach them to their parents
+      db.exec(BACKFILL_TASK_PARENTS_SQL);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(7, new Date().toISOString(), "Add parent_id to tasks for subtasks");
+    }
+
+    if (fromVersion < 8) {
+      db.exec(SCHEMA_V8);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(8, new Date().toISOString(), "Add status_reason to tasks for workflow transitions");
+    }
+
+    if (fromVersion < 9) {
+      // Data only: plain-string acceptance criteria become checkable objects
+      db.exec(UPGRADE_CRITERIA_SQL);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(9, new Date().toISOString(), "Store acceptance criteria as checkable objects");
+    }
+
+    if (fromVersion < 10) {
+      db.exec(SCHEMA_V10);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(10, new Date().toISOString(), "Add test_results table for task test files");
+    }
+
+    if (fromVersion < 11) {
+      db.exec(SCHEMA_V11);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(11, new Date().toISOString(), "Add git branch and commit range to sessions");
+    }
+
+    if (fromVersion < 12) {
+      db.exec(SCHEMA_V12);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(12, new Date().toISOString(), "Add insight_embeddings table for semantic search");
+    }
+
+    if (fromVersion < 13) {
+      db.exec(SCHEMA_V13);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(13, new Date().toISOString(), "Add superseded_by to insights");
+    }
+
+    if (fromVersion < 14) {
+      db.exec(SCHEMA_V14);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(14, new Date().toISOString(), "Mark sessions reserved at loop_orient");
+    }
+
+    if (fromVersion < 15) {
+      db.exec(SCHEMA_V15);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_migrations (version, applied_at, description) VALUES (?, ?, ?)"
+      ).run(15, new Date().toISOString(), "Delete an insight's embedding with the insight");
+    }
+
     return {
       fromVersion,
       toVersion: CURRENT_SCHEMA_VERSION,
@@ -251,6 +502,11 @@ export function openDatabase(dbPath: string): Database.Database {
   
   // Enable foreign keys
   db.pragma("foreign_keys = ON");
+
+  // Several agents (processes) may share one repo database:
+  // WAL lets readers run alongside a writer, busy_timeout waits for locks instead of failing
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
   
   // Migrate to latest
   const result = migrateToLatest(db);
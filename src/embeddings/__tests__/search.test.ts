@@ -0,0 +1,127 @@
+/**
+ * Tests for embedding backfill and hybrid (keyword + semantic) insight search
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { initializeDatabase, deleteInsight, type LoopFlowDatabase } from "../../db/database.js";
+import { writeRawConfig } from "../../config/repo-config.js";
+import { createCommandEmbedder, createEmbedder, ALLOW_COMMAND_ENV } from "../embedder.js";
+import { backfillEmbeddings, scheduleEmbeddingBackfill, hybridSearchInsights } from "../search.js";
+
+describe("semantic search", () => {
+  let testDir: string;
+  let database: LoopFlowDatabase;
+
+  const insight = (id: string, content: string) => database.insights.insert({
+    id,
+    content,
+    summary: null,
+    type: "technical",
+    status: "unprocessed",
+    tags: null,
+    links: null,
+    source: null,
+    notes: null,
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    fs.mkdirSync(path.join(testDir, ".loop-flow"));
+    database = initializeDatabase(testDir);
+    insight("INS-001", "Token refresh race: two tabs refresh the access token at once and the second request fails with 401");
+    insight("INS-002", "The CLI prints tables with padded columns");
+    insight("INS-003", "Auth middleware reads the bearer header");
+  });
+
+  afterEach(() => {
+    database.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("backfills missing and outdated embeddings in batches", async () => {
+    const model = database.embedder!.model;
+    expect(await backfillEmbeddings(database, 2)).toBe(2);
+    expect(await backfillEmbeddings(database, 2)).toBe(1);
+    expect(await backfillEmbeddings(database)).toBe(0);
+    expect(database.embeddings.count(model)).toBe(3);
+
+    // An embedding older than the insight's last update is redone
+    database.db.prepare("UPDATE insight_embeddings SET embedded_at = '2000-01-01' WHERE insight_id = 'INS-002'").run();
+    expect(database.embeddings.findStale(model, 10).map(i => i.id)).toEqual(["INS-002"]);
+    expect(await backfillEmbeddings(database)).toBe(1);
+  });
+
+  it("deletes an insight's embedding with the insight", async () => {
+    await backfillEmbeddings(database);
+    deleteInsight(database, "INS-002");
+    expect(database.embeddings.find("INS-002")).toBeUndefined();
+    expect(database.embeddings.count(database.embedder!.model)).toBe(2);
+  });
+
+  it("finds insights by meaning as well as keywords", async () => {
+    await backfillEmbeddings(database);
+    const hits = await hybridSearchInsights(database, "why did auth break", {}, 10);
+
+    expect(hits.map(h => h.id)).toEqual(["INS-003", "INS-001"]);
+    expect(hits[0].rank).not.toBeNull();
+    expect(hits[1]).toMatchObject({ rank: null, similarity: expect.any(Number) });
+    expect(hits[1].match).toBeGreaterThan(0);
+  });
+
+  it("applies filters to semantic matches", async () => {
+    await backfillEmbeddings(database);
+    expect(await hybridSearchInsights(database, "why did auth break", { types: ["domain"] }, 10)).toEqual([]);
+  });
+
+  it("falls back to keywords when embeddings are off", async () => {
+    database.close();
+    writeRawConfig(testDir, { embeddings: { enabled: false } });
+    database = initializeDatabase(testDir);
+
+    expect(database.embedder).toBeNull();
+    expect(await backfillEmbeddings(database)).toBe(0);
+    expect((await hybridSearchInsights(database, "why did auth break", {}, 10)).map(h => h.id)).toEqual(["INS-003"]);
+  });
+
+  it("backfills in the background", async () => {
+    scheduleEmbeddingBackfill(database);
+    expect(database.embeddings.count(database.embedder!.model)).toBe(0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(database.embeddings.count(database.embedder!.model)).toBe(3);
+  });
+
+  it("runs a command embedder and re-embeds when the model changes", async () => {
+    await backfillEmbeddings(database);
+    const script = path.join(testDir, "embed.cjs");
+    fs.writeFileSync(script, `
+      const { texts } = JSON.parse(require("fs").readFileSync(0, "utf-8"));
+      console.log(JSON.stringify({ vectors: texts.map(t => [t.length, 1]) }));
+    `);
+    const embedder = createCommandEmbedder([process.execPath, script], testDir);
+    expect(await embedder.embed(["abc", "de"])).toEqual([[3, 1], [2, 1]]);
+
+    database.embedder = embedder;
+    expect(await backfillEmbeddings(database)).toBe(3);
+    expect(database.embeddings.find("INS-002")).toMatchObject({ model: embedder.model, dimensions: 2 });
+
+    const broken = createCommandEmbedder([process.execPath, "-e", "console.log('nope')"], testDir);
+    await expect(broken.embed(["x"])).rejects.toThrow(/invalid JSON/);
+  });
+
+  it("only runs the repo's embedding command once the user allows it", () => {
+    const config = { enabled: true, provider: "command" as const, command: ["python", "embed.py"], min_similarity: 0.15 };
+    const allowed = process.env[ALLOW_COMMAND_ENV];
+    try {
+      delete process.env[ALLOW_COMMAND_ENV];
+      expect(createEmbedder(config, testDir)!.model).toMatch(/^hashing-/);
+      process.env[ALLOW_COMMAND_ENV] = "1";
+      expect(createEmbedder(config, testDir)!.model).toBe("command:python embed.py");
+    } finally {
+      if (allowed === undefined) delete process.env[ALLOW_COMMAND_ENV];
+      else process.env[ALLOW_COMMAND_ENV] = allowed;
+    }
+  });
+});
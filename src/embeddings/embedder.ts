@@ -0,0 +1,85 @@
+/**
+ * Embedders
+ *
+ * Turn insight text into vectors for semantic search. Chosen per repo under
+ * embeddings in .loop-flow/config.json:
+ * - hashing (default): the built-in hashing vectorizer from rules/embeddings.ts.
+ *   Deterministic, CPU-only, no network or model download.
+ * - command: any local model behind a program. It gets {"texts": [...]} as
+ *   JSON on stdin and prints {"vectors": [[...], ...]} (one per text).
+ *   config.json comes with the repo, so the program only runs once the user
+ *   opts in with LOOPFLOW_ALLOW_EMBEDDING_COMMAND=1; until then the hashing
+ *   embedder stands in.
+ */
+
+import { execFile } from "child_process";
+import { hashingEmbedding, HASHING_DIMENSIONS } from "../rules/embeddings.js";
+import type { RepoConfig } from "../config/repo-config.js";
+
+const COMMAND_TIMEOUT_MS = 60_000;
+
+export const ALLOW_COMMAND_ENV = "LOOPFLOW_ALLOW_EMBEDDING_COMMAND";
+
+export interface Embedder {
+  model: string;                                 // Stored with each vector; changing it re-embeds everything
+  embed(texts: string[]): Promise<number[][]>;   // One vector per text
+}
+
+export function createHashingEmbedder(dimensions = HASHING_DIMENSIONS): Embedder {
+  return {
+    model: `hashing-${dimensions}`,
+    embed: async texts => texts.map(text => hashingEmbedding(text, dimensions)),
+  };
+}
+
+/**
+ * Embedder backed by a program (no shell), run in the repo root
+ */
+export function createCommandEmbedder(command: string[], cwd: string): Embedder {
+  const [file, ...args] = command;
+  const name = command.join(" ");
+  return {
+    model: `command:${name}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+      const output = await new Promise<string>((resolve, reject) => {
+        const child = execFile(file, args, {
+          cwd,
+          encoding: "utf-8",
+          timeout: COMMAND_TIMEOUT_MS,
+          maxBuffer: 64 * 1024 * 1024,
+        }, (error, stdout) => error ? reject(error) : resolve(stdout));
+        // A program that exits without reading stdin is reported by the callback
+        child.stdin?.on("error", () => {});
+        child.stdin?.end(JSON.stringify({ texts }));
+      });
+
+      let vectors: unknown;
+      try {
+        vectors = (JSON.parse(output) as { vectors?: unknown }).vectors;
+      } catch {
+        throw new Error(`Embedding command printed invalid JSON: ${name}`);
+      }
+      if (!Array.isArray(vectors) || vectors.length !== texts.length
+        || !vectors.every(v => Array.isArray(v) && v.every(n => typeof n === "number"))) {
+        throw new Error(`Embedding command must print {"vectors": [...]} with one vector per text: ${name}`);
+      }
+      return vectors as number[][];
+    },
+  };
+}
+
+/**
+ * The repo's embedder, or null when semantic search is turned off
+ */
+export function createEmbedder(config: RepoConfig["embeddings"], repoPath: string): Embedder | null {
+  if (!config.enabled) return null;
+  if (config.provider !== "command") return createHashingEmbedder();
+  if (process.env[ALLOW_COMMAND_ENV] !== "1") {
+    console.error(
+      `[LoopFlow] Not running embeddings.command from ${repoPath} (set ${ALLOW_COMMAND_ENV}=1 to allow it); using the hashing embedder`
+    );
+    return createHashingEmbedder();
+  }
+  return createCommandEmbedder(config.command!, repoPath);
+}
@@ -0,0 +1,139 @@
+/**
+ * Semantic Search
+ *
+ * Keeps insight embeddings current and blends them with FTS5 keyword search.
+ * The backfill embeds insights without a current vector in small batches on
+ * timers, so a large backlog never stalls a tool call. Search uses whatever
+ * is embedded so far; the rest is still found by keywords.
+ */
+
+import type { LoopFlowDatabase } from "../db/database.js";
+import type { InsightFilters, InsightRecord } from "../db/repositories/insights.js";
+import { embeddingText, similarities, topMatches } from "../rules/embeddings.js";
+import { normalizeBm25, hybridTextScore } from "../rules/scoring.js";
+
+const BACKFILL_BATCH_SIZE = 50;
+
+/**
+ * A hybrid search hit. rank is null for insights found only by meaning,
+ * similarity is null for insights not embedded yet.
+ */
+export type HybridInsightHit = InsightRecord & {
+  rank: number | null;
+  similarity: number | null;
+  match: number;          // Blended query match (0-1), what hits are sorted by
+};
+
+// =============================================================================
+// Backfill
+// =============================================================================
+
+/**
+ * Embed up to `limit` insights that have no current vector. Returns how many were embedded.
+ */
+export async function backfillEmbeddings(database: LoopFlowDatabase, limit = BACKFILL_BATCH_SIZE): Promise<number> {
+  const embedder = database.embedder;
+  if (!embedder) return 0;
+
+  const stale = database.embeddings.findStale(embedder.model, limit);
+  if (stale.length === 0) return 0;
+
+  const vectors = await embedder.embed(stale.map(embeddingText));
+  // The session may have ended (database closed) while the embedder ran,
+  // and insights deleted meanwhile have nothing to attach a vector to
+  if (!database.db.open) return 0;
+  database.db.transaction(() => {
+    const remaining = new Set(database.insights.findByIds(stale.map(i => i.id)).map(i => i.id));
+    stale.forEach((insight, i) => {
+      if (remaining.has(insight.id)) database.embeddings.set(insight.id, embedder.model, vectors[i]);
+    });
+  })();
+  return stale.length;
+}
+
+// Databases with a backfill under way, so calling again doesn't start a second one
+const backfilling = new WeakSet<LoopFlowDatabase>();
+
+/**
+ * Backfill in the background, one batch per timer tick, until every insight
+ * has a current vector. Cheap to call after every capture.
+ */
+export function scheduleEmbeddingBackfill(database: LoopFlowDatabase): void {
+  if (!database.embedder || backfilling.has(database)) return;
+  backfilling.add(database);
+
+  const step = async () => {
+    let embedded = 0;
+    try {
+      // The session may have ended (database closed) between batches
+      if (database.db.open) embedded = await backfillEmbeddings(database);
+    } catch (error) {
+      console.error(`[LoopFlow] Embedding backfill stopped: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (embedded === BACKFILL_BATCH_SIZE) {
+      setTimeout(step, 0).unref();
+    } else {
+      backfilling.delete(database);
+    }
+  };
+  setTimeout(step, 0).unref();
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/**
+ * Similarity of every embedded insight to the query, or null when semantic
+ * search is off, nothing is embedded yet, or the embedder fails
+ */
+export async function semanticSimilarities(database: LoopFlowDatabase, query: string): Promise<Map<string, number> | null> {
+  const embedder = database.embedder;
+  if (!embedder || !query.trim()) return null;
+
+  const vectors = database.embeddings.findVectors(embedder.model);
+  if (vectors.size === 0) return null;
+  try {
+    const [queryVector] = await embedder.embed([query]);
+    return similarities(queryVector, vectors);
+  } catch (error) {
+    console.error(`[LoopFlow] Semantic search unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Keyword (bm25) and semantic (cosine) candidates, merged and sorted by their
+ * blended match. Each side contributes up to `limit` candidates.
+ */
+export async function hybridSearchInsights(
+  database: LoopFlowDatabase,
+  query: string,
+  filters: InsightFilters = {},
+  limit: number
+): Promise<HybridInsightHit[]> {
+  const keywordHits = database.insights.search(query, filters, { limit });
+  const scores = await semanticSimilarities(database, query);
+
+  const keywordIds = new Set(keywordHits.map(i => i.id));
+  const semanticIds = scores
+    ? topMatches(scores, { limit, minSimilarity: database.config.embeddings.min_similarity })
+      .map(m => m.id)
+      .filter(id => !keywordIds.has(id))
+    : [];
+  const semanticHits = database.insights.findByIds(semanticIds).filter(i =>
+    (!filters.types?.length || filters.types.includes(i.type))
+    && (!filters.statuses?.length || filters.statuses.includes(i.status))
+    && !filters.excludeStatuses?.includes(i.status)
+  );
+
+  const bestRank = keywordHits.length ? Math.min(...keywordHits.map(i => i.rank)) : 0;
+  const hits: HybridInsightHit[] = [
+    ...keywordHits.map(i => ({ ...i, similarity: scores?.get(i.id) ?? null })),
+    ...semanticHits.map(i => ({ ...i, rank: null, similarity: scores?.get(i.id) ?? null })),
+  ].map(hit => ({
+    ...hit,
+    match: Math.round(hybridTextScore(hit.rank === null ? 0 : normalizeBm25(hit.rank, bestRank), hit.similarity) * 1000) / 1000,
+  }));
+  return hits.sort((a, b) => b.match - a.match);
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for the git adapter (runs git against a temp repo)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { getHead, getBranch, getCommits, getHooksDir, getUntrackedFiles, getChangedFilesSince } from "../adapter.js";
+
+describe("git adapter", () => {
+  let testDir: string;
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: testDir, stdio: "ignore" });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    fs.writeFileSync(path.join(testDir, "a.txt"), "a");
+    git("add", ".");
+    git("commit", "-qm", "initial");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("lists committed, modified and new files since a commit", () => {
+    const start = getHead(testDir);
+    fs.writeFileSync(path.join(testDir, "old-untracked.txt"), "x");
+    const untrackedAtStart = getUntrackedFiles(testDir);
+
+    fs.writeFileSync(path.join(testDir, "b.txt"), "b");
+    git("add", "b.txt");
+    git("commit", "-qm", "add b");
+    fs.writeFileSync(path.join(testDir, "a.txt"), "changed");
+    fs.writeFileSync(path.join(testDir, "c.txt"), "c");
+
+    expect(getChangedFilesSince(testDir, start, untrackedAtStart)).toEqual(["a.txt", "b.txt", "c.txt"]);
+  });
+
+  it("reads the branch and the commits in a range", () => {
+    const start = getHead(testDir);
+    git("checkout", "-qb", "lf-042-sync");
+    fs.writeFileSync(path.join(testDir, "b.txt"), "b");
+    git("add", "b.txt");
+    git("commit", "-qm", "LF-042: add b", "-m", "Body mentions LF-043");
+    git("commit", "-q", "--allow-empty", "-m", "unrelated");
+
+    expect(getBranch(testDir)).toBe("lf-042-sync");
+    const commits = getCommits(testDir, { from: start });
+    expect(commits?.map(c => c.subject)).toEqual(["unrelated", "LF-042: add b"]);
+    expect(commits?.[1]).toMatchObject({ author: "Test", body: "Body mentions LF-043" });
+    expect(getCommits(testDir, { all: true, grep: "lf-042" })?.map(c => c.subject)).toEqual(["LF-042: add b"]);
+
+    git("checkout", "-q", "--detach");
+    expect(getBranch(testDir)).toBeNull();
+  });
+
+  it("finds the hooks directory from core.hooksPath", () => {
+    // Ignore core.hooksPath passed in through the environment (GIT_CONFIG_KEY_n)
+    vi.stubEnv("GIT_CONFIG_COUNT", "0");
+    expect(getHooksDir(testDir)).toBe(path.join(fs.realpathSync(testDir), ".git", "hooks"));
+    git("config", "core.hooksPath", ".githooks");
+    expect(getHooksDir(testDir)).toBe(path.join(testDir, ".githooks"));
+    git("config", "core.hooksPath", "/opt/hooks");
+    expect(getHooksDir(testDir)).toBe("/opt/hooks");
+  });
+
+  it("returns null outside a git repo", () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), "loopflow-test-"));
+    try {
+      expect(getHead(plain)).toBeNull();
+      expect(getChangedFilesSince(plain, null)).toBeNull();
+      expect(getBranch(plain)).toBeNull();
+      expect(getCommits(plain)).toBeNull();
+      expect(getHooksDir(plain)).toBeNull();
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Git Adapter
+ *
+ * Thin wrapper over the git CLI for session tracking. Every function returns
+ * null (or an empty list) instead of throwing when the repo isn't a git
+ * checkout or git isn't installed - git data is always optional.
+ */
+
+import { execFileSync } from "child_process";
+import * as path from "path";
+
+const GIT_TIMEOUT_MS = 5000;
+
+// Field and record separators for `git log --format`, which can't occur in commit text
+const FIELD_SEP = "\x1f";
+const RECORD_SEP = "\x1e";
+
+export interface GitCommit {
+  sha: string;
+  subject: string;
+  body: string;
+  author: string;
+  date: string;         // ISO author date
+}
+
+export interface CommitQuery {
+  from?: string | null;   // Exclusive start (from..to); omit for all history
+  to?: string;            // Default: HEAD
+  all?: boolean;          // Every branch instead of `to`
+  grep?: string;          // Only commits whose message contains this (case-insensitive)
+  limit?: number;
+}
+
+/**
+ * Run a git command in repoPath, returning trimmed stdout or null on failure
+ */
+function git(repoPath: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd: repoPath,
+      encoding: "utf-8",
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+function lines(output: string | null): string[] {
+  return output ? output.split("\n").map(l => l.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Current HEAD commit SHA (null outside git or before the first commit)
+ */
+export function getHead(repoPath: string): string | null {
+  return git(repoPath, ["rev-parse", "HEAD"]);
+}
+
+/**
+ * Current branch name (null outside git or on a detached HEAD)
+ */
+export function getBranch(repoPath: string): string | null {
+  const branch = git(repoPath, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  return branch && branch !== "HEAD" ? branch : null;
+}
+
+/**
+ * Commits, newest first. Null when git is unavailable or the range is unknown.
+ */
+export function getCommits(repoPath: string, query: CommitQuery = {}): GitCommit[] | null {
+  const args = ["log", `--format=%H${FIELD_SEP}%an${FIELD_SEP}%aI${FIELD_SEP}%s${FIELD_SEP}%b${RECORD_SEP}`];
+  if (query.limit) args.push(`--max-count=${query.limit}`);
+  if (query.grep) args.push("-i", "-F", `--grep=${query.grep}`);
+  if (query.all) {
+    args.push("--all");
+  } else {
+    const to = query.to ?? "HEAD";
+    args.push(query.from ? `${query.from}..${to}` : to);
+  }
+
+  const output = git(repoPath, args);
+  if (output === null) return null;
+  return output
+    .split(RECORD_SEP)
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [sha, author, date, subject, body] = record.split(FIELD_SEP);
+      return { sha, author, date, subject, body: (body ?? "").trim() };
+    });
+}
+
+/**
+ * Absolute path of the hooks directory (honours core.hooksPath and worktrees).
+ * Null outside git.
+ */
+export function getHooksDir(repoPath: string): string | null {
+  // Relative to repoPath unless core.hooksPath is absolute
+  const hooks = git(repoPath, ["rev-parse", "--git-path", "hooks"]);
+  return hooks ? path.resolve(repoPath, hooks) : null;
+}
+
+/**
+ * Untracked files, respecting .gitignore
+ */
+export function getUntrackedFiles(repoPath: string): string[] {
+  return lines(git(repoPath, ["ls-files", "--others", "--exclude-standard"]));
+}
+
+/**
+ * Files changed since a commit: committed and uncommitted changes to tracked
+ * files, plus untracked files not in `ignoreUntracked` (those that already
+ * existed when tracking started). Null when git is unavailable.
+ */
+export function getChangedFilesSince(
+  repoPath: string,
+  since: string | null,
+  ignoreUntracked: string[] = []
+): string[] | null {
+  const diff = git(repoPath, ["diff", "--name-only", since ?? "HEAD"]);
+  if (diff === null) return null;
+
+  const ignored = new Set(ignoreUntracked);
+  const untracked = getUntrackedFiles(repoPath).filter(f => !ignored.has(f));
+  return [...new Set([...lines(diff), ...untracked])].sort();
+}
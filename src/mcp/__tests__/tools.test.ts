@@ -8,15 +8,18 @@
  * Pattern: Self-debugging tests that verify expectations at each step.
  * Catches issues like "code path not exercised" or "state not persisted".
  * 
- * Note: These tests import the tool handlers and call them directly,
- * bypassing MCP transport layer but testing the actual business logic.
+ * Note: Most of these tests exercise the repositories behind the tools.
+ * "MCP tool handlers" calls the real tools through an in-memory transport.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { initializeDatabase, type LoopFlowDatabase } from "../../db/database.js";
+import { server } from "../server.js";
 
 /**
  * Helper to create a minimal LoopFlow repo structure for testing
@@ -278,6 +281,7 @@ describe("MCP Tools Integration", () => {
           ]),
           test_file: null,
           notes: "Created from test",
+          parent_id: null,
         });
 
         expect(task.id).toBe("LF-105");
@@ -302,6 +306,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
 
         // Check if exists before inserting (what the tool does)
@@ -323,6 +328,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
 
         const updated = database.tasks.update("LF-106", { status: "IN_PROGRESS" });
@@ -346,6 +352,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
 
         database.tasks.update("LF-107", {
@@ -375,6 +382,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
 
         database.tasks.insert({
@@ -388,6 +396,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
 
         database.tasks.insert({
@@ -401,6 +410,7 @@ describe("MCP Tools Integration", () => {
           acceptance_criteria: null,
           test_file: null,
           notes: null,
+          parent_id: null,
         });
       });
 
@@ -530,6 +540,7 @@ describe("MCP Tools Integration", () => {
         acceptance_criteria: null,
         test_file: null,
         notes: null,
+        parent_id: null,
       });
 
       database.tasks.update("LF-TEST", { status: "IN_PROGRESS" });
@@ -639,3 +650,211 @@ describe("MCP Tools Integration", () => {
     });
   });
 });
+
+describe("MCP tool handlers", () => {
+  const client = new Client({ name: "loopflow-test", version: "0.0.0" });
+  let testRepoPath: string;
+
+  // Call a tool over the in-memory transport and parse its JSON reply
+  async function call(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: { repo_path: testRepoPath, ...args } });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    return result.isError ? { isError: true, text } : JSON.parse(text);
+  }
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  beforeEach(async () => {
+    testRepoPath = createTestRepo();
+    await call("loop_orient", { detail: "minimal" });
+    await call("loop_remember", { content: "SQLite WAL mode lets the UI read while the MCP server writes" });
+    await call("loop_remember", { content: "Session IDs are reserved at orient so parallel agents never collide" });
+    await call("loop_task_create", { id: "LF-001", title: "[IMPL] Sync tasks", acceptance_criteria: ["Pulls", "Pushes"] });
+  });
+
+  afterEach(async () => {
+    await call("loop_handoff", { mode: "emergency" });
+    cleanupTestRepo(testRepoPath);
+  });
+
+  it("refuses every new tool before loop_orient", async () => {
+    const other = createTestRepo();
+    try {
+      for (const [name, args] of [
+        ["loop_link", { from_id: "INS-001", to_id: "INS-002", relation: "builds_on" }],
+        ["loop_history", {}],
+        ["loop_task_verify", { id: "LF-001", criteria: [{ index: 1 }] }],
+        ["loop_dedupe", {}],
+        ["loop_insight_merge", { into: "INS-001", ids: ["INS-002"] }],
+        ["loop_review", {}],
+      ] as const) {
+        expect(await call(name, { ...args, repo_path: other })).toEqual({
+          error: "No active session. Call loop_orient first.",
+        });
+      }
+    } finally {
+      cleanupTestRepo(other);
+    }
+  });
+
+  describe("loop_link", () => {
+    it("links two insights and removes the link", async () => {
+      const linked = await call("loop_link", { from_id: "INS-002", to_id: "INS-001", relation: "builds_on", note: "Both about concurrency" });
+      expect(linked).toMatchObject({ linked: true, message: "Linked: INS-002 builds_on INS-001" });
+
+      const removed = await call("loop_link", { from_id: "INS-002", to_id: "INS-001", relation: "builds_on", remove: true });
+      expect(removed).toEqual({ removed: true, message: "Removed: INS-002 builds_on INS-001" });
+    });
+
+    it("refuses self-links, unknown insights and unknown relations", async () => {
+      expect(await call("loop_link", { from_id: "INS-001", to_id: "INS-001", relation: "relates_to" }))
+        .toEqual({ error: "Insight INS-001 cannot link to itself" });
+      expect(await call("loop_link", { from_id: "INS-001", to_id: "INS-099", relation: "relates_to" }))
+        .toEqual({ error: "Insights not found", not_found: ["INS-099"] });
+      expect(await call("loop_link", { from_id: "INS-001", to_id: "INS-002", relation: "likes" }))
+        .toMatchObject({ isError: true, text: expect.stringContaining("relation") });
+    });
+  });
+
+  describe("loop_history", () => {
+    it("lists an entity's changes with their session", async () => {
+      await call("loop_task_update", { id: "LF-001", status: "IN_PROGRESS" });
+
+      const history = await call("loop_history", { id: "LF-001" });
+      expect(history.events.map((e: { action: string }) => e.action)).toEqual(["update", "create"]);
+      expect(history.events[0]).toMatchObject({ origin: "mcp", changes: { status: { from: "TODO", to: "IN_PROGRESS" } } });
+      expect(history.total).toBe(2);
+    });
+
+    it("filters by session ID instead of routing by it", async () => {
+      const history = await call("loop_history", { session_id: "1999-01-01-S1" });
+      expect(history).toMatchObject({ events: [], total: 0 });
+    });
+
+    it("refuses unknown origins", async () => {
+      expect(await call("loop_history", { origin: "email" }))
+        .toMatchObject({ isError: true, text: expect.stringContaining("origin") });
+    });
+  });
+
+  describe("loop_task_verify", () => {
+    it("ticks criteria by index or text", async () => {
+      const result = await call("loop_task_verify", {
+        id: "LF-001",
+        criteria: [{ index: 1, evidence: "sync.test.ts" }, { text: "Pushes" }],
+      });
+      expect(result).toMatchObject({
+        verified: true,
+        all_met: true,
+        criteria_progress: { total: 2, met: 2 },
+        message: "2/2 criteria met for LF-001",
+      });
+      expect(result.criteria[0]).toMatchObject({ text: "Pulls", met: true, evidence: "sync.test.ts" });
+    });
+
+    it("refuses unknown tasks and unmatched criteria", async () => {
+      expect(await call("loop_task_verify", { id: "LF-099", criteria: [{ index: 1 }] }))
+        .toEqual({ error: "Task LF-099 not found" });
+
+      const unmatched = await call("loop_task_verify", { id: "LF-001", criteria: [{ index: 3 }] });
+      expect(unmatched).toMatchObject({
+        error: "Some criteria don't match the task's criteria",
+        unmatched: [{ index: 3 }],
+        criteria: [{ index: 1, text: "Pulls", met: false }, { index: 2, text: "Pushes", met: false }],
+      });
+    });
+
+    it("refuses an empty criteria list", async () => {
+      expect(await call("loop_task_verify", { id: "LF-001", criteria: [] }))
+        .toMatchObject({ isError: true, text: expect.stringContaining("criteria") });
+    });
+  });
+
+  describe("loop_dedupe", () => {
+    it("proposes the oldest insight as the merge target", async () => {
+      await call("loop_remember", { content: "SQLite WAL mode lets the UI read while the MCP server is writing" });
+
+      const result = await call("loop_dedupe", {});
+      expect(result.clusters).toEqual([
+        expect.objectContaining({ into: "INS-001", ids: ["INS-003"] }),
+      ]);
+      expect(result.total_clusters).toBe(1);
+    });
+
+    it("reports no duplicates among distinct insights", async () => {
+      expect(await call("loop_dedupe", {})).toMatchObject({ clusters: [], total_clusters: 0, hint: "No duplicates found" });
+    });
+
+    it("refuses thresholds outside 0-1", async () => {
+      expect(await call("loop_dedupe", { threshold: 2 }))
+        .toMatchObject({ isError: true, text: expect.stringContaining("threshold") });
+    });
+  });
+
+  describe("loop_insight_merge", () => {
+    it("merges insights into the target", async () => {
+      await call("loop_link", { from_id: "INS-002", to_id: "INS-001", relation: "relates_to" });
+      await call("loop_remember", { content: "Reads during writes are safe thanks to WAL" });
+      await call("loop_link", { from_id: "INS-003", to_id: "INS-002", relation: "builds_on" });
+
+      const result = await call("loop_insight_merge", { into: "INS-001", ids: ["INS-003"] });
+      expect(result).toMatchObject({
+        merged: true,
+        into: { id: "INS-001" },
+        merged_ids: ["INS-003"],
+        message: "Merged INS-003 into INS-001",
+      });
+      expect(result.links_rewritten).toBeGreaterThan(0);
+    });
+
+    it("refuses unknown insights and merging the target into itself", async () => {
+      expect(await call("loop_insight_merge", { into: "INS-001", ids: ["INS-099"] }))
+        .toEqual({ error: "Insights not found: INS-099" });
+      expect(await call("loop_insight_merge", { into: "INS-001", ids: ["INS-001"] }))
+        .toEqual({ error: "Nothing to merge: give at least one insight besides the target" });
+    });
+  });
+
+  describe("loop_review", () => {
+    it("applies decisions and pages through the unprocessed insights", async () => {
+      const first = await call("loop_review", { batch_size: 1 });
+      expect(first.batch.map((i: { id: string }) => i.id)).toEqual(["INS-001"]);
+      expect(first).toMatchObject({ remaining: 1, next: { after: "INS-001" } });
+
+      const second = await call("loop_review", {
+        decisions: [{ id: "INS-001", status: "validated", notes: "Confirmed in the UI" }],
+        after: "INS-001",
+        batch_size: 1,
+      });
+      expect(second.applied).toEqual([{ id: "INS-001", status: "validated" }]);
+      expect(second.batch.map((i: { id: string }) => i.id)).toEqual(["INS-002"]);
+      expect(second.remaining).toBe(0);
+    });
+
+    it("reports bad decisions without blocking the rest", async () => {
+      const result = await call("loop_review", {
+        decisions: [
+          { id: "INS-099", status: "validated" },
+          { id: "INS-001", status: "superseded" },
+          { id: "INS-002", status: "archived" },
+        ],
+      });
+      expect(result.applied).toEqual([{ id: "INS-002", status: "archived" }]);
+      expect(result.errors.map((e: { id: string }) => e.id)).toEqual(["INS-099", "INS-001"]);
+      expect(result.errors[0].error).toBe("Insight INS-099 not found");
+    });
+
+    it("refuses statuses that can't be set", async () => {
+      expect(await call("loop_review", { decisions: [{ id: "INS-001", status: "merged" }] }))
+        .toMatchObject({ isError: true, text: expect.stringContaining("status") });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Input Schemas
+ *
+ * Zod field shapes for creating and editing records, shared by the MCP tools
+ * and the REST API so both accept the same fields with the same rules. Tools
+ * spread a shape into their parameters; the API wraps it in z.strictObject.
+ */
+
+import { z } from "zod";
+import { INSIGHT_RELATIONS } from "../db/repositories/insight-links.js";
+import { SETTABLE_INSIGHT_STATUSES } from "../rules/insight-lifecycle.js";
+
+// =============================================================================
+// Tasks
+// =============================================================================
+
+export const TASK_CREATE_FIELDS = {
+  id: z.string().optional().describe("Task ID (e.g., 'LF-104'). Omit to auto-generate (next PREFIX-NNN, or the next dotted ID under parent_id)"),
+  parent_id: z.string().optional().describe("Parent task ID - creates a subtask (e.g., 'LF-042')"),
+  title: z.string().describe("Task title including type prefix (e.g., '[IMPL] Add feature X')"),
+  description: z.string().optional().describe("Detailed description"),
+  priority: z.string().optional().describe("Task priority: high | medium | low unless config.json says otherwise (default: medium)"),
+  status: z.string().optional().describe("Task status (default: TODO)"),
+  reason: z.string().optional().describe("Why the task starts in this status (required for some, e.g. BLOCKED)"),
+  depends_on: z.array(z.string()).optional().describe("IDs of tasks this depends on"),
+  acceptance_criteria: z.array(z.string()).optional().describe("List of acceptance criteria (start unmet; tick them with loop_task_verify)"),
+  test_file: z.string().optional().describe("Test file (repo-relative) that proves the task, e.g. 'src/rules/__tests__/sync.test.ts'. A trailing / covers a directory"),
+  notes: z.string().optional().describe("Additional notes"),
+};
+
+export const TASK_UPDATE_FIELDS = {
+  status: z.string().optional().describe("New status (one of the repo's configured statuses, via an allowed transition)"),
+  reason: z.string().optional().describe("Why the status changed (required for some statuses, e.g. BLOCKED)"),
+  priority: z.string().optional().describe("New priority (one of the repo's configured priorities)"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  notes: z.string().optional(),
+  depends_on: z.array(z.string()).optional(),
+  acceptance_criteria: z.array(z.string()).optional()
+    .describe("Replace the criteria list. Criteria whose text is unchanged keep their met state"),
+  test_file: z.string().optional().describe("Test file (repo-relative) that proves the task; empty string unlinks it"),
+};
+
+export type TaskCreateInput = z.infer<z.ZodObject<typeof TASK_CREATE_FIELDS>>;
+export type TaskUpdateInput = z.infer<z.ZodObject<typeof TASK_UPDATE_FIELDS>>;
+
+// =============================================================================
+// Insights
+// =============================================================================
+
+export const INSIGHT_CREATE_FIELDS = {
+  content: z.string().describe("The insight to capture"),
+  type: z.string().optional()
+    .describe("Type of insight (defaults to technical). Domain=business/problem space, Architecture=design decisions, Edge_case=gotchas, Technical=patterns/tricks. Repos can define their own types in config.json"),
+  tags: z.array(z.string()).optional().describe("Optional tags"),
+};
+
+export type InsightCreateInput = z.infer<z.ZodObject<typeof INSIGHT_CREATE_FIELDS>>;
+
+export const INSIGHT_UPDATE_FIELDS = {
+  status: z.enum(SETTABLE_INSIGHT_STATUSES).optional()
+    .describe("unprocessed | discussed | validated | superseded (needs superseded_by) | archived"),
+  superseded_by: z.string().optional().describe("The insight that replaces this one (sets status superseded)"),
+  tags: z.array(z.string()).optional().describe("Replace tags"),
+  add_tags: z.array(z.string()).optional().describe("Add to existing tags"),
+  links: z.array(z.string()).optional().describe("Replace outgoing links of the given relation (other relations are kept)"),
+  add_links: z.array(z.string()).optional().describe("Add to existing links"),
+  remove_links: z.array(z.string()).optional().describe("Remove outgoing links to these IDs (all relations)"),
+  relation: z.enum(INSIGHT_RELATIONS).optional()
+    .describe("Relation for links/add_links (default: relates_to). Use loop_link to annotate a single link"),
+  notes: z.string().optional(),
+};
+
+export type InsightUpdateInput = z.infer<z.ZodObject<typeof INSIGHT_UPDATE_FIELDS>>;
+
+// =============================================================================
+// Sessions and Repo Context
+// =============================================================================
+
+export const SESSION_OUTCOMES = ["COMPLETE", "PARTIAL", "BLOCKED", "IN_PROGRESS", "INTERRUPTED"] as const;
+
+export const SESSION_FIELDS = {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Session date, YYYY-MM-DD (default: today)"),
+  task_id: z.string().nullable().optional().describe("Task the session worked on"),
+  task_title: z.string().nullable().optional(),
+  outcome: z.enum(SESSION_OUTCOMES).optional(),
+  summary: z.string().optional().describe("What happened in the session"),
+  learnings: z.string().nullable().optional(),
+};
+
+export const REPO_CONTEXT_FIELDS = {
+  repo_summary: z.string().optional().describe("High-level description of the repo (what it is, current state)"),
+  folder_structure: z.string().optional().describe("Annotated folder tree of key directories"),
+  suggested_actions: z.string().optional().describe("Free-form notes for the next session - what to do next, warnings, context"),
+};
+
+// =============================================================================
+// Feedback Specs
+// =============================================================================
+
+export const FEEDBACK_TYPES = ["pain_point", "feature_idea", "bug"] as const;
+export const FEEDBACK_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export const FEEDBACK_STATUSES = ["queued", "shared", "dismissed"] as const;
+
+export const FEEDBACK_CREATE_FIELDS = {
+  type: z.enum(FEEDBACK_TYPES).describe("Type of feedback"),
+  title: z.string().describe("Short title describing the issue"),
+  description: z.string().describe("Detailed description of the issue/idea"),
+  context: z.string().optional().describe("Additional context (will be sanitized)"),
+  severity: z.enum(FEEDBACK_SEVERITIES).optional().describe("Severity (default: medium)"),
+};
+
+export const FEEDBACK_UPDATE_FIELDS = {
+  title: z.string().optional(),
+  description: z.string().optional(),
+  severity: z.enum(FEEDBACK_SEVERITIES).optional(),
+  status: z.enum(FEEDBACK_STATUSES).optional(),
+  github_issue_url: z.string().url().nullable().optional().describe("Issue the feedback was shared as"),
+};
@@ -18,7 +18,13 @@
  * - loop_task_create: Create new tasks
  * - loop_task_update: Update task status, priority, etc.
  * - loop_task_list: List tasks with filters
+ * - loop_test_report: Record a test report against tasks' test files
  * - loop_insight_update: Update insight status, tags, links
+ * - loop_link: Create/remove typed relations between insights
+ * - loop_review: Review queue of unprocessed insights, in batches
+ * - loop_dedupe: Propose clusters of duplicate insights to merge
+ * - loop_insight_merge: Merge duplicate insights into one
+ * - loop_history: Audit log of changes to tasks, insights, sessions, repo context
  * - loop_feedback_list: List queued feedback specs
  * 
  * Architecture: SQLite is source of truth. JSON files are import/export format.
@@ -29,14 +35,81 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
-import { initializeDatabase, importFromJson, importProgress, type LoopFlowDatabase } from "../db/database.js";
-import { summarizeInsight } from "../rules/summarization.js";
+import {
+  initializeDatabase,
+  importFromJson,
+  importProgress,
+  importTestReport,
+  createTask,
+  updateTask,
+  createInsight,
+  updateInsight,
+  getTaskIdPrefix,
+  getPrefixRegistry,
+  findPossibleDuplicates,
+  findDuplicateClusters,
+  mergeInsights,
+  repointSuperseded,
+  type LoopFlowDatabase,
+  type TestReportImport,
+} from "../db/database.js";
+import { INSIGHT_RELATIONS, type InsightRelation, type InsightLinkView } from "../db/repositories/insight-links.js";
+import { EVENT_ORIGINS, EVENT_ENTITY_TYPES } from "../db/repositories/events.js";
+import { summarizeInsight, splitTaskTitle } from "../rules/summarization.js";
 import { generateInsightsJson, generateBacklogJson } from "../rules/export.js";
 import { prepareFeedbackContext } from "../rules/sanitization.js";
+import {
+  toDependencyNodes,
+  readyTasks,
+  criticalPath,
+  unmetDependencies,
+} from "../rules/dependencies.js";
+import { scoreItems, type ScorableItem, type ScoringContext } from "../rules/scoring.js";
+import {
+  parseCriteria,
+  serializeCriteria,
+  verifyCriteria,
+  criteriaProgress,
+  type AcceptanceCriterion,
+  type CriteriaProgress,
+} from "../rules/criteria.js";
+import { taskTestStatus, formatTestSummary, type TaskTestStatus } from "../rules/test-report.js";
+import { partitionIds, extractTaskIds } from "../rules/ids.js";
+import { computeProgress, buildTaskTree, type TaskProgress, type TaskTreeNode } from "../rules/subtasks.js";
+import {
+  DETAIL_SHAPES,
+  detailShape,
+  fitToBudget,
+  trimMarkdownToBudget,
+  markdownOutline,
+  type OrientShape,
+} from "../rules/budget.js";
+import type { InsightRecord } from "../db/repositories/insights.js";
+import {
+  INACTIVE_INSIGHT_STATUSES,
+  SETTABLE_INSIGHT_STATUSES,
+  resolveLifecycleChange,
+  reviewBatch,
+} from "../rules/insight-lifecycle.js";
+import type { TaskRecord } from "../db/repositories/tasks.js";
+import { getHead, getBranch, getCommits, getUntrackedFiles, getChangedFilesSince } from "../git/adapter.js";
+import { hybridSearchInsights, scheduleEmbeddingBackfill } from "../embeddings/search.js";
+import { linkCommits, parseLinkedCommits, type LinkedCommit } from "../rules/commits.js";
 import { VERSION } from "../index.js";
-
-// Constants for pagination
-const INSIGHTS_PAGE_SIZE = 50; // Max insights to return in orient before suggesting loop_expand
+import {
+  TASK_CREATE_FIELDS,
+  TASK_UPDATE_FIELDS,
+  INSIGHT_CREATE_FIELDS,
+  INSIGHT_UPDATE_FIELDS,
+  REPO_CONTEXT_FIELDS,
+  FEEDBACK_CREATE_FIELDS,
+  FEEDBACK_STATUSES,
+} from "./schemas.js";
+
+// Constants for pagination (page sizes themselves come from .loop-flow/config.json)
+const OMITTED_IDS_LIMIT = 50;  // Max omitted IDs listed in orient's manifest
+const SESSION_COMMITS_LIMIT = 200;  // Max commits recorded on one session
+const REVIEW_HINT_THRESHOLD = 10;  // Unprocessed insights before orient suggests loop_review
 
 // =============================================================================
 // State Management
@@ -48,11 +121,48 @@ interface SessionState {
   currentTask: string | null;
   momentum: "starting" | "flowing" | "wrapping-up";
   startedAt: string;
-  insightsCaptured: number;
-  database: LoopFlowDatabase;
+  insightIds: string[];       // Captured via loop_remember this session
+  sessionId: string;          // Attributed to every change made in this session
+  startHead: string | null;   // git HEAD at orient (null outside git)
+  startBranch: string | null; // git branch at orient (null outside git or detached)
+  startUntracked: string[];   // Untracked files at orient, excluded from files_changed
+  connection: string;         // Connection that oriented this session
+  agent: string | null;       // Agent name given to loop_orient, if any
+  database: LoopFlowDatabase; // Own connection, so events carry this session's ID
+}
+
+// Open sessions keyed by client and repo root, so one server process can serve
+// several repos and several agents. Kept in orient order: the last entry is the
+// most recently oriented session.
+const sessions = new Map<string, SessionState>();
+
+// The transport's session ID for the connection a call came over (stdio has none)
+type CallContext = { sessionId?: string };
+
+function connectionOf(extra: CallContext): string {
+  return extra.sessionId ?? "stdio";
+}
+
+function sessionKey(connection: string, agent: string | null, repoRoot: string): string {
+  return JSON.stringify([connection, agent, repoRoot]);
+}
+
+// Reservations held by sessions open in this process, which must not expire
+function liveSessionIds(repoRoot: string): string[] {
+  return [...sessions.values()].filter(s => s.repoPath === repoRoot).map(s => s.sessionId);
+}
+
+// Date and number of a session ID ("2026-01-22-S21" -> 2026-01-22, 21)
+function sessionIdParts(id: string): { date: string; number: number } | null {
+  const match = id.match(/^(\d{4}-\d{2}-\d{2})-S(\d+)$/);
+  return match ? { date: match[1], number: parseInt(match[2], 10) } : null;
 }
 
-let currentSession: SessionState | null = null;
+// Optional routing params accepted by every session-scoped tool
+const SESSION_PARAMS = {
+  repo_path: z.string().optional().describe("Repo this call is for (defaults to the most recently oriented repo)"),
+  session_id: z.string().optional().describe("Session token returned by loop_orient (alternative to repo_path)"),
+};
 
 function findLoopFlowRoot(startPath: string): string | null {
   let current = startPath;
@@ -65,19 +175,75 @@ function findLoopFlowRoot(startPath: string): string | null {
   return null;
 }
 
-// Helper to get or create database for a repo
-function getDatabase(repoPath: string): LoopFlowDatabase {
-  if (currentSession?.repoPath === repoPath) {
-    return currentSession.database;
+// Helpers to feed records into the scoring rules
+function insightScorable(
+  insight: InsightRecord & { rank?: number | null; similarity?: number | null },
+  linkCounts: Map<string, number>
+): ScorableItem {
+  const source = insight.source ? JSON.parse(insight.source) as { task?: string } : null;
+  return {
+    id: insight.id,
+    text: `${insight.content} ${insight.tags ? (JSON.parse(insight.tags) as string[]).join(" ") : ""}`,
+    created_at: insight.created_at,
+    type: insight.type,
+    rank: insight.rank,
+    similarity: insight.similarity,
+    link_count: linkCounts.get(insight.id) ?? 0,
+    source_task: source?.task ?? null,
+  };
+}
+
+function taskScorable(task: TaskRecord & { rank?: number }): ScorableItem {
+  return {
+    id: task.id,
+    text: `${task.title} ${task.description || ""}`,
+    created_at: task.created_at,
+    rank: task.rank,
+  };
+}
+
+function activeTaskContext(database: LoopFlowDatabase, taskId: string | null): ScoringContext["activeTask"] {
+  const task = taskId ? database.tasks.findById(taskId) : null;
+  return task ? { id: task.id, text: `${task.title} ${task.description || ""}` } : null;
+}
+
+/**
+ * Rolled-up progress of one parent task
+ */
+function parentProgress(database: LoopFlowDatabase, parentId: string): TaskProgress & { id: string } {
+  const progress = computeProgress(database.tasks.findAll()).get(parentId);
+  return { id: parentId, ...(progress ?? { total: 0, done: 0, percent: 0 }) };
+}
+
+/**
+ * Find the session a tool call is for: by session token, then the connection's
+ * most recently oriented session in the repo path, then its most recent one
+ */
+function resolveSession(extra: CallContext, repoPath?: string, sessionId?: string): SessionState | null {
+  if (sessionId) {
+    return [...sessions.values()].find(s => s.sessionId === sessionId) ?? null;
   }
-  return initializeDatabase(repoPath);
+  const root = repoPath ? findLoopFlowRoot(path.resolve(repoPath)) : null;
+  if (repoPath && !root) return null;
+  const connection = connectionOf(extra);
+  return [...sessions.values()]
+    .filter(s => s.connection === connection && (!root || s.repoPath === root))
+    .at(-1) ?? null;
+}
+
+/**
+ * End a session: close its database and forget it
+ */
+function closeSession(session: SessionState): void {
+  session.database.close();
+  sessions.delete(sessionKey(session.connection, session.agent, session.repoPath));
 }
 
 // =============================================================================
 // MCP Server Setup
 // =============================================================================
 
-const server = new McpServer({
+export const server = new McpServer({
   name: "loopflow",
   version: VERSION,
 });
@@ -89,11 +255,17 @@ const server = new McpServer({
 
 server.tool(
   "loop_orient",
-  "Get full situational awareness at session start: workflow rules, all insights (full content), task suggestions. This is the agent's complete project memory.",
+  "Get full situational awareness at session start: workflow rules, insights ranked by relevance, task suggestions. This is the agent's complete project memory. On small context windows pass budget_tokens and/or detail to get a trimmed view plus a manifest of what was omitted.",
   {
     repo_path: z.string().optional().describe("Path to repo (defaults to cwd)"),
+    budget_tokens: z.number().int().positive().optional()
+      .describe("Approximate token budget for the response. Orient degrades (summaries, fewer insights, trimmed WORKFLOW.md) until it fits"),
+    detail: z.enum(["minimal", "standard", "full"]).optional()
+      .describe("Starting detail level (default: full). minimal = workflow outline + top insight summaries, standard = full workflow + insight summaries"),
+    agent: z.string().optional()
+      .describe("Name of this agent when several share one server: each name gets its own session (default: one session per repo)"),
   },
-  async ({ repo_path }) => {
+  async ({ repo_path, budget_tokens, detail = "full", agent }, extra) => {
     const targetPath = repo_path || process.cwd();
     const repoRoot = findLoopFlowRoot(targetPath);
     
@@ -121,8 +293,11 @@ server.tool(
       };
     }
 
-    // Initialize or get database
-    const database = getDatabase(repoRoot);
+    // Reuse this client's session (and database) in the repo if one is already open
+    const connection = connectionOf(extra);
+    const key = sessionKey(connection, agent ?? null, repoRoot);
+    const existingSession = sessions.get(key);
+    const database = existingSession?.database ?? initializeDatabase(repoRoot, { origin: "mcp" });
 
     // Load WORKFLOW.md - the methodology rules (FULL)
     const workflowPath = path.join(repoRoot, ".loop-flow", "WORKFLOW.md");
@@ -131,130 +306,266 @@ server.tool(
       workflowContent = fs.readFileSync(workflowPath, "utf-8");
     }
 
-    // Get ALL insights (paginated if too many)
-    const totalInsights = database.insights.count();
-    const allInsights = database.insights.findAll({}, { limit: INSIGHTS_PAGE_SIZE });
-    const insightsComplete = totalInsights <= INSIGHTS_PAGE_SIZE;
-
     // Get tasks
     const allTasks = database.tasks.findAll();
     const activeTask = allTasks.find(t => t.status === "IN_PROGRESS");
+
+    // Rank ALL insights by relevance, show the top page
+    // Superseded, archived and merged insights are history, not knowledge to orient on
+    const activeInsights = { excludeStatuses: INACTIVE_INSIGHT_STATUSES };
+    const totalInsights = database.insights.count(activeInsights);
+    const unprocessedInsights = database.insights.count({ statuses: ["unprocessed"] });
+    const linkCounts = database.insightLinks.countByInsight();
+    const rankedInsights = scoreItems(
+      database.insights.findAll(activeInsights),
+      i => insightScorable(i, linkCounts),
+      { activeTask: activeTaskContext(database, activeTask?.id || null) }
+    );
     const todoTasks = allTasks.filter(t => t.status === "TODO");
-    const highPriorityTodos = todoTasks.filter(t => t.priority === "high");
+    // Only suggest work whose dependencies are finished
+    const dependencyNodes = toDependencyNodes(allTasks);
+    const readyIds = new Set(readyTasks(dependencyNodes));
+    const highPriorityTodos = todoTasks.filter(t => t.priority === "high" && readyIds.has(t.id));
+    const blockedTodos = todoTasks.filter(t => !readyIds.has(t.id));
     const recentlyCompleted = allTasks
       .filter(t => t.status === "DONE")
       .slice(0, 5);
 
+    // Latest test run of each open task's test_file
+    const testResults = database.testResults.findAll();
+    const testStatusOf = (task: TaskRecord) => taskTestStatus(task.test_file, testResults.get(task.id) ?? null);
+    const testedTasks = allTasks
+      .filter(t => t.status !== "DONE" && t.status !== "CANCELLED")
+      .map(t => ({ task: t, tests: testStatusOf(t) }))
+      .filter((t): t is { task: TaskRecord; tests: TaskTestStatus } => t.tests !== null);
+    const activeTests = activeTask ? testStatusOf(activeTask) : null;
+
     // Get recent sessions from database
-    const recentSessions = database.sessions.getRecent(5);
+    const recentSessions = database.sessions.getRecent(DETAIL_SHAPES.full.sessionLimit);
 
     // Get repo context (agent's own notes)
     const repoContext = database.repoContext.getFullContext();
 
-    // Start or update session
-    currentSession = {
-      repoPath: repoRoot,
-      repoName: path.basename(repoRoot),
-      currentTask: activeTask?.id || null,
-      momentum: "starting",
-      startedAt: new Date().toISOString(),
-      insightsCaptured: 0,
-      database,
-    };
+    // Start a session (claiming its ID now so concurrent agents don't collide),
+    // or keep the running one when orient is called again
+    const session: SessionState = existingSession
+      ? { ...existingSession, currentTask: activeTask?.id || existingSession.currentTask }
+      : {
+          repoPath: repoRoot,
+          repoName: path.basename(repoRoot),
+          currentTask: activeTask?.id || null,
+          momentum: "starting",
+          startedAt: new Date().toISOString(),
+          insightIds: [],
+          sessionId: database.sessions.reserve(new Date().toISOString().split("T")[0], liveSessionIds(repoRoot)).id,
+          startHead: getHead(repoRoot),
+          startBranch: getBranch(repoRoot),
+          startUntracked: getUntrackedFiles(repoRoot),
+          connection,
+          agent: agent ?? null,
+          database,
+        };
+    // Re-insert so this becomes the most recent session
+    sessions.delete(key);
+    sessions.set(key, session);
+    database.events.setContext({ sessionId: session.sessionId });
+    // Embed insights captured before semantic search (or by another embedder) in the background
+    scheduleEmbeddingBackfill(database);
+
+    const taskIdPrefix = getTaskIdPrefix(database);
+    const summaryChars = database.config.sessions.summary_chars;
+
+    // Where the repo is in git; a branch named after a task (lf-042-sync) points at it
+    const gitBranch = getBranch(repoRoot);
+    const gitHead = getHead(repoRoot);
+    const branchTasks = gitBranch
+      ? extractTaskIds(gitBranch, getPrefixRegistry(database))
+          .map(id => allTasks.find(t => t.id === id))
+          .filter((t): t is TaskRecord => t !== undefined)
+      : [];
+
+    // Build the response for a given disclosure shape (see rules/budget.ts)
+    const buildOrientation = (shape: OrientShape) => {
+      const shownInsights = rankedInsights.slice(0, shape.insightLimit);
+      const omittedInsightIds = rankedInsights.slice(shape.insightLimit).map(r => r.item.id);
+      const insightsComplete = omittedInsightIds.length === 0;
+      const shownSessions = recentSessions.slice(0, shape.sessionLimit);
+
+      let workflow: string | string[] = workflowContent;
+      let omittedWorkflowSections: string[] = [];
+      if (shape.workflow === "sections") {
+        const trimmed = trimMarkdownToBudget(workflowContent, shape.workflowBudget);
+        workflow = trimmed.text;
+        omittedWorkflowSections = trimmed.omitted;
+      } else if (shape.workflow === "outline") {
+        workflow = markdownOutline(workflowContent);
+      }
 
-    const orientation = {
-      repo: {
-        name: path.basename(repoRoot),
-        path: repoRoot,
-      },
-      
-      // Full methodology - how the agent should work
-      workflow: workflowContent,
+      return {
+        repo: {
+          name: path.basename(repoRoot),
+          path: repoRoot,
+          task_id_prefix: taskIdPrefix,
+          git: gitHead ? {
+            branch: gitBranch,
+            head: gitHead,
+            branch_task_ids: branchTasks.map(t => t.id),
+          } : null,
+        },
+
+        // Pass as session_id (or repo_path) when working on several repos from one server
+        session_id: session.sessionId,
       
-      // Agent's own summary of the repo (maintained by agent via loop_update_summary)
-      repo_summary: {
-        description: repoContext.repoSummary,
-        folder_structure: repoContext.folderStructure,
-        updated_at: repoContext.lastUpdated,
-        updated_by_session: repoContext.lastUpdatedBySession,
-      },
+        // Methodology - how the agent should work (full, section-trimmed, or headings only)
+        workflow,
       
-      // Agent's notes for this session (set by previous session's handoff)
-      suggested_actions: repoContext.suggestedActions,
+        // Agent's own summary of the repo (maintained by agent via loop_update_summary)
+        repo_summary: {
+          description: repoContext.repoSummary,
+          folder_structure: repoContext.folderStructure,
+          updated_at: repoContext.lastUpdated,
+          updated_by_session: repoContext.lastUpdatedBySession,
+        },
       
-      // Recent sessions (structured from progress.txt)
-      recent_sessions: recentSessions.map(s => ({
-        id: s.id,
-        date: s.date,
-        task: s.task_id ? `${s.task_id} ${s.task_type || ""} ${s.task_title || ""}`.trim() : null,
-        outcome: s.outcome,
-        summary: s.summary.substring(0, 300) + (s.summary.length > 300 ? "..." : ""),
-      })),
+        // Agent's notes for this session (set by previous session's handoff)
+        suggested_actions: repoContext.suggestedActions,
       
-      // Full insights (or paginated subset)
-      insights: {
-        items: allInsights.map(i => ({
-          id: i.id,
-          content: i.content,  // FULL content
-          type: i.type,
-          status: i.status,
-          tags: i.tags ? JSON.parse(i.tags) : [],
-          links: i.links ? JSON.parse(i.links) : [],
-          notes: i.notes,
-          created_at: i.created_at,
+        // Recent sessions (structured from progress.txt)
+        recent_sessions: shownSessions.map(s => ({
+          id: s.id,
+          date: s.date,
+          task: s.task_id ? `${s.task_id} ${s.task_type || ""} ${s.task_title || ""}`.trim() : null,
+          outcome: s.outcome,
+          summary: s.summary.substring(0, summaryChars) + (s.summary.length > summaryChars ? "..." : ""),
+          learnings: s.learnings,
+          insights_added: s.insights_added ? JSON.parse(s.insights_added) : [],
+          files_changed: s.files_changed ? JSON.parse(s.files_changed) : [],
+          git_branch: s.git_branch,
+          commits: parseLinkedCommits(s.commits).map(c => `${c.sha.slice(0, 7)} ${c.subject}`),
         })),
-        total_count: totalInsights,
-        is_complete: insightsComplete,
-        message: insightsComplete 
-          ? null 
-          : `Showing ${INSIGHTS_PAGE_SIZE} of ${totalInsights} insights. Use loop_scan to search or loop_expand to get specific insights.`,
-      },
       
-      // Backlog summary
-      backlog: {
-        in_progress: activeTask ? [{
-          id: activeTask.id,
-          title: activeTask.title,
-          description: activeTask.description,
-          status: activeTask.status,
-        }] : [],
-        high_priority_pending: highPriorityTodos.slice(0, 5).map(t => ({
-          id: t.id,
-          title: t.title,
-          priority: t.priority,
-          depends_on: t.depends_on ? JSON.parse(t.depends_on) : [],
-        })),
-        recently_completed: recentlyCompleted.map(t => ({
-          id: t.id,
-          title: t.title,
-        })),
-        total_count: allTasks.length,
-        stats: {
-          todo: todoTasks.length,
-          in_progress: allTasks.filter(t => t.status === "IN_PROGRESS").length,
-          done: allTasks.filter(t => t.status === "DONE").length,
+        // Most relevant insights (full content or summaries, depending on shape)
+        insights: {
+          items: shownInsights.map(({ item: i, score, reasons }) => ({
+            id: i.id,
+            ...(shape.insightContent === "full"
+              ? { content: i.content }
+              : { summary: i.summary || summarizeInsight(i.content) }),
+            type: i.type,
+            status: i.status,
+            tags: i.tags ? JSON.parse(i.tags) : [],
+            links: i.links ? JSON.parse(i.links) : [],
+            notes: i.notes,
+            created_at: i.created_at,
+            score,
+            reasons,
+          })),
+          total_count: totalInsights,
+          is_complete: insightsComplete,
+          message: insightsComplete 
+            ? null 
+            : `Showing the ${shownInsights.length} most relevant of ${totalInsights} insights. Use loop_scan to search or loop_expand to get specific insights.`,
         },
-      },
       
-      // Quick stats
-      quick_stats: {
-        total_insights: totalInsights,
-        insights_by_type: {
-          domain: database.insights.count({ types: ["domain"] }),
-          architecture: database.insights.count({ types: ["architecture"] }),
-          edge_case: database.insights.count({ types: ["edge_case"] }),
-          technical: database.insights.count({ types: ["technical"] }),
+        // Backlog summary
+        backlog: {
+          in_progress: activeTask ? [{
+            id: activeTask.id,
+            title: activeTask.title,
+            description: activeTask.description,
+            status: activeTask.status,
+            criteria_progress: criteriaProgress(parseCriteria(activeTask.acceptance_criteria)),
+            test_file: activeTask.test_file,
+            tests: activeTests,
+          }] : [],
+          high_priority_pending: highPriorityTodos.slice(0, 5).map(t => ({
+            id: t.id,
+            title: t.title,
+            priority: t.priority,
+            depends_on: t.depends_on ? JSON.parse(t.depends_on) : [],
+          })),
+          blocked_by_dependencies: blockedTodos.slice(0, 5).map(t => ({
+            id: t.id,
+            title: t.title,
+            waiting_on: unmetDependencies(t.id, dependencyNodes),
+          })),
+          critical_path: criticalPath(dependencyNodes),
+          recently_completed: recentlyCompleted.map(t => ({
+            id: t.id,
+            title: t.title,
+          })),
+          // "LF-042: 3/5 tests passing" for open tasks with a recorded test run
+          test_status: testedTasks.map(({ task, tests }) => `${task.id}: ${tests.summary}`),
+          total_count: allTasks.length,
+          stats: {
+            todo: todoTasks.length,
+            ready: readyIds.size,
+            in_progress: allTasks.filter(t => t.status === "IN_PROGRESS").length,
+            done: allTasks.filter(t => t.status === "DONE").length,
+          },
         },
-        total_sessions: database.sessions.count(),
-      },
       
-      // Guidance
-      hints: [
-        repoContext.suggestedActions ? null : "No suggested_actions from previous session - ask user what to work on",
-        !repoContext.repoSummary ? "Consider using loop_update_summary to set repo description for future sessions" : null,
-        activeTask ? `Task ${activeTask.id} is IN_PROGRESS - finish or handoff` : null,
-        !insightsComplete ? "Some insights not shown - use loop_scan to search" : null,
-      ].filter(Boolean),
+        // Quick stats
+        quick_stats: {
+          total_insights: totalInsights,
+          unprocessed_insights: unprocessedInsights,
+          insights_by_type: {
+            domain: database.insights.count({ ...activeInsights, types: ["domain"] }),
+            architecture: database.insights.count({ ...activeInsights, types: ["architecture"] }),
+            edge_case: database.insights.count({ ...activeInsights, types: ["edge_case"] }),
+            technical: database.insights.count({ ...activeInsights, types: ["technical"] }),
+          },
+          total_sessions: database.sessions.count(),
+        },
+      
+        // Guidance
+        hints: [
+          repoContext.suggestedActions ? null : "No suggested_actions from previous session - ask user what to work on",
+          !repoContext.repoSummary ? "Consider using loop_update_summary to set repo description for future sessions" : null,
+          activeTask ? `Task ${activeTask.id} is IN_PROGRESS - finish or handoff` : null,
+          branchTasks.length > 0 && !branchTasks.some(t => t.id === activeTask?.id)
+            ? `Branch ${gitBranch} is for ${branchTasks.map(t => `${t.id} (${t.status})`).join(", ")}`
+            : null,
+          activeTests && activeTests.failed > 0
+            ? `${activeTask!.id} has ${activeTests.failed} failing test(s) in ${activeTests.test_file}`
+            : null,
+          !insightsComplete ? "Some insights not shown - use loop_scan to search" : null,
+          unprocessedInsights >= REVIEW_HINT_THRESHOLD
+            ? `${unprocessedInsights} unprocessed insights - loop_review walks through them in batches`
+            : null,
+          shape.insightContent === "summary" ? "Insights shown as summaries - use loop_expand for full content" : null,
+        ].filter(Boolean),
+
+        // What progressive disclosure left out, and how to get it back
+        omitted: {
+          insight_ids: omittedInsightIds.slice(0, OMITTED_IDS_LIMIT),
+          insight_count: omittedInsightIds.length,
+          insights_summarized: shape.insightContent === "summary",
+          workflow_sections: shape.workflow === "outline"
+            ? (workflow as string[])
+            : omittedWorkflowSections,
+          sessions: Math.max(0, recentSessions.length - shownSessions.length),
+          expand_hint: omittedInsightIds.length > 0 || shape.insightContent === "summary"
+            ? "Call loop_expand with insight IDs for full content (loop_scan finds more); read loopflow://workflow for the full WORKFLOW.md"
+            : null,
+        },
+      };
+    };
+
+    const fitted = fitToBudget(
+      buildOrientation,
+      detailShape(detail, database.config.page_sizes.orient_insights),
+      budget_tokens
+    );
+    const orientation = {
+      ...fitted.result,
+      budget: {
+        detail,
+        budget_tokens: budget_tokens ?? null,
+        estimated_tokens: fitted.estimatedTokens,
+        degraded_steps: fitted.steps,
+        fits: budget_tokens === undefined || fitted.estimatedTokens <= budget_tokens,
+      },
     };
 
     return {
@@ -275,12 +586,12 @@ server.tool(
   "loop_update_summary",
   "Update the agent's own summary of the repo. This is YOUR memory - update it whenever you learn something important about the repo structure or want to leave notes for the next session.",
   {
-    repo_summary: z.string().optional().describe("High-level description of the repo (what it is, current state)"),
-    folder_structure: z.string().optional().describe("Annotated folder tree of key directories"),
-    suggested_actions: z.string().optional().describe("Free-form notes for the next session - what to do next, warnings, context"),
+    ...REPO_CONTEXT_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ repo_summary, folder_structure, suggested_actions }) => {
-    if (!currentSession) {
+  async ({ repo_summary, folder_structure, suggested_actions, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -291,7 +602,7 @@ server.tool(
       };
     }
 
-    const sessionId = `${new Date().toISOString().split("T")[0]}-current`;
+    const sessionId = session.sessionId;
     const updates: Record<string, string> = {};
 
     if (repo_summary !== undefined) {
@@ -315,7 +626,7 @@ server.tool(
       };
     }
 
-    currentSession.database.repoContext.setMultiple(
+    session.database.repoContext.setMultiple(
       updates as Record<"repo_summary" | "folder_structure" | "suggested_actions", string>,
       sessionId
     );
@@ -344,12 +655,14 @@ server.tool(
   {
     query: z.string().describe("Search query (supports multiple words)"),
     scope: z.enum(["all", "insights", "tasks"]).optional().describe("What to search (default: all)"),
-    types: z.array(z.string()).optional().describe("Filter insight types (domain, architecture, edge_case, technical)"),
+    types: z.array(z.string()).optional().describe("Filter insight types (default set: domain, architecture, edge_case, technical)"),
     statuses: z.array(z.string()).optional().describe("Filter by status"),
-    limit: z.number().optional().describe("Max results (default: 20, max: 50)"),
+    limit: z.number().optional().describe("Max results (default: page_sizes.scan from config, 20; max: 50)"),
+    ...SESSION_PARAMS,
   },
-  async ({ query, scope = "all", types, statuses, limit = 20 }) => {
-    if (!currentSession) {
+  async ({ query, scope = "all", types, statuses, limit, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -360,10 +673,13 @@ server.tool(
       };
     }
 
-    const effectiveLimit = Math.min(limit, 50);
+    const effectiveLimit = Math.min(limit ?? session.database.config.page_sizes.scan, 50);
+    // Over-fetch candidates so scoring can re-rank beyond raw bm25/similarity order
+    const candidateLimit = effectiveLimit * 3;
+    const activeTask = activeTaskContext(session.database, session.currentTask);
     const results: {
-      insights: Array<{ id: string; summary: string; type: string; status: string }>;
-      tasks: Array<{ id: string; summary: string; status: string; priority: string }>;
+      insights: Array<{ id: string; summary: string; type: string; status: string; score: number; reasons: string[] }>;
+      tasks: Array<{ id: string; summary: string; status: string; priority: string; score: number; reasons: string[] }>;
       truncated: boolean;
       hint: string;
     } = {
@@ -375,40 +691,46 @@ server.tool(
 
     // Search insights
     if (scope === "all" || scope === "insights") {
-      const insightResults = currentSession.database.insights.search(
-        query,
-        { types, statuses },
-        { limit: effectiveLimit }
-      );
+      // Keyword and semantic matches ("auth broke" finds "token refresh race")
+      // Superseded, archived and merged insights only show up when asked for by status
+      const excludeStatuses = statuses?.length ? undefined : INACTIVE_INSIGHT_STATUSES;
+      const insightResults = await hybridSearchInsights(session.database, query, { types, statuses, excludeStatuses }, candidateLimit);
+      const linkCounts = session.database.insightLinks.countByInsight();
+      const ranked = scoreItems(insightResults, i => insightScorable(i, linkCounts), { activeTask });
       
-      results.insights = insightResults.map(i => ({
+      results.insights = ranked.slice(0, effectiveLimit).map(({ item: i, score, reasons }) => ({
         id: i.id,
         summary: i.summary || i.content.substring(0, 100) + "...",
         type: i.type,
         status: i.status,
+        score,
+        reasons,
       }));
 
-      if (insightResults.length >= effectiveLimit) {
+      if (insightResults.length > effectiveLimit) {
         results.truncated = true;
       }
     }
 
     // Search tasks
     if (scope === "all" || scope === "tasks") {
-      const taskResults = currentSession.database.tasks.search(
+      const taskResults = session.database.tasks.search(
         query,
         { statuses },
-        { limit: effectiveLimit }
+        { limit: candidateLimit }
       );
+      const ranked = scoreItems(taskResults, taskScorable, { activeTask });
       
-      results.tasks = taskResults.map(t => ({
+      results.tasks = ranked.slice(0, effectiveLimit).map(({ item: t, score, reasons }) => ({
         id: t.id,
         summary: t.summary || t.title,
         status: t.status,
         priority: t.priority,
+        score,
+        reasons,
       }));
 
-      if (taskResults.length >= effectiveLimit) {
+      if (taskResults.length > effectiveLimit) {
         results.truncated = true;
       }
     }
@@ -431,11 +753,13 @@ server.tool(
   "loop_expand",
   "Get full content for specific insight or task IDs. Use after loop_scan to dive deeper.",
   {
-    ids: z.array(z.string()).describe("IDs to expand (e.g., ['INS-001', 'LF-042'])"),
+    ids: z.array(z.string()).describe("IDs to expand (e.g., ['INS-001', 'LF-042', 'API-007'])"),
     include_links: z.boolean().optional().describe("Also expand linked insights (default: false)"),
+    ...SESSION_PARAMS,
   },
-  async ({ ids, include_links = false }) => {
-    if (!currentSession) {
+  async ({ ids, include_links = false, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -446,8 +770,21 @@ server.tool(
       };
     }
 
-    const insightIds = ids.filter(id => id.startsWith("INS-"));
-    const taskIds = ids.filter(id => id.startsWith("LF-"));
+    // Route IDs by prefix (INS- for insights, this repo's task prefixes for tasks)
+    const { byKind, unknown } = partitionIds(ids, getPrefixRegistry(session.database));
+    const insightIds = byKind.insight;
+    const taskIds = byKind.task;
+    // An ID without a registered PREFIX-N form (LF-TEST) may still name a task or insight
+    const unresolved = unknown.filter(id => {
+      if (session.database.tasks.findById(id)) {
+        taskIds.push(id);
+      } else if (session.database.insights.findById(id)) {
+        insightIds.push(id);
+      } else {
+        return true;
+      }
+      return false;
+    });
 
     const results: {
       insights: Array<{
@@ -455,8 +792,9 @@ server.tool(
         content: string;
         type: string;
         status: string;
+        superseded_by: string | null;
         tags: string[];
-        links: string[];
+        links: InsightLinkView[];
         source: unknown;
         notes: string | null;
         created_at: string;
@@ -468,30 +806,42 @@ server.tool(
         status: string;
         priority: string;
         depends_on: string[];
-        acceptance_criteria: string[];
+        acceptance_criteria: AcceptanceCriterion[];
+        criteria_progress: CriteriaProgress;
+        test_file: string | null;
+        tests: TaskTestStatus | null;
         notes: string | null;
+        parent_id: string | null;
+        subtasks: Array<{ id: string; title: string; status: string }>;
+        progress: TaskProgress | null;
       }>;
       linked_insights: Array<{
         id: string;
         content: string;
         type: string;
+        via: Array<{ from: string; relation: InsightRelation; direction: "outgoing" | "incoming" }>;
       }>;
       not_found: string[];
     } = {
       insights: [],
       tasks: [],
       linked_insights: [],
-      not_found: [],
+      not_found: [...unresolved],
     };
 
     // Expand insights
-    const foundInsights = currentSession.database.insights.findByIds(insightIds);
-    const linkedIds = new Set<string>();
+    const foundInsights = session.database.insights.findByIds(insightIds);
+    const linksByInsight = session.database.insightLinks.findForInsights(foundInsights.map(i => i.id));
+    const linkedVia = new Map<string, Array<{ from: string; relation: InsightRelation; direction: "outgoing" | "incoming" }>>();
 
     for (const insight of foundInsights) {
-      const links = insight.links ? JSON.parse(insight.links) as string[] : [];
+      const links = linksByInsight.get(insight.id) || [];
       if (include_links) {
-        links.forEach(id => linkedIds.add(id));
+        for (const link of links) {
+          const via = linkedVia.get(link.id) || [];
+          via.push({ from: insight.id, relation: link.relation, direction: link.direction });
+          linkedVia.set(link.id, via);
+        }
       }
 
       results.insights.push({
@@ -499,6 +849,7 @@ server.tool(
         content: insight.content,
         type: insight.type,
         status: insight.status,
+        superseded_by: insight.superseded_by,
         tags: insight.tags ? JSON.parse(insight.tags) : [],
         links,
         source: insight.source ? JSON.parse(insight.source) : null,
@@ -514,10 +865,12 @@ server.tool(
       }
     }
 
-    // Expand tasks
-    const foundTasks = currentSession.database.tasks.findByIds(taskIds);
+    // Expand tasks (with subtasks and their rolled-up progress)
+    const foundTasks = session.database.tasks.findByIds(taskIds);
+    const progress = foundTasks.length > 0 ? computeProgress(session.database.tasks.findAll()) : new Map();
     
     for (const task of foundTasks) {
+      const criteria = parseCriteria(task.acceptance_criteria);
       results.tasks.push({
         id: task.id,
         title: task.title,
@@ -525,8 +878,14 @@ server.tool(
         status: task.status,
         priority: task.priority,
         depends_on: task.depends_on ? JSON.parse(task.depends_on) : [],
-        acceptance_criteria: task.acceptance_criteria ? JSON.parse(task.acceptance_criteria) : [],
+        acceptance_criteria: criteria,
+        criteria_progress: criteriaProgress(criteria),
+        test_file: task.test_file,
+        tests: taskTestStatus(task.test_file, session.database.testResults.find(task.id)),
         notes: task.notes,
+        parent_id: task.parent_id,
+        subtasks: session.database.tasks.findChildren(task.id).map(c => ({ id: c.id, title: c.title, status: c.status })),
+        progress: progress.get(task.id) ?? null,
       });
     }
 
@@ -538,17 +897,18 @@ server.tool(
     }
 
     // Expand linked insights if requested
-    if (include_links && linkedIds.size > 0) {
+    if (include_links && linkedVia.size > 0) {
       // Remove already-expanded insights
       for (const insight of foundInsights) {
-        linkedIds.delete(insight.id);
+        linkedVia.delete(insight.id);
       }
 
-      const linkedInsights = currentSession.database.insights.findByIds(Array.from(linkedIds));
+      const linkedInsights = session.database.insights.findByIds(Array.from(linkedVia.keys()));
       results.linked_insights = linkedInsights.map(i => ({
         id: i.id,
         content: i.content,
         type: i.type,
+        via: linkedVia.get(i.id) || [],
       }));
     }
 
@@ -570,13 +930,12 @@ server.tool(
   "loop_remember",
   "Capture an insight with zero friction. Don't derail - just snapshot and keep going. Returns the insight ID.",
   {
-    content: z.string().describe("The insight to capture"),
-    type: z.enum(["domain", "architecture", "edge_case", "technical"]).optional()
-      .describe("Type of insight (defaults to technical). Domain=business/problem space, Architecture=design decisions, Edge_case=gotchas, Technical=patterns/tricks"),
-    tags: z.array(z.string()).optional().describe("Optional tags"),
+    ...INSIGHT_CREATE_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ content, type = "technical", tags = [] }) => {
-    if (!currentSession) {
+  async ({ content, type, tags = [], repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -587,27 +946,17 @@ server.tool(
       };
     }
 
-    // Generate ID and summary
-    const id = currentSession.database.insights.getNextId();
-    const summary = summarizeInsight(content);
-
-    // Insert into database (SQLite is source of truth)
-    currentSession.database.insights.insert({
-      id,
-      content,
-      summary,
-      type,
-      status: "unprocessed",
-      tags: tags.length ? JSON.stringify(tags) : null,
-      links: null,
-      source: JSON.stringify({
-        task: currentSession.currentTask || "ad-hoc",
-        session: new Date().toISOString().split("T")[0],
-      }),
-      notes: null,
-    });
-
-    currentSession.insightsCaptured++;
+    const result = createInsight(session.database, { content, type, tags }, session.currentTask);
+    if (!result.ok) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: result.error, ...result.details }, null, 2),
+        }],
+      };
+    }
+    const { insight: { id, summary }, duplicates } = result;
+    session.insightIds.push(id);
 
     return {
       content: [{
@@ -617,7 +966,13 @@ server.tool(
           id,
           summary,
           message: `Captured as ${id}. Keep going.`,
-          session_total: currentSession.insightsCaptured,
+          session_total: session.insightIds.length,
+          possible_duplicates: duplicates.length > 0
+            ? duplicates.map(d => ({ id: d.id, summary: d.summary, score: d.score }))
+            : undefined,
+          hint: duplicates.length > 0
+            ? `Looks like ${duplicates.map(d => d.id).join(", ")}. Later, loop_insight_merge({ into: "${duplicates[0].id}", ids: ["${id}"] }) combines them.`
+            : undefined,
         }, null, 2),
       }],
     };
@@ -635,9 +990,11 @@ server.tool(
   {
     query: z.string().describe("Concept or topic to find connections for"),
     include_tasks: z.boolean().optional().describe("Also search tasks (default true)"),
+    ...SESSION_PARAMS,
   },
-  async ({ query, include_tasks = true }) => {
-    if (!currentSession) {
+  async ({ query, include_tasks = true, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -648,30 +1005,34 @@ server.tool(
       };
     }
 
-    // Search insights using FTS
-    const matchingInsights = currentSession.database.insights.search(query, {}, { limit: 10 });
+    // Search insights by keywords and by meaning
+    const matchingInsights = (await hybridSearchInsights(
+      session.database, query, { excludeStatuses: INACTIVE_INSIGHT_STATUSES }, 10
+    )).slice(0, 10);
 
-    // Collect linked IDs
-    const linkedIds = new Set<string>();
+    // Collect linked IDs (both directions - "X contradicts this" is as relevant as "this builds on X")
+    const linksByInsight = session.database.insightLinks.findForInsights(matchingInsights.map(i => i.id));
+    const linkedVia = new Map<string, { from: string; relation: InsightRelation; direction: "outgoing" | "incoming" }>();
     for (const insight of matchingInsights) {
-      if (insight.links) {
-        const links = JSON.parse(insight.links) as string[];
-        links.forEach(id => linkedIds.add(id));
+      for (const link of linksByInsight.get(insight.id) || []) {
+        if (!linkedVia.has(link.id)) {
+          linkedVia.set(link.id, { from: insight.id, relation: link.relation, direction: link.direction });
+        }
       }
     }
 
     // Remove already-matched IDs
     for (const insight of matchingInsights) {
-      linkedIds.delete(insight.id);
+      linkedVia.delete(insight.id);
     }
 
     // Get linked insights (summaries only)
-    const linkedInsights = currentSession.database.insights.findByIds(Array.from(linkedIds));
+    const linkedInsights = session.database.insights.findByIds(Array.from(linkedVia.keys()));
 
     // Search tasks if requested
     let matchingTasks: Array<{ id: string; summary: string; status: string }> = [];
     if (include_tasks) {
-      const taskResults = currentSession.database.tasks.search(query, {}, { limit: 5 });
+      const taskResults = session.database.tasks.search(query, {}, { limit: 5 });
       matchingTasks = taskResults.map(t => ({
         id: t.id,
         summary: t.summary || t.title,
@@ -688,13 +1049,15 @@ server.tool(
             id: i.id,
             summary: i.summary || i.content.substring(0, 100) + "...",
             type: i.type,
-            links: i.links ? JSON.parse(i.links) : [],
+            match: i.match,
+            matched_by: i.rank === null ? "meaning" : "keywords",
+            links: linksByInsight.get(i.id) || [],
           })),
           linked_insights: linkedInsights.map(i => ({
             id: i.id,
             summary: i.summary || i.content.substring(0, 100) + "...",
             type: i.type,
-            via: "link",
+            via: linkedVia.get(i.id),
           })),
           tasks: matchingTasks,
           suggestion: matchingInsights.length === 0 && matchingTasks.length === 0
@@ -758,21 +1121,26 @@ server.tool(
     blocked_on: z.string().optional().describe("What's blocking progress"),
     next_session_should: z.string().optional().describe("Instruction for next session"),
     hot_context: z.array(z.string()).optional().describe("Critical context that must not be lost"),
-    export_files: z.boolean().optional().describe("Export JSON files for git commit (default: true for graceful, false for emergency)"),
+    learnings: z.array(z.string()).optional().describe("What this session taught us (stored on the session record; use loop_remember for reusable insights)"),
+    export_files: z.boolean().optional().describe("Export JSON files for git commit (default: true for graceful, false for emergency; see export in config.json)"),
+    ...SESSION_PARAMS,
   },
-  async ({ mode, completed, in_progress, blocked_on, next_session_should, hot_context, export_files }) => {
+  async ({ mode, completed, in_progress, blocked_on, next_session_should, hot_context, learnings, export_files, repo_path, session_id }, extra) => {
     // Idempotent: if no active session, try to find repo and update last session
     let isIdempotentCall = false;
     let database: LoopFlowDatabase;
     let repoPath: string;
     let repoName: string;
     let sessionStartedAt: string;
-    let insightsCaptured: number;
+    let insightIds: string[];
     let currentTask: string | null;
+    let filesChanged: string[] | null;
+    let git: { branch: string | null; start_commit: string | null; end_commit: string; commits: LinkedCommit[] } | null;
 
-    if (!currentSession) {
-      // Try to find .loop-flow in cwd
-      const foundRoot = findLoopFlowRoot(process.cwd());
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      // Try to find .loop-flow in repo_path or cwd
+      const foundRoot = findLoopFlowRoot(repo_path ? path.resolve(repo_path) : process.cwd());
       if (!foundRoot) {
         return {
           content: [{
@@ -785,20 +1153,40 @@ server.tool(
       }
       
       // Re-initialize database for idempotent update
-      database = initializeDatabase(foundRoot);
+      database = initializeDatabase(foundRoot, { origin: "mcp" });
       repoPath = foundRoot;
       repoName = path.basename(foundRoot);
       sessionStartedAt = new Date().toISOString();
-      insightsCaptured = 0;
+      insightIds = [];
       currentTask = null;
+      filesChanged = null;
+      git = null;
       isIdempotentCall = true;
     } else {
-      database = currentSession.database;
-      repoPath = currentSession.repoPath;
-      repoName = currentSession.repoName;
-      sessionStartedAt = currentSession.startedAt;
-      insightsCaptured = currentSession.insightsCaptured;
-      currentTask = currentSession.currentTask;
+      database = session.database;
+      repoPath = session.repoPath;
+      repoName = session.repoName;
+      sessionStartedAt = session.startedAt;
+      insightIds = session.insightIds;
+      currentTask = session.currentTask;
+      // Before exporting, so the JSON snapshots don't count as session work
+      filesChanged = getChangedFilesSince(repoPath, session.startHead, session.startUntracked);
+
+      // Commits made since orient (all history if the repo had none then)
+      const endHead = getHead(repoPath);
+      const branch = getBranch(repoPath) ?? session.startBranch;
+      git = endHead
+        ? {
+            branch,
+            start_commit: session.startHead,
+            end_commit: endHead,
+            commits: linkCommits(
+              getCommits(repoPath, { from: session.startHead, to: endHead, limit: SESSION_COMMITS_LIMIT }) ?? [],
+              branch,
+              getPrefixRegistry(database)
+            ),
+          }
+        : null;
     }
 
     const today = new Date().toISOString().split("T")[0];
@@ -806,6 +1194,7 @@ server.tool(
     // For idempotent calls, update the last session instead of creating new
     let sessionId: string;
     let sessionNumber: number;
+    let sessionDate = today;
     
     if (isIdempotentCall) {
       // Get the most recent session and update it
@@ -813,27 +1202,21 @@ server.tool(
       if (lastSessionId && lastSessionId.startsWith(today)) {
         // Update today's last session
         sessionId = lastSessionId;
-        const match = lastSessionId.match(/^(\d{4}-\d{2}-\d{2})-S(\d+)$/);
-        sessionNumber = match ? parseInt(match[2], 10) : 1;
+        sessionNumber = sessionIdParts(lastSessionId)?.number ?? 1;
       } else {
         // No session today, create new one
         sessionNumber = 1;
         sessionId = `${today}-S${sessionNumber}`;
       }
     } else {
-      // Calculate next session number for today (normal flow)
-      const lastSession = database.sessions.getLastSessionId();
-      sessionNumber = 1;
-      if (lastSession) {
-        const match = lastSession.match(/^(\d{4}-\d{2}-\d{2})-S(\d+)$/);
-        if (match && match[1] === today) {
-          sessionNumber = parseInt(match[2], 10) + 1;
-        } else if (match && match[1] < today) {
-          sessionNumber = 1; // New day, start at 1
-        }
-      }
-      sessionId = `${today}-S${sessionNumber}`;
+      // Normal flow: fill in the record reserved at loop_orient. The ID says
+      // which date and number it is, even if the reservation has expired
+      sessionId = session!.sessionId;
+      const parts = sessionIdParts(sessionId);
+      sessionNumber = parts?.number ?? 1;
+      sessionDate = parts?.date ?? today;
     }
+    database.events.setContext({ sessionId });
 
     // FIRST: Save suggested_actions for next session (critical state preservation)
     if (next_session_should) {
@@ -863,20 +1246,41 @@ server.tool(
       summaryParts.push(`Hot context: ${hot_context.join("; ")}`);
     }
     
+    // Idempotent calls have no session state: keep what the record already has
+    const existingSession = isIdempotentCall ? database.sessions.findById(sessionId) : null;
+    // No task started this session: fall back to the one the branch is named after
+    const branchTaskIds = git?.branch
+      ? extractTaskIds(git.branch, getPrefixRegistry(database)).filter(id => database.tasks.findById(id))
+      : [];
+    const taskId = currentTask ?? existingSession?.task_id ?? (branchTaskIds.length === 1 ? branchTaskIds[0] : null);
+    const task = taskId ? database.tasks.findById(taskId) : null;
+    const taskTitle = task ? splitTaskTitle(task.title) : null;
+
     database.sessions.upsert({
       id: sessionId,
-      date: today,
+      date: sessionDate,
       session_number: sessionNumber,
-      task_id: currentTask,
-      task_type: null, // Could be extracted from task if needed
-      task_title: null,
+      task_id: taskId,
+      task_type: taskTitle?.type ?? existingSession?.task_type ?? null,
+      task_title: taskTitle?.title ?? existingSession?.task_title ?? null,
       outcome,
       summary: summaryParts.join("\n") || "No summary provided",
-      learnings: null,
-      files_changed: null,
-      insights_added: insightsCaptured > 0 
-        ? JSON.stringify([`${insightsCaptured} insights captured`])
-        : null,
+      learnings: learnings?.length
+        ? learnings.map(l => `- ${l}`).join("\n")
+        : existingSession?.learnings ?? null,
+      files_changed: filesChanged
+        ? JSON.stringify(filesChanged)
+        : existingSession?.files_changed ?? null,
+      insights_added: insightIds.length > 0
+        ? JSON.stringify(insightIds)
+        : existingSession?.insights_added ?? null,
+      // Idempotent calls leave the recorded git range alone
+      ...(git ? {
+        git_branch: git.branch,
+        start_commit: git.start_commit,
+        end_commit: git.end_commit,
+        commits: git.commits.length > 0 ? JSON.stringify(git.commits) : null,
+      } : {}),
     });
 
     const handoff = {
@@ -884,9 +1288,16 @@ server.tool(
       session: {
         id: sessionId,
         repo: repoName,
-        task: currentTask,
+        task: taskId,
         duration: `${Math.round((Date.now() - new Date(sessionStartedAt).getTime()) / 60000)} minutes`,
-        insights_captured: insightsCaptured,
+        insights_captured: insightIds.length,
+        insight_ids: insightIds,
+        files_changed: filesChanged,
+        git: git ? {
+          branch: git.branch,
+          commit_range: git.start_commit ? `${git.start_commit.slice(0, 7)}..${git.end_commit.slice(0, 7)}` : git.end_commit.slice(0, 7),
+          commits: git.commits.map(c => ({ sha: c.sha.slice(0, 7), subject: c.subject, task_ids: c.task_ids })),
+        } : null,
         outcome,
         updated_existing: isIdempotentCall,
       },
@@ -903,8 +1314,10 @@ server.tool(
       ui_server_stopped: false,
     };
 
-    // Export files (default: true for graceful, false for emergency)
-    const shouldExport = export_files ?? (mode === "graceful");
+    // Export files (default from config: true for graceful, false for emergency)
+    const shouldExport = export_files ?? (mode === "graceful"
+      ? database.config.export.on_graceful_handoff
+      : database.config.export.on_emergency_handoff);
     if (shouldExport) {
       const loopFlowDir = path.join(repoPath, ".loop-flow");
 
@@ -954,10 +1367,10 @@ ${completed?.map(c => `- ${c}`).join("\n") || "Nothing recorded"}
       handoff.resume_file = resumePath;
     }
 
-    // Stop managed UI server if running
+    // Stop the managed UI server if it serves this repo
     try {
       const { stopManagedServer, isManagedServerRunning } = await import("../api/server.js");
-      if (isManagedServerRunning()) {
+      if (isManagedServerRunning(repoPath)) {
         stopManagedServer();
         handoff.ui_server_stopped = true;
       }
@@ -968,9 +1381,8 @@ ${completed?.map(c => `- ${c}`).join("\n") || "Nothing recorded"}
     // Close database connection (only if we opened it for idempotent call, or if closing the active session)
     if (isIdempotentCall) {
       database.close();
-    } else if (currentSession) {
-      currentSession.database.close();
-      currentSession = null;
+    } else {
+      closeSession(session!);
     }
 
     return {
@@ -1002,9 +1414,11 @@ server.tool(
     include_backlog: z.boolean().optional().describe("Export backlog.json (default: true)"),
     project_name: z.string().optional().describe("Project name for backlog header"),
     project_notes: z.string().optional().describe("Notes for backlog header"),
+    ...SESSION_PARAMS,
   },
-  async ({ include_insights = true, include_backlog = true, project_name, project_notes }) => {
-    if (!currentSession) {
+  async ({ include_insights = true, include_backlog = true, project_name, project_notes, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1025,11 +1439,11 @@ server.tool(
       paths: {},
     };
 
-    const loopFlowDir = path.join(currentSession.repoPath, ".loop-flow");
+    const loopFlowDir = path.join(session.repoPath, ".loop-flow");
 
     // Export insights
     if (include_insights) {
-      const allInsights = currentSession.database.insights.findAll({}, { limit: 10000 });
+      const allInsights = session.database.insights.findAll({}, { limit: 10000 });
       const insightsJson = generateInsightsJson(allInsights);
       const insightsPath = path.join(loopFlowDir, "insights.json");
       
@@ -1042,10 +1456,10 @@ server.tool(
 
     // Export backlog
     if (include_backlog) {
-      const allTasks = currentSession.database.tasks.findAll({}, { limit: 10000 });
+      const allTasks = session.database.tasks.findAll({}, { limit: 10000 });
       const backlogJson = generateBacklogJson(
         allTasks,
-        project_name || currentSession.repoName,
+        project_name || session.repoName,
         project_notes || ""
       );
       const backlogPath = path.join(loopFlowDir, "backlog.json");
@@ -1081,9 +1495,11 @@ server.tool(
   "Import JSON files (insights.json, backlog.json) into SQLite. Use for initial migration or to force refresh from edited JSON files.",
   {
     force: z.boolean().optional().describe("Force reimport even if data exists (will skip existing IDs)"),
+    ...SESSION_PARAMS,
   },
-  async ({ force = false }) => {
-    if (!currentSession) {
+  async ({ force = false, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1094,8 +1510,8 @@ server.tool(
       };
     }
 
-    const hasData = currentSession.database.insights.count() > 0 || 
-                    currentSession.database.tasks.count() > 0;
+    const hasData = session.database.insights.count() > 0 || 
+                    session.database.tasks.count() > 0;
 
     if (hasData && !force) {
       return {
@@ -1104,9 +1520,9 @@ server.tool(
           text: JSON.stringify({
             error: "Database already has data. Use force=true to import anyway (existing IDs will be skipped).",
             current_data: {
-              insights: currentSession.database.insights.count(),
-              tasks: currentSession.database.tasks.count(),
-              sessions: currentSession.database.sessions.count(),
+              insights: session.database.insights.count(),
+              tasks: session.database.tasks.count(),
+              sessions: session.database.sessions.count(),
             },
           }, null, 2),
         }],
@@ -1114,10 +1530,10 @@ server.tool(
     }
 
     // Import insights and tasks from JSON
-    const jsonStats = importFromJson(currentSession.database, currentSession.repoPath);
+    const jsonStats = importFromJson(session.database, session.repoPath);
     
     // Import sessions from progress.txt
-    const progressStats = importProgress(currentSession.database, currentSession.repoPath);
+    const progressStats = importProgress(session.database, session.repoPath);
 
     return {
       content: [{
@@ -1146,19 +1562,14 @@ server.tool(
 
 server.tool(
   "loop_task_create",
-  "Create a new task in the backlog",
+  "Create a new task in the backlog. The ID is generated from the repo's task prefix unless given. Pass parent_id to split a task into subtasks: they get dotted IDs (LF-042.1, LF-042.2) and roll up into the parent's progress.",
   {
-    id: z.string().describe("Task ID (e.g., 'LF-104')"),
-    title: z.string().describe("Task title including type prefix (e.g., '[IMPL] Add feature X')"),
-    description: z.string().optional().describe("Detailed description"),
-    priority: z.enum(["high", "medium", "low"]).default("medium").describe("Task priority"),
-    status: z.enum(["TODO", "IN_PROGRESS", "DONE", "BLOCKED", "CANCELLED"]).default("TODO"),
-    depends_on: z.array(z.string()).optional().describe("IDs of tasks this depends on"),
-    acceptance_criteria: z.array(z.string()).optional().describe("List of acceptance criteria"),
-    notes: z.string().optional().describe("Additional notes"),
+    ...TASK_CREATE_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ id, title, description, priority, status, depends_on, acceptance_criteria, notes }) => {
-    if (!currentSession) {
+  async ({ id, parent_id, title, description, priority, status = "TODO", reason, depends_on, acceptance_criteria, test_file, notes, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1167,33 +1578,18 @@ server.tool(
       };
     }
 
-    // Check if task already exists
-    const existing = currentSession.database.tasks.findById(id);
-    if (existing) {
+    const result = createTask(session.database, {
+      id, parent_id, title, description, priority, status, reason, depends_on, acceptance_criteria, test_file, notes,
+    });
+    if (!result.ok) {
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({ 
-            error: `Task ${id} already exists`,
-            existing: { id: existing.id, title: existing.title, status: existing.status }
-          }, null, 2),
+          text: JSON.stringify({ error: result.error, ...result.details }, null, 2),
         }],
       };
     }
-
-    // Create task
-    const task = currentSession.database.tasks.insert({
-      id,
-      title,
-      description: description || null,
-      summary: title, // Use title as summary
-      status,
-      priority,
-      depends_on: depends_on ? JSON.stringify(depends_on) : null,
-      acceptance_criteria: acceptance_criteria ? JSON.stringify(acceptance_criteria) : null,
-      test_file: null,
-      notes: notes || null,
-    });
+    const { task } = result;
 
     return {
       content: [{
@@ -1205,8 +1601,10 @@ server.tool(
             title: task.title,
             status: task.status,
             priority: task.priority,
+            parent_id: task.parent_id,
           },
-          message: `Task ${id} created`,
+          parent_progress: task.parent_id ? parentProgress(session.database, task.parent_id) : undefined,
+          message: `Task ${task.id} created`,
         }, null, 2),
       }],
     };
@@ -1218,16 +1616,12 @@ server.tool(
   "Update an existing task (status, priority, notes, etc.)",
   {
     id: z.string().describe("Task ID to update"),
-    status: z.enum(["TODO", "IN_PROGRESS", "DONE", "BLOCKED", "CANCELLED"]).optional(),
-    priority: z.enum(["high", "medium", "low"]).optional(),
-    title: z.string().optional(),
-    description: z.string().optional(),
-    notes: z.string().optional(),
-    depends_on: z.array(z.string()).optional(),
-    acceptance_criteria: z.array(z.string()).optional(),
+    ...TASK_UPDATE_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ id, status, priority, title, description, notes, depends_on, acceptance_criteria }) => {
-    if (!currentSession) {
+  async ({ id, status, reason, priority, title, description, notes, depends_on, acceptance_criteria, test_file, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1236,53 +1630,110 @@ server.tool(
       };
     }
 
-    const existing = currentSession.database.tasks.findById(id);
-    if (!existing) {
+    const result = updateTask(session.database, id, {
+      status, reason, priority, title, description, notes, depends_on, acceptance_criteria, test_file,
+    });
+    if (!result.ok) {
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({ error: `Task ${id} not found` }, null, 2),
+          text: JSON.stringify({ error: result.error, ...result.details }, null, 2),
+        }],
+      };
+    }
+    const { task: updated, changes } = result;
+
+    // Starting a task makes it the session's task (recorded at handoff)
+    if (status === "IN_PROGRESS") {
+      session.currentTask = id;
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          updated: true,
+          task: {
+            id: updated.id,
+            title: updated.title,
+            status: updated.status,
+            status_reason: updated.status_reason,
+            priority: updated.priority,
+            test_file: updated.test_file,
+          },
+          parent_progress: updated.parent_id && status !== undefined
+            ? parentProgress(session.database, updated.parent_id)
+            : undefined,
+          changes,
+          message: `Task ${id} updated`,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_task_verify",
+  "Tick acceptance criteria of a task as met (or unmet), with evidence of how each was verified. Use before moving a task to DONE.",
+  {
+    id: z.string().describe("Task ID"),
+    criteria: z.array(z.object({
+      index: z.number().int().positive().optional().describe("1-based position in the task's criteria"),
+      text: z.string().optional().describe("Exact criterion text (alternative to index)"),
+      met: z.boolean().optional().describe("Default: true"),
+      evidence: z.string().optional().describe("How it was verified: test name, commit, or a short note"),
+    })).min(1).describe("Criteria to verify"),
+    ...SESSION_PARAMS,
+  },
+  async ({ id, criteria, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
         }],
       };
     }
 
-    // Build changes object
-    const changes: Record<string, unknown> = {};
-    if (status !== undefined) changes.status = status;
-    if (priority !== undefined) changes.priority = priority;
-    if (title !== undefined) {
-      changes.title = title;
-      changes.summary = title;
+    const task = session.database.tasks.findById(id);
+    if (!task) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: `Task ${id} not found` }, null, 2),
+        }],
+      };
     }
-    if (description !== undefined) changes.description = description;
-    if (notes !== undefined) changes.notes = notes;
-    if (depends_on !== undefined) changes.depends_on = JSON.stringify(depends_on);
-    if (acceptance_criteria !== undefined) changes.acceptance_criteria = JSON.stringify(acceptance_criteria);
 
-    if (Object.keys(changes).length === 0) {
+    const current = parseCriteria(task.acceptance_criteria);
+    const result = verifyCriteria(current, criteria, new Date().toISOString());
+    if (!result.ok) {
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({ error: "No changes specified" }, null, 2),
+          text: JSON.stringify({
+            error: "Some criteria don't match the task's criteria",
+            unmatched: result.unmatched,
+            criteria: current.map((c, i) => ({ index: i + 1, text: c.text, met: c.met })),
+          }, null, 2),
         }],
       };
     }
 
-    const updated = currentSession.database.tasks.update(id, changes);
+    session.database.tasks.update(id, { acceptance_criteria: serializeCriteria(result.criteria) });
+    const progress = criteriaProgress(result.criteria);
 
     return {
       content: [{
         type: "text" as const,
         text: JSON.stringify({
-          updated: true,
-          task: {
-            id: updated!.id,
-            title: updated!.title,
-            status: updated!.status,
-            priority: updated!.priority,
-          },
-          changes: Object.keys(changes),
-          message: `Task ${id} updated`,
+          verified: true,
+          id,
+          criteria: result.criteria,
+          criteria_progress: progress,
+          all_met: progress.met === progress.total,
+          message: `${progress.met}/${progress.total} criteria met for ${id}`,
         }, null, 2),
       }],
     };
@@ -1291,14 +1742,17 @@ server.tool(
 
 server.tool(
   "loop_task_list",
-  "List tasks with optional filters",
+  "List tasks with optional filters. Subtasks are nested under their parent, which shows rolled-up progress.",
   {
     status: z.array(z.string()).optional().describe("Filter by status (e.g., ['TODO', 'IN_PROGRESS'])"),
     priority: z.array(z.string()).optional().describe("Filter by priority (e.g., ['high'])"),
-    limit: z.number().optional().default(20).describe("Max results"),
+    limit: z.number().optional().describe("Max results, counting top-level tasks when nested (default: page_sizes.task_list from config, 20)"),
+    flat: z.boolean().optional().describe("List subtasks alongside their parents instead of nested (default: false)"),
+    ...SESSION_PARAMS,
   },
-  async ({ status, priority, limit }) => {
-    if (!currentSession) {
+  async ({ status, priority, limit, flat = false, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1307,26 +1761,110 @@ server.tool(
       };
     }
 
-    const tasks = currentSession.database.tasks.findAll(
-      { statuses: status, priorities: priority },
-      { limit }
-    );
+    const filters = { statuses: status, priorities: priority };
+    const pageSize = limit ?? session.database.config.page_sizes.task_list;
+    const progress = computeProgress(session.database.tasks.findAll());
+    const testResults = session.database.testResults.findAll();
+
+    type TaskListItem = {
+      id: string;
+      title: string;
+      status: string;
+      priority: string;
+      parent_id?: string;
+      progress?: TaskProgress;
+      tests?: string;
+      subtasks?: TaskListItem[];
+    };
+    const toItem = (t: TaskRecord): TaskListItem => ({
+      id: t.id,
+      title: t.title,
+      status: t.status,
+      priority: t.priority,
+      parent_id: t.parent_id ?? undefined,
+      progress: progress.get(t.id),
+      tests: taskTestStatus(t.test_file, testResults.get(t.id) ?? null)?.summary,
+    });
+    const toTreeItem = (node: TaskTreeNode<TaskRecord>): TaskListItem => ({
+      ...toItem(node.task),
+      subtasks: node.children.length ? node.children.map(toTreeItem) : undefined,
+    });
 
-    const total = currentSession.database.tasks.count({ statuses: status, priorities: priority });
+    // Nested: page by top-level task after building the tree, so a subtask
+    // never loses its parent to the limit
+    let items: TaskListItem[];
+    let total: number;
+    if (flat) {
+      items = session.database.tasks.findAll(filters, { limit: pageSize }).map(toItem);
+      total = session.database.tasks.count(filters);
+    } else {
+      const roots = buildTaskTree(session.database.tasks.findAll(filters));
+      items = roots.slice(0, pageSize).map(toTreeItem);
+      total = roots.length;
+    }
 
     return {
       content: [{
         type: "text" as const,
         text: JSON.stringify({
-          tasks: tasks.map(t => ({
+          tasks: items,
+          count: items.length,
+          total,
+          truncated: items.length < total,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_test_report",
+  "Record a test run: reads a local JUnit XML or vitest/jest JSON report and stores the results of every task whose test_file it covers. Run the tests with a file reporter first (e.g. vitest run --reporter=junit --outputFile=test-report.xml).",
+  {
+    report_path: z.string().describe("Path to the report file, relative to the repo root"),
+    ...SESSION_PARAMS,
+  },
+  async ({ report_path, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
+    }
+
+    let result: TestReportImport;
+    try {
+      result = importTestReport(session.database, session.repoPath, report_path);
+    } catch (e) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: e instanceof Error ? e.message : String(e) }, null, 2),
+        }],
+      };
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          recorded: true,
+          report_file: result.report_file,
+          format: result.format,
+          test_count: result.test_count,
+          tasks: result.tasks.map(t => ({
             id: t.id,
-            title: t.title,
-            status: t.status,
-            priority: t.priority,
+            test_file: t.test_file,
+            summary: formatTestSummary(t),
+            failing: t.failing,
           })),
-          count: tasks.length,
-          total,
-          truncated: tasks.length < total,
+          unmatched_files: result.unmatched_files,
+          message: result.tasks.length > 0
+            ? `Recorded test results for ${result.tasks.length} task(s)`
+            : "No task's test_file is in this report - link tests with loop_task_update test_file",
         }, null, 2),
       }],
     };
@@ -1339,18 +1877,15 @@ server.tool(
 
 server.tool(
   "loop_insight_update",
-  "Update an existing insight (status, tags, links, notes)",
+  "Update an existing insight (status, tags, links, notes). Retire stale insights with status 'archived', or 'superseded' plus superseded_by; both drop out of loop_orient and loop_scan.",
   {
     id: z.string().describe("Insight ID to update"),
-    status: z.enum(["unprocessed", "discussed"]).optional(),
-    tags: z.array(z.string()).optional().describe("Replace tags"),
-    add_tags: z.array(z.string()).optional().describe("Add to existing tags"),
-    links: z.array(z.string()).optional().describe("Replace linked insight IDs"),
-    add_links: z.array(z.string()).optional().describe("Add to existing links"),
-    notes: z.string().optional(),
+    ...INSIGHT_UPDATE_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ id, status, tags, add_tags, links, add_links, notes }) => {
-    if (!currentSession) {
+  async ({ id, status, superseded_by, tags, add_tags, links, add_links, remove_links, relation = "relates_to", notes, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1359,64 +1894,351 @@ server.tool(
       };
     }
 
-    const existing = currentSession.database.insights.findById(id);
-    if (!existing) {
+    const result = updateInsight(session.database, id, {
+      status, superseded_by, tags, add_tags, links, add_links, remove_links, relation, notes,
+    });
+    if (!result.ok) {
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({ error: `Insight ${id} not found` }, null, 2),
+          text: JSON.stringify({ error: result.error, ...result.details }, null, 2),
         }],
       };
     }
+    const { insight: updated, changes } = result;
 
-    // Build changes object
-    const changes: Record<string, unknown> = {};
-    
-    if (status !== undefined) changes.status = status;
-    if (notes !== undefined) changes.notes = notes;
-    
-    // Handle tags
-    if (tags !== undefined) {
-      changes.tags = JSON.stringify(tags);
-    } else if (add_tags !== undefined) {
-      const existingTags = existing.tags ? JSON.parse(existing.tags) : [];
-      const newTags = [...new Set([...existingTags, ...add_tags])];
-      changes.tags = JSON.stringify(newTags);
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          updated: true,
+          insight: {
+            id: updated.id,
+            type: updated.type,
+            status: updated.status,
+            superseded_by: updated.superseded_by ?? undefined,
+            summary: updated.summary || updated.content.substring(0, 80) + "...",
+          },
+          changes,
+          message: `Insight ${id} updated`,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_link",
+  "Create or remove a typed, directional relation between two insights (e.g. INS-120 contradicts INS-044). The relation itself can carry a note.",
+  {
+    from_id: z.string().describe("Source insight ID (the one that builds_on/contradicts/exemplifies/synthesizes)"),
+    to_id: z.string().describe("Target insight ID"),
+    relation: z.enum(INSIGHT_RELATIONS).describe("builds_on | contradicts | exemplifies | synthesizes | relates_to"),
+    note: z.string().optional().describe("Why these insights relate - the link itself can be an insight"),
+    remove: z.boolean().optional().describe("Remove this relation instead of creating it (default: false)"),
+    ...SESSION_PARAMS,
+  },
+  async ({ from_id, to_id, relation, note, remove = false, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
     }
-    
-    // Handle links
-    if (links !== undefined) {
-      changes.links = JSON.stringify(links);
-    } else if (add_links !== undefined) {
-      const existingLinks = existing.links ? JSON.parse(existing.links) : [];
-      const newLinks = [...new Set([...existingLinks, ...add_links])];
-      changes.links = JSON.stringify(newLinks);
+
+    if (from_id === to_id) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: `Insight ${from_id} cannot link to itself` }, null, 2),
+        }],
+      };
     }
 
-    if (Object.keys(changes).length === 0) {
+    const found = new Set(session.database.insights.findByIds([from_id, to_id]).map(i => i.id));
+    const missing = [from_id, to_id].filter(id => !found.has(id));
+    if (missing.length > 0) {
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({ error: "No changes specified" }, null, 2),
+          text: JSON.stringify({ error: "Insights not found", not_found: missing }, null, 2),
+        }],
+      };
+    }
+
+    if (remove) {
+      const removed = session.database.insightLinks.unlink(from_id, to_id, relation);
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            removed: removed > 0,
+            message: removed > 0
+              ? `Removed: ${from_id} ${relation} ${to_id}`
+              : `No ${relation} link from ${from_id} to ${to_id}`,
+          }, null, 2),
         }],
       };
     }
 
-    const updated = currentSession.database.insights.update(id, changes);
+    const link = session.database.insightLinks.link(from_id, to_id, relation, note);
 
     return {
       content: [{
         type: "text" as const,
         text: JSON.stringify({
-          updated: true,
-          insight: {
-            id: updated!.id,
-            type: updated!.type,
-            status: updated!.status,
-            summary: updated!.summary || updated!.content.substring(0, 80) + "...",
+          linked: true,
+          link,
+          message: `Linked: ${from_id} ${relation} ${to_id}`,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_review",
+  "Walk through unprocessed insights in batches, oldest first. Decide each one (validated, discussed, superseded with superseded_by, archived) and pass the decisions with the next call.",
+  {
+    decisions: z.array(z.object({
+      id: z.string(),
+      status: z.enum(SETTABLE_INSIGHT_STATUSES),
+      superseded_by: z.string().optional().describe("Replacement insight, for status superseded"),
+      notes: z.string().optional().describe("Why (appended to the insight's notes)"),
+    })).optional().describe("Decisions on insights from the previous batch"),
+    after: z.string().optional().describe("Last insight ID of the previous batch (from next.after); insights left undecided are skipped"),
+    batch_size: z.number().optional().describe("Insights per batch (default 5, max 20)"),
+    ...SESSION_PARAMS,
+  },
+  async ({ decisions = [], after, batch_size = 5, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
+    }
+    const database = session.database;
+
+    // Apply the previous batch's decisions; one bad decision doesn't block the rest
+    const applied: Array<{ id: string; status: string; superseded_by?: string }> = [];
+    const errors: Array<{ id: string; error: string }> = [];
+    for (const decision of decisions) {
+      const existing = database.insights.findById(decision.id);
+      if (!existing) {
+        errors.push({ id: decision.id, error: `Insight ${decision.id} not found` });
+        continue;
+      }
+      const replacement = decision.superseded_by ? database.insights.findById(decision.superseded_by) : null;
+      const lifecycle = resolveLifecycleChange(existing, decision, replacement);
+      if (!lifecycle.ok) {
+        errors.push({ id: decision.id, error: lifecycle.error });
+        continue;
+      }
+      database.insights.update(decision.id, {
+        ...lifecycle.changes,
+        ...(decision.notes ? { notes: existing.notes ? `${existing.notes}\n${decision.notes}` : decision.notes } : {}),
+      });
+      if (lifecycle.changes.superseded_by) {
+        repointSuperseded(database, decision.id, lifecycle.changes.superseded_by);
+      }
+      applied.push({ id: decision.id, status: lifecycle.changes.status, superseded_by: lifecycle.changes.superseded_by ?? undefined });
+    }
+
+    const size = Math.min(Math.max(batch_size, 1), 20);
+    const { batch, remaining } = reviewBatch(
+      database.insights.findAll({ statuses: ["unprocessed"] }),
+      size,
+      after ? database.insights.findById(after) : null
+    );
+    const linkCounts = database.insightLinks.countByInsight();
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          applied,
+          errors: errors.length > 0 ? errors : undefined,
+          batch: batch.map(i => ({
+            id: i.id,
+            content: i.content,
+            type: i.type,
+            tags: i.tags ? JSON.parse(i.tags) : [],
+            links: linkCounts.get(i.id) ?? 0,
+            created_at: i.created_at,
+            possible_duplicates: findPossibleDuplicates(database, i.content, i.id),
+          })),
+          remaining,
+          next: batch.length > 0 && remaining > 0 ? { after: batch[batch.length - 1].id } : undefined,
+          hint: batch.length > 0
+            ? "Decide each: validated (confirmed), discussed (seen, keep), superseded + superseded_by (a newer insight replaces it), archived (stale). Send them as decisions with the next call; merge duplicates with loop_insight_merge."
+            : "Review queue is empty",
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_dedupe",
+  "Find insights that say the same thing in different words and propose merge clusters. Review them, then merge with loop_insight_merge.",
+  {
+    threshold: z.number().min(0).max(1).optional()
+      .describe("Similarity (0-1) at which insights count as duplicates (default: insights.duplicate_threshold from config, 0.5)"),
+    limit: z.number().optional().describe("Max clusters (default 20)"),
+    ...SESSION_PARAMS,
+  },
+  async ({ threshold, limit = 20, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
+    }
+
+    const clusters = findDuplicateClusters(session.database, threshold);
+    const shown = clusters.slice(0, limit);
+    const insights = new Map(
+      session.database.insights.findByIds(shown.flatMap(c => c.ids)).map(i => [i.id, i])
+    );
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          clusters: shown.map(cluster => ({
+            into: cluster.ids[0],
+            ids: cluster.ids.slice(1),
+            score: cluster.score,
+            insights: cluster.ids.map(id => ({
+              id,
+              summary: insights.get(id)!.summary || insights.get(id)!.content.substring(0, 100) + "...",
+              type: insights.get(id)!.type,
+            })),
+          })),
+          total_clusters: clusters.length,
+          hint: clusters.length > 0
+            ? "Merge a cluster with loop_insight_merge({ into, ids }); the oldest insight is suggested as the target"
+            : "No duplicates found",
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_insight_merge",
+  "Merge duplicate insights into one. The target gets their content and tags, links to or from them are re-pointed at the target, and they are kept with status 'merged'.",
+  {
+    into: z.string().describe("Insight ID to keep"),
+    ids: z.array(z.string()).min(1).describe("Insight IDs to merge into it"),
+    content: z.string().optional().describe("Rewritten content for the target (default: its content plus whatever the merged insights add)"),
+    ...SESSION_PARAMS,
+  },
+  async ({ into, ids, content, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
+    }
+
+    let result;
+    try {
+      result = mergeInsights(session.database, into, ids, content);
+    } catch (error) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2),
+        }],
+      };
+    }
+    // The target's content changed
+    scheduleEmbeddingBackfill(session.database);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          merged: true,
+          into: {
+            id: result.into.id,
+            summary: result.into.summary || result.into.content.substring(0, 100) + "...",
+            tags: result.into.tags ? JSON.parse(result.into.tags) : [],
           },
-          changes: Object.keys(changes),
-          message: `Insight ${id} updated`,
+          merged_ids: result.merged,
+          links_rewritten: result.links_rewritten,
+          message: `Merged ${result.merged.join(", ")} into ${into}`,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+server.tool(
+  "loop_history",
+  "Read the audit log: every change to a task, insight, session, repo_context key or feedback spec, with field diffs, origin (mcp/api/cli/import/git) and the session that made it. Commits recorded by the git hooks appear as 'commit' events on their tasks. Use to reconstruct why something changed (e.g. who moved LF-042 to CANCELLED).",
+  {
+    id: z.string().optional().describe("Entity ID (LF-042, INS-007, 2026-01-22-S3, suggested_actions, FB-003). Omit for recent changes across everything."),
+    entity_type: z.enum(EVENT_ENTITY_TYPES).optional().describe("Only events for this kind of entity"),
+    origin: z.enum(EVENT_ORIGINS).optional().describe("Only events from this origin"),
+    session_id: z.string().optional().describe("Only events made during this session"),
+    limit: z.number().optional().describe("Max events, newest first (default: page_sizes.history from config, 50)"),
+    // session_id is a filter here, so only repo_path routes the call
+    repo_path: SESSION_PARAMS.repo_path,
+  },
+  async ({ id, entity_type, origin, session_id, limit, repo_path }, extra) => {
+    const session = resolveSession(extra, repo_path);
+    if (!session) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: "No active session. Call loop_orient first." }, null, 2),
+        }],
+      };
+    }
+
+    const filters = {
+      entityId: id,
+      entityTypes: entity_type ? [entity_type] : undefined,
+      origins: origin ? [origin] : undefined,
+      sessionId: session_id,
+    };
+    const events = session.database.events.findAll(filters, { limit: limit ?? session.database.config.page_sizes.history });
+    const total = session.database.events.count(filters);
+
+    // Summaries of the sessions behind these changes (the "why")
+    const sessionIds = [...new Set(events.map(e => e.session_id).filter((s): s is string => !!s))];
+    // Events outlive their session, so some of these may have been deleted
+    const sessions = session.database.sessions.findByIds(sessionIds)
+      .map(s => ({ id: s.id, task_id: s.task_id, outcome: s.outcome, summary: s.summary }));
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          id: id ?? null,
+          events: events.map(e => ({
+            ...e,
+            changes: JSON.parse(e.changes),
+          })),
+          sessions,
+          total,
+          hint: total > events.length
+            ? `Showing ${events.length} of ${total} events. Raise limit to see older changes.`
+            : null,
         }, null, 2),
       }],
     };
@@ -1432,14 +2254,12 @@ server.tool(
   "loop_painpoint",
   "Capture a pain point, feature idea, or bug for LoopFlow self-improvement. Requires user consent. Context is sanitized to remove PII before storing.",
   {
-    type: z.enum(["pain_point", "feature_idea", "bug"]).describe("Type of feedback"),
-    title: z.string().describe("Short title describing the issue"),
-    description: z.string().describe("Detailed description of the issue/idea"),
-    context: z.string().optional().describe("Additional context (will be sanitized)"),
-    severity: z.enum(["low", "medium", "high", "critical"]).optional().describe("Severity (default: medium)"),
+    ...FEEDBACK_CREATE_FIELDS,
+    ...SESSION_PARAMS,
   },
-  async ({ type, title, description, context, severity = "medium" }) => {
-    if (!currentSession) {
+  async ({ type, title, description, context, severity = "medium", repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1459,12 +2279,10 @@ server.tool(
       sanitizationWarnings = result.warnings;
     }
 
-    // Generate ID and create record
-    const id = currentSession.database.feedbackSpecs.getNextId();
+    // Allocate ID and create record in one transaction
     const now = new Date().toISOString();
 
-    currentSession.database.feedbackSpecs.insert({
-      id,
+    const { id } = session.database.feedbackSpecs.insertWithNextId({
       type,
       title,
       description,
@@ -1508,11 +2326,13 @@ server.tool(
   "loop_feedback_list",
   "List queued feedback specs (pain points, feature ideas, bugs)",
   {
-    status: z.array(z.enum(["queued", "shared", "dismissed"])).optional().describe("Filter by status (default: queued)"),
+    status: z.array(z.enum(FEEDBACK_STATUSES)).optional().describe("Filter by status (default: queued)"),
     limit: z.number().optional().describe("Max results (default: 20)"),
+    ...SESSION_PARAMS,
   },
-  async ({ status = ["queued"], limit = 20 }) => {
-    if (!currentSession) {
+  async ({ status = ["queued"], limit = 20, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1523,12 +2343,12 @@ server.tool(
       };
     }
 
-    const specs = currentSession.database.feedbackSpecs.findAll(
+    const specs = session.database.feedbackSpecs.findAll(
       { statuses: status },
       { limit }
     );
 
-    const total = currentSession.database.feedbackSpecs.count({ statuses: status });
+    const total = session.database.feedbackSpecs.count({ statuses: status });
 
     return {
       content: [{
@@ -1561,13 +2381,15 @@ server.tool(
 
 server.tool(
   "loop_ui",
-  "Start the LoopFlow web UI dashboard and open it in the browser. Shows tasks, insights, and sessions visually. Server auto-stops on loop_handoff or after 30 min timeout.",
+  "Start the LoopFlow web UI dashboard and open it in the browser. Shows tasks, insights, and sessions visually. Server auto-stops on loop_handoff or after an inactivity timeout (30 min unless config.json sets ui.timeout_minutes).",
   {
-    port: z.number().optional().describe("Port to run on (default: 3000)"),
+    port: z.number().optional().describe("Port to run on (default: ui.port from config, 3000)"),
     no_open: z.boolean().optional().describe("Don't auto-open browser (default: false)"),
+    ...SESSION_PARAMS,
   },
-  async ({ port = 3000, no_open = false }) => {
-    if (!currentSession) {
+  async ({ port, no_open = false, repo_path, session_id }, extra) => {
+    const session = resolveSession(extra, repo_path, session_id);
+    if (!session) {
       return {
         content: [{
           type: "text" as const,
@@ -1580,21 +2402,22 @@ server.tool(
 
     try {
       // Import the server module
-      const { startManagedServer, isManagedServerRunning } = await import("../api/server.js");
+      const { startManagedServer } = await import("../api/server.js");
       
       // Determine static directory
       const staticDir = path.join(import.meta.dirname, "..", "ui");
       const hasBuiltUI = fs.existsSync(path.join(staticDir, "index.html"));
       
-      const wasAlreadyRunning = isManagedServerRunning();
-      
       // Start the managed server (singleton, auto-shutdown enabled)
+      const uiConfig = session.database.config.ui;
       const managed = startManagedServer({
-        port,
-        repoPath: currentSession.repoPath,
+        port: port ?? uiConfig.port,
+        repoPath: session.repoPath,
         staticDir: hasBuiltUI ? staticDir : undefined,
         managed: true,
       });
+      // Kept running only if it already served this repo on this port
+      const wasAlreadyRunning = managed.reused;
       
       // Auto-open browser (only if not already running)
       if (!no_open && !wasAlreadyRunning) {
@@ -1616,7 +2439,7 @@ server.tool(
               : hasBuiltUI 
                 ? `Web UI running at ${managed.url}` 
                 : `API server running at ${managed.url} (UI not built - run 'npm run build:ui' to enable)`,
-            lifecycle: "Auto-stops on loop_handoff or after 30 min inactivity",
+            lifecycle: `Auto-stops on loop_handoff or after ${uiConfig.timeout_minutes} min inactivity`,
             features: [
               "Dashboard - stats, recent sessions at a glance",
               "Backlog - kanban board view of tasks",
@@ -1647,8 +2470,8 @@ server.tool(
 server.resource(
   "loopflow://workflow",
   "LoopFlow workflow rules (WORKFLOW.md)",
-  async (uri) => {
-    const repoPath = currentSession?.repoPath || findLoopFlowRoot(process.cwd());
+  async (uri, extra) => {
+    const repoPath = resolveSession(extra)?.repoPath || findLoopFlowRoot(process.cwd());
     if (!repoPath) {
       return {
         contents: [{
@@ -1687,10 +2510,13 @@ server.resource(
 // Start Server
 // =============================================================================
 
-async function main() {
+export async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error(`LoopFlow MCP Server v${VERSION} running on stdio`);
 }
 
-main().catch(console.error);
+// Run directly (node dist/mcp/server.js); the CLI's mcp command calls main() itself
+if (process.argv[1] && path.resolve(process.argv[1]) === import.meta.filename) {
+  main().catch(console.error);
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  splitMarkdownSections,
+  trimMarkdownToBudget,
+  markdownOutline,
+  degradeShape,
+  fitToBudget,
+  DETAIL_SHAPES,
+  detailShape,
+  type OrientShape,
+} from "../budget.js";
+
+const WORKFLOW = [
+  "# Workflow",
+  "Intro text.",
+  "## Session Start",
+  "Call loop_orient.",
+  "```",
+  "# not a heading",
+  "```",
+  "## Session End",
+  "x".repeat(400),
+].join("\n");
+
+describe("estimateTokens", () => {
+  it("uses ~4 chars per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("abc")).toBe(1);
+  });
+
+  it("measures serialized objects", () => {
+    expect(estimateTokens({ a: 1 })).toBe(estimateTokens(JSON.stringify({ a: 1 }, null, 2)));
+  });
+});
+
+describe("splitMarkdownSections", () => {
+  it("splits at headings and ignores fenced code", () => {
+    const sections = splitMarkdownSections(WORKFLOW);
+    expect(sections.map(s => s.heading)).toEqual(["Workflow", "Session Start", "Session End"]);
+    expect(sections[1].text).toContain("# not a heading");
+  });
+
+  it("keeps a preamble before the first heading", () => {
+    expect(splitMarkdownSections("hello\n# A\nbody")[0]).toMatchObject({ heading: "", level: 0 });
+  });
+});
+
+describe("trimMarkdownToBudget", () => {
+  it("drops sections that don't fit and reports them", () => {
+    const result = trimMarkdownToBudget(WORKFLOW, 30);
+    expect(result.omitted).toEqual(["Session End"]);
+    expect(result.text).toContain("## Session Start");
+  });
+
+  it("always keeps the first section", () => {
+    expect(trimMarkdownToBudget(WORKFLOW, 0).text).toContain("# Workflow");
+  });
+});
+
+describe("markdownOutline", () => {
+  it("lists headings only", () => {
+    expect(markdownOutline(WORKFLOW)).toEqual(["# Workflow", "## Session Start", "## Session End"]);
+  });
+});
+
+describe("detailShape", () => {
+  it("matches the preset shapes at the default page size", () => {
+    expect(detailShape("full", 50)).toEqual(DETAIL_SHAPES.full);
+    expect(detailShape("standard", 50)).toEqual(DETAIL_SHAPES.standard);
+    expect(detailShape("minimal", 50)).toEqual(DETAIL_SHAPES.minimal);
+  });
+
+  it("scales insight limits with the configured page size", () => {
+    expect(detailShape("full", 200).insightLimit).toBe(200);
+    expect(detailShape("standard", 200).insightLimit).toBe(120);
+    expect(detailShape("minimal", 200).insightLimit).toBe(40);
+    expect(detailShape("minimal", 3).insightLimit).toBe(1);
+  });
+});
+
+describe("degradeShape", () => {
+  it("switches to summaries before dropping insights", () => {
+    expect(degradeShape(DETAIL_SHAPES.full, 1000)).toMatchObject({ insightContent: "summary", insightLimit: 50 });
+  });
+
+  it("eventually runs out of steps", () => {
+    let shape: OrientShape | null = DETAIL_SHAPES.full;
+    let steps = 0;
+    while (shape) {
+      shape = degradeShape(shape, 1000);
+      steps++;
+    }
+    expect(steps).toBeGreaterThan(5);
+    expect(steps).toBeLessThan(20);
+  });
+});
+
+describe("fitToBudget", () => {
+  const build = (shape: OrientShape) => ({
+    insights: Array.from({ length: shape.insightLimit }, () => shape.insightContent === "full" ? "y".repeat(200) : "y".repeat(20)),
+  });
+
+  it("returns the starting shape when there is no budget", () => {
+    const fitted = fitToBudget(build, DETAIL_SHAPES.full);
+    expect(fitted.steps).toBe(0);
+    expect(fitted.shape).toBe(DETAIL_SHAPES.full);
+  });
+
+  it("degrades until the result fits", () => {
+    const fitted = fitToBudget(build, DETAIL_SHAPES.full, 200);
+    expect(fitted.estimatedTokens).toBeLessThanOrEqual(200);
+    expect(fitted.shape.insightContent).toBe("summary");
+    expect(fitted.steps).toBeGreaterThan(0);
+  });
+
+  it("returns the cheapest attempt when nothing fits", () => {
+    const fitted = fitToBudget(() => "z".repeat(1000), DETAIL_SHAPES.full, 10);
+    expect(fitted.estimatedTokens).toBe(250);
+  });
+});
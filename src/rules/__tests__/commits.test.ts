@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  linkCommits,
+  parseLinkedCommits,
+  mergeCommits,
+  prefixCommitMessage,
+  closedTaskIds,
+  type LinkedCommit,
+} from "../commits.js";
+import { createPrefixRegistry } from "../ids.js";
+
+const registry = createPrefixRegistry(["LF"]);
+
+const commit = (sha: string, subject: string, body = "") =>
+  ({ sha, subject, body, author: "Dev", date: `2026-01-22T10:0${sha.length}:00Z` });
+
+describe("linkCommits", () => {
+  it("links commits to tasks in their message and branch", () => {
+    const linked = linkCommits([commit("a", "LF-043: fix", "Refs LF-044"), commit("bb", "tidy up")], "lf-042-sync", registry);
+    expect(linked.map(c => c.task_ids)).toEqual([["LF-043", "LF-044", "LF-042"], ["LF-042"]]);
+    expect(linked[0]).not.toHaveProperty("body");
+  });
+
+  it("links nothing without mentions or a task branch", () => {
+    expect(linkCommits([commit("a", "tidy up")], "main", registry)[0].task_ids).toEqual([]);
+  });
+});
+
+describe("mergeCommits", () => {
+  it("merges by SHA, newest first", () => {
+    const recorded: LinkedCommit = { sha: "a", subject: "s", author: "Dev", date: "2026-01-22T10:00:00Z", task_ids: ["LF-042"] };
+    const merged = mergeCommits(
+      [recorded],
+      [{ ...recorded, task_ids: ["LF-043"] }, { ...recorded, sha: "b", date: "2026-01-23T10:00:00Z" }]
+    );
+    expect(merged.map(c => [c.sha, c.task_ids])).toEqual([["b", ["LF-042"]], ["a", ["LF-042", "LF-043"]]]);
+  });
+
+  it("reads the stored column defensively", () => {
+    expect(parseLinkedCommits(null)).toEqual([]);
+    expect(parseLinkedCommits("oops")).toEqual([]);
+  });
+});
+
+describe("prefixCommitMessage", () => {
+  it("prefixes the task ID", () => {
+    expect(prefixCommitMessage("add sync\n", "LF-042", registry)).toBe("LF-042: add sync\n");
+  });
+
+  it("leaves an empty message so git can abort the commit", () => {
+    // Editor case: empty message followed by git's comment block
+    expect(prefixCommitMessage("\n# Please enter the commit message\n", "LF-042", registry))
+      .toBe("\n# Please enter the commit message\n");
+    expect(prefixCommitMessage("", "LF-042", registry)).toBe("");
+  });
+
+  it("leaves messages that already mention a task", () => {
+    expect(prefixCommitMessage("fix lf-043 crash", "LF-042", registry)).toBe("fix lf-043 crash");
+    expect(prefixCommitMessage("add sync\n# On branch LF-043\n", "LF-042", registry))
+      .toBe("LF-042: add sync\n# On branch LF-043\n");
+  });
+});
+
+describe("closedTaskIds", () => {
+  it("finds closing keywords", () => {
+    expect(closedTaskIds("LF-042: add sync\n\nCloses LF-042, fixes: lf-043.1", registry)).toEqual(["LF-042", "LF-043.1"]);
+    expect(closedTaskIds("resolved LF-7", registry)).toEqual(["LF-007"]);
+  });
+
+  it("ignores plain mentions, unknown prefixes and comments", () => {
+    expect(closedTaskIds("LF-042: closes the dialog", registry)).toEqual([]);
+    expect(closedTaskIds("closes ABC-1, enclosed LF-2", registry)).toEqual([]);
+    expect(closedTaskIds("wip\n# closes LF-042", registry)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeCriteria,
+  parseCriteria,
+  serializeCriteria,
+  mergeCriteria,
+  verifyCriteria,
+  criteriaProgress,
+  criteriaMet,
+  type AcceptanceCriterion,
+} from "../criteria.js";
+
+const NOW = "2026-01-22T10:00:00.000Z";
+
+const criterion = (text: string, met = false): AcceptanceCriterion =>
+  ({ text, met, evidence: null, verified_at: null });
+
+describe("parsing", () => {
+  it("reads legacy strings as unmet criteria", () => {
+    expect(parseCriteria('["Works", "  "]')).toEqual([criterion("Works")]);
+    expect(normalizeCriteria([{ text: "Done", met: true, evidence: "" }, 42])).toEqual([criterion("Done", true)]);
+  });
+
+  it("treats missing or malformed columns as no criteria", () => {
+    expect(parseCriteria(null)).toEqual([]);
+    expect(parseCriteria("not json")).toEqual([]);
+    expect(serializeCriteria([])).toBeNull();
+  });
+});
+
+describe("mergeCriteria", () => {
+  it("keeps the state of criteria given by the same text", () => {
+    const existing = [{ ...criterion("A", true), evidence: "a.test.ts", verified_at: NOW }, criterion("B")];
+    expect(mergeCriteria(existing, ["A", "C"])).toEqual([existing[0], criterion("C")]);
+  });
+
+  it("takes objects as given", () => {
+    expect(mergeCriteria([criterion("A", true)], [{ text: "A" }])).toEqual([criterion("A")]);
+  });
+});
+
+describe("verifyCriteria", () => {
+  const criteria = [criterion("A"), criterion("B")];
+
+  it("ticks criteria by index or text", () => {
+    const result = verifyCriteria(criteria, [{ index: 1, evidence: "abc123" }, { text: "B", met: false }], NOW);
+    expect(result).toEqual({
+      ok: true,
+      criteria: [
+        { text: "A", met: true, evidence: "abc123", verified_at: NOW },
+        { text: "B", met: false, evidence: null, verified_at: NOW },
+      ],
+    });
+    expect(criteria[0].met).toBe(false);
+  });
+
+  it("reports verifications that match nothing", () => {
+    expect(verifyCriteria(criteria, [{ index: 3 }, { text: "A" }, { text: "Z" }], NOW))
+      .toEqual({ ok: false, unmatched: [{ index: 3 }, { text: "Z" }] });
+  });
+});
+
+describe("progress", () => {
+  it("counts met criteria", () => {
+    expect(criteriaProgress([criterion("A", true), criterion("B"), criterion("C")]))
+      .toEqual({ total: 3, met: 1, percent: 33 });
+    expect(criteriaProgress([])).toEqual({ total: 0, met: 0, percent: 0 });
+  });
+
+  it("is met when every criterion is", () => {
+    expect(criteriaMet(serializeCriteria([criterion("A", true)]))).toBe(true);
+    expect(criteriaMet('["Legacy string"]')).toBe(false);
+    expect(criteriaMet(null)).toBe(true);
+  });
+});
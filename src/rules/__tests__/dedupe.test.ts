@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  shingles,
+  jaccard,
+  findDuplicates,
+  duplicateClusters,
+  mergeContent,
+  mergeTags,
+} from "../dedupe.js";
+
+describe("shingles", () => {
+  it("uses stemmed words and word pairs", () => {
+    expect([...shingles("Readers block writers")]).toEqual(["read", "block", "writ", "read block", "block writ"]);
+    expect(jaccard(shingles("readers block the writer"), shingles("Reader blocks writers"))).toBe(1);
+    expect(jaccard(new Set(), shingles("anything"))).toBe(0);
+  });
+});
+
+describe("findDuplicates", () => {
+  const candidates = [
+    { id: "INS-001", content: "WAL mode lets readers proceed while a writer holds the lock" },
+    { id: "INS-002", content: "The CLI prints tables with padded columns" },
+    { id: "INS-003", content: "In WAL mode, readers proceed while the writer holds the lock" },
+  ];
+
+  it("scores candidates and keeps those over the threshold", () => {
+    const matches = findDuplicates("With WAL mode readers proceed while a writer holds the lock", candidates, 0.5);
+    expect(matches.map(m => m.id).sort()).toEqual(["INS-001", "INS-003"]);
+    expect(matches[0].score).toBeGreaterThanOrEqual(matches[1].score);
+    expect(matches[0].score).toBeLessThanOrEqual(1);
+    expect(findDuplicates("Unrelated text about colors", candidates, 0.5)).toEqual([]);
+  });
+});
+
+describe("duplicateClusters", () => {
+  it("groups transitive duplicates and keeps input order", () => {
+    const clusters = duplicateClusters([
+      { id: "INS-001", content: "Token refresh races when two tabs refresh at once" },
+      { id: "INS-002", content: "The CLI prints tables with padded columns" },
+      { id: "INS-003", content: "Token refresh races when two tabs refresh at the same time" },
+      { id: "INS-004", content: "CLI prints tables with padded columns" },
+      { id: "INS-005", content: "Token refresh races when two browser tabs refresh at the same time" },
+    ], 0.5);
+
+    expect(clusters.map(c => c.ids)).toEqual([["INS-001", "INS-003", "INS-005"], ["INS-002", "INS-004"]]);
+    expect(clusters[0].score).toBeGreaterThan(0.5);
+  });
+
+  it("leaves out items without duplicates", () => {
+    expect(duplicateClusters([{ id: "A", content: "one thing" }, { id: "B", content: "another" }], 0.5)).toEqual([]);
+  });
+});
+
+describe("merging", () => {
+  it("appends only content the target doesn't already have", () => {
+    expect(mergeContent("Readers don't block.", ["Readers don't block.", "  Writers serialize. "]))
+      .toBe("Readers don't block.\n\nWriters serialize.");
+  });
+
+  it("unions tags in order", () => {
+    expect(mergeTags([["sqlite", "wal"], ["wal", "locking"], []])).toEqual(["sqlite", "wal", "locking"]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  toDependencyNodes,
+  findCycle,
+  validateDependencies,
+  validateTaskDependencies,
+  topologicalOrder,
+  criticalPath,
+  readyTasks,
+  unmetDependencies,
+  checkStatusTransition,
+  withNode,
+  type DependencyNode,
+} from "../dependencies.js";
+
+function node(id: string, status: string, depends_on: string[] = []): DependencyNode {
+  return { id, status, depends_on };
+}
+
+describe("toDependencyNodes", () => {
+  it("parses JSON depends_on", () => {
+    expect(toDependencyNodes([
+      { id: "LF-1", status: "TODO", depends_on: '["LF-0"]' },
+      { id: "LF-0", status: "DONE", depends_on: null },
+    ])).toEqual([
+      node("LF-1", "TODO", ["LF-0"]),
+      node("LF-0", "DONE"),
+    ]);
+  });
+});
+
+describe("findCycle", () => {
+  it("returns null for acyclic graphs", () => {
+    expect(findCycle([node("A", "TODO", ["B"]), node("B", "TODO")])).toBeNull();
+  });
+
+  it("returns the cycle path", () => {
+    const cycle = findCycle([
+      node("A", "TODO", ["B"]),
+      node("B", "TODO", ["C"]),
+      node("C", "TODO", ["A"]),
+    ]);
+    expect(cycle).toEqual(["A", "B", "C", "A"]);
+  });
+
+  it("detects self-dependency", () => {
+    expect(findCycle([node("A", "TODO", ["A"])])).toEqual(["A", "A"]);
+  });
+});
+
+describe("validateDependencies", () => {
+  it("reports missing IDs", () => {
+    const result = validateDependencies([node("A", "TODO", ["B", "Z"]), node("B", "TODO")]);
+    expect(result.valid).toBe(false);
+    expect(result.missing).toEqual(["Z"]);
+    expect(result.cycle).toBeNull();
+  });
+});
+
+describe("validateTaskDependencies", () => {
+  const graph = [node("A", "TODO", ["B"]), node("B", "TODO"), node("C", "TODO", ["GONE"])];
+
+  it("accepts a valid new task", () => {
+    expect(validateTaskDependencies("D", ["A"], graph).valid).toBe(true);
+  });
+
+  it("ignores dangling references on other tasks", () => {
+    expect(validateTaskDependencies("A", ["B"], graph).missing).toEqual([]);
+  });
+
+  it("rejects an edit that closes a cycle", () => {
+    const result = validateTaskDependencies("B", ["A"], graph);
+    expect(result.valid).toBe(false);
+    expect(result.cycle).toEqual(["A", "B", "A"]);
+  });
+
+  it("rejects unknown IDs", () => {
+    expect(validateTaskDependencies("D", ["NOPE"], graph).missing).toEqual(["NOPE"]);
+  });
+});
+
+describe("topologicalOrder", () => {
+  it("orders dependencies first, keeping input order for ties", () => {
+    const order = topologicalOrder([
+      node("C", "TODO", ["A", "B"]),
+      node("A", "TODO"),
+      node("B", "TODO", ["A"]),
+      node("D", "TODO"),
+    ]);
+    expect(order).toEqual(["A", "B", "C", "D"]);
+  });
+
+  it("returns null for cycles", () => {
+    expect(topologicalOrder([node("A", "TODO", ["B"]), node("B", "TODO", ["A"])])).toBeNull();
+  });
+});
+
+describe("criticalPath", () => {
+  it("returns the longest chain of unfinished work", () => {
+    const path = criticalPath([
+      node("A", "DONE"),
+      node("B", "TODO", ["A"]),
+      node("C", "TODO", ["B"]),
+      node("D", "TODO", ["C"]),
+      node("E", "TODO", ["A"]),
+    ]);
+    expect(path).toEqual(["B", "C", "D"]);
+  });
+
+  it("returns empty for cycles", () => {
+    expect(criticalPath([node("A", "TODO", ["B"]), node("B", "TODO", ["A"])])).toEqual([]);
+  });
+});
+
+describe("readyTasks", () => {
+  it("includes only TODO tasks with all dependencies DONE", () => {
+    const graph = [
+      node("A", "DONE"),
+      node("B", "TODO", ["A"]),
+      node("C", "TODO", ["B"]),
+      node("D", "TODO", ["MISSING"]),
+      node("E", "IN_PROGRESS"),
+    ];
+    expect(readyTasks(graph)).toEqual(["B"]);
+    expect(unmetDependencies("D", graph)).toEqual(["MISSING"]);
+  });
+
+  it("treats cancelled dependencies as met", () => {
+    const graph = [
+      node("A", "CANCELLED"),
+      node("B", "TODO", ["A"]),
+      node("C", "TODO", ["A", "B"]),
+    ];
+    expect(readyTasks(graph)).toEqual(["B"]);
+    expect(unmetDependencies("C", graph)).toEqual(["B"]);
+    expect(checkStatusTransition("C", "DONE", withNode(graph, node("B", "DONE"))).allowed).toBe(true);
+  });
+});
+
+describe("checkStatusTransition", () => {
+  it("rejects DONE while dependencies are unfinished", () => {
+    const result = checkStatusTransition("B", "DONE", [node("A", "IN_PROGRESS"), node("B", "IN_PROGRESS", ["A"])]);
+    expect(result.allowed).toBe(false);
+    expect(result.blocking).toEqual(["A"]);
+  });
+
+  it("allows DONE when dependencies are DONE", () => {
+    const result = checkStatusTransition("B", "DONE", [node("A", "DONE"), node("B", "IN_PROGRESS", ["A"])]);
+    expect(result.allowed).toBe(true);
+  });
+
+  it("rejects reopening a DONE task with started dependents", () => {
+    const result = checkStatusTransition("A", "TODO", [node("A", "DONE"), node("B", "IN_PROGRESS", ["A"])]);
+    expect(result.allowed).toBe(false);
+    expect(result.blocking).toEqual(["B"]);
+  });
+
+  it("allows reopening when dependents haven't started", () => {
+    const result = checkStatusTransition("A", "TODO", [node("A", "DONE"), node("B", "TODO", ["A"])]);
+    expect(result.allowed).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  stem,
+  tokenize,
+  conceptsOf,
+  hashingEmbedding,
+  cosineSimilarity,
+  encodeVector,
+  decodeVector,
+  embeddingText,
+  similarities,
+  topMatches,
+} from "../embeddings.js";
+
+describe("tokenize", () => {
+  it("stems words and drops stopwords", () => {
+    expect(stem("tokens")).toBe("token");
+    expect(stem("refreshing")).toBe("refresh");
+    expect(stem("queries")).toBe(stem("query"));
+    expect(tokenize("Why did the refreshToken queries break?")).toEqual(["refresh", "token", "queri", "break"]);
+  });
+});
+
+describe("conceptsOf", () => {
+  it("maps related words to shared concepts", () => {
+    expect(conceptsOf(stem("token"))).toContain("auth");
+    expect(conceptsOf(stem("authentication"))).toContain("auth");
+    expect(conceptsOf(stem("race"))).toEqual(expect.arrayContaining(["failure", "concurrency"]));
+    expect(conceptsOf("banana")).toEqual([]);
+  });
+});
+
+describe("hashingEmbedding", () => {
+  it("is deterministic and normalized", () => {
+    const vector = hashingEmbedding("Token refresh race", 64);
+    expect(vector).toHaveLength(64);
+    expect(hashingEmbedding("Token refresh race", 64)).toEqual(vector);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(hashingEmbedding("the and of", 64).every(v => v === 0)).toBe(true);
+  });
+
+  it("finds related insights with no words in common", () => {
+    const query = hashingEmbedding("why did auth break");
+    const related = hashingEmbedding("Token refresh race: two tabs refresh at once and the second request fails");
+    const unrelated = hashingEmbedding("The CLI prints tables with padded columns");
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(0.2);
+    expect(cosineSimilarity(query, unrelated)).toBeLessThan(0.05);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("clamps to 0-1 and rejects mismatched vectors", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe("vector encoding", () => {
+  it("round-trips through float32", () => {
+    expect(decodeVector(encodeVector([0.5, -0.25, 1]))).toEqual([0.5, -0.25, 1]);
+  });
+});
+
+describe("embeddingText", () => {
+  it("joins summary, content and tags", () => {
+    expect(embeddingText({ content: "Full text", summary: "Short", tags: JSON.stringify(["auth"]) }))
+      .toBe("Short\nFull text\nauth");
+  });
+});
+
+describe("topMatches", () => {
+  it("keeps the best matches above the threshold", () => {
+    const scores = similarities([1, 0], new Map([["A", [1, 0]], ["B", [1, 1]], ["C", [0, 1]]]));
+    expect(topMatches(scores, { limit: 5, minSimilarity: 0.5 }).map(m => m.id)).toEqual(["A", "B"]);
+    expect(topMatches(scores, { limit: 1, minSimilarity: 0 }).map(m => m.id)).toEqual(["A"]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildInsightGraph, type GraphInsight, type GraphLink } from "../graph.js";
+
+const insight = (id: string, fields: Partial<GraphInsight> = {}): GraphInsight => ({
+  id,
+  content: `Content of ${id}. More detail.`,
+  summary: null,
+  type: "technical",
+  status: "unprocessed",
+  tags: [],
+  ...fields,
+});
+
+const link = (from_id: string, to_id: string): GraphLink => ({ from_id, to_id, relation: "builds_on", note: null });
+
+describe("buildInsightGraph", () => {
+  const insights = [
+    insight("INS-001", { type: "architecture", tags: ["sqlite"] }),
+    insight("INS-002", { tags: ["sqlite"], summary: "WAL mode" }),
+    insight("INS-003", { status: "archived" }),
+    insight("INS-004"),
+  ];
+  const links = [link("INS-002", "INS-001"), link("INS-003", "INS-001")];
+
+  it("turns insights and links into nodes and edges", () => {
+    const graph = buildInsightGraph(insights, links);
+    expect(graph.nodes.map(n => [n.id, n.links])).toEqual([
+      ["INS-001", 2], ["INS-002", 1], ["INS-003", 1], ["INS-004", 0],
+    ]);
+    expect(graph.nodes[0].label).toBe("Content of INS-001.");
+    expect(graph.nodes[1].label).toBe("WAL mode");
+    expect(graph.edges).toEqual([
+      { from: "INS-002", to: "INS-001", relation: "builds_on", note: null },
+      { from: "INS-003", to: "INS-001", relation: "builds_on", note: null },
+    ]);
+  });
+
+  it("filters nodes but keeps link counts from the whole graph", () => {
+    const graph = buildInsightGraph(insights, links, { tag: "sqlite" });
+    expect(graph.nodes.map(n => n.id)).toEqual(["INS-001", "INS-002"]);
+    expect(graph.nodes[0].links).toBe(2);
+    expect(graph.edges).toHaveLength(1);
+
+    expect(buildInsightGraph(insights, links, { status: "archived" }).edges).toEqual([]);
+    expect(buildInsightGraph(insights, links, { type: "architecture" }).nodes.map(n => n.id)).toEqual(["INS-001"]);
+  });
+
+  it("adds tasks that mention shown insights", () => {
+    const graph = buildInsightGraph(insights, links, { tag: "sqlite" }, [
+      { id: "LF-001", title: "[IMPL] Enable WAL", status: "DONE", insight_ids: ["INS-002", "INS-004"] },
+      { id: "LF-002", title: "Unrelated", status: "TODO", insight_ids: ["INS-004"] },
+    ]);
+    expect(graph.nodes.filter(n => n.kind === "task")).toEqual([
+      { id: "LF-001", kind: "task", label: "[IMPL] Enable WAL", type: null, status: "DONE", tags: [], links: 0 },
+    ]);
+    expect(graph.edges).toContainEqual({ from: "LF-001", to: "INS-002", relation: "references", note: null });
+    expect(graph.edges.some(e => e.to === "INS-004")).toBe(false);
+  });
+});
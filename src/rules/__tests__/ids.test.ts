@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizePrefix,
+  validateTaskPrefix,
+  idPrefix,
+  inferTaskPrefix,
+  createPrefixRegistry,
+  resolveEntityKind,
+  partitionIds,
+  extractTaskIds,
+  extractEntityIds,
+} from "../ids.js";
+
+describe("prefixes", () => {
+  it("normalizes user input", () => {
+    expect(normalizePrefix("api")).toBe("API");
+    expect(normalizePrefix(" WEB- ")).toBe("WEB");
+    expect(normalizePrefix("2FA")).toBeNull();
+    expect(normalizePrefix("A B")).toBeNull();
+  });
+
+  it("rejects prefixes owned by other entities", () => {
+    expect(validateTaskPrefix("ins")).toEqual({ ok: false, error: "Prefix INS is reserved" });
+    expect(validateTaskPrefix("api-")).toEqual({ ok: true, prefix: "API" });
+  });
+
+  it("parses ID prefixes", () => {
+    expect(idPrefix("API-007.2")).toBe("API");
+    expect(idPrefix("LF-TEST")).toBeNull();
+    expect(idPrefix("README")).toBeNull();
+  });
+
+  it("infers the dominant task prefix", () => {
+    expect(inferTaskPrefix([])).toBe("LF");
+    expect(inferTaskPrefix(["WEB-001", "API-001", "API-002", "API-002.1"])).toBe("API");
+    expect(inferTaskPrefix(["WEB-001", "API-001"])).toBe("WEB");
+  });
+});
+
+describe("prefix registry", () => {
+  const registry = createPrefixRegistry(["LF", "API", "web", "INS"]);
+
+  it("resolves IDs to entity kinds", () => {
+    expect(resolveEntityKind("INS-012", registry)).toBe("insight");
+    expect(resolveEntityKind("API-007", registry)).toBe("task");
+    expect(resolveEntityKind("WEB-001.2", registry)).toBe("task");
+    expect(resolveEntityKind("FB-001", registry)).toBeNull();
+  });
+
+  it("finds task IDs in commit messages and branch names", () => {
+    expect(extractTaskIds("Fix LF-042 and api-7.2 (see INS-001, LF-042)", registry)).toEqual(["LF-042", "API-007.2"]);
+    expect(extractTaskIds("feature/web-012-login", registry)).toEqual(["WEB-012"]);
+    expect(extractTaskIds("SELF-042, XLF-1, LF-1a, utf-8", registry)).toEqual([]);
+  });
+
+  it("finds insight IDs in task text", () => {
+    expect(extractEntityIds("Per ins-012 and INS-003 (not LF-042); again INS-012", registry, "insight"))
+      .toEqual(["INS-012", "INS-003"]);
+  });
+
+  it("pads IDs the way they are generated", () => {
+    expect(extractEntityIds("INS-12, ins-0012 and INS-1234", registry, "insight")).toEqual(["INS-012", "INS-1234"]);
+    expect(extractTaskIds("LF-42.01 then LF-042.1 and LF-7", registry)).toEqual(["LF-042.1", "LF-007"]);
+  });
+
+  it("partitions IDs and reports unknown ones", () => {
+    expect(partitionIds(["LF-1", "INS-2", "API-3", "XYZ-4", "nonsense"], registry)).toEqual({
+      byKind: { task: ["LF-1", "API-3"], insight: ["INS-2"] },
+      unknown: ["XYZ-4", "nonsense"],
+    });
+  });
+});
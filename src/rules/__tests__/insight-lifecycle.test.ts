@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { resolveLifecycleChange, isActiveInsight, reviewBatch } from "../insight-lifecycle.js";
+
+const insight = (id: string, status = "unprocessed", superseded_by: string | null = null) => ({ id, status, superseded_by });
+
+describe("resolveLifecycleChange", () => {
+  it("sets plain statuses and clears superseded_by when leaving superseded", () => {
+    expect(resolveLifecycleChange(insight("INS-001"), { status: "validated" }, null))
+      .toEqual({ ok: true, changes: { status: "validated", superseded_by: null } });
+    expect(resolveLifecycleChange(insight("INS-001", "superseded", "INS-002"), { status: "discussed" }, null))
+      .toEqual({ ok: true, changes: { status: "discussed", superseded_by: null } });
+  });
+
+  it("supersedes with a replacement, implying the status", () => {
+    expect(resolveLifecycleChange(insight("INS-001"), { superseded_by: "INS-002" }, insight("INS-002", "validated")))
+      .toEqual({ ok: true, changes: { status: "superseded", superseded_by: "INS-002" } });
+    // Already superseded: keeps its replacement
+    expect(resolveLifecycleChange(insight("INS-001", "superseded", "INS-002"), { status: "superseded" }, null))
+      .toEqual({ ok: true, changes: { status: "superseded", superseded_by: "INS-002" } });
+  });
+
+  it("rejects incomplete or invalid supersessions", () => {
+    const fails = (change: { status?: string; superseded_by?: string }, replacement: ReturnType<typeof insight> | null) =>
+      resolveLifecycleChange(insight("INS-001"), change, replacement);
+
+    expect(fails({ status: "superseded" }, null)).toMatchObject({ ok: false, error: expect.stringContaining("needs superseded_by") });
+    expect(fails({ superseded_by: "INS-001" }, insight("INS-001"))).toMatchObject({ ok: false, error: expect.stringContaining("itself") });
+    expect(fails({ superseded_by: "INS-404" }, null)).toMatchObject({ ok: false, error: expect.stringContaining("not found") });
+    expect(fails({ superseded_by: "INS-002" }, insight("INS-002", "superseded", "INS-003")))
+      .toMatchObject({ ok: false, error: "Replacement insight INS-002 is superseded (see INS-003)" });
+    expect(fails({ status: "archived", superseded_by: "INS-002" }, insight("INS-002"))).toMatchObject({ ok: false });
+    expect(fails({ status: "merged" }, null)).toMatchObject({ ok: false });
+    expect(fails({ status: "someday" }, null)).toMatchObject({ ok: false });
+  });
+});
+
+describe("isActiveInsight", () => {
+  it("treats superseded, archived and merged insights as history", () => {
+    expect(["unprocessed", "discussed", "validated"].every(isActiveInsight)).toBe(true);
+    expect(["superseded", "archived", "merged"].some(isActiveInsight)).toBe(false);
+  });
+});
+
+describe("reviewBatch", () => {
+  const queue = [
+    { id: "INS-003", created_at: "2026-01-03" },
+    { id: "INS-001", created_at: "2026-01-01" },
+    { id: "INS-004", created_at: "2026-01-03" },
+    { id: "INS-002", created_at: "2026-01-02" },
+  ];
+
+  it("batches oldest first", () => {
+    expect(reviewBatch(queue, 2)).toEqual({ batch: [queue[1], queue[3]], remaining: 2 });
+  });
+
+  it("continues after the last insight, even once it has left the queue", () => {
+    const after = { id: "INS-003", created_at: "2026-01-03" };
+    expect(reviewBatch(queue.filter(i => i.id !== "INS-003"), 2, after)).toEqual({ batch: [queue[2]], remaining: 0 });
+  });
+});
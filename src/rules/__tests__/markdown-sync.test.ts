@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderTaskMarkdown,
+  parseTaskMarkdown,
+  renderInsightMarkdown,
+  parseInsightMarkdown,
+  parseFrontMatter,
+  decideSync,
+  type MarkdownTask,
+  type MarkdownInsight,
+} from "../markdown-sync.js";
+
+const TASK: MarkdownTask = {
+  id: "LF-042",
+  title: "[IMPL] Sync: markdown <-> sqlite",
+  status: "TODO",
+  status_reason: null,
+  priority: "high",
+  parent_id: null,
+  depends_on: ["LF-001", "LF-002"],
+  test_file: null,
+  description: "Two-way sync.\n\n## Not a section",
+  acceptance_criteria: [
+    { text: "Round-trips", met: true, evidence: "markdown-sync.test.ts", verified_at: "2026-01-22T10:00:00.000Z" },
+    { text: "Reports conflicts", met: false, evidence: null, verified_at: null },
+  ],
+  notes: null,
+};
+
+const INSIGHT: MarkdownInsight = {
+  id: "INS-007",
+  type: "technical",
+  status: "superseded",
+  superseded_by: "INS-009",
+  tags: ["sqlite", "sync"],
+  links: ["INS-001"],
+  content: "Hash the canonical rendering, not the raw file.",
+  notes: "From LF-042",
+};
+
+describe("parseFrontMatter", () => {
+  it("keeps colons in values and parses list keys", () => {
+    const parsed = parseFrontMatter("---\ntitle: a: b\ndepends_on: [LF-1, LF-2]\n---\nbody");
+    expect(parsed?.fields).toEqual({ title: "a: b", depends_on: ["LF-1", "LF-2"] });
+    expect(parsed?.body).toBe("body");
+  });
+
+  it("returns null without front matter", () => {
+    expect(parseFrontMatter("# Just a heading")).toBeNull();
+  });
+});
+
+describe("task markdown", () => {
+  it("round-trips", () => {
+    const parsed = parseTaskMarkdown(renderTaskMarkdown(TASK));
+    expect(parsed).toEqual({ ok: true, value: TASK });
+  });
+
+  it("round-trips a subtask's parent", () => {
+    const subtask = { ...TASK, id: "LF-042.1", parent_id: "LF-042" };
+    const markdown = renderTaskMarkdown(subtask);
+    expect(markdown).toContain("parent_id: LF-042\n");
+    expect(parseTaskMarkdown(markdown)).toEqual({ ok: true, value: subtask });
+  });
+
+  it("accepts checkbox criteria and lowercase status", () => {
+    const markdown = "---\nid: LF-1\ntitle: T\nstatus: done\n---\n\n## Acceptance Criteria\n\n- [x] First\n* Second\n";
+    const parsed = parseTaskMarkdown(markdown);
+    expect(parsed.ok && parsed.value).toMatchObject({
+      status: "DONE",
+      priority: "medium",
+    });
+    expect(parsed.ok && parsed.value.acceptance_criteria.map(c => [c.text, c.met])).toEqual([
+      ["First", true],
+      ["Second", false],
+    ]);
+  });
+
+  it("rejects unknown statuses and missing fields", () => {
+    expect(parseTaskMarkdown("---\nid: LF-1\ntitle: T\nstatus: SOMEDAY\n---\n")).toMatchObject({ ok: false });
+    expect(parseTaskMarkdown("---\nid: LF-1\nstatus: TODO\n---\n")).toMatchObject({ ok: false });
+  });
+
+  it("validates against a repo's own vocabulary", () => {
+    const vocabulary = { statuses: ["TODO", "IN_REVIEW", "DONE"], priorities: ["P0", "P1"], default_priority: "P1" };
+    const parsed = parseTaskMarkdown("---\nid: LF-1\ntitle: T\nstatus: in_review\n---\n", vocabulary);
+    expect(parsed.ok && parsed.value).toMatchObject({ status: "IN_REVIEW", priority: "P1" });
+    expect(parseTaskMarkdown("---\nid: LF-1\ntitle: T\nstatus: BLOCKED\n---\n", vocabulary)).toMatchObject({ ok: false });
+  });
+});
+
+describe("insight markdown", () => {
+  it("round-trips", () => {
+    expect(parseInsightMarkdown(renderInsightMarkdown(INSIGHT))).toEqual({ ok: true, value: INSIGHT });
+  });
+
+  it("requires content", () => {
+    expect(parseInsightMarkdown("---\nid: INS-1\ntype: technical\nstatus: unprocessed\n---\n")).toMatchObject({ ok: false });
+  });
+
+  it("validates the type against the repo's types", () => {
+    const parsed = parseInsightMarkdown("---\nid: INS-1\ntype: Domain\nstatus: unprocessed\n---\nText\n");
+    expect(parsed.ok && parsed.value.type).toBe("domain");
+    expect(parseInsightMarkdown("---\nid: INS-1\ntype: musing\nstatus: unprocessed\n---\nText\n")).toMatchObject({ ok: false });
+    expect(parseInsightMarkdown("---\nid: INS-1\ntype: musing\nstatus: unprocessed\n---\nText\n", { types: ["musing"] }))
+      .toMatchObject({ ok: true });
+  });
+});
+
+describe("decideSync", () => {
+  it("exports new records and imports new files", () => {
+    expect(decideSync({ dbHash: "a", fileHash: null, baseHash: null })).toBe("export");
+    expect(decideSync({ dbHash: null, fileHash: "a", baseHash: null })).toBe("import");
+  });
+
+  it("follows whichever side moved away from the base", () => {
+    expect(decideSync({ dbHash: "b", fileHash: "a", baseHash: "a" })).toBe("export");
+    expect(decideSync({ dbHash: "a", fileHash: "b", baseHash: "a" })).toBe("import");
+    expect(decideSync({ dbHash: "a", fileHash: "a", baseHash: null })).toBe("unchanged");
+  });
+
+  it("reports conflicts when both sides changed", () => {
+    expect(decideSync({ dbHash: "b", fileHash: "c", baseHash: "a" })).toBe("conflict");
+    expect(decideSync({ dbHash: "b", fileHash: "c", baseHash: null })).toBe("conflict");
+  });
+
+  it("treats a deleted file of an unchanged record as a conflict", () => {
+    expect(decideSync({ dbHash: "a", fileHash: null, baseHash: "a" })).toBe("conflict");
+  });
+});
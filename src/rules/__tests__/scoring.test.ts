@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeBm25,
+  recencyScore,
+  typeLeverage,
+  centralityScore,
+  extractTerms,
+  taskRelevance,
+  hybridTextScore,
+  scoreItems,
+  type ScorableItem,
+} from "../scoring.js";
+
+const NOW = "2026-03-01T00:00:00.000Z";
+
+function item(id: string, overrides: Partial<ScorableItem> = {}): ScorableItem {
+  return { id, text: "", created_at: NOW, ...overrides };
+}
+
+describe("normalizeBm25", () => {
+  it("gives the best rank 1 and scales the rest", () => {
+    expect(normalizeBm25(-4, -4)).toBe(1);
+    expect(normalizeBm25(-2, -4)).toBe(0.5);
+  });
+
+  it("returns 0 for non-matches", () => {
+    expect(normalizeBm25(0, -4)).toBe(0);
+  });
+});
+
+describe("recencyScore", () => {
+  it("is 1 for items created now", () => {
+    expect(recencyScore(NOW, NOW)).toBe(1);
+  });
+
+  it("halves every half-life", () => {
+    expect(recencyScore("2026-01-30T00:00:00.000Z", NOW, 30)).toBeCloseTo(0.5);
+  });
+
+  it("decays over time", () => {
+    expect(recencyScore("2025-01-01T00:00:00.000Z", NOW)).toBeLessThan(recencyScore("2026-02-01T00:00:00.000Z", NOW));
+  });
+});
+
+describe("typeLeverage", () => {
+  it("ranks process highest and technical lowest", () => {
+    expect(typeLeverage("process")).toBeGreaterThan(typeLeverage("architecture"));
+    expect(typeLeverage("architecture")).toBeGreaterThan(typeLeverage("technical"));
+  });
+
+  it("defaults unknown types to the lowest leverage", () => {
+    expect(typeLeverage("whatever")).toBe(typeLeverage("technical"));
+  });
+});
+
+describe("centralityScore", () => {
+  it("is 0 for orphans and 1 for the best-connected", () => {
+    expect(centralityScore(0, 5)).toBe(0);
+    expect(centralityScore(5, 5)).toBe(1);
+  });
+});
+
+describe("taskRelevance", () => {
+  it("drops stopwords and short terms", () => {
+    expect(extractTerms("[IMPL] Add the FTS search to it")).toEqual(["fts", "search"]);
+  });
+
+  it("reports the fraction of task terms matched", () => {
+    const result = taskRelevance("FTS5 search uses bm25", "[IMPL] Improve search ranking");
+    expect(result.matched).toEqual(["search"]);
+    expect(result.score).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("hybridTextScore", () => {
+  it("blends bm25 with similarity, falling back to bm25 without an embedding", () => {
+    expect(hybridTextScore(1, 0.5)).toBe(0.75);
+    expect(hybridTextScore(0, 0.6)).toBe(0.3);
+    expect(hybridTextScore(0.8, null)).toBe(0.8);
+  });
+});
+
+describe("scoreItems", () => {
+  it("orders by bm25 when other signals are equal", () => {
+    const ranked = scoreItems(
+      [item("A", { rank: -1 }), item("B", { rank: -5 })],
+      x => x,
+      { now: NOW }
+    );
+    expect(ranked.map(r => r.item.id)).toEqual(["B", "A"]);
+    expect(ranked[0].reasons).toContain("query match 1.00");
+  });
+
+  it("ranks semantic-only matches by similarity", () => {
+    const ranked = scoreItems(
+      [item("A", { rank: null, similarity: 0.2 }), item("B", { rank: null, similarity: 0.4 })],
+      x => x,
+      { now: NOW }
+    );
+    expect(ranked.map(r => r.item.id)).toEqual(["B", "A"]);
+    expect(ranked[0].reasons).toEqual(["semantic match 0.40", "captured today"]);
+  });
+
+  it("prefers higher-leverage types", () => {
+    const ranked = scoreItems(
+      [item("T", { type: "technical" }), item("P", { type: "process" })],
+      x => x,
+      { now: NOW }
+    );
+    expect(ranked[0].item.id).toBe("P");
+    expect(ranked[0].reasons).toContain("high-leverage type: process");
+  });
+
+  it("boosts items related to the active task", () => {
+    const ranked = scoreItems(
+      [item("A", { text: "unrelated note" }), item("B", { text: "sqlite migration gotcha" })],
+      x => x,
+      { now: NOW, activeTask: { id: "LF-9", text: "[IMPL] SQLite migration" } }
+    );
+    expect(ranked[0].item.id).toBe("B");
+    expect(ranked[0].reasons).toContain("relates to LF-9 (sqlite, migration)");
+  });
+
+  it("treats items captured under the active task as fully relevant", () => {
+    const [top] = scoreItems(
+      [item("A", { source_task: "LF-9" })],
+      x => x,
+      { now: NOW, activeTask: { id: "LF-9", text: "anything" } }
+    );
+    expect(top.reasons).toContain("captured during LF-9");
+  });
+
+  it("keeps scores in 0-1 and input order for ties", () => {
+    const ranked = scoreItems(
+      [item("A", { link_count: 3 }), item("B"), item("C")],
+      x => x,
+      { now: "2030-01-01T00:00:00.000Z" }
+    );
+    expect(ranked.map(r => r.item.id)).toEqual(["A", "B", "C"]);
+    for (const r of ranked) {
+      expect(r.score).toBeGreaterThanOrEqual(0);
+      expect(r.score).toBeLessThanOrEqual(1);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  parentTaskId,
+  compareTaskIds,
+  computeProgress,
+  buildTaskTree,
+  type HierarchyNode,
+} from "../subtasks.js";
+
+function node(id: string, status: string, parent_id: string | null = null): HierarchyNode {
+  return { id, status, parent_id };
+}
+
+describe("parentTaskId", () => {
+  it("strips the last dotted segment", () => {
+    expect(parentTaskId("LF-042.1")).toBe("LF-042");
+    expect(parentTaskId("LF-042.1.12")).toBe("LF-042.1");
+  });
+
+  it("returns null for top-level IDs", () => {
+    expect(parentTaskId("LF-042")).toBeNull();
+    expect(parentTaskId("LF-042.x")).toBeNull();
+  });
+});
+
+describe("compareTaskIds", () => {
+  it("orders numeric segments naturally", () => {
+    expect(["LF-042.10", "LF-042.2", "LF-042.1"].sort(compareTaskIds))
+      .toEqual(["LF-042.1", "LF-042.2", "LF-042.10"]);
+  });
+});
+
+describe("computeProgress", () => {
+  it("counts done subtasks and ignores cancelled ones", () => {
+    const progress = computeProgress([
+      node("LF-1", "IN_PROGRESS"),
+      node("LF-1.1", "DONE", "LF-1"),
+      node("LF-1.2", "TODO", "LF-1"),
+      node("LF-1.3", "CANCELLED", "LF-1"),
+    ]);
+    expect(progress.get("LF-1")).toEqual({ total: 2, done: 1, percent: 50 });
+    expect(progress.has("LF-1.1")).toBe(false);
+  });
+
+  it("rolls nested subtasks up by completion", () => {
+    const progress = computeProgress([
+      node("LF-1", "TODO"),
+      node("LF-1.1", "DONE", "LF-1"),
+      node("LF-1.2", "IN_PROGRESS", "LF-1"),
+      node("LF-1.2.1", "DONE", "LF-1.2"),
+      node("LF-1.2.2", "TODO", "LF-1.2"),
+    ]);
+    expect(progress.get("LF-1.2")).toEqual({ total: 2, done: 1, percent: 50 });
+    expect(progress.get("LF-1")).toEqual({ total: 2, done: 1, percent: 75 });
+  });
+
+  it("survives parent_id cycles", () => {
+    const progress = computeProgress([node("A", "TODO", "B"), node("B", "DONE", "A")]);
+    expect(progress.size).toBeGreaterThan(0);
+  });
+});
+
+describe("buildTaskTree", () => {
+  it("nests children in ID order under their parents", () => {
+    const tree = buildTaskTree([
+      node("LF-2", "TODO"),
+      node("LF-1.10", "TODO", "LF-1"),
+      node("LF-1", "TODO"),
+      node("LF-1.2", "TODO", "LF-1"),
+    ]);
+    expect(tree.map(n => n.task.id)).toEqual(["LF-2", "LF-1"]);
+    expect(tree[1].children.map(n => n.task.id)).toEqual(["LF-1.2", "LF-1.10"]);
+  });
+
+  it("treats tasks with a missing parent as roots", () => {
+    const tree = buildTaskTree([node("LF-1.1", "TODO", "LF-1")]);
+    expect(tree).toHaveLength(1);
+    expect(tree[0].children).toEqual([]);
+  });
+
+  it("places every task exactly once even with cycles", () => {
+    const tree = buildTaskTree([node("A", "TODO", "B"), node("B", "TODO", "A")]);
+    const count = (nodes: typeof tree): number =>
+      nodes.reduce((n, t) => n + 1 + count(t.children), 0);
+    expect(count(tree)).toBe(2);
+  });
+});
@@ -4,6 +4,7 @@ import {
   truncateAtWord,
   summarizeInsight,
   summarizeTask,
+  splitTaskTitle,
   isShortContent,
 } from "../summarization.js";
 
@@ -89,6 +90,16 @@ describe("summarizeInsight", () => {
   });
 });
 
+describe("splitTaskTitle", () => {
+  it("splits the type prefix from the title", () => {
+    expect(splitTaskTitle("[IMPL] Add feature X")).toEqual({ type: "[IMPL]", title: "Add feature X" });
+  });
+
+  it("returns null type without a prefix", () => {
+    expect(splitTaskTitle("Plain title")).toEqual({ type: null, title: "Plain title" });
+  });
+});
+
 describe("summarizeTask", () => {
   it("preserves task type prefix", () => {
     const title = "[IMPL] SQLite Schema & Migrations";
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTestReport,
+  testFileMatches,
+  summarizeTestFile,
+  unmatchedTestFiles,
+  taskTestStatus,
+} from "../test-report.js";
+
+const VITEST_JUNIT = `<?xml version="1.0" encoding="UTF-8" ?>
+<testsuites name="vitest tests" tests="4" failures="1" errors="0">
+  <testsuite name="src/rules/__tests__/sync.test.ts" tests="3" failures="1" skipped="1">
+    <testcase classname="src/rules/__tests__/sync.test.ts" name="sync &gt; round-trips" time="0.01">
+    </testcase>
+    <testcase classname="src/rules/__tests__/sync.test.ts" name="sync &gt; reports conflicts" time="0.02">
+      <failure message="expected &apos;a&apos; to be &apos;b&apos;" type="AssertionError">AssertionError: ...</failure>
+    </testcase>
+    <testcase classname="src/rules/__tests__/sync.test.ts" name="sync &gt; later" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+  <testsuite name="src/cli/__tests__/init.test.ts" tests="1">
+    <testcase classname="src/cli/__tests__/init.test.ts" name="init &gt; creates files" time="0.1"/>
+  </testsuite>
+</testsuites>`;
+
+const VITEST_JSON = JSON.stringify({
+  numTotalTests: 3,
+  testResults: [
+    {
+      name: "/home/dev/repo/src/rules/__tests__/sync.test.ts",
+      status: "failed",
+      assertionResults: [
+        { fullName: "sync round-trips", title: "round-trips", status: "passed" },
+        { fullName: "sync reports conflicts", title: "reports conflicts", status: "failed" },
+        { fullName: "sync later", title: "later", status: "todo" },
+      ],
+    },
+    { name: "/home/dev/repo/src/broken.test.ts", status: "failed", message: "SyntaxError: Unexpected token\n  at ...", assertionResults: [] },
+  ],
+});
+
+describe("parseTestReport", () => {
+  it("reads vitest JUnit XML", () => {
+    const parsed = parseTestReport(VITEST_JUNIT);
+    expect(parsed.ok && parsed.format).toBe("junit");
+    if (!parsed.ok) return;
+    expect(parsed.cases).toEqual([
+      { file: "src/rules/__tests__/sync.test.ts", name: "sync > round-trips", outcome: "passed" },
+      { file: "src/rules/__tests__/sync.test.ts", name: "sync > reports conflicts", outcome: "failed" },
+      { file: "src/rules/__tests__/sync.test.ts", name: "sync > later", outcome: "skipped" },
+      { file: "src/cli/__tests__/init.test.ts", name: "init > creates files", outcome: "passed" },
+    ]);
+  });
+
+  it("prefers file attributes over suite names", () => {
+    const xml = `<testsuite name="Sync" file="tests/sync.spec.js"><testcase name="works" classname="Sync works"/></testsuite>`;
+    const parsed = parseTestReport(xml);
+    expect(parsed.ok && parsed.cases[0].file).toBe("tests/sync.spec.js");
+  });
+
+  it("reads jest-style JSON, counting files that failed to load", () => {
+    const parsed = parseTestReport(VITEST_JSON);
+    expect(parsed.ok && parsed.format).toBe("json");
+    if (!parsed.ok) return;
+    expect(parsed.cases.map(c => c.outcome)).toEqual(["passed", "failed", "skipped", "failed"]);
+    expect(parsed.cases[3]).toMatchObject({ file: "/home/dev/repo/src/broken.test.ts", name: "SyntaxError: Unexpected token" });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseTestReport("not a report")).toMatchObject({ ok: false });
+    expect(parseTestReport('{"results": []}')).toMatchObject({ ok: false });
+    expect(parseTestReport("<html></html>")).toMatchObject({ ok: false });
+  });
+});
+
+describe("matching", () => {
+  it("matches relative, absolute and directory paths", () => {
+    expect(testFileMatches("src/a.test.ts", "src/a.test.ts")).toBe(true);
+    expect(testFileMatches("./src/a.test.ts", "/home/dev/repo/src/a.test.ts")).toBe(true);
+    expect(testFileMatches("src/a.test.ts", "src/ba.test.ts")).toBe(false);
+    expect(testFileMatches("src/rules/", "/repo/src/rules/__tests__/x.test.ts")).toBe(true);
+    expect(testFileMatches("", "src/a.test.ts")).toBe(false);
+  });
+
+  it("summarizes a task's file and lists unlinked files", () => {
+    const parsed = parseTestReport(VITEST_JSON);
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(summarizeTestFile(parsed.cases, "src/rules/__tests__/sync.test.ts")).toEqual({
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+      total: 3,
+      failing: ["sync reports conflicts"],
+    });
+    expect(summarizeTestFile(parsed.cases, "src/other.test.ts")).toBeNull();
+    expect(unmatchedTestFiles(parsed.cases, ["src/rules/__tests__/sync.test.ts"]))
+      .toEqual(["/home/dev/repo/src/broken.test.ts"]);
+  });
+});
+
+describe("taskTestStatus", () => {
+  const result = {
+    test_file: "src/a.test.ts",
+    passed: 3,
+    failed: 2,
+    skipped: 1,
+    failing: '["a > b", "a > c"]',
+    recorded_at: "2026-01-22T10:00:00.000Z",
+  };
+
+  it("formats the latest result", () => {
+    expect(taskTestStatus("src/a.test.ts", result)).toMatchObject({
+      summary: "3/5 tests passing",
+      failing: ["a > b", "a > c"],
+    });
+  });
+
+  it("ignores results for a test file the task no longer has", () => {
+    expect(taskTestStatus("src/b.test.ts", result)).toBeNull();
+    expect(taskTestStatus(null, result)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  allowedTargets,
+  checkTransition,
+  checkTaskUpdate,
+  boardColumns,
+  type Workflow,
+  type TransitionTask,
+} from "../workflow.js";
+
+const WORKFLOW: Workflow = {
+  statuses: ["TODO", "IN_PROGRESS", "REVIEW", "DONE", "BLOCKED", "CANCELLED"],
+  transitions: {
+    TODO: ["IN_PROGRESS", "CANCELLED"],
+    IN_PROGRESS: ["REVIEW", "BLOCKED"],
+    REVIEW: ["IN_PROGRESS", "DONE"],
+  },
+  requirements: { BLOCKED: ["reason"], DONE: ["acceptance_criteria_met"], REVIEW: ["description"] },
+};
+
+const TASK: TransitionTask = { description: "Do it", notes: null, test_file: null, acceptance_criteria: null };
+
+describe("transitions", () => {
+  it("uses the configured targets, or any status when unlisted", () => {
+    expect(allowedTargets(WORKFLOW, "TODO")).toEqual(["IN_PROGRESS", "CANCELLED"]);
+    expect(allowedTargets(WORKFLOW, "BLOCKED")).toEqual(["TODO", "IN_PROGRESS", "REVIEW", "DONE", "CANCELLED"]);
+  });
+
+  it("rejects moves the workflow doesn't allow", () => {
+    const check = checkTransition(WORKFLOW, { from: "TODO", to: "DONE", task: TASK });
+    expect(check).toEqual({ ok: false, error: "Cannot move from TODO to DONE", allowed: ["IN_PROGRESS", "CANCELLED"] });
+    expect(checkTransition(WORKFLOW, { from: "TODO", to: "SOMEDAY", task: TASK }).ok).toBe(false);
+  });
+
+  it("checks requirements of the target status", () => {
+    expect(checkTransition(WORKFLOW, { from: "IN_PROGRESS", to: "BLOCKED", task: TASK }))
+      .toMatchObject({ ok: false, missing: ["reason"] });
+    expect(checkTransition(WORKFLOW, { from: "IN_PROGRESS", to: "BLOCKED", reason: "Waiting on API keys", task: TASK }).ok)
+      .toBe(true);
+    expect(checkTransition(WORKFLOW, { from: "IN_PROGRESS", to: "REVIEW", task: { ...TASK, description: " " } }))
+      .toMatchObject({ ok: false, missing: ["description"] });
+  });
+
+  it("applies requirements to new tasks without a transition check", () => {
+    expect(checkTransition(WORKFLOW, { from: null, to: "BLOCKED", task: TASK }).ok).toBe(false);
+    expect(checkTransition(WORKFLOW, { from: null, to: "DONE", task: TASK }).ok).toBe(true);
+  });
+});
+
+describe("checkTaskUpdate", () => {
+  const existing = { ...TASK, status: "REVIEW", acceptance_criteria: JSON.stringify([{ text: "Works", met: false }]) };
+
+  it("ignores updates that keep the status", () => {
+    expect(checkTaskUpdate(WORKFLOW, existing, { notes: "x" }).ok).toBe(true);
+    expect(checkTaskUpdate(WORKFLOW, existing, { status: "REVIEW" }).ok).toBe(true);
+  });
+
+  it("judges requirements on the updated task", () => {
+    expect(checkTaskUpdate(WORKFLOW, existing, { status: "DONE" }).ok).toBe(false);
+    const checked = JSON.stringify([{ text: "Works", met: true }]);
+    expect(checkTaskUpdate(WORKFLOW, existing, { status: "DONE", acceptance_criteria: checked }).ok).toBe(true);
+  });
+});
+
+describe("boardColumns", () => {
+  it("shows every status but CANCELLED unless configured", () => {
+    expect(boardColumns(WORKFLOW)).toEqual(["TODO", "IN_PROGRESS", "REVIEW", "DONE", "BLOCKED"]);
+    expect(boardColumns({ ...WORKFLOW, board_columns: ["TODO", "DONE"] })).toEqual(["TODO", "DONE"]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Token Budget Rules (Pure Functions)
+ *
+ * Token estimation and progressive-disclosure shapes for loop_orient.
+ * Orient starts from a detail level and degrades one step at a time
+ * until the estimated payload fits the caller's token budget.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Token Estimation
+// =============================================================================
+
+// ~4 characters per token is the usual heuristic for English + JSON
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate tokens for a string, or for a value serialized the way tools return it
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value, null, 2) ?? "";
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// =============================================================================
+// Markdown Sections
+// =============================================================================
+
+export interface MarkdownSection {
+  heading: string;   // "" for the preamble before the first heading
+  level: number;     // 0 for the preamble
+  text: string;      // Heading line + body
+}
+
+/**
+ * Split markdown at h1-h3 headings. Headings inside code fences are ignored.
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { heading: "", level: 0, text: "" };
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (line.trimStart().startsWith("```")) {
+      inFence = !inFence;
+    }
+    const match = !inFence ? line.match(/^(#{1,3})\s+(.+)$/) : null;
+    if (match) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: match[2].trim(), level: match[1].length, text: "" };
+    }
+    current.text += (current.text ? "\n" : "") + line;
+  }
+  if (current.text.trim()) sections.push(current);
+
+  return sections;
+}
+
+/**
+ * Keep whole sections, in order, while they fit the budget.
+ * The first section (title/preamble) is always kept.
+ */
+export function trimMarkdownToBudget(
+  markdown: string,
+  budgetTokens: number
+): { text: string; omitted: string[] } {
+  const sections = splitMarkdownSections(markdown);
+  const kept: string[] = [];
+  const omitted: string[] = [];
+  let used = 0;
+
+  sections.forEach((section, index) => {
+    const cost = estimateTokens(section.text);
+    if (index === 0 || used + cost <= budgetTokens) {
+      kept.push(section.text);
+      used += cost;
+    } else {
+      omitted.push(section.heading);
+    }
+  });
+
+  return { text: kept.join("\n"), omitted };
+}
+
+/**
+ * Headings only - the cheapest view of a markdown document
+ */
+export function markdownOutline(markdown: string): string[] {
+  return splitMarkdownSections(markdown)
+    .filter(s => s.level > 0)
+    .map(s => `${"#".repeat(s.level)} ${s.heading}`);
+}
+
+// =============================================================================
+// Orient Shapes
+// =============================================================================
+
+export type DetailLevel = "minimal" | "standard" | "full";
+
+export interface OrientShape {
+  insightContent: "full" | "summary";
+  insightLimit: number;
+  workflow: "full" | "sections" | "outline";
+  workflowBudget: number;      // Token budget for WORKFLOW.md in "sections" mode
+  sessionLimit: number;
+}
+
+export const DETAIL_SHAPES: Record<DetailLevel, OrientShape> = {
+  full: { insightContent: "full", insightLimit: 50, workflow: "full", workflowBudget: Infinity, sessionLimit: 5 },
+  standard: { insightContent: "summary", insightLimit: 30, workflow: "full", workflowBudget: Infinity, sessionLimit: 5 },
+  minimal: { insightContent: "summary", insightLimit: 10, workflow: "outline", workflowBudget: 0, sessionLimit: 2 },
+};
+
+/**
+ * Starting shape for a detail level with the repo's orient page size: the full
+ * shape shows that many insights, the others the same share as at the default 50
+ */
+export function detailShape(level: DetailLevel, orientInsights: number): OrientShape {
+  const shape = DETAIL_SHAPES[level];
+  return {
+    ...shape,
+    insightLimit: Math.ceil(orientInsights * shape.insightLimit / DETAIL_SHAPES.full.insightLimit),
+  };
+}
+
+/**
+ * Next cheaper shape, or null when nothing is left to trim. Order:
+ * insight content -> insight count -> workflow sections -> sessions -> workflow outline -> no insights
+ */
+export function degradeShape(shape: OrientShape, budgetTokens: number): OrientShape | null {
+  if (shape.insightContent === "full") {
+    return { ...shape, insightContent: "summary" };
+  }
+  if (shape.insightLimit > 10) {
+    return { ...shape, insightLimit: Math.max(10, Math.floor(shape.insightLimit / 2)) };
+  }
+  if (shape.workflow === "full") {
+    // WORKFLOW.md gets up to 40% of the budget; later steps shrink it further
+    return { ...shape, workflow: "sections", workflowBudget: Math.floor(budgetTokens * 0.4) };
+  }
+  if (shape.workflow === "sections" && shape.workflowBudget > budgetTokens * 0.1) {
+    return { ...shape, workflowBudget: Math.floor(shape.workflowBudget / 2) };
+  }
+  if (shape.sessionLimit > 1) {
+    return { ...shape, sessionLimit: 1 };
+  }
+  if (shape.workflow !== "outline") {
+    return { ...shape, workflow: "outline", workflowBudget: 0 };
+  }
+  if (shape.insightLimit > 0) {
+    return { ...shape, insightLimit: shape.insightLimit > 3 ? 3 : 0 };
+  }
+  return null;
+}
+
+/**
+ * Build with the starting shape, then degrade until the result fits.
+ * Returns the last (cheapest) attempt if nothing fits.
+ */
+export function fitToBudget<T>(
+  build: (shape: OrientShape) => T,
+  start: OrientShape,
+  budgetTokens?: number
+): { result: T; shape: OrientShape; estimatedTokens: number; steps: number } {
+  let shape = start;
+  let result = build(shape);
+  let estimatedTokens = estimateTokens(result);
+  let steps = 0;
+
+  while (budgetTokens !== undefined && estimatedTokens > budgetTokens) {
+    const next = degradeShape(shape, budgetTokens);
+    if (!next) break;
+    shape = next;
+    result = build(shape);
+    estimatedTokens = estimateTokens(result);
+    steps++;
+  }
+
+  return { result, shape, estimatedTokens, steps };
+}
@@ -0,0 +1,114 @@
+/**
+ * Commit Rules (Pure Functions)
+ *
+ * Ties commits to tasks: a commit belongs to every task its message mentions,
+ * and to the task named in the branch it was made on (lf-042-sync -> LF-042).
+ * Also the message rules behind the git hooks: prefixing a message with the
+ * task in progress, and "closes LF-042" keywords.
+ * No I/O - all functions are pure.
+ */
+
+import { extractTaskIds, type PrefixRegistry } from "./ids.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CommitInput {
+  sha: string;
+  subject: string;
+  body: string;
+  author: string;
+  date: string;
+}
+
+/**
+ * A commit as recorded on a session (sessions.commits)
+ */
+export interface LinkedCommit {
+  sha: string;
+  subject: string;
+  author: string;
+  date: string;
+  task_ids: string[];
+}
+
+// =============================================================================
+// Linking
+// =============================================================================
+
+/**
+ * Tag commits with the tasks they belong to (message mentions first, then the branch's)
+ */
+export function linkCommits(commits: CommitInput[], branch: string | null, registry: PrefixRegistry): LinkedCommit[] {
+  const branchIds = branch ? extractTaskIds(branch, registry) : [];
+  return commits.map(commit => ({
+    sha: commit.sha,
+    subject: commit.subject,
+    author: commit.author,
+    date: commit.date,
+    task_ids: [...new Set([...extractTaskIds(`${commit.subject}\n${commit.body}`, registry), ...branchIds])],
+  }));
+}
+
+/**
+ * Commits recorded on a session (JSON column, or null)
+ */
+export function parseLinkedCommits(json: string | null): LinkedCommit[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed as LinkedCommit[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Merge commit lists (e.g. recorded on sessions and found in git log), newest first, one entry per SHA
+ */
+export function mergeCommits(...lists: LinkedCommit[][]): LinkedCommit[] {
+  const bySha = new Map<string, LinkedCommit>();
+  for (const commit of lists.flat()) {
+    const seen = bySha.get(commit.sha);
+    bySha.set(commit.sha, seen
+      ? { ...seen, task_ids: [...new Set([...seen.task_ids, ...commit.task_ids])] }
+      : commit);
+  }
+  return [...bySha.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// =============================================================================
+// Commit Messages
+// =============================================================================
+
+// "closes LF-042", "Fixes: LF-042", "resolved lf-042.1" (GitHub's closing keywords)
+const CLOSE_PATTERN = /(?<![A-Za-z0-9])(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+([A-Za-z][A-Za-z0-9]*-\d+(?:\.\d+)*)(?![A-Za-z0-9])/gi;
+
+/**
+ * The message without git's comment lines ("# Please enter the commit message...")
+ */
+export function stripCommentLines(message: string): string {
+  return message.split("\n").filter(line => !line.startsWith("#")).join("\n");
+}
+
+/**
+ * Prefix a commit message with a task ID ("LF-042: add sync"). Unchanged when
+ * the message already mentions a task, or is empty so git can still abort the
+ * commit (the editor template before anything is typed).
+ */
+export function prefixCommitMessage(message: string, taskId: string, registry: PrefixRegistry): string {
+  const content = stripCommentLines(message);
+  if (content.trim() === "" || extractTaskIds(content, registry).length > 0) {
+    return message;
+  }
+  return `${taskId}: ${message}`;
+}
+
+/**
+ * Task IDs a commit message closes ("closes LF-042", "fixes LF-043")
+ */
+export function closedTaskIds(message: string, registry: PrefixRegistry): string[] {
+  const ids = [...stripCommentLines(message).matchAll(CLOSE_PATTERN)].map(match => match[1]);
+  return extractTaskIds(ids.join(" "), registry);
+}
@@ -0,0 +1,150 @@
+/**
+ * Acceptance Criteria Rules (Pure Functions)
+ *
+ * Criteria are stored as objects so each one can be checked off with a
+ * record of how it was verified:
+ *   { text, met, evidence, verified_at }
+ * Older tasks stored plain strings; those read as unmet criteria.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AcceptanceCriterion {
+  text: string;
+  met: boolean;
+  evidence: string | null;       // Test name, commit, or a note on how it was checked
+  verified_at: string | null;    // ISO timestamp of the last verification
+}
+
+export interface CriteriaProgress {
+  total: number;
+  met: number;
+  percent: number;
+}
+
+/**
+ * One verification: which criterion (1-based index or exact text) and its new state
+ */
+export interface CriterionVerification {
+  index?: number;
+  text?: string;
+  met?: boolean;              // Default: true
+  evidence?: string;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Criterion from stored or user input: a plain string or a (partial) object
+ */
+export function toCriterion(input: unknown): AcceptanceCriterion | null {
+  if (typeof input === "string") {
+    const text = input.trim();
+    return text ? { text, met: false, evidence: null, verified_at: null } : null;
+  }
+  if (typeof input === "object" && input !== null && typeof (input as { text?: unknown }).text === "string") {
+    const raw = input as Partial<AcceptanceCriterion>;
+    const text = raw.text!.trim();
+    if (!text) return null;
+    return {
+      text,
+      met: raw.met === true,
+      evidence: typeof raw.evidence === "string" && raw.evidence ? raw.evidence : null,
+      verified_at: typeof raw.verified_at === "string" && raw.verified_at ? raw.verified_at : null,
+    };
+  }
+  return null;
+}
+
+export function normalizeCriteria(input: unknown[]): AcceptanceCriterion[] {
+  return input.map(toCriterion).filter((c): c is AcceptanceCriterion => c !== null);
+}
+
+/**
+ * Criteria from the acceptance_criteria column (JSON array, or null)
+ */
+export function parseCriteria(json: string | null): AcceptanceCriterion[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? normalizeCriteria(parsed) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Column value for a list of criteria (null when empty)
+ */
+export function serializeCriteria(criteria: AcceptanceCriterion[]): string | null {
+  return criteria.length > 0 ? JSON.stringify(criteria) : null;
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+/**
+ * Replace a task's criteria. Criteria given as plain text keep the state of
+ * an existing criterion with the same text, so rewording one doesn't reset the others.
+ */
+export function mergeCriteria(existing: AcceptanceCriterion[], input: unknown[]): AcceptanceCriterion[] {
+  const byText = new Map(existing.map(c => [c.text, c]));
+  return input
+    .map(item => typeof item === "string" ? byText.get(item.trim()) ?? toCriterion(item) : toCriterion(item))
+    .filter((c): c is AcceptanceCriterion => c !== null);
+}
+
+/**
+ * Apply verifications. Returns the new list, or the verifications that
+ * didn't match any criterion.
+ */
+export function verifyCriteria(
+  criteria: AcceptanceCriterion[],
+  verifications: CriterionVerification[],
+  now: string
+): { ok: true; criteria: AcceptanceCriterion[] } | { ok: false; unmatched: CriterionVerification[] } {
+  const next = criteria.map(c => ({ ...c }));
+  const unmatched: CriterionVerification[] = [];
+
+  for (const verification of verifications) {
+    const index = verification.index !== undefined
+      ? verification.index - 1
+      : next.findIndex(c => c.text === verification.text?.trim());
+    const criterion = next[index];
+    if (!criterion) {
+      unmatched.push(verification);
+      continue;
+    }
+    criterion.met = verification.met ?? true;
+    criterion.evidence = verification.evidence ?? criterion.evidence;
+    criterion.verified_at = now;
+  }
+
+  return unmatched.length > 0 ? { ok: false, unmatched } : { ok: true, criteria: next };
+}
+
+// =============================================================================
+// Progress
+// =============================================================================
+
+export function criteriaProgress(criteria: AcceptanceCriterion[]): CriteriaProgress {
+  const met = criteria.filter(c => c.met).length;
+  return {
+    total: criteria.length,
+    met,
+    percent: criteria.length ? Math.round((met / criteria.length) * 100) : 0,
+  };
+}
+
+/**
+ * True when every criterion is met (no criteria -> nothing to meet)
+ */
+export function criteriaMet(acceptanceCriteria: string | null): boolean {
+  return parseCriteria(acceptanceCriteria).every(c => c.met);
+}
@@ -0,0 +1,140 @@
+/**
+ * Dedupe Rules (Pure Functions)
+ *
+ * Near-duplicate insights: texts are compared as sets of shingles (stemmed
+ * words and word pairs, so "readers don't block the writer" and "reader
+ * doesn't block writers" overlap) with Jaccard similarity. Also how merged
+ * insights combine their content and tags.
+ * No I/O - all functions are pure.
+ */
+
+import { tokenize } from "./embeddings.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DedupeCandidate {
+  id: string;
+  content: string;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  score: number;        // Jaccard similarity, 0-1
+}
+
+export interface DuplicateCluster {
+  ids: string[];        // In input order; the first is the suggested merge target
+  score: number;        // Average similarity of the pairs that formed the cluster
+}
+
+export interface MergeSource {
+  content: string;
+  tags: string[];
+}
+
+// =============================================================================
+// Similarity
+// =============================================================================
+
+/**
+ * Stemmed words and adjacent word pairs of a text
+ */
+export function shingles(text: string): Set<string> {
+  const terms = tokenize(text);
+  const result = new Set(terms);
+  for (let i = 1; i < terms.length; i++) {
+    result.add(`${terms[i - 1]} ${terms[i]}`);
+  }
+  return result;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Candidates at least `threshold` similar to a text, most similar first
+ */
+export function findDuplicates(content: string, candidates: DedupeCandidate[], threshold: number): DuplicateMatch[] {
+  const target = shingles(content);
+  return candidates
+    .map(c => ({ id: c.id, score: round(jaccard(target, shingles(c.content))) }))
+    .filter(m => m.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Groups of items that are (transitively) at least `threshold` similar,
+ * largest groups first. Items with no duplicate are left out.
+ */
+export function duplicateClusters(items: DedupeCandidate[], threshold: number): DuplicateCluster[] {
+  const sets = items.map(i => shingles(i.content));
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: Array<{ a: number; b: number; score: number }> = [];
+
+  for (let a = 0; a < items.length; a++) {
+    for (let b = a + 1; b < items.length; b++) {
+      // Jaccard can't exceed the smaller set's share of the larger one
+      const sizes = [sets[a].size, sets[b].size].sort((x, y) => x - y);
+      if (sizes[0] === 0 || sizes[0] / sizes[1] < threshold) continue;
+      const score = jaccard(sets[a], sets[b]);
+      if (score >= threshold) {
+        edges.push({ a, b, score });
+        parent[find(b)] = find(a);
+      }
+    }
+  }
+
+  const clusters = new Map<number, { members: Set<number>; scores: number[] }>();
+  for (const edge of edges) {
+    const root = find(edge.a);
+    const cluster = clusters.get(root) ?? { members: new Set<number>(), scores: [] };
+    cluster.members.add(edge.a).add(edge.b);
+    cluster.scores.push(edge.score);
+    clusters.set(root, cluster);
+  }
+
+  return [...clusters.values()]
+    .map(c => ({
+      ids: [...c.members].sort((x, y) => x - y).map(i => items[i].id),
+      score: round(c.scores.reduce((sum, s) => sum + s, 0) / c.scores.length),
+    }))
+    .sort((x, y) => y.ids.length - x.ids.length || y.score - x.score);
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+/**
+ * Content of a merged insight: the target's content, then each source's
+ * content that isn't already part of it
+ */
+export function mergeContent(target: string, sources: string[]): string {
+  const parts = [target.trim()];
+  for (const source of sources.map(s => s.trim())) {
+    if (source && !parts.some(part => part.includes(source))) {
+      parts.push(source);
+    }
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Tags of a merged insight: every tag of every insight, first occurrence order
+ */
+export function mergeTags(lists: string[][]): string[] {
+  return [...new Set(lists.flat())];
+}
@@ -0,0 +1,270 @@
+/**
+ * Task Dependency Rules (Pure Functions)
+ *
+ * Dependency graph over tasks.depends_on: validation, cycle detection,
+ * topological ordering, critical path and "ready to start" computation.
+ * No I/O - all functions are pure.
+ */
+
+import type { TaskRecord } from "../db/repositories/tasks.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DependencyNode {
+  id: string;
+  status: string;
+  depends_on: string[];
+}
+
+export interface DependencyValidation {
+  valid: boolean;
+  missing: string[];           // Referenced IDs that don't exist
+  cycle: string[] | null;      // e.g. ["LF-1", "LF-2", "LF-1"]
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reason: string | null;
+  blocking: string[];          // Task IDs responsible for the rejection
+}
+
+// Statuses that no longer need work
+const FINISHED_STATUSES = new Set(["DONE", "CANCELLED"]);
+
+// =============================================================================
+// Graph Construction
+// =============================================================================
+
+/**
+ * Convert task records (JSON depends_on) into dependency nodes
+ */
+export function toDependencyNodes(
+  records: Array<Pick<TaskRecord, "id" | "status" | "depends_on">>
+): DependencyNode[] {
+  return records.map(r => ({
+    id: r.id,
+    status: r.status,
+    depends_on: r.depends_on ? JSON.parse(r.depends_on) as string[] : [],
+  }));
+}
+
+/**
+ * Replace (or add) a node, returning a new list. Used to check a proposed change.
+ */
+export function withNode(nodes: DependencyNode[], node: DependencyNode): DependencyNode[] {
+  const others = nodes.filter(n => n.id !== node.id);
+  return [...others, node];
+}
+
+/**
+ * Map of task ID -> IDs of tasks that depend on it
+ */
+export function getDependents(nodes: DependencyNode[]): Map<string, string[]> {
+  const dependents = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  for (const node of nodes) {
+    for (const dep of node.depends_on) {
+      dependents.get(dep)?.push(node.id);
+    }
+  }
+  return dependents;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Find one dependency cycle, or null if the graph is acyclic.
+ * The returned path starts and ends with the same ID.
+ */
+export function findCycle(nodes: DependencyNode[]): string[] | null {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const current = state.get(id);
+    if (current === "done") return null;
+    if (current === "visiting") {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of byId.get(id)?.depends_on ?? []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const node of nodes) {
+    const cycle = visit(node.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate the whole graph: every dependency exists and there are no cycles
+ */
+export function validateDependencies(nodes: DependencyNode[]): DependencyValidation {
+  const ids = new Set(nodes.map(n => n.id));
+  const missing = [...new Set(
+    nodes.flatMap(n => n.depends_on).filter(dep => !ids.has(dep))
+  )];
+  const cycle = findCycle(nodes);
+  return { valid: missing.length === 0 && cycle === null, missing, cycle };
+}
+
+/**
+ * Validate a proposed depends_on list for one task against the existing graph.
+ * Only this task's references are checked for existence, so legacy dangling
+ * references elsewhere don't block unrelated edits.
+ */
+export function validateTaskDependencies(
+  id: string,
+  dependsOn: string[],
+  nodes: DependencyNode[]
+): DependencyValidation {
+  const existing = nodes.find(n => n.id === id);
+  const candidate = withNode(nodes, { id, status: existing?.status ?? "TODO", depends_on: dependsOn });
+  const ids = new Set(candidate.map(n => n.id));
+  const missing = [...new Set(dependsOn.filter(dep => !ids.has(dep)))];
+  const cycle = findCycle(candidate);
+  return { valid: missing.length === 0 && cycle === null, missing, cycle };
+}
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+/**
+ * Topological order (dependencies first). Ties keep input order.
+ * Returns null if the graph has a cycle. Unknown dependency IDs are ignored.
+ */
+export function topologicalOrder(nodes: DependencyNode[]): string[] | null {
+  const ids = new Set(nodes.map(n => n.id));
+  const remaining = new Map(
+    nodes.map(n => [n.id, new Set(n.depends_on.filter(dep => ids.has(dep) && dep !== n.id))])
+  );
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const next = nodes.find(n => remaining.get(n.id)?.size === 0);
+    if (!next) return null;
+
+    order.push(next.id);
+    remaining.delete(next.id);
+    for (const deps of remaining.values()) {
+      deps.delete(next.id);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Longest chain of unfinished tasks, in the order they must be done.
+ * Finished tasks (DONE/CANCELLED) don't count towards the path.
+ * Returns [] for cyclic graphs.
+ */
+export function criticalPath(nodes: DependencyNode[]): string[] {
+  const order = topologicalOrder(nodes);
+  if (!order) return [];
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const longest = new Map<string, string[]>();
+
+  for (const id of order) {
+    const node = byId.get(id)!;
+    if (FINISHED_STATUSES.has(node.status)) continue;
+
+    let best: string[] = [];
+    for (const dep of node.depends_on) {
+      const path = longest.get(dep);
+      if (path && path.length > best.length) best = path;
+    }
+    longest.set(id, [...best, id]);
+  }
+
+  let result: string[] = [];
+  for (const path of longest.values()) {
+    if (path.length > result.length) result = path;
+  }
+  return result;
+}
+
+// =============================================================================
+// Readiness
+// =============================================================================
+
+/**
+ * Unfinished dependencies of a task. A cancelled dependency no longer holds
+ * anything up; missing IDs count as unfinished.
+ */
+export function unmetDependencies(id: string, nodes: DependencyNode[]): string[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const node = byId.get(id);
+  if (!node) return [];
+  return node.depends_on.filter(dep => {
+    const status = byId.get(dep)?.status;
+    return status === undefined || !FINISHED_STATUSES.has(status);
+  });
+}
+
+/**
+ * TODO tasks whose dependencies are all finished (DONE or CANCELLED)
+ */
+export function readyTasks(nodes: DependencyNode[]): string[] {
+  return nodes
+    .filter(n => n.status === "TODO" && unmetDependencies(n.id, nodes).length === 0)
+    .map(n => n.id);
+}
+
+/**
+ * Check whether a status change keeps the graph consistent:
+ * - A task can't become DONE while its dependencies are unfinished
+ * - A finished task can't be reopened while dependents are IN_PROGRESS or DONE
+ */
+export function checkStatusTransition(
+  id: string,
+  newStatus: string,
+  nodes: DependencyNode[]
+): TransitionCheck {
+  const node = nodes.find(n => n.id === id);
+  if (!node || node.status === newStatus) {
+    return { allowed: true, reason: null, blocking: [] };
+  }
+
+  if (newStatus === "DONE") {
+    const unmet = unmetDependencies(id, nodes);
+    if (unmet.length > 0) {
+      return {
+        allowed: false,
+        reason: `${id} depends on unfinished tasks: ${unmet.join(", ")}`,
+        blocking: unmet,
+      };
+    }
+  }
+
+  if (FINISHED_STATUSES.has(node.status) && !FINISHED_STATUSES.has(newStatus)) {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const started = (getDependents(nodes).get(id) ?? [])
+      .filter(dep => ["IN_PROGRESS", "DONE"].includes(byId.get(dep)!.status));
+    if (started.length > 0) {
+      return {
+        allowed: false,
+        reason: `Reopening ${id} would leave started dependents inconsistent: ${started.join(", ")}`,
+        blocking: started,
+      };
+    }
+  }
+
+  return { allowed: true, reason: null, blocking: [] };
+}
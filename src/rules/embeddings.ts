@@ -0,0 +1,238 @@
+/**
+ * Embedding Rules (Pure Functions)
+ *
+ * The built-in embedder: a deterministic hashing vectorizer, so semantic
+ * search works offline with no model download. Each text becomes a bag of
+ * features - stemmed words, word pairs, and the concepts words belong to
+ * (token, login and oauth all count as "auth"; race, crash and break as
+ * "failure") - hashed into a fixed number of signed dimensions.
+ * Concepts are what let "why did auth break" find "token refresh race".
+ *
+ * Also vector helpers shared by every embedder: cosine similarity and the
+ * BLOB encoding used by the insight_embeddings table.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const HASHING_DIMENSIONS = 1024;
+
+// A literal match shares the word and its concepts, so it still outranks a concept-only match
+const CONCEPT_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "by", "for", "with",
+  "from", "into", "as", "is", "are", "was", "were", "be", "been", "it", "its", "this",
+  "that", "these", "those", "we", "our", "you", "your", "they", "i", "me", "my",
+  "do", "does", "did", "why", "what", "when", "where", "how", "which", "who",
+  "can", "could", "should", "would", "will", "has", "have", "had", "not", "no",
+  "so", "if", "then", "than", "there", "here", "about", "just", "also", "very",
+]);
+
+/**
+ * Software-engineering concepts: stems that mean roughly the same thing
+ * when looking for related insights. A word may belong to several.
+ */
+export const CONCEPTS: Record<string, string[]> = {
+  auth: ["auth", "authent", "authn", "authz", "authoriz", "login", "logout", "signin", "signup",
+    "token", "jwt", "oauth", "sso", "credenti", "password", "session", "cookie", "refresh", "permiss", "role"],
+  failure: ["break", "broke", "broken", "fail", "failur", "bug", "crash", "error", "except", "race",
+    "flaky", "regress", "wrong", "corrupt", "leak", "hang", "timeout", "panic", "incid", "outag"],
+  concurrency: ["race", "concurr", "parallel", "lock", "mutex", "deadlock", "thread", "async", "await",
+    "promis", "atom", "transact", "contention"],
+  storage: ["db", "databas", "sql", "sqlite", "postgr", "queri", "schema", "migrat", "tabl", "index",
+    "column", "row", "persist", "storag"],
+  performance: ["slow", "perf", "perform", "latenc", "fast", "speed", "cach", "memori", "cpu",
+    "throughput", "optim", "bottleneck"],
+  testing: ["test", "spec", "assert", "mock", "stub", "fixtur", "vitest", "jest", "coverag", "ci"],
+  network: ["http", "request", "respons", "api", "endpoint", "fetch", "network", "socket",
+    "retri", "webhook", "cors"],
+  config: ["config", "configur", "sett", "option", "env", "environ", "flag", "default"],
+  deploy: ["deploy", "releas", "build", "bundl", "packag", "publish", "docker", "pipelin", "ship"],
+  ui: ["ui", "frontend", "react", "compon", "render", "css", "style", "layout", "page", "button", "modal"],
+  data: ["pars", "serial", "json", "format", "encod", "decod", "valid", "schema", "convert"],
+  security: ["secur", "secret", "vulner", "inject", "xss", "csrf", "sanit", "encrypt", "permiss"],
+  git: ["git", "commit", "branch", "merg", "rebas", "hook", "diff"],
+};
+
+// Stem -> concepts it belongs to
+const CONCEPT_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+  for (const [concept, words] of Object.entries(CONCEPTS)) {
+    for (const key of new Set(words.map(stem))) {
+      index.set(key, [...(index.get(key) ?? []), concept]);
+    }
+  }
+  return index;
+})();
+
+// =============================================================================
+// Features
+// =============================================================================
+
+/**
+ * Crude suffix-stripping stemmer: enough to match token/tokens,
+ * refresh/refreshing, query/queries
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  for (const suffix of ["ations", "ation", "ings", "ing", "ies", "ied", "ers", "er", "es", "ed", "ly", "s", "e"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length) + (suffix === "ies" || suffix === "ied" ? "i" : "");
+    }
+  }
+  // query -> queri (matches queries), but deploy stays deploy
+  return /[^aeiou]y$/.test(word) ? word.slice(0, -1) + "i" : word;
+}
+
+/**
+ * Stems of the significant words (camelCase and snake_case split apart)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Concepts a stem belongs to: exact stems, plus stems that start with a
+ * listed stem of 4+ letters (authent -> authentication)
+ */
+export function conceptsOf(term: string): string[] {
+  const exact = CONCEPT_INDEX.get(term);
+  if (exact) return exact;
+  for (let length = term.length - 1; length >= 4; length--) {
+    const concepts = CONCEPT_INDEX.get(term.slice(0, length));
+    if (concepts) return concepts;
+  }
+  return [];
+}
+
+/**
+ * Weighted features of a text: words, adjacent word pairs and concepts
+ */
+export function textFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) ?? 0) + weight);
+
+  const terms = tokenize(text);
+  terms.forEach((term, i) => {
+    add(`w:${term}`, 1);
+    if (i > 0) add(`b:${terms[i - 1]}_${term}`, BIGRAM_WEIGHT);
+    for (const concept of conceptsOf(term)) {
+      add(`c:${concept}`, CONCEPT_WEIGHT);
+    }
+  });
+  return features;
+}
+
+// =============================================================================
+// Vectors
+// =============================================================================
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Hashing-trick embedding: square-rooted feature weights hashed into signed
+ * dimensions (collisions cancel out instead of piling up), L2-normalized.
+ * An empty text gives the zero vector.
+ */
+export function hashingEmbedding(text: string, dimensions = HASHING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, weight] of textFeatures(text)) {
+    const h = hash(feature);
+    vector[h % dimensions] += (h & 0x80000000 ? -1 : 1) * Math.sqrt(weight);
+  }
+  return normalizeVector(vector);
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/**
+ * Cosine similarity, clamped to 0-1 (opposite vectors are just unrelated).
+ * Vectors of different lengths come from different models and score 0.
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return Math.max(0, Math.min(1, dot / Math.sqrt(normA * normB)));
+}
+
+/**
+ * Vector -> BLOB (float32, little-endian)
+ */
+export function encodeVector(vector: ArrayLike<number>): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  for (let i = 0; i < vector.length; i++) {
+    buffer.writeFloatLE(vector[i], i * 4);
+  }
+  return buffer;
+}
+
+export function decodeVector(blob: Buffer): number[] {
+  const vector: number[] = [];
+  for (let offset = 0; offset + 4 <= blob.length; offset += 4) {
+    vector.push(blob.readFloatLE(offset));
+  }
+  return vector;
+}
+
+// =============================================================================
+// Ranking
+// =============================================================================
+
+/**
+ * Insight text that gets embedded: content, summary and tags
+ */
+export function embeddingText(insight: { content: string; summary: string | null; tags: string | null }): string {
+  const tags = insight.tags ? (JSON.parse(insight.tags) as string[]).join(" ") : "";
+  return [insight.summary, insight.content, tags].filter(Boolean).join("\n");
+}
+
+/**
+ * Similarity of a query vector to each stored vector
+ */
+export function similarities(query: ArrayLike<number>, vectors: Map<string, ArrayLike<number>>): Map<string, number> {
+  return new Map([...vectors].map(([id, vector]) => [id, cosineSimilarity(query, vector)]));
+}
+
+/**
+ * Best matches (similarity >= minSimilarity, above 0), best first
+ */
+export function topMatches(
+  scores: Map<string, number>,
+  options: { limit: number; minSimilarity: number }
+): Array<{ id: string; similarity: number }> {
+  return [...scores]
+    .map(([id, similarity]) => ({ id, similarity }))
+    .filter(m => m.similarity > 0 && m.similarity >= options.minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+}
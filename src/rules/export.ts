@@ -8,6 +8,7 @@
 import type { InsightRecord } from "../db/repositories/insights.js";
 import type { TaskRecord } from "../db/repositories/tasks.js";
 import { recordToJsonInsight, recordToJsonTask } from "./migration.js";
+import type { AcceptanceCriterion } from "./criteria.js";
 import { VERSION } from "../index.js";
 
 // =============================================================================
@@ -32,6 +33,7 @@ export interface ExportedInsightsFile {
     tags?: string[];
     links?: string[];
     notes?: string;
+    superseded_by?: string;
     created: string;
   }>;
 }
@@ -49,9 +51,11 @@ export interface ExportedBacklogFile {
     status: string;
     priority?: string;
     depends_on?: string[];
-    acceptance_criteria?: string[];
+    acceptance_criteria?: Array<string | AcceptanceCriterion>;
     test_file?: string;
     notes?: string;
+    parent_id?: string;
+    status_reason?: string;
   }>;
 }
 
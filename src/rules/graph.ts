@@ -0,0 +1,128 @@
+/**
+ * Knowledge Graph Rules (Pure Functions)
+ *
+ * Insights as nodes and their links as edges, optionally with the tasks
+ * that mention insights (a "references" edge from task to insight). Each
+ * node carries its link count over the whole graph, so an insight with no
+ * links shows as orphaned even when a filter hides its neighbours.
+ * No I/O - all functions are pure.
+ */
+
+import type { InsightRelation } from "../db/repositories/insight-links.js";
+import { summarizeInsight, summarizeTask } from "./summarization.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GraphInsight {
+  id: string;
+  content: string;
+  summary: string | null;
+  type: string;
+  status: string;
+  tags: string[];
+}
+
+export interface GraphLink {
+  from_id: string;
+  to_id: string;
+  relation: InsightRelation;
+  note: string | null;
+}
+
+export interface GraphTask {
+  id: string;
+  title: string;
+  status: string;
+  insight_ids: string[];    // Insights its text mentions
+}
+
+export interface GraphNode {
+  id: string;
+  kind: "insight" | "task";
+  label: string;
+  type: string | null;      // Insight type (null for tasks)
+  status: string;
+  tags: string[];
+  links: number;            // Insight links in and out, across the whole graph
+}
+
+export type GraphRelation = InsightRelation | "references";
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  relation: GraphRelation;
+  note: string | null;
+}
+
+export interface InsightGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphFilters {
+  tag?: string;
+  type?: string;
+  status?: string;
+}
+
+// =============================================================================
+// Graph
+// =============================================================================
+
+export function matchesGraphFilters(insight: GraphInsight, filters: GraphFilters): boolean {
+  return (!filters.type || insight.type === filters.type)
+    && (!filters.status || insight.status === filters.status)
+    && (!filters.tag || insight.tags.includes(filters.tag));
+}
+
+/**
+ * The insights matching the filters, the links between them and, when tasks
+ * are given, the tasks that mention at least one of them
+ */
+export function buildInsightGraph(
+  insights: GraphInsight[],
+  links: GraphLink[],
+  filters: GraphFilters = {},
+  tasks: GraphTask[] = []
+): InsightGraph {
+  const linkCounts = new Map<string, number>();
+  for (const link of links) {
+    linkCounts.set(link.from_id, (linkCounts.get(link.from_id) ?? 0) + 1);
+    linkCounts.set(link.to_id, (linkCounts.get(link.to_id) ?? 0) + 1);
+  }
+
+  const included = insights.filter(insight => matchesGraphFilters(insight, filters));
+  const ids = new Set(included.map(insight => insight.id));
+  const nodes: GraphNode[] = included.map(insight => ({
+    id: insight.id,
+    kind: "insight",
+    label: insight.summary || summarizeInsight(insight.content),
+    type: insight.type,
+    status: insight.status,
+    tags: insight.tags,
+    links: linkCounts.get(insight.id) ?? 0,
+  }));
+  const edges: GraphEdge[] = links
+    .filter(link => ids.has(link.from_id) && ids.has(link.to_id))
+    .map(link => ({ from: link.from_id, to: link.to_id, relation: link.relation, note: link.note }));
+
+  for (const task of tasks) {
+    const referenced = task.insight_ids.filter(id => ids.has(id));
+    if (referenced.length === 0) continue;
+    nodes.push({
+      id: task.id,
+      kind: "task",
+      label: summarizeTask(task.title),
+      type: null,
+      status: task.status,
+      tags: [],
+      links: 0,
+    });
+    edges.push(...referenced.map(id => ({ from: task.id, to: id, relation: "references" as const, note: null })));
+  }
+
+  return { nodes, edges };
+}
@@ -0,0 +1,165 @@
+/**
+ * ID Rules (Pure Functions)
+ *
+ * Entity ID prefixes (LF-042, API-007, INS-012, FB-003): normalization,
+ * validation, the per-repo task prefix, resolving an ID to the kind
+ * of entity it names through a prefix registry, and finding task and
+ * insight IDs mentioned in free text (commit messages, branch names,
+ * task descriptions).
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type EntityKind = "task" | "insight";
+
+/**
+ * Prefix (without the dash) -> entity kind
+ */
+export type PrefixRegistry = Map<string, EntityKind>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_TASK_PREFIX = "LF";
+export const INSIGHT_PREFIX = "INS";
+export const FEEDBACK_PREFIX = "FB";
+
+// Fixed prefixes that a task prefix may not reuse
+const RESERVED_PREFIXES = new Set([INSIGHT_PREFIX, FEEDBACK_PREFIX]);
+
+const PREFIX_PATTERN = /^[A-Z][A-Z0-9]*$/;
+
+// Generated IDs pad the top-level number (LF-042, INS-012); subtask numbers aren't padded (LF-042.1)
+const ID_NUMBER_WIDTH = 3;
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Canonical prefix from user input ("api", "API-" -> "API"), or null if invalid
+ */
+export function normalizePrefix(input: string): string | null {
+  const prefix = input.trim().toUpperCase().replace(/-+$/, "");
+  return PREFIX_PATTERN.test(prefix) ? prefix : null;
+}
+
+/**
+ * Validate a task prefix: well-formed and not taken by another entity kind
+ */
+export function validateTaskPrefix(input: string): { ok: true; prefix: string } | { ok: false; error: string } {
+  const prefix = normalizePrefix(input);
+  if (!prefix) {
+    return { ok: false, error: `Invalid prefix "${input}" (letters and digits, starting with a letter)` };
+  }
+  if (RESERVED_PREFIXES.has(prefix)) {
+    return { ok: false, error: `Prefix ${prefix} is reserved` };
+  }
+  return { ok: true, prefix };
+}
+
+/**
+ * Prefix of an ID (API-007.2 -> API), or null if it doesn't look like PREFIX-N
+ */
+export function idPrefix(id: string): string | null {
+  const match = id.match(/^([A-Za-z][A-Za-z0-9]*)-\d/);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Most common prefix among existing task IDs, else the default.
+ * Ties go to the prefix seen first.
+ */
+export function inferTaskPrefix(taskIds: string[]): string {
+  const counts = new Map<string, number>();
+  for (const id of taskIds) {
+    const prefix = idPrefix(id);
+    if (prefix && !RESERVED_PREFIXES.has(prefix)) {
+      counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+    }
+  }
+  let best: string | null = null;
+  for (const [prefix, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = prefix;
+  }
+  return best ?? DEFAULT_TASK_PREFIX;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Registry for a repo: the insight prefix plus every task prefix in use
+ * (a repo can mix API- and WEB- tasks)
+ */
+export function createPrefixRegistry(taskPrefixes: string[]): PrefixRegistry {
+  const registry: PrefixRegistry = new Map([[INSIGHT_PREFIX, "insight"]]);
+  for (const prefix of taskPrefixes) {
+    const normalized = normalizePrefix(prefix);
+    if (normalized && !RESERVED_PREFIXES.has(normalized)) {
+      registry.set(normalized, "task");
+    }
+  }
+  return registry;
+}
+
+export function resolveEntityKind(id: string, registry: PrefixRegistry): EntityKind | null {
+  const prefix = idPrefix(id);
+  return prefix ? registry.get(prefix) ?? null : null;
+}
+
+/**
+ * Group IDs by entity kind; IDs with no registered prefix are returned as unknown
+ */
+export function partitionIds(
+  ids: string[],
+  registry: PrefixRegistry
+): { byKind: Record<EntityKind, string[]>; unknown: string[] } {
+  const byKind: Record<EntityKind, string[]> = { task: [], insight: [] };
+  const unknown: string[] = [];
+  for (const id of ids) {
+    const kind = resolveEntityKind(id, registry);
+    if (kind) {
+      byKind[kind].push(id);
+    } else {
+      unknown.push(id);
+    }
+  }
+  return { byKind, unknown };
+}
+
+/**
+ * Task IDs mentioned in text, in order of first mention ("Fix LF-042",
+ * "feature/lf-042.1-sync" -> LF-042, LF-042.1). Only registered task prefixes count.
+ */
+export function extractTaskIds(text: string, registry: PrefixRegistry): string[] {
+  return extractEntityIds(text, registry, "task");
+}
+
+/**
+ * IDs of one entity kind mentioned in text, in order of first mention, written
+ * the way they are generated ("see ins-12" -> INS-012 for insights)
+ */
+export function extractEntityIds(text: string, registry: PrefixRegistry, kind: EntityKind): string[] {
+  const ids = new Set<string>();
+  for (const [, prefix, number] of text.matchAll(/(?<![A-Za-z0-9])([A-Za-z][A-Za-z0-9]*)-(\d+(?:\.\d+)*)(?![A-Za-z0-9])/g)) {
+    const upper = prefix.toUpperCase();
+    if (registry.get(upper) === kind) {
+      ids.add(`${upper}-${canonicalNumber(number)}`);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * "42.01" -> "042.1": leading zeros dropped, the top-level number padded
+ */
+function canonicalNumber(number: string): string {
+  const [top, ...subtasks] = number.split(".").map(part => part.replace(/^0+(?=\d)/, ""));
+  return [top.padStart(ID_NUMBER_WIDTH, "0"), ...subtasks].join(".");
+}
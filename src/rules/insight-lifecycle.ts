@@ -0,0 +1,136 @@
+/**
+ * Insight Lifecycle Rules (Pure Functions)
+ *
+ * Where an insight is in its life: captured (unprocessed), talked through
+ * (discussed), confirmed (validated), replaced by a newer insight
+ * (superseded, pointing at it through superseded_by), retired (archived) or
+ * folded into another (merged). The last three are history: orient, search
+ * and dedupe leave them out unless asked.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const INSIGHT_STATUSES = [
+  "unprocessed",
+  "discussed",
+  "validated",
+  "superseded",
+  "archived",
+  "merged",
+] as const;
+
+export type InsightStatus = typeof INSIGHT_STATUSES[number];
+
+/**
+ * Statuses an agent sets by hand. merged is only set by merging insights.
+ */
+export const SETTABLE_INSIGHT_STATUSES = [
+  "unprocessed",
+  "discussed",
+  "validated",
+  "superseded",
+  "archived",
+] as const;
+
+/**
+ * Statuses of insights that live on only as history
+ */
+export const INACTIVE_INSIGHT_STATUSES: string[] = ["superseded", "archived", "merged"];
+
+export interface LifecycleInsight {
+  id: string;
+  status: string;
+  superseded_by: string | null;
+}
+
+export interface LifecycleChange {
+  status?: string;
+  superseded_by?: string | null;
+}
+
+export type LifecycleCheck =
+  | { ok: true; changes: { status: string; superseded_by: string | null } }
+  | { ok: false; error: string };
+
+// =============================================================================
+// Status Changes
+// =============================================================================
+
+export function isActiveInsight(status: string): boolean {
+  return !INACTIVE_INSIGHT_STATUSES.includes(status);
+}
+
+/**
+ * Resolve a status / superseded_by change into the fields to store.
+ * Setting superseded_by implies status superseded; leaving superseded clears it.
+ * `replacement` is the insight superseded_by names (null when it doesn't exist).
+ */
+export function resolveLifecycleChange(
+  existing: LifecycleInsight,
+  change: LifecycleChange,
+  replacement: LifecycleInsight | null
+): LifecycleCheck {
+  const supersededBy = change.superseded_by ?? null;
+  const status = change.status ?? (supersededBy ? "superseded" : existing.status);
+
+  if (!(INSIGHT_STATUSES as readonly string[]).includes(status)) {
+    return { ok: false, error: `Unknown insight status "${status}"` };
+  }
+  if (status === "merged" && existing.status !== "merged") {
+    return { ok: false, error: "Insights are marked merged by merging them (loop_insight_merge)" };
+  }
+  if (supersededBy && status !== "superseded") {
+    return { ok: false, error: `superseded_by needs status "superseded", not "${status}"` };
+  }
+  if (status !== "superseded") {
+    return { ok: true, changes: { status, superseded_by: null } };
+  }
+
+  const target = supersededBy ?? existing.superseded_by;
+  if (!target) {
+    return { ok: false, error: `Insight ${existing.id} needs superseded_by: the insight that replaces it` };
+  }
+  if (target === existing.id) {
+    return { ok: false, error: `Insight ${existing.id} cannot supersede itself` };
+  }
+  if (supersededBy) {
+    if (!replacement) {
+      return { ok: false, error: `Replacement insight ${supersededBy} not found` };
+    }
+    if (!isActiveInsight(replacement.status)) {
+      const current = replacement.superseded_by ? ` (see ${replacement.superseded_by})` : "";
+      return { ok: false, error: `Replacement insight ${supersededBy} is ${replacement.status}${current}` };
+    }
+  }
+  return { ok: true, changes: { status, superseded_by: target } };
+}
+
+// =============================================================================
+// Review Queue
+// =============================================================================
+
+export interface ReviewItem {
+  id: string;
+  created_at: string;
+}
+
+export interface ReviewBatch<T> {
+  batch: T[];
+  remaining: number;      // Queued after this batch
+}
+
+/**
+ * The next `size` insights to review, oldest first, after `after` (the last
+ * insight of the previous batch). Insights reviewed in the meantime have left
+ * the queue, so the position is by insight, not offset.
+ */
+export function reviewBatch<T extends ReviewItem>(queue: T[], size: number, after: ReviewItem | null = null): ReviewBatch<T> {
+  const ordered = [...queue].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+  const pending = after
+    ? ordered.filter(i => i.created_at > after.created_at || (i.created_at === after.created_at && i.id > after.id))
+    : ordered;
+  return { batch: pending.slice(0, size), remaining: Math.max(pending.length - size, 0) };
+}
@@ -0,0 +1,414 @@
+/**
+ * Markdown Sync Rules (Pure Functions)
+ *
+ * Markdown representation of tasks and insights (one file per record) and
+ * the three-way decision behind `loopflow sync`: compare the DB and the file
+ * against the hash recorded at the last sync to tell which side changed.
+ * No I/O - all functions are pure.
+ */
+
+import { createHash } from "crypto";
+import type { InsightRecord } from "../db/repositories/insights.js";
+import type { TaskRecord } from "../db/repositories/tasks.js";
+import { parseCriteria, serializeCriteria, type AcceptanceCriterion } from "./criteria.js";
+import { DEFAULT_CONFIG } from "../config/repo-config.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Editable task fields, as they appear in a task file
+ */
+export interface MarkdownTask {
+  id: string;
+  title: string;
+  status: string;
+  status_reason: string | null;
+  priority: string;
+  parent_id: string | null;
+  depends_on: string[];
+  test_file: string | null;
+  description: string | null;
+  acceptance_criteria: AcceptanceCriterion[];
+  notes: string | null;
+}
+
+/**
+ * Editable insight fields, as they appear in an insight file
+ */
+export interface MarkdownInsight {
+  id: string;
+  type: string;
+  status: string;
+  superseded_by: string | null;
+  tags: string[];
+  links: string[];
+  content: string;
+  notes: string | null;
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export type SyncAction =
+  | "unchanged"
+  | "export"          // DB changed (or file missing) -> write file
+  | "import"          // File changed (or record missing) -> write DB
+  | "conflict";       // Both changed since last sync
+
+export interface SyncSides {
+  dbHash: string | null;      // null = no record in the DB
+  fileHash: string | null;    // null = no file
+  baseHash: string | null;    // null = never synced
+}
+
+/**
+ * Allowed task statuses and priorities (tasks in .loop-flow/config.json)
+ */
+export interface TaskVocabulary {
+  statuses: string[];
+  priorities: string[];
+  default_priority: string;
+}
+
+// Built-in vocabulary, same as a repo without config.json
+const DEFAULT_TASK_VOCABULARY: TaskVocabulary = DEFAULT_CONFIG.tasks;
+
+/**
+ * Allowed insight types (insights in .loop-flow/config.json)
+ */
+export interface InsightVocabulary {
+  types: string[];
+}
+
+const DEFAULT_INSIGHT_VOCABULARY: InsightVocabulary = DEFAULT_CONFIG.insights;
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+// =============================================================================
+// Front Matter
+// =============================================================================
+
+const LIST_KEYS = new Set(["depends_on", "tags", "links"]);
+
+function formatList(values: string[]): string {
+  return `[${values.join(", ")}]`;
+}
+
+function parseList(value: string): string[] {
+  const inner = value.trim().replace(/^\[/, "").replace(/\]$/, "");
+  return inner.split(",").map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Split `---` front matter from the body. Values run to the end of the line;
+ * list keys use the inline `[a, b]` form.
+ */
+export function parseFrontMatter(
+  markdown: string
+): { fields: Record<string, string | string[]>; body: string } | null {
+  const match = markdown.replace(/\r\n/g, "\n").match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) return null;
+
+  const fields: Record<string, string | string[]> = {};
+  for (const line of match[1].split("\n")) {
+    const kv = line.match(/^([a-z_]+):\s?(.*)$/);
+    if (!kv) continue;
+    fields[kv[1]] = LIST_KEYS.has(kv[1]) ? parseList(kv[2]) : kv[2].trim();
+  }
+  return { fields, body: match[2] };
+}
+
+function renderFrontMatter(fields: Array<[string, string | string[] | null]>): string {
+  const lines = fields
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? formatList(value) : value}`);
+  return `---\n${lines.join("\n")}\n---\n`;
+}
+
+/**
+ * Split a body into `## Heading` sections. Text before the first heading is keyed "".
+ */
+function splitSections(body: string, headings: string[]): Map<string, string> {
+  const sections = new Map<string, string>();
+  let current = "";
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    if (text) sections.set(current, text);
+  };
+
+  for (const line of body.split("\n")) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading && headings.includes(heading[1])) {
+      flush();
+      current = heading[1];
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+function field(fields: Record<string, string | string[]>, key: string): string | null {
+  const value = fields[key];
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+function listField(fields: Record<string, string | string[]>, key: string): string[] {
+  const value = fields[key];
+  return Array.isArray(value) ? value : [];
+}
+
+function matchIgnoringCase(allowed: string[], value: string): string | null {
+  return allowed.find(a => a.toLowerCase() === value.toLowerCase()) ?? null;
+}
+
+// =============================================================================
+// Tasks
+// =============================================================================
+
+export function taskRecordToMarkdown(record: TaskRecord): MarkdownTask {
+  return {
+    id: record.id,
+    title: record.title,
+    status: record.status,
+    status_reason: record.status_reason,
+    priority: record.priority,
+    parent_id: record.parent_id,
+    depends_on: record.depends_on ? JSON.parse(record.depends_on) : [],
+    test_file: record.test_file,
+    description: record.description,
+    acceptance_criteria: parseCriteria(record.acceptance_criteria),
+    notes: record.notes,
+  };
+}
+
+export function renderTaskMarkdown(task: MarkdownTask): string {
+  let markdown = renderFrontMatter([
+    ["id", task.id],
+    ["title", task.title],
+    ["status", task.status],
+    ["status_reason", task.status_reason],
+    ["priority", task.priority],
+    ["parent_id", task.parent_id],
+    ["depends_on", task.depends_on],
+    ["test_file", task.test_file],
+  ]);
+  if (task.description) {
+    markdown += `\n## Description\n\n${task.description.trim()}\n`;
+  }
+  if (task.acceptance_criteria.length > 0) {
+    markdown += `\n## Acceptance Criteria\n\n${task.acceptance_criteria.map(renderCriterion).join("\n")}\n`;
+  }
+  if (task.notes) {
+    markdown += `\n## Notes\n\n${task.notes.trim()}\n`;
+  }
+  return markdown;
+}
+
+export function parseTaskMarkdown(
+  markdown: string,
+  vocabulary: TaskVocabulary = DEFAULT_TASK_VOCABULARY
+): ParseResult<MarkdownTask> {
+  const parsed = parseFrontMatter(markdown);
+  if (!parsed) return { ok: false, error: "Missing --- front matter" };
+
+  const { fields, body } = parsed;
+  const id = field(fields, "id");
+  const title = field(fields, "title");
+  const status = field(fields, "status");
+  if (!id || !title || !status) {
+    return { ok: false, error: "Front matter needs id, title and status" };
+  }
+
+  // Hand-edited files get case-insensitive matching; the configured spelling is stored
+  const rawPriority = field(fields, "priority") ?? vocabulary.default_priority;
+  const canonicalStatus = matchIgnoringCase(vocabulary.statuses, status);
+  const priority = matchIgnoringCase(vocabulary.priorities, rawPriority);
+  if (!canonicalStatus) {
+    return { ok: false, error: `Unknown status "${status}" (expected ${vocabulary.statuses.join(", ")})` };
+  }
+  if (!priority) {
+    return { ok: false, error: `Unknown priority "${rawPriority}" (expected ${vocabulary.priorities.join(", ")})` };
+  }
+
+  const sections = splitSections(body, ["Description", "Acceptance Criteria", "Notes"]);
+  const criteria = parseCriteriaSection(sections.get("Acceptance Criteria") ?? "");
+
+  return {
+    ok: true,
+    value: {
+      id,
+      title,
+      status: canonicalStatus,
+      status_reason: field(fields, "status_reason"),
+      priority,
+      parent_id: field(fields, "parent_id"),
+      depends_on: listField(fields, "depends_on"),
+      test_file: field(fields, "test_file"),
+      description: sections.get("Description") ?? null,
+      acceptance_criteria: criteria,
+      notes: sections.get("Notes") ?? null,
+    },
+  };
+}
+
+/**
+ * - [x] Criterion text
+ *   - Evidence: how it was verified
+ *   - Verified: 2026-01-22T10:00:00.000Z
+ */
+function renderCriterion(criterion: AcceptanceCriterion): string {
+  let line = `- [${criterion.met ? "x" : " "}] ${criterion.text}`;
+  if (criterion.evidence) line += `\n  - Evidence: ${criterion.evidence}`;
+  if (criterion.verified_at) line += `\n  - Verified: ${criterion.verified_at}`;
+  return line;
+}
+
+/**
+ * Top-level bullets are criteria (checkbox optional: hand-written "- text" is unmet);
+ * indented Evidence/Verified bullets belong to the criterion above them
+ */
+function parseCriteriaSection(section: string): AcceptanceCriterion[] {
+  const criteria: AcceptanceCriterion[] = [];
+  for (const line of section.split("\n")) {
+    const detail = line.match(/^\s+[-*]\s+(Evidence|Verified):\s*(.+)$/i);
+    const current = criteria[criteria.length - 1];
+    if (detail && current) {
+      if (detail[1].toLowerCase() === "evidence") {
+        current.evidence = detail[2].trim();
+      } else {
+        current.verified_at = detail[2].trim();
+      }
+      continue;
+    }
+    const item = line.match(/^\s*[-*]\s+(?:\[([ xX])\]\s+)?(.+)$/);
+    if (item) {
+      criteria.push({ text: item[2].trim(), met: item[1]?.toLowerCase() === "x", evidence: null, verified_at: null });
+    }
+  }
+  return criteria;
+}
+
+/**
+ * Task fields to write to the DB for a parsed file
+ */
+export function markdownTaskToChanges(task: MarkdownTask): Omit<TaskRecord, "id" | "summary" | "created_at" | "updated_at"> {
+  return {
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    status_reason: task.status_reason,
+    priority: task.priority,
+    depends_on: task.depends_on.length ? JSON.stringify(task.depends_on) : null,
+    acceptance_criteria: serializeCriteria(task.acceptance_criteria),
+    test_file: task.test_file,
+    notes: task.notes,
+    parent_id: task.parent_id,
+  };
+}
+
+// =============================================================================
+// Insights
+// =============================================================================
+
+export function insightRecordToMarkdown(record: InsightRecord): MarkdownInsight {
+  return {
+    id: record.id,
+    type: record.type,
+    status: record.status,
+    superseded_by: record.superseded_by,
+    tags: record.tags ? JSON.parse(record.tags) : [],
+    links: record.links ? JSON.parse(record.links) : [],
+    content: record.content,
+    notes: record.notes,
+  };
+}
+
+export function renderInsightMarkdown(insight: MarkdownInsight): string {
+  let markdown = renderFrontMatter([
+    ["id", insight.id],
+    ["type", insight.type],
+    ["status", insight.status],
+    ["superseded_by", insight.superseded_by],
+    ["tags", insight.tags],
+    ["links", insight.links],
+  ]);
+  markdown += `\n${insight.content.trim()}\n`;
+  if (insight.notes) {
+    markdown += `\n## Notes\n\n${insight.notes.trim()}\n`;
+  }
+  return markdown;
+}
+
+export function parseInsightMarkdown(
+  markdown: string,
+  vocabulary: InsightVocabulary = DEFAULT_INSIGHT_VOCABULARY
+): ParseResult<MarkdownInsight> {
+  const parsed = parseFrontMatter(markdown);
+  if (!parsed) return { ok: false, error: "Missing --- front matter" };
+
+  const { fields, body } = parsed;
+  const id = field(fields, "id");
+  const type = field(fields, "type");
+  const status = field(fields, "status");
+  if (!id || !type || !status) {
+    return { ok: false, error: "Front matter needs id, type and status" };
+  }
+
+  const canonicalType = matchIgnoringCase(vocabulary.types, type);
+  if (!canonicalType) {
+    return { ok: false, error: `Unknown type "${type}" (expected ${vocabulary.types.join(", ")})` };
+  }
+
+  const sections = splitSections(body, ["Notes"]);
+  const content = sections.get("");
+  if (!content) return { ok: false, error: "Insight content is empty" };
+
+  return {
+    ok: true,
+    value: {
+      id,
+      type: canonicalType,
+      status,
+      superseded_by: field(fields, "superseded_by"),
+      tags: listField(fields, "tags"),
+      links: listField(fields, "links"),
+      content,
+      notes: sections.get("Notes") ?? null,
+    },
+  };
+}
+
+// =============================================================================
+// Sync Decision
+// =============================================================================
+
+/**
+ * Three-way decision for one record. Hashes are of the canonical rendering,
+ * so formatting-only edits to a file don't count as changes.
+ */
+export function decideSync({ dbHash, fileHash, baseHash }: SyncSides): SyncAction {
+  if (dbHash === fileHash) return "unchanged";
+  if (fileHash === null) {
+    // Deleted file with an unchanged record: the deletion is an edit we can't apply
+    return baseHash !== null && dbHash === baseHash ? "conflict" : "export";
+  }
+  if (dbHash === null) return "import";
+
+  const dbChanged = dbHash !== baseHash;
+  const fileChanged = fileHash !== baseHash;
+  if (dbChanged && fileChanged) return "conflict";
+  return dbChanged ? "export" : "import";
+}
@@ -5,9 +5,10 @@
  * No I/O - all functions are pure.
  */
 
-import type { InsightRecord } from "../db/repositories/insights.js";
+import type { InsightRecord, NewInsight } from "../db/repositories/insights.js";
 import type { TaskRecord } from "../db/repositories/tasks.js";
 import { summarizeInsight, summarizeTask } from "./summarization.js";
+import { normalizeCriteria, parseCriteria, serializeCriteria, type AcceptanceCriterion } from "./criteria.js";
 
 // =============================================================================
 // JSON Types (from file-based LoopFlow)
@@ -26,6 +27,7 @@ export interface JsonInsight {
   tags?: string[];
   links?: string[];
   notes?: string;
+  superseded_by?: string;
   created: string;
 }
 
@@ -36,9 +38,11 @@ export interface JsonTask {
   status: string;
   priority?: string;
   depends_on?: string[];
-  acceptance_criteria?: string[];
+  acceptance_criteria?: Array<string | AcceptanceCriterion>;  // Plain strings in older backlogs
   test_file?: string;
   notes?: string;
+  parent_id?: string;
+  status_reason?: string;
 }
 
 export interface JsonBacklog {
@@ -58,7 +62,7 @@ export interface JsonInsightsFile {
 // Transforms: JSON -> Database Record
 // =============================================================================
 
-export function jsonInsightToRecord(json: JsonInsight): Omit<InsightRecord, "created_at" | "updated_at"> {
+export function jsonInsightToRecord(json: JsonInsight): NewInsight {
   return {
     id: json.id,
     content: json.content,
@@ -69,6 +73,7 @@ export function jsonInsightToRecord(json: JsonInsight): Omit<InsightRecord, "cre
     links: json.links ? JSON.stringify(json.links) : null,
     source: json.source ? JSON.stringify(json.source) : null,
     notes: json.notes ?? null,
+    superseded_by: json.superseded_by ?? null,
   };
 }
 
@@ -81,9 +86,11 @@ export function jsonTaskToRecord(json: JsonTask): Omit<TaskRecord, "created_at"
     status: json.status,
     priority: json.priority ?? "medium",
     depends_on: json.depends_on ? JSON.stringify(json.depends_on) : null,
-    acceptance_criteria: json.acceptance_criteria ? JSON.stringify(json.acceptance_criteria) : null,
+    acceptance_criteria: json.acceptance_criteria ? serializeCriteria(normalizeCriteria(json.acceptance_criteria)) : null,
     test_file: json.test_file ?? null,
     notes: json.notes ?? null,
+    parent_id: json.parent_id ?? null,
+    status_reason: json.status_reason ?? null,
   };
 }
 
@@ -101,6 +108,7 @@ export function recordToJsonInsight(record: InsightRecord): JsonInsight {
     tags: record.tags ? JSON.parse(record.tags) : undefined,
     links: record.links ? JSON.parse(record.links) : undefined,
     notes: record.notes ?? undefined,
+    superseded_by: record.superseded_by ?? undefined,
     created: record.created_at,
   };
 }
@@ -113,9 +121,11 @@ export function recordToJsonTask(record: TaskRecord): JsonTask {
     status: record.status,
     priority: record.priority,
     depends_on: record.depends_on ? JSON.parse(record.depends_on) : undefined,
-    acceptance_criteria: record.acceptance_criteria ? JSON.parse(record.acceptance_criteria) : undefined,
+    acceptance_criteria: record.acceptance_criteria ? parseCriteria(record.acceptance_criteria) : undefined,
     test_file: record.test_file ?? undefined,
     notes: record.notes ?? undefined,
+    parent_id: record.parent_id ?? undefined,
+    status_reason: record.status_reason ?? undefined,
   };
 }
 
@@ -123,7 +133,7 @@ export function recordToJsonTask(record: TaskRecord): JsonTask {
 // Batch Transforms
 // =============================================================================
 
-export function transformInsightsFile(file: JsonInsightsFile): Array<Omit<InsightRecord, "created_at" | "updated_at">> {
+export function transformInsightsFile(file: JsonInsightsFile): NewInsight[] {
   return file.insights.map(jsonInsightToRecord);
 }
 
@@ -0,0 +1,230 @@
+/**
+ * Scoring Rules (Pure Functions)
+ *
+ * Relevance scoring for loop_orient and loop_scan ranking.
+ * Combines the query match (FTS5 bm25, blended with embedding similarity when
+ * there is one), recency, type leverage, link centrality and overlap with the
+ * active task into one 0-1 score with human-readable reasons.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Raw signals for one item. Everything except id/text/created_at is optional;
+ * missing signals are left out of the weighted average.
+ */
+export interface ScorableItem {
+  id: string;
+  text: string;                  // Content/title used for task relevance
+  created_at: string;
+  type?: string | null;          // Insight type (leverage)
+  rank?: number | null;          // FTS5 bm25 rank (negative, lower = better)
+  similarity?: number | null;    // Embedding cosine similarity to the query (0-1)
+  link_count?: number;           // Incoming + outgoing links
+  source_task?: string | null;   // Task the item was captured under
+}
+
+export interface ScoringWeights {
+  text: number;
+  recency: number;
+  leverage: number;
+  centrality: number;
+  task: number;
+}
+
+export interface ScoringContext {
+  now?: string;
+  activeTask?: { id: string; text: string } | null;
+  weights?: Partial<ScoringWeights>;
+  halfLifeDays?: number;
+}
+
+export interface ScoredItem<T> {
+  item: T;
+  score: number;        // 0-1, higher is more relevant
+  reasons: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  text: 0.4,
+  recency: 0.15,
+  leverage: 0.15,
+  centrality: 0.1,
+  task: 0.2,
+};
+
+/**
+ * Insight type leverage (docs/DESIGN.md "Learning Types (by Leverage)")
+ */
+export const TYPE_LEVERAGE: Record<string, number> = {
+  process: 1.0,
+  domain: 0.85,
+  architecture: 0.7,
+  edge_case: 0.55,
+  technical: 0.4,
+};
+
+// Share of the query match that comes from embedding similarity (the rest is bm25)
+export const SEMANTIC_SHARE = 0.5;
+// Below this, similarity is noise and not worth a reason
+const SEMANTIC_REASON_MIN = 0.1;
+
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "are", "was",
+  "not", "but", "can", "use", "when", "add", "new", "all", "any", "its",
+  "has", "have", "will", "should", "via", "per", "our", "you", "your",
+  "impl", "spike", "design", "learn", "review", "bug", "docs",
+]);
+
+// =============================================================================
+// Component Scores (each 0-1)
+// =============================================================================
+
+/**
+ * Normalize a bm25 rank against the best rank in the result set.
+ * FTS5 bm25 is negative; the best match gets 1.
+ */
+export function normalizeBm25(rank: number, bestRank: number): number {
+  if (bestRank >= 0 || rank >= 0) return 0;
+  return Math.min(1, rank / bestRank);
+}
+
+/**
+ * Hybrid query match: bm25 blended with embedding similarity. An item with no
+ * embedding yet keeps its bm25 score; one found only by similarity has bm25 0.
+ */
+export function hybridTextScore(bm25: number, similarity: number | null | undefined): number {
+  return typeof similarity === "number"
+    ? (1 - SEMANTIC_SHARE) * bm25 + SEMANTIC_SHARE * similarity
+    : bm25;
+}
+
+/**
+ * Exponential decay: 1 for now, 0.5 after halfLifeDays
+ */
+export function recencyScore(date: string, now: string, halfLifeDays = DEFAULT_HALF_LIFE_DAYS): number {
+  const ageDays = Math.max(0, (new Date(now).getTime() - new Date(date).getTime()) / DAY_MS);
+  if (Number.isNaN(ageDays)) return 0;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+export function typeLeverage(type: string | null | undefined): number {
+  return type ? TYPE_LEVERAGE[type] ?? 0.4 : 0.4;
+}
+
+/**
+ * Log-scaled link degree relative to the best-connected item
+ */
+export function centralityScore(linkCount: number, maxLinkCount: number): number {
+  if (linkCount <= 0 || maxLinkCount <= 0) return 0;
+  return Math.log2(1 + linkCount) / Math.log2(1 + maxLinkCount);
+}
+
+/**
+ * Significant lowercase terms (>= 3 chars, no stopwords)
+ */
+export function extractTerms(text: string): string[] {
+  const terms = text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter(t => t.length >= 3 && !STOPWORDS.has(t));
+  return [...new Set(terms)];
+}
+
+/**
+ * Fraction of active-task terms present in the item text, plus matched terms
+ */
+export function taskRelevance(text: string, taskText: string): { score: number; matched: string[] } {
+  const taskTerms = extractTerms(taskText);
+  if (taskTerms.length === 0) return { score: 0, matched: [] };
+  const itemTerms = new Set(extractTerms(text));
+  const matched = taskTerms.filter(t => itemTerms.has(t));
+  return { score: matched.length / taskTerms.length, matched };
+}
+
+// =============================================================================
+// Combined Scoring
+// =============================================================================
+
+/**
+ * Score and sort items (highest first). Ties keep input order.
+ */
+export function scoreItems<T>(
+  items: T[],
+  toScorable: (item: T) => ScorableItem,
+  context: ScoringContext = {}
+): ScoredItem<T>[] {
+  const now = context.now ?? new Date().toISOString();
+  const weights = { ...DEFAULT_WEIGHTS, ...context.weights };
+  const halfLife = context.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const scorables = items.map(toScorable);
+
+  const ranks = scorables.map(s => s.rank).filter((r): r is number => typeof r === "number");
+  const bestRank = ranks.length ? Math.min(...ranks) : 0;
+  const maxLinks = Math.max(0, ...scorables.map(s => s.link_count ?? 0));
+
+  const scored = items.map((item, index) => {
+    const s = scorables[index];
+    const parts: Array<{ weight: number; value: number }> = [];
+    const reasons: string[] = [];
+
+    if (typeof s.rank === "number" || typeof s.similarity === "number") {
+      const bm25 = typeof s.rank === "number" ? normalizeBm25(s.rank, bestRank) : 0;
+      parts.push({ weight: weights.text, value: hybridTextScore(bm25, s.similarity) });
+      if (bm25 > 0) reasons.push(`query match ${bm25.toFixed(2)}`);
+      if ((s.similarity ?? 0) >= SEMANTIC_REASON_MIN) reasons.push(`semantic match ${s.similarity!.toFixed(2)}`);
+    }
+
+    const recency = recencyScore(s.created_at, now, halfLife);
+    parts.push({ weight: weights.recency, value: recency });
+    if (recency >= 0.5) {
+      const days = Math.round((new Date(now).getTime() - new Date(s.created_at).getTime()) / DAY_MS);
+      reasons.push(days <= 0 ? "captured today" : `recent (${days}d old)`);
+    }
+
+    if (s.type !== undefined) {
+      const leverage = typeLeverage(s.type);
+      parts.push({ weight: weights.leverage, value: leverage });
+      if (leverage >= 0.7) reasons.push(`high-leverage type: ${s.type}`);
+    }
+
+    if (s.link_count !== undefined) {
+      const centrality = centralityScore(s.link_count, maxLinks);
+      parts.push({ weight: weights.centrality, value: centrality });
+      if (s.link_count > 0) reasons.push(`linked ${s.link_count}x`);
+    }
+
+    if (context.activeTask) {
+      const fromTask = s.source_task === context.activeTask.id;
+      const relevance = taskRelevance(s.text, context.activeTask.text);
+      const value = fromTask ? 1 : relevance.score;
+      parts.push({ weight: weights.task, value });
+      if (fromTask) {
+        reasons.push(`captured during ${context.activeTask.id}`);
+      } else if (relevance.matched.length > 0) {
+        reasons.push(`relates to ${context.activeTask.id} (${relevance.matched.slice(0, 3).join(", ")})`);
+      }
+    }
+
+    const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+    const score = totalWeight > 0
+      ? parts.reduce((sum, p) => sum + p.weight * p.value, 0) / totalWeight
+      : 0;
+
+    return { item, score: Math.round(score * 1000) / 1000, reasons, index };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item, score, reasons }) => ({ item, score, reasons }));
+}
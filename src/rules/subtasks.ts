@@ -0,0 +1,136 @@
+/**
+ * Subtask Rules (Pure Functions)
+ *
+ * Task hierarchy over tasks.parent_id: dotted child IDs (LF-042.1),
+ * progress rolled up from children, and tree building for listings.
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HierarchyNode {
+  id: string;
+  parent_id: string | null;
+  status: string;
+}
+
+export interface TaskProgress {
+  total: number;        // Direct subtasks, excluding CANCELLED
+  done: number;         // Direct subtasks that are DONE
+  percent: number;      // 0-100, rolled up through nested subtasks
+}
+
+export interface TaskTreeNode<T> {
+  task: T;
+  children: TaskTreeNode<T>[];
+}
+
+// =============================================================================
+// IDs
+// =============================================================================
+
+/**
+ * Parent implied by a dotted ID: LF-042.1 -> LF-042, LF-042.1.2 -> LF-042.1
+ */
+export function parentTaskId(id: string): string | null {
+  const match = id.match(/^(.+)\.\d+$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Natural ID order: LF-042.2 before LF-042.10
+ */
+export function compareTaskIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// =============================================================================
+// Progress Rollup
+// =============================================================================
+
+/**
+ * Progress for every task that has subtasks. A subtask that has its own
+ * subtasks counts by its rolled-up completion rather than its status.
+ */
+export function computeProgress(nodes: HierarchyNode[]): Map<string, TaskProgress> {
+  const children = childrenByParent(nodes);
+  const completion = new Map<string, number>();
+  const progress = new Map<string, TaskProgress>();
+
+  // Fraction complete (0-1); visiting guards against parent_id cycles
+  const visit = (node: HierarchyNode, visiting: Set<string>): number => {
+    const cached = completion.get(node.id);
+    if (cached !== undefined) return cached;
+
+    const kids = (children.get(node.id) ?? []).filter(c => c.status !== "CANCELLED" && !visiting.has(c.id));
+    let value = node.status === "DONE" ? 1 : 0;
+    if (kids.length > 0) {
+      visiting.add(node.id);
+      const sum = kids.reduce((total, kid) => total + visit(kid, visiting), 0);
+      visiting.delete(node.id);
+      value = node.status === "DONE" ? 1 : sum / kids.length;
+      progress.set(node.id, {
+        total: kids.length,
+        done: kids.filter(k => k.status === "DONE").length,
+        percent: Math.round((sum / kids.length) * 100),
+      });
+    }
+    completion.set(node.id, value);
+    return value;
+  };
+
+  for (const node of nodes) {
+    visit(node, new Set());
+  }
+  return progress;
+}
+
+// =============================================================================
+// Tree Building
+// =============================================================================
+
+function childrenByParent<T extends HierarchyNode>(nodes: T[]): Map<string, T[]> {
+  const ids = new Set(nodes.map(n => n.id));
+  const children = new Map<string, T[]>();
+  for (const node of nodes) {
+    if (node.parent_id && node.parent_id !== node.id && ids.has(node.parent_id)) {
+      const list = children.get(node.parent_id) ?? [];
+      list.push(node);
+      children.set(node.parent_id, list);
+    }
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => compareTaskIds(a.id, b.id));
+  }
+  return children;
+}
+
+/**
+ * Nest tasks under their parents. Tasks whose parent isn't in the list
+ * (e.g. filtered out) become roots. Roots keep input order; children are in ID order.
+ */
+export function buildTaskTree<T extends HierarchyNode>(tasks: T[]): TaskTreeNode<T>[] {
+  const children = childrenByParent(tasks);
+  const placed = new Set<string>();
+
+  const build = (task: T): TaskTreeNode<T> => {
+    placed.add(task.id);
+    return {
+      task,
+      children: (children.get(task.id) ?? []).filter(c => !placed.has(c.id)).map(build),
+    };
+  };
+
+  const ids = new Set(tasks.map(t => t.id));
+  const roots = tasks
+    .filter(t => !t.parent_id || t.parent_id === t.id || !ids.has(t.parent_id))
+    .map(build);
+
+  // Anything left sits on a parent_id cycle: show it at the top level
+  for (const task of tasks) {
+    if (!placed.has(task.id)) roots.push(build(task));
+  }
+  return roots;
+}
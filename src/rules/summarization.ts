@@ -74,6 +74,17 @@ export function summarizeTask(title: string, maxLength = DEFAULT_MAX_LENGTH): st
   return truncateAtWord(title, maxLength);
 }
 
+/**
+ * Split a task title into its [TYPE] prefix and the rest.
+ * "[IMPL] Add feature X" -> { type: "[IMPL]", title: "Add feature X" }
+ */
+export function splitTaskTitle(title: string): { type: string | null; title: string } {
+  const typeMatch = title.match(/^(\[[A-Z]+\])\s*/);
+  return typeMatch
+    ? { type: typeMatch[1], title: title.slice(typeMatch[0].length).trim() }
+    : { type: null, title: title.trim() };
+}
+
 /**
  * Check if content is "short" (doesn't need summarization).
  * Short content can be shown directly in scan results.
@@ -0,0 +1,254 @@
+/**
+ * Test Report Rules (Pure Functions)
+ *
+ * Reads test runner reports and matches them to tasks through tasks.test_file:
+ * - JUnit XML (vitest --reporter=junit, jest-junit, pytest --junitxml, ...)
+ * - Jest-style JSON (vitest --reporter=json, jest --json)
+ * No I/O - all functions are pure.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TestOutcome = "passed" | "failed" | "skipped";
+
+export type TestReportFormat = "junit" | "json";
+
+export interface TestCaseResult {
+  file: string;       // Test file as written in the report (may be absolute)
+  name: string;
+  outcome: TestOutcome;
+}
+
+export type TestReportParse =
+  | { ok: true; format: TestReportFormat; cases: TestCaseResult[] }
+  | { ok: false; error: string };
+
+/**
+ * Results of one task's test file in one report
+ */
+export interface TestFileSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  failing: string[];    // Names of failed tests
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a report, detecting its format from the content
+ */
+export function parseTestReport(content: string): TestReportParse {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("<")) {
+    const cases = parseJunitXml(trimmed);
+    return /<testsuites?\b/.test(trimmed)
+      ? { ok: true, format: "junit", cases }
+      : { ok: false, error: "XML report has no <testsuite> elements" };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed);
+  } catch {
+    return { ok: false, error: "Report is neither JUnit XML nor JSON" };
+  }
+  if (typeof json !== "object" || json === null || !Array.isArray((json as { testResults?: unknown }).testResults)) {
+    return { ok: false, error: "JSON report has no testResults (expected vitest/jest --reporter=json output)" };
+  }
+  return { ok: true, format: "json", cases: parseJsonReport(json as JsonReport) };
+}
+
+/**
+ * Test cases from JUnit XML. A case's file comes from its own `file` attribute,
+ * then its suite's, then a path-like classname (vitest), then the suite name.
+ */
+export function parseJunitXml(xml: string): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  const suites: Array<Record<string, string>> = [];
+  const tag = /<(\/?)(testsuite|testcase)\b([^>]*?)(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(xml)) !== null) {
+    const [, closing, element, rawAttrs, selfClosing] = match;
+
+    if (element === "testsuite") {
+      if (closing) suites.pop();
+      else if (!selfClosing) suites.push(parseAttributes(rawAttrs));
+      continue;
+    }
+    if (closing) continue;
+
+    let body = "";
+    if (!selfClosing) {
+      const end = xml.indexOf("</testcase>", tag.lastIndex);
+      body = xml.slice(tag.lastIndex, end === -1 ? undefined : end);
+      if (end !== -1) tag.lastIndex = end + "</testcase>".length;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const suite = suites[suites.length - 1] ?? {};
+    const classname = attrs.classname ?? "";
+    cases.push({
+      file: attrs.file ?? suite.file ?? (looksLikePath(classname) ? classname : suite.name ?? classname),
+      name: attrs.name ?? "",
+      outcome: /<(failure|error)\b/.test(body) ? "failed" : /<skipped\b/.test(body) ? "skipped" : "passed",
+    });
+  }
+  return cases;
+}
+
+interface JsonReport {
+  testResults: Array<{
+    name: string;
+    status?: string;
+    message?: string;
+    assertionResults?: Array<{ fullName?: string; title?: string; status: string }>;
+  }>;
+}
+
+/**
+ * Test cases from jest-style JSON. A file that failed before running any
+ * test (syntax error, failed import) counts as one failed case.
+ */
+export function parseJsonReport(report: JsonReport): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  for (const file of report.testResults) {
+    const assertions = file.assertionResults ?? [];
+    if (assertions.length === 0 && file.status === "failed") {
+      cases.push({ file: file.name, name: file.message?.split("\n")[0] || "Test file failed to run", outcome: "failed" });
+      continue;
+    }
+    for (const assertion of assertions) {
+      cases.push({
+        file: file.name,
+        name: assertion.fullName ?? assertion.title ?? "",
+        outcome: assertion.status === "passed" ? "passed" : assertion.status === "failed" ? "failed" : "skipped",
+      });
+    }
+  }
+  return cases;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, key, doubleQuoted, singleQuoted] of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[key] = unescapeXml(doubleQuoted ?? singleQuoted);
+  }
+  return attrs;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function looksLikePath(value: string): boolean {
+  return /[\\/]/.test(value);
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+function normalizePath(file: string): string {
+  return file.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Does a file in a report belong to a task's test_file? Reports often use
+ * absolute paths, so a report path ending in the test file matches; a
+ * test_file ending in "/" matches every file under that directory.
+ */
+export function testFileMatches(testFile: string, reportFile: string): boolean {
+  const wanted = normalizePath(testFile);
+  const actual = normalizePath(reportFile);
+  if (!wanted) return false;
+  if (wanted.endsWith("/")) {
+    return actual.startsWith(wanted) || actual.includes(`/${wanted}`);
+  }
+  return actual === wanted || actual.endsWith(`/${wanted}`);
+}
+
+/**
+ * Summarize a task's test file from a report's cases (null if the report doesn't cover it)
+ */
+export function summarizeTestFile(cases: TestCaseResult[], testFile: string): TestFileSummary | null {
+  const matching = cases.filter(c => testFileMatches(testFile, c.file));
+  if (matching.length === 0) return null;
+  const count = (outcome: TestOutcome) => matching.filter(c => c.outcome === outcome).length;
+  return {
+    passed: count("passed"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    total: matching.length,
+    failing: matching.filter(c => c.outcome === "failed").map(c => c.name),
+  };
+}
+
+/**
+ * Report files no task's test_file matches
+ */
+export function unmatchedTestFiles(cases: TestCaseResult[], testFiles: string[]): string[] {
+  const files = [...new Set(cases.map(c => c.file))];
+  return files.filter(file => !testFiles.some(testFile => testFileMatches(testFile, file)));
+}
+
+// =============================================================================
+// Task Status
+// =============================================================================
+
+/**
+ * A recorded result as stored (failing is a JSON array)
+ */
+export interface StoredTestResult {
+  test_file: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failing: string | null;
+  recorded_at: string;
+}
+
+export interface TaskTestStatus {
+  test_file: string;
+  summary: string;        // "3/5 tests passing"
+  passed: number;
+  failed: number;
+  skipped: number;
+  failing: string[];
+  recorded_at: string;
+}
+
+/**
+ * One-line status, e.g. "3/5 tests passing" (skipped tests don't count)
+ */
+export function formatTestSummary(summary: Pick<TestFileSummary, "passed" | "failed">): string {
+  return `${summary.passed}/${summary.passed + summary.failed} tests passing`;
+}
+
+/**
+ * A task's test status, or null when it has no result for its current
+ * test_file (never run, or the file changed since)
+ */
+export function taskTestStatus(testFile: string | null, result: StoredTestResult | null): TaskTestStatus | null {
+  if (!testFile || !result || result.test_file !== testFile) return null;
+  return {
+    test_file: testFile,
+    summary: formatTestSummary(result),
+    passed: result.passed,
+    failed: result.failed,
+    skipped: result.skipped,
+    failing: result.failing ? JSON.parse(result.failing) as string[] : [],
+    recorded_at: result.recorded_at,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Workflow Rules (Pure Functions)
+ *
+ * The task state machine: which status changes are allowed, and what a task
+ * needs before it may enter a status (a reason for BLOCKED, every acceptance
+ * criterion checked for DONE, ...). Configured under tasks in
+ * .loop-flow/config.json.
+ * No I/O - all functions are pure.
+ */
+
+import { parseCriteria, criteriaMet } from "./criteria.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * What entering a status can require:
+ * - reason: a reason passed with the status change (stored as status_reason)
+ * - acceptance_criteria_met: every acceptance criterion checked off
+ * - anything else: that task field must be non-empty
+ */
+export const TRANSITION_REQUIREMENTS = [
+  "reason",
+  "acceptance_criteria_met",
+  "acceptance_criteria",
+  "description",
+  "notes",
+  "test_file",
+] as const;
+
+export type TransitionRequirement = typeof TRANSITION_REQUIREMENTS[number];
+
+export interface Workflow {
+  statuses: string[];
+  transitions: Record<string, string[]>;                  // from -> allowed targets (unlisted: any)
+  requirements: Record<string, TransitionRequirement[]>;  // target -> what it needs
+  board_columns?: string[];                                // Kanban columns (default: all but CANCELLED)
+}
+
+/**
+ * Task fields the requirements look at, as they'll be after the change
+ */
+export interface TransitionTask {
+  description: string | null;
+  notes: string | null;
+  test_file: string | null;
+  acceptance_criteria: string | null;   // JSON array as string
+}
+
+export interface TransitionCandidate {
+  from: string | null;   // null = a new task
+  to: string;
+  reason?: string | null;
+  task: TransitionTask;
+}
+
+export type TransitionCheck =
+  | { ok: true }
+  | { ok: false; error: string; allowed?: string[]; missing?: TransitionRequirement[] };
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+/**
+ * Statuses a task in `from` may move to
+ */
+export function allowedTargets(workflow: Workflow, from: string): string[] {
+  return workflow.transitions[from] ?? workflow.statuses.filter(s => s !== from);
+}
+
+/**
+ * Error for a status/priority/type outside the repo's configured vocabulary, or null
+ */
+export function vocabularyError(field: string, value: string, allowed: string[]): string | null {
+  return allowed.includes(value)
+    ? null
+    : `Unknown ${field} "${value}". Allowed (see .loop-flow/config.json): ${allowed.join(", ")}`;
+}
+
+/**
+ * Check a status change (or the initial status of a new task) against the workflow
+ */
+export function checkTransition(workflow: Workflow, candidate: TransitionCandidate): TransitionCheck {
+  const { from, to } = candidate;
+  if (!workflow.statuses.includes(to)) {
+    return { ok: false, error: `Unknown status "${to}"`, allowed: workflow.statuses };
+  }
+  if (from !== null && from !== to) {
+    const allowed = allowedTargets(workflow, from);
+    if (!allowed.includes(to)) {
+      return { ok: false, error: `Cannot move from ${from} to ${to}`, allowed };
+    }
+  }
+
+  const missing = (workflow.requirements[to] ?? []).filter(req => !requirementMet(req, candidate));
+  if (missing.length > 0) {
+    return { ok: false, error: `${to} requires ${missing.join(", ")}`, missing };
+  }
+  return { ok: true };
+}
+
+/**
+ * Check an update to an existing task. Requirements are judged on the task
+ * as it will be after the update, so criteria can be checked in the same call.
+ */
+export function checkTaskUpdate(
+  workflow: Workflow,
+  existing: TransitionTask & { status: string },
+  changes: Partial<TransitionTask> & { status?: string },
+  reason?: string | null
+): TransitionCheck {
+  if (changes.status === undefined || changes.status === existing.status) {
+    return { ok: true };
+  }
+  return checkTransition(workflow, {
+    from: existing.status,
+    to: changes.status,
+    reason,
+    task: {
+      description: changes.description !== undefined ? changes.description : existing.description,
+      notes: changes.notes !== undefined ? changes.notes : existing.notes,
+      test_file: changes.test_file !== undefined ? changes.test_file : existing.test_file,
+      acceptance_criteria: changes.acceptance_criteria !== undefined
+        ? changes.acceptance_criteria
+        : existing.acceptance_criteria,
+    },
+  });
+}
+
+function requirementMet(requirement: TransitionRequirement, candidate: TransitionCandidate): boolean {
+  switch (requirement) {
+    case "reason":
+      return !!candidate.reason?.trim();
+    case "acceptance_criteria_met":
+      return criteriaMet(candidate.task.acceptance_criteria);
+    case "acceptance_criteria":
+      return parseCriteria(candidate.task.acceptance_criteria).length > 0;
+    default:
+      return !!candidate.task[requirement]?.trim();
+  }
+}
+
+// =============================================================================
+// Board
+// =============================================================================
+
+/**
+ * Kanban columns, in workflow order
+ */
+export function boardColumns(workflow: Workflow): string[] {
+  return workflow.board_columns ?? workflow.statuses.filter(s => s !== "CANCELLED");
+}
+
+/**
+ * Problems with a workflow definition (statuses referenced but not declared)
+ */
+export function validateWorkflow(workflow: Workflow): string[] {
+  const known = new Set(workflow.statuses);
+  const errors: string[] = [];
+  for (const [from, targets] of Object.entries(workflow.transitions)) {
+    for (const status of [from, ...targets]) {
+      if (!known.has(status)) errors.push(`transitions: unknown status ${status}`);
+    }
+  }
+  for (const status of Object.keys(workflow.requirements)) {
+    if (!known.has(status)) errors.push(`requirements: unknown status ${status}`);
+  }
+  for (const status of workflow.board_columns ?? []) {
+    if (!known.has(status)) errors.push(`board_columns: unknown status ${status}`);
+  }
+  return errors;
+}
@@ -2,6 +2,7 @@ import { Routes, Route, NavLink } from 'react-router-dom'
 import Dashboard from './pages/Dashboard'
 import Backlog from './pages/Backlog'
 import Insights from './pages/Insights'
+import Graph from './pages/Graph'
 import Sessions from './pages/Sessions'
 
 function App() {
@@ -57,6 +58,18 @@ function App() {
                 >
                   Insights
                 </NavLink>
+                <NavLink 
+                  to="/graph" 
+                  className={({ isActive }) => 
+                    `px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      isActive 
+                        ? 'bg-blue-50 text-blue-700' 
+                        : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+                    }`
+                  }
+                >
+                  Graph
+                </NavLink>
                 <NavLink 
                   to="/sessions" 
                   className={({ isActive }) => 
@@ -81,6 +94,7 @@ function App() {
           <Route path="/" element={<Dashboard />} />
           <Route path="/backlog" element={<Backlog />} />
           <Route path="/insights" element={<Insights />} />
+          <Route path="/graph" element={<Graph />} />
           <Route path="/sessions" element={<Sessions />} />
         </Routes>
       </main>
@@ -1,69 +1,52 @@
 // API client for LoopFlow backend
 
-const API_BASE = '/api'
+import type {
+  ApiErrorBody,
+  Task,
+  TaskCreate,
+  TaskUpdate,
+  Workflow,
+  Commit,
+  Insight,
+  InsightDetail,
+  InsightSearchHit,
+  InsightCreate,
+  InsightUpdate,
+  CreatedInsight,
+  InsightGraph,
+  Session,
+  Stats,
+  HistoryEvent,
+} from './types'
 
-export interface Task {
-  id: string
-  title: string
-  description: string | null
-  status: string
-  priority: string
-  depends_on: string[] | null
-  acceptance_criteria: string[] | null
-  notes: string | null
-  created_at: string
-  updated_at: string
-}
+// Types come from the server's OpenAPI document: regenerate with `npm run generate:api-types`
+export type * from './types'
 
-export interface Insight {
-  id: string
-  content: string
-  type: string
-  status: string
-  tags: string[] | null
-  links: string[] | null
-  notes: string | null
-  created_at: string
-  updated_at: string
-}
-
-export interface Session {
-  id: string
-  date: string
-  session_number: number
-  task_id: string | null
-  task_title: string | null
-  outcome: string | null
-  summary: string
-  created_at: string
-}
+const API_BASE = '/api'
 
-export interface Stats {
-  tasks: {
-    total: number
-    todo: number
-    in_progress: number
-    done: number
-    blocked: number
-  }
-  insights: {
-    total: number
-    by_type: Record<string, number>
-  }
-  sessions: {
-    total: number
-    recent: Session[]
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string, public details?: unknown) {
+    super(message)
   }
 }
 
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(`${API_BASE}${url}`)
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}${url}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
   if (!res.ok) {
-    throw new Error(`HTTP ${res.status}: ${res.statusText}`)
+    const envelope = await res.json().catch(() => null) as ApiErrorBody | null
+    throw envelope
+      ? new ApiError(res.status, envelope.error.code, envelope.error.message, envelope.error.details)
+      : new ApiError(res.status, 'http_error', `HTTP ${res.status}: ${res.statusText}`)
   }
-  return res.json()
+  return res.status === 204 ? (undefined as T) : res.json()
 }
 
+const fetchJson = <T>(url: string) => request<T>('GET', url)
+
 export const api = {
   // Stats
   getStats: () => fetchJson<Stats>('/stats'),
@@ -74,22 +57,33 @@ export const api = {
     return fetchJson<Task[]>(`/tasks${params}`)
   },
   getTask: (id: string) => fetchJson<Task>(`/tasks/${id}`),
-  updateTask: async (id: string, updates: Partial<Task>) => {
-    const res = await fetch(`${API_BASE}/tasks/${id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updates),
-    })
-    return res.json()
-  },
+  getTaskCommits: (id: string) => fetchJson<Commit[]>(`/tasks/${id}/commits`),
+  getWorkflow: () => fetchJson<Workflow>('/workflow'),
+  createTask: (task: TaskCreate) => request<Task>('POST', '/tasks', task),
+  updateTask: (id: string, updates: TaskUpdate) => request<Task>('PATCH', `/tasks/${id}`, updates),
+  deleteTask: (id: string) => request<void>('DELETE', `/tasks/${id}`),
 
   // Insights
   getInsights: (type?: string) => {
     const params = type ? `?type=${type}` : ''
     return fetchJson<Insight[]>(`/insights${params}`)
   },
-  getInsight: (id: string) => fetchJson<Insight>(`/insights/${id}`),
-  searchInsights: (query: string) => fetchJson<Insight[]>(`/insights/search?q=${encodeURIComponent(query)}`),
+  getInsight: (id: string) => fetchJson<InsightDetail>(`/insights/${id}`),
+  searchInsights: (query: string) => fetchJson<InsightSearchHit[]>(`/insights/search?q=${encodeURIComponent(query)}`),
+  createInsight: (insight: InsightCreate) => request<CreatedInsight>('POST', '/insights', insight),
+  updateInsight: (id: string, updates: InsightUpdate) => request<Insight>('PATCH', `/insights/${id}`, updates),
+  deleteInsight: (id: string) => request<void>('DELETE', `/insights/${id}`),
+
+  // Knowledge graph
+  getGraph: (filters: { tag?: string; type?: string; status?: string; tasks?: boolean } = {}) => {
+    const params = new URLSearchParams()
+    if (filters.tag) params.set('tag', filters.tag)
+    if (filters.type) params.set('type', filters.type)
+    if (filters.status) params.set('status', filters.status)
+    if (filters.tasks) params.set('tasks', 'true')
+    const query = params.toString()
+    return fetchJson<InsightGraph>(`/graph${query ? `?${query}` : ''}`)
+  },
 
   // Sessions
   getSessions: (limit?: number) => {
@@ -98,3 +92,29 @@ export const api = {
   },
   getSession: (id: string) => fetchJson<Session>(`/sessions/${id}`),
 }
+
+// Live updates: one EventSource for every subscriber, closed when the last one leaves.
+// The server sends a `change` event for each task, insight, session or context change,
+// whichever process (MCP server, CLI, API) made it.
+type ChangeListener = (event: HistoryEvent) => void
+
+const changeListeners = new Set<ChangeListener>()
+let changeSource: EventSource | null = null
+
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  changeListeners.add(listener)
+  if (!changeSource) {
+    changeSource = new EventSource(`${API_BASE}/events`)
+    changeSource.addEventListener('change', (e) => {
+      const event = JSON.parse((e as MessageEvent<string>).data) as HistoryEvent
+      changeListeners.forEach(notify => notify(event))
+    })
+  }
+  return () => {
+    changeListeners.delete(listener)
+    if (changeListeners.size === 0) {
+      changeSource?.close()
+      changeSource = null
+    }
+  }
+}
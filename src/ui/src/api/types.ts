@@ -0,0 +1,363 @@
+// Generated from the OpenAPI document (GET /api/openapi.json) by
+// `loopflow openapi --types src/ui/src/api/types.ts`. Do not edit by hand.
+
+export interface ApiErrorBody {
+  error: {
+    code: 'bad_request' | 'validation_failed' | 'not_found' | 'conflict' | 'unprocessable' | 'internal'
+    message: string
+    details?: unknown   // Validation issues, missing requirements, blocking tasks...
+  }
+}
+
+export interface TaskCreate {
+  id?: string   // Task ID (e.g., 'LF-104'). Omit to auto-generate (next PREFIX-NNN, or the next dotted ID under parent_id)
+  parent_id?: string   // Parent task ID - creates a subtask (e.g., 'LF-042')
+  title: string   // Task title including type prefix (e.g., '[IMPL] Add feature X')
+  description?: string   // Detailed description
+  priority?: string   // Task priority: high | medium | low unless config.json says otherwise (default: medium)
+  status?: string   // Task status (default: TODO)
+  reason?: string   // Why the task starts in this status (required for some, e.g. BLOCKED)
+  depends_on?: string[]   // IDs of tasks this depends on
+  acceptance_criteria?: string[]   // List of acceptance criteria (start unmet; tick them with loop_task_verify)
+  test_file?: string   // Test file (repo-relative) that proves the task, e.g. 'src/rules/__tests__/sync.test.ts'. A trailing / covers a directory
+  notes?: string   // Additional notes
+}
+
+export interface TaskUpdate {
+  status?: string   // New status (one of the repo's configured statuses, via an allowed transition)
+  reason?: string   // Why the status changed (required for some statuses, e.g. BLOCKED)
+  priority?: string   // New priority (one of the repo's configured priorities)
+  title?: string
+  description?: string
+  notes?: string
+  depends_on?: string[]
+  acceptance_criteria?: string[]   // Replace the criteria list. Criteria whose text is unchanged keep their met state
+  test_file?: string   // Test file (repo-relative) that proves the task; empty string unlinks it
+}
+
+export interface InsightCreate {
+  content: string   // The insight to capture
+  type?: string   // Type of insight (defaults to technical). Domain=business/problem space, Architecture=design decisions, Edge_case=gotchas, Technical=patterns/tricks. Repos can define their own types in config.json
+  tags?: string[]   // Optional tags
+}
+
+export interface InsightUpdate {
+  status?: 'unprocessed' | 'discussed' | 'validated' | 'superseded' | 'archived'   // unprocessed | discussed | validated | superseded (needs superseded_by) | archived
+  superseded_by?: string   // The insight that replaces this one (sets status superseded)
+  tags?: string[]   // Replace tags
+  add_tags?: string[]   // Add to existing tags
+  links?: string[]   // Replace outgoing links of the given relation (other relations are kept)
+  add_links?: string[]   // Add to existing links
+  remove_links?: string[]   // Remove outgoing links to these IDs (all relations)
+  relation?: 'builds_on' | 'contradicts' | 'exemplifies' | 'synthesizes' | 'relates_to'   // Relation for links/add_links (default: relates_to). Use loop_link to annotate a single link
+  notes?: string
+}
+
+export interface SessionCreate {
+  date?: string   // Session date, YYYY-MM-DD (default: today)
+  task_id?: string | null   // Task the session worked on
+  task_title?: string | null
+  outcome?: 'COMPLETE' | 'PARTIAL' | 'BLOCKED' | 'IN_PROGRESS' | 'INTERRUPTED'
+  summary: string
+  learnings?: string | null
+}
+
+export interface SessionUpdate {
+  task_id?: string | null   // Task the session worked on
+  task_title?: string | null
+  outcome?: 'COMPLETE' | 'PARTIAL' | 'BLOCKED' | 'IN_PROGRESS' | 'INTERRUPTED'
+  summary?: string   // What happened in the session
+  learnings?: string | null
+}
+
+export interface RepoContextUpdate {
+  repo_summary?: string   // High-level description of the repo (what it is, current state)
+  folder_structure?: string   // Annotated folder tree of key directories
+  suggested_actions?: string   // Free-form notes for the next session - what to do next, warnings, context
+}
+
+export interface FeedbackCreate {
+  type: 'pain_point' | 'feature_idea' | 'bug'   // Type of feedback
+  title: string   // Short title describing the issue
+  description: string   // Detailed description of the issue/idea
+  context?: string   // Additional context (will be sanitized)
+  severity?: 'low' | 'medium' | 'high' | 'critical'   // Severity (default: medium)
+}
+
+export interface FeedbackUpdate {
+  title?: string
+  description?: string
+  severity?: 'low' | 'medium' | 'high' | 'critical'
+  status?: 'queued' | 'shared' | 'dismissed'
+  github_issue_url?: string | null   // Issue the feedback was shared as
+}
+
+export interface AcceptanceCriterion {
+  text: string
+  met: boolean
+  evidence: string | null   // Test name, commit, or note on how it was verified
+  verified_at: string | null
+}
+
+export interface CriteriaProgress {
+  total: number
+  met: number
+  percent: number
+}
+
+export interface TaskProgress {
+  total: number
+  done: number
+  percent: number
+}
+
+export interface TaskTests {
+  test_file: string
+  summary: string   // 3/5 tests passing
+  passed: number
+  failed: number
+  skipped: number
+  failing: string[]
+  recorded_at: string
+}
+
+export interface Task {
+  id: string
+  title: string
+  description: string | null
+  summary: string | null
+  status: string
+  status_reason: string | null   // Reason given with the last status change
+  priority: string
+  depends_on: string[] | null
+  acceptance_criteria: AcceptanceCriterion[] | null
+  criteria_progress: CriteriaProgress
+  test_file: string | null
+  tests: TaskTests | null   // null until a report covering test_file is recorded
+  notes: string | null
+  parent_id: string | null
+  progress: TaskProgress | null
+  created_at: string
+  updated_at: string
+  children?: Task[]   // Subtasks (GET /api/tasks/:id, or ?tree=true)
+}
+
+export interface Workflow {
+  statuses: string[]
+  columns: string[]   // Kanban columns, in order
+  transitions: Record<string, string[]>   // status -> statuses it may move to
+  requirements: Record<string, string[]>   // status -> what entering it needs (e.g. reason)
+  priorities: string[]
+}
+
+export interface Commit {
+  sha: string
+  subject: string
+  author: string
+  date: string
+  task_ids: string[]   // From the message, or the branch it was made on
+  session_id?: string | null   // Session that recorded it (task commits)
+}
+
+export interface Insight {
+  id: string
+  content: string
+  summary: string | null
+  type: string
+  status: string
+  superseded_by: string | null   // Set when status is superseded
+  tags: string[] | null
+  links: string[] | null
+  source: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface InsightRelation {
+  id: string   // The other insight
+  relation: 'builds_on' | 'contradicts' | 'exemplifies' | 'synthesizes' | 'relates_to'
+  direction: 'outgoing' | 'incoming'
+  note: string | null
+}
+
+export interface InsightDetail {
+  id: string
+  content: string
+  summary: string | null
+  type: string
+  status: string
+  superseded_by: string | null   // Set when status is superseded
+  tags: string[] | null
+  links: string[] | null
+  source: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+  relations: InsightRelation[]
+}
+
+export interface InsightSearchHit {
+  id: string
+  content: string
+  summary: string | null
+  type: string
+  status: string
+  superseded_by: string | null   // Set when status is superseded
+  tags: string[] | null
+  links: string[] | null
+  source: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+  rank: number   // FTS5 bm25 score (lower is better)
+}
+
+export interface PossibleDuplicate {
+  id: string
+  summary: string
+  score: number   // Word overlap, 0-1
+}
+
+export interface CreatedInsight {
+  id: string
+  content: string
+  summary: string | null
+  type: string
+  status: string
+  superseded_by: string | null   // Set when status is superseded
+  tags: string[] | null
+  links: string[] | null
+  source: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+  possible_duplicates: PossibleDuplicate[]
+}
+
+export interface GraphNode {
+  id: string
+  kind: 'insight' | 'task'
+  label: string   // Insight summary, or task title
+  type: string | null   // Insight type (null for tasks)
+  status: string
+  tags: string[]
+  links: number   // Insight links in and out, counted over the whole graph (0: orphaned)
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  relation: 'builds_on' | 'contradicts' | 'exemplifies' | 'synthesizes' | 'relates_to' | 'references'   // references: a task mentions the insight
+  note: string | null
+}
+
+export interface InsightGraph {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+export interface Session {
+  id: string
+  date: string
+  session_number: number
+  task_id: string | null
+  task_type: string | null
+  task_title: string | null
+  outcome: string | null
+  summary: string
+  learnings: string | null
+  files_changed: string[] | null
+  insights_added: string[] | null
+  git_branch: string | null
+  start_commit: string | null   // HEAD at loop_orient
+  end_commit: string | null   // HEAD at loop_handoff
+  commits: Commit[]
+  reserved_at: string | null   // Set while the session is open (loop_orient until loop_handoff)
+  created_at: string
+}
+
+export interface SessionSummary {
+  id: string
+  date: string
+  session_number: number
+  task_id: string | null
+  task_title: string | null
+  outcome: string | null
+  summary: string
+  created_at: string
+}
+
+export interface Stats {
+  tasks: {
+    total: number
+    todo: number
+    in_progress: number
+    done: number
+    blocked: number
+    by_status: Record<string, number>
+  }
+  insights: {
+    total: number
+    by_type: Record<string, number>
+  }
+  sessions: {
+    total: number
+    recent: SessionSummary[]
+  }
+}
+
+export interface RepoContextEntry {
+  key: string
+  value: string
+  updated_at: string
+  updated_by_session: string | null
+}
+
+export interface RepoContext {
+  repo_summary: RepoContextEntry | null
+  folder_structure: RepoContextEntry | null
+  suggested_actions: RepoContextEntry | null
+}
+
+export interface FeedbackSpec {
+  id: string
+  type: 'pain_point' | 'feature_idea' | 'bug'
+  title: string
+  description: string
+  context_summary: string | null   // Sanitized context
+  severity: 'low' | 'medium' | 'high' | 'critical'
+  status: 'queued' | 'shared' | 'dismissed'
+  consent_given_at: string
+  shared_at: string | null
+  github_issue_url: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreatedFeedbackSpec {
+  id: string
+  type: 'pain_point' | 'feature_idea' | 'bug'
+  title: string
+  description: string
+  context_summary: string | null   // Sanitized context
+  severity: 'low' | 'medium' | 'high' | 'critical'
+  status: 'queued' | 'shared' | 'dismissed'
+  consent_given_at: string
+  shared_at: string | null
+  github_issue_url: string | null
+  created_at: string
+  updated_at: string
+  sanitization_warnings: string[]
+}
+
+export interface HistoryEvent {
+  id: number
+  entity_type: string   // task | insight | session | repo_context | feedback
+  entity_id: string
+  action: string   // create | update | delete | commit
+  changes: Record<string, unknown>   // Field -> { from, to }; { commit, subject } for commits
+  session_id: string | null
+  origin: 'mcp' | 'api' | 'cli' | 'import' | 'git'
+  created_at: string
+}
@@ -1,13 +1,23 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef, type Dispatch, type SetStateAction } from 'react'
+import { subscribeToChanges, type HistoryEvent } from '../api/client'
 
 interface UseApiResult<T> {
   data: T | null
   loading: boolean
   error: Error | null
   refetch: () => void
+  setData: Dispatch<SetStateAction<T | null>>   // Local (optimistic) changes, until the next fetch
 }
 
-export function useApi<T>(fetcher: () => Promise<T>, deps: unknown[] = []): UseApiResult<T> {
+interface UseApiOptions {
+  // Which changes make the data stale (default: all of them); false for data that never changes
+  live?: boolean | ((event: HistoryEvent) => boolean)
+}
+
+// Changes arrive in bursts (an agent updating a task and its subtasks): refetch once per burst
+const REFETCH_DELAY_MS = 300
+
+export function useApi<T>(fetcher: () => Promise<T>, deps: unknown[] = [], options: UseApiOptions = {}): UseApiResult<T> {
   const [data, setData] = useState<T | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
@@ -22,9 +32,44 @@ export function useApi<T>(fetcher: () => Promise<T>, deps: unknown[] = []): UseA
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, deps)
 
+  // Refetch in the background: keep showing the current data until the new data arrives
+  const reload = useCallback(() => {
+    fetcher()
+      .then(setData)
+      .catch(setError)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps)
+
   useEffect(() => {
     refetch()
   }, [refetch])
 
-  return { data, loading, error, refetch }
+  const current = useRef(data)
+  current.current = data
+  const live = useRef(options.live ?? true)
+  live.current = options.live ?? true
+  const subscribed = options.live !== false
+
+  useEffect(() => {
+    if (!subscribed) return
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = subscribeToChanges((event) => {
+      const matches = typeof live.current === 'function' ? live.current(event) : live.current
+      if (!matches) return
+
+      // A deleted item leaves a list right away; the refetch picks up the rest (a parent's progress)
+      const items = current.current
+      if (event.action === 'delete' && Array.isArray(items)) {
+        setData(items.filter(item => item?.id !== event.entity_id) as T)
+      }
+      clearTimeout(timer)
+      timer = setTimeout(reload, REFETCH_DELAY_MS)
+    })
+    return () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [reload, subscribed])
+
+  return { data, loading, error, refetch, setData }
 }
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+interface LayoutNode {
+  id: string
+}
+
+interface LayoutEdge {
+  from: string
+  to: string
+}
+
+const TICKS = 300
+const REPULSION = 1800      // Push between every pair of nodes
+const SPRING = 0.04         // Pull along an edge
+const SPRING_LENGTH = 70
+const GRAVITY = 0.015       // Pull toward the centre, so unlinked nodes and clusters stay on screen
+const DAMPING = 0.8
+
+// Force-directed layout, settling over TICKS animation frames. Nodes keep their positions
+// when the graph changes (a live update adds an insight), so only the new ones move in.
+export function useForceLayout(nodes: LayoutNode[], edges: LayoutEdge[]): Map<string, Point> {
+  const [positions, setPositions] = useState<Map<string, Point>>(new Map())
+  const previous = useRef(positions)
+  const key = `${nodes.map(n => n.id).join(',')}|${edges.map(e => `${e.from}>${e.to}`).join(',')}`
+
+  useEffect(() => {
+    const points = new Map(nodes.map((node, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1)
+      const radius = 40 + 8 * Math.sqrt(nodes.length)
+      return [node.id, { ...(previous.current.get(node.id) ?? { x: radius * Math.cos(angle), y: radius * Math.sin(angle) }) }]
+    }))
+    const velocity = new Map(nodes.map(node => [node.id, { x: 0, y: 0 }]))
+    const list = [...points.entries()]
+    let tick = 0
+    let frame = 0
+
+    const step = () => {
+      const heat = 1 - tick / TICKS
+
+      for (let i = 0; i < list.length; i++) {
+        for (let j = i + 1; j < list.length; j++) {
+          const [a, pa] = list[i]
+          const [b, pb] = list[j]
+          const dx = pa.x - pb.x
+          const dy = pa.y - pb.y
+          const distance2 = Math.max(dx * dx + dy * dy, 1)
+          const force = REPULSION / distance2
+          const distance = Math.sqrt(distance2)
+          const fx = (dx / distance) * force
+          const fy = (dy / distance) * force
+          velocity.get(a)!.x += fx
+          velocity.get(a)!.y += fy
+          velocity.get(b)!.x -= fx
+          velocity.get(b)!.y -= fy
+        }
+      }
+
+      for (const edge of edges) {
+        const pa = points.get(edge.from)
+        const pb = points.get(edge.to)
+        if (!pa || !pb) continue
+        const dx = pb.x - pa.x
+        const dy = pb.y - pa.y
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1)
+        const force = SPRING * (distance - SPRING_LENGTH)
+        const fx = (dx / distance) * force
+        const fy = (dy / distance) * force
+        velocity.get(edge.from)!.x += fx
+        velocity.get(edge.from)!.y += fy
+        velocity.get(edge.to)!.x -= fx
+        velocity.get(edge.to)!.y -= fy
+      }
+
+      for (const [id, point] of list) {
+        const v = velocity.get(id)!
+        v.x = (v.x - point.x * GRAVITY) * DAMPING
+        v.y = (v.y - point.y * GRAVITY) * DAMPING
+        point.x += v.x * heat
+        point.y += v.y * heat
+      }
+
+      previous.current = new Map(list.map(([id, point]) => [id, { ...point }]))
+      setPositions(previous.current)
+      if (++tick < TICKS) frame = requestAnimationFrame(step)
+    }
+
+    frame = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frame)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key])
+
+  return positions
+}
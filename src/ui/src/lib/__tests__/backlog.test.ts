@@ -0,0 +1,124 @@
+/**
+ * Tests for the Backlog page's optimistic edits and drag rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { Task, Workflow } from '../../api/types'
+import { toTaskCreate, draftTask, applyUpdate, canMove, needsReason } from '../backlog'
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'LF-001',
+  title: '[IMPL] Sync tasks',
+  description: null,
+  summary: null,
+  status: 'TODO',
+  status_reason: null,
+  priority: 'medium',
+  depends_on: null,
+  acceptance_criteria: null,
+  criteria_progress: { total: 0, met: 0, percent: 0 },
+  test_file: null,
+  tests: null,
+  notes: null,
+  parent_id: null,
+  progress: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const workflow: Workflow = {
+  statuses: ['TODO', 'IN_PROGRESS', 'DONE', 'BLOCKED'],
+  columns: ['TODO', 'IN_PROGRESS', 'DONE', 'BLOCKED'],
+  transitions: { TODO: ['IN_PROGRESS', 'BLOCKED'], IN_PROGRESS: ['DONE', 'BLOCKED'] },
+  requirements: { BLOCKED: ['reason'] },
+  priorities: ['high', 'medium', 'low'],
+}
+
+describe('toTaskCreate', () => {
+  it('prefixes the type and drops empty fields', () => {
+    expect(toTaskCreate({
+      type: 'BUG', title: '  Fix sync  ', description: ' ', priority: 'high', parent_id: '', criteria: '',
+    })).toEqual({ title: '[BUG] Fix sync', priority: 'high' })
+  })
+
+  it('takes one criterion per non-empty line', () => {
+    expect(toTaskCreate({
+      type: 'IMPL', title: 'Sync', description: 'Both ways', priority: 'low', parent_id: 'LF-001', criteria: 'Pulls\n\n  Pushes  \n',
+    })).toEqual({
+      title: '[IMPL] Sync',
+      priority: 'low',
+      description: 'Both ways',
+      parent_id: 'LF-001',
+      acceptance_criteria: ['Pulls', 'Pushes'],
+    })
+  })
+})
+
+describe('draftTask', () => {
+  it('looks like the task the server will return', () => {
+    const draft = draftTask({ title: '[IMPL] Sync', parent_id: 'LF-001', acceptance_criteria: ['Pulls', 'Pushes'] }, 'draft-1')
+    expect(draft).toMatchObject({
+      id: 'draft-1',
+      title: '[IMPL] Sync',
+      status: 'TODO',
+      priority: 'medium',
+      parent_id: 'LF-001',
+      criteria_progress: { total: 2, met: 0, percent: 0 },
+    })
+    expect(draft.acceptance_criteria?.map(c => c.met)).toEqual([false, false])
+  })
+})
+
+describe('applyUpdate', () => {
+  it('keeps met criteria whose text is kept', () => {
+    const verified = { text: 'Pulls', met: true, evidence: 'sync.test.ts', verified_at: '2026-01-02' }
+    const before = task({ acceptance_criteria: [verified, { text: 'Pushes', met: false, evidence: null, verified_at: null }] })
+
+    const after = applyUpdate(before, { acceptance_criteria: ['Pulls', 'Resolves conflicts'] })
+    expect(after.acceptance_criteria).toEqual([
+      verified,
+      { text: 'Resolves conflicts', met: false, evidence: null, verified_at: null },
+    ])
+  })
+
+  it('replaces the status reason only when the status changes', () => {
+    const blocked = task({ status: 'BLOCKED', status_reason: 'Waiting on API' })
+    expect(applyUpdate(blocked, { status: 'TODO' })).toMatchObject({ status: 'TODO', status_reason: null })
+    expect(applyUpdate(blocked, { title: '[IMPL] Sync all' })).toMatchObject({
+      title: '[IMPL] Sync all',
+      status_reason: 'Waiting on API',
+    })
+    expect(applyUpdate(task(), { status: 'BLOCKED', reason: 'Waiting on API' })).toMatchObject({
+      status: 'BLOCKED',
+      status_reason: 'Waiting on API',
+    })
+  })
+
+  it('leaves the original task untouched for rollback', () => {
+    const before = task()
+    applyUpdate(before, { status: 'IN_PROGRESS', priority: 'high' })
+    expect(before).toEqual(task())
+  })
+})
+
+describe('canMove', () => {
+  it('follows the workflow transitions', () => {
+    expect(canMove(workflow, 'TODO', 'IN_PROGRESS')).toBe(true)
+    expect(canMove(workflow, 'TODO', 'DONE')).toBe(false)
+    expect(canMove(workflow, 'TODO', 'TODO')).toBe(false)
+  })
+
+  it('lets statuses without listed transitions, or an unloaded workflow, go anywhere', () => {
+    expect(canMove(workflow, 'DONE', 'TODO')).toBe(true)
+    expect(canMove(null, 'TODO', 'DONE')).toBe(true)
+  })
+})
+
+describe('needsReason', () => {
+  it('asks for a reason where the workflow requires one', () => {
+    expect(needsReason(workflow, 'BLOCKED')).toBe(true)
+    expect(needsReason(workflow, 'DONE')).toBe(false)
+    expect(needsReason(null, 'BLOCKED')).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+import type { Task, TaskCreate, TaskUpdate, Workflow } from '../api/types'
+
+// Fields of the new-task form
+export interface NewTaskFields {
+  type: string
+  title: string
+  description: string
+  priority: string
+  parent_id: string
+  criteria: string    // One per line
+}
+
+export function toTaskCreate(fields: NewTaskFields): TaskCreate {
+  const description = fields.description.trim()
+  const criteria = fields.criteria.split('\n').map(line => line.trim()).filter(Boolean)
+  return {
+    title: `[${fields.type}] ${fields.title.trim()}`,
+    priority: fields.priority,
+    ...(description ? { description } : {}),
+    ...(fields.parent_id ? { parent_id: fields.parent_id } : {}),
+    ...(criteria.length > 0 ? { acceptance_criteria: criteria } : {}),
+  }
+}
+
+// What the server will return for a new task, shown until it does
+export function draftTask(input: TaskCreate, id: string): Task {
+  const now = new Date().toISOString()
+  return {
+    id,
+    title: input.title,
+    description: input.description ?? null,
+    summary: null,
+    status: input.status ?? 'TODO',
+    status_reason: input.reason ?? null,
+    priority: input.priority ?? 'medium',
+    depends_on: input.depends_on ?? null,
+    acceptance_criteria: input.acceptance_criteria?.map(text => ({ text, met: false, evidence: null, verified_at: null })) ?? null,
+    criteria_progress: { total: input.acceptance_criteria?.length ?? 0, met: 0, percent: 0 },
+    test_file: input.test_file ?? null,
+    tests: null,
+    notes: input.notes ?? null,
+    parent_id: input.parent_id ?? null,
+    progress: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+// A task with an update applied, shown until the server answers
+export function applyUpdate(task: Task, changes: TaskUpdate): Task {
+  const { reason, acceptance_criteria, ...fields } = changes
+  return {
+    ...task,
+    ...fields,
+    ...(changes.status !== undefined && { status_reason: reason ?? null }),
+    ...(acceptance_criteria && {
+      acceptance_criteria: acceptance_criteria.map(text =>
+        task.acceptance_criteria?.find(c => c.text === text) ?? { text, met: false, evidence: null, verified_at: null }
+      ),
+    }),
+  }
+}
+
+// Statuses a task may be dragged to (a status without listed transitions may go anywhere)
+export function canMove(workflow: Workflow | null, from: string, to: string) {
+  if (from === to) return false
+  const targets = workflow?.transitions[from]
+  return !targets || targets.includes(to)
+}
+
+// Whether moving to a status asks for a reason first
+export function needsReason(workflow: Workflow | null, status: string) {
+  return workflow?.requirements[status]?.includes('reason') ?? false
+}
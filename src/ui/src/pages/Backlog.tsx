@@ -1,45 +1,274 @@
-import { useState } from 'react'
+import { useState, type FormEvent, type KeyboardEvent } from 'react'
 import { useApi } from '../hooks/useApi'
-import { api, type Task } from '../api/client'
+import {
+  api,
+  type Task,
+  type TaskUpdate,
+  type TaskProgress,
+  type CriteriaProgress,
+  type TaskTests,
+  type Commit,
+  type Workflow,
+} from '../api/client'
+import {
+  toTaskCreate,
+  draftTask,
+  applyUpdate,
+  canMove,
+  needsReason,
+  type NewTaskFields,
+} from '../lib/backlog'
 
-type StatusColumn = 'TODO' | 'IN_PROGRESS' | 'DONE' | 'BLOCKED'
+type StatusStyle = { label: string; color: string; bgColor: string }
 
-const statusConfig: Record<StatusColumn, { label: string; color: string; bgColor: string }> = {
+// Styles for the built-in statuses; custom statuses from config.json get a neutral style
+const statusConfig: Record<string, StatusStyle> = {
   TODO: { label: 'To Do', color: 'text-blue-700', bgColor: 'bg-blue-50 border-blue-200' },
   IN_PROGRESS: { label: 'In Progress', color: 'text-yellow-700', bgColor: 'bg-yellow-50 border-yellow-200' },
+  REVIEW: { label: 'Review', color: 'text-purple-700', bgColor: 'bg-purple-50 border-purple-200' },
+  QA: { label: 'QA', color: 'text-indigo-700', bgColor: 'bg-indigo-50 border-indigo-200' },
   DONE: { label: 'Done', color: 'text-green-700', bgColor: 'bg-green-50 border-green-200' },
   BLOCKED: { label: 'Blocked', color: 'text-red-700', bgColor: 'bg-red-50 border-red-200' },
+  CANCELLED: { label: 'Cancelled', color: 'text-slate-500', bgColor: 'bg-slate-50 border-slate-200' },
 }
 
+function statusStyle(status: string): StatusStyle {
+  return statusConfig[status] ?? {
+    label: status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, ' '),
+    color: 'text-slate-700',
+    bgColor: 'bg-slate-50 border-slate-200',
+  }
+}
+
+// Columns shown until /api/workflow answers
+const DEFAULT_COLUMNS = ['TODO', 'IN_PROGRESS', 'REVIEW', 'QA', 'DONE', 'BLOCKED']
+
+// Priorities shown until /api/workflow answers
+const DEFAULT_PRIORITIES = ['high', 'medium', 'low']
+
+const TASK_TYPES = ['IMPL', 'SPIKE', 'DESIGN', 'LEARN', 'REVIEW', 'BUG', 'DOCS']
+
+// Tasks shown while their creation is in flight
+const DRAFT_ID_PREFIX = 'draft-'
+
 const priorityBadge: Record<string, string> = {
   high: 'bg-red-100 text-red-700',
   medium: 'bg-yellow-100 text-yellow-700',
   low: 'bg-slate-100 text-slate-600',
 }
 
-function TaskCard({ task, onClick }: { task: Task; onClick: () => void }) {
+function ProgressBar({ done, total, percent, label, barColor = 'bg-green-500' }: {
+  done: number
+  total: number
+  percent: number
+  label: string
+  barColor?: string
+}) {
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>{done}/{total} {label}</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full mt-1 overflow-hidden">
+        <div className={`h-full rounded-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function SubtaskProgress({ progress }: { progress: TaskProgress }) {
+  return <ProgressBar done={progress.done} total={progress.total} percent={progress.percent} label="subtasks" />
+}
+
+function CriteriaProgressBar({ progress }: { progress: CriteriaProgress }) {
+  return (
+    <ProgressBar
+      done={progress.met}
+      total={progress.total}
+      percent={progress.percent}
+      label="criteria met"
+      barColor="bg-blue-500"
+    />
+  )
+}
+
+const typePrefix = new RegExp(`^\\[(${TASK_TYPES.join('|')})\\]\\s*`)
+
+function stripType(title: string) {
+  return title.replace(typePrefix, '')
+}
+
+function isDraft(task: Task) {
+  return task.id.startsWith(DRAFT_ID_PREFIX)
+}
+
+function TaskCard({ task, onClick, onDragStart, onDragEnd }: {
+  task: Task
+  onClick: () => void
+  onDragStart: () => void
+  onDragEnd: () => void
+}) {
+  const draft = isDraft(task)
   return (
     <div 
-      className="bg-white rounded-lg border border-slate-200 p-3 shadow-sm hover:shadow-md transition-shadow cursor-pointer"
-      onClick={onClick}
+      className={`bg-white rounded-lg border border-slate-200 p-3 shadow-sm transition-shadow ${
+        draft ? 'opacity-60' : 'hover:shadow-md cursor-grab active:cursor-grabbing'
+      }`}
+      onClick={draft ? undefined : onClick}
+      draggable={!draft}
+      onDragStart={e => {
+        e.dataTransfer.setData('text/plain', task.id)
+        e.dataTransfer.effectAllowed = 'move'
+        onDragStart()
+      }}
+      onDragEnd={onDragEnd}
     >
       <div className="flex items-start justify-between gap-2">
-        <span className="text-xs font-mono text-slate-400">{task.id}</span>
+        <span className="text-xs font-mono text-slate-400">
+          {draft ? 'Saving…' : task.id}
+          {task.parent_id && <span className="ml-1 text-slate-300">↳ {task.parent_id}</span>}
+        </span>
         <span className={`text-xs px-2 py-0.5 rounded-full ${priorityBadge[task.priority] || priorityBadge.medium}`}>
           {task.priority}
         </span>
       </div>
       <h3 className="font-medium text-slate-800 mt-2 text-sm leading-tight">
-        {task.title.replace(/^\[(IMPL|SPIKE|DESIGN|LEARN|REVIEW|BUG|DOCS)\]\s*/, '')}
+        {stripType(task.title)}
       </h3>
       {task.description && (
         <p className="text-xs text-slate-500 mt-2 line-clamp-2">{task.description}</p>
       )}
+      {task.status_reason && (
+        <p className="text-xs text-red-600 mt-2 line-clamp-2">{task.status_reason}</p>
+      )}
+      {task.progress && <SubtaskProgress progress={task.progress} />}
+      {task.criteria_progress?.total > 0 && <CriteriaProgressBar progress={task.criteria_progress} />}
+      {task.tests && <div className="mt-2"><TestsBadge tests={task.tests} /></div>}
+    </div>
+  )
+}
+
+function TestsBadge({ tests }: { tests: TaskTests }) {
+  const failing = tests.failed > 0
+  return (
+    <span className={`inline-block text-xs px-2 py-0.5 rounded-full ${failing ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+      {tests.summary}
+    </span>
+  )
+}
+
+function TaskTreeRow({ task, depth, onSelect }: { task: Task; depth: number; onSelect: (task: Task) => void }) {
+  return (
+    <>
+      <div
+        className="flex items-center gap-3 px-3 py-2 hover:bg-slate-50 cursor-pointer border-b border-slate-100"
+        style={{ paddingLeft: `${0.75 + depth * 1.5}rem` }}
+        onClick={() => onSelect(task)}
+      >
+        <span className="text-xs font-mono text-slate-400 w-24 shrink-0">{task.id}</span>
+        <span className="text-sm text-slate-800 flex-1 truncate">{stripType(task.title)}</span>
+        {task.progress && (
+          <span className="text-xs text-slate-500 w-28 shrink-0">
+            {task.progress.done}/{task.progress.total} · {task.progress.percent}%
+          </span>
+        )}
+        <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyle(task.status).bgColor}`}>
+          {task.status}
+        </span>
+      </div>
+      {task.children?.map(child => (
+        <TaskTreeRow key={child.id} task={child} depth={depth + 1} onSelect={onSelect} />
+      ))}
+    </>
+  )
+}
+
+const inputClass = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200 focus:border-blue-400'
+
+// Click to edit. Enter saves a single line (Ctrl+Enter a multiline one), blur saves, Escape cancels.
+function EditableText({ value, onSave, multiline = false, placeholder, className = '' }: {
+  value: string
+  onSave: (value: string) => void
+  multiline?: boolean
+  placeholder: string
+  className?: string
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  if (draft === null) {
+    return (
+      <div
+        className={`cursor-text rounded -mx-1 px-1 hover:bg-slate-50 ${className}`}
+        onClick={() => setDraft(value)}
+        title="Click to edit"
+      >
+        {value || <span className="text-slate-400 italic">{placeholder}</span>}
+      </div>
+    )
+  }
+
+  const save = () => {
+    if (draft !== value) onSave(draft)
+    setDraft(null)
+  }
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation()
+      setDraft(null)
+    } else if (e.key === 'Enter' && (!multiline || e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      save()
+    }
+  }
+
+  return multiline
+    ? <textarea autoFocus rows={4} value={draft} onChange={e => setDraft(e.target.value)} onBlur={save} onKeyDown={onKeyDown} className={inputClass} />
+    : <input autoFocus value={draft} onChange={e => setDraft(e.target.value)} onBlur={save} onKeyDown={onKeyDown} className={`${inputClass} ${className}`} />
+}
+
+function TaskCommits({ taskId }: { taskId: string }) {
+  const { data: commits } = useApi<Commit[]>(() => api.getTaskCommits(taskId), [taskId], {
+    live: event => event.action === 'commit' && event.entity_id === taskId,
+  })
+  if (!commits || commits.length === 0) return null
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold text-slate-700">Commits ({commits.length})</h3>
+      <ul className="mt-2 space-y-1">
+        {commits.map(commit => (
+          <li key={commit.sha} className="flex items-start gap-2 text-sm text-slate-600">
+            <span className="font-mono text-xs text-slate-400 mt-0.5">{commit.sha.slice(0, 7)}</span>
+            <span className="flex-1">{commit.subject}</span>
+            <span className="text-xs text-slate-400">{new Date(commit.date).toLocaleDateString()}</span>
+          </li>
+        ))}
+      </ul>
     </div>
   )
 }
 
-function TaskModal({ task, onClose }: { task: Task; onClose: () => void }) {
+function TaskModal({ task, subtasks, priorities, onUpdate, onClose }: {
+  task: Task
+  subtasks: Task[]
+  priorities: string[]
+  onUpdate: (changes: TaskUpdate) => void
+  onClose: () => void
+}) {
+  // One criterion per line while editing; criteria whose text is kept stay met
+  const [criteriaDraft, setCriteriaDraft] = useState<string | null>(null)
+  const criteria = task.acceptance_criteria ?? []
+
+  const saveCriteria = () => {
+    if (criteriaDraft === null) return
+    const texts = criteriaDraft.split('\n').map(line => line.trim()).filter(Boolean)
+    if (texts.join('\n') !== criteria.map(c => c.text).join('\n')) {
+      onUpdate({ acceptance_criteria: texts })
+    }
+    setCriteriaDraft(null)
+  }
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div 
@@ -48,9 +277,14 @@ function TaskModal({ task, onClose }: { task: Task; onClose: () => void }) {
       >
         <div className="p-6">
           <div className="flex items-start justify-between">
-            <div>
+            <div className="flex-1 mr-4">
               <span className="text-sm font-mono text-slate-400">{task.id}</span>
-              <h2 className="text-xl font-bold text-slate-800 mt-1">{task.title}</h2>
+              <EditableText
+                value={task.title}
+                onSave={title => title.trim() && onUpdate({ title: title.trim() })}
+                placeholder="Untitled"
+                className="text-xl font-bold text-slate-800 mt-1"
+              />
             </div>
             <button 
               onClick={onClose}
@@ -63,41 +297,151 @@ function TaskModal({ task, onClose }: { task: Task; onClose: () => void }) {
           </div>
 
           <div className="flex gap-2 mt-4">
-            <span className={`text-xs px-2 py-1 rounded-full ${statusConfig[task.status as StatusColumn]?.bgColor || 'bg-slate-100'}`}>
+            <span className={`text-xs px-2 py-1 rounded-full ${statusStyle(task.status).bgColor}`}>
               {task.status}
             </span>
-            <span className={`text-xs px-2 py-1 rounded-full ${priorityBadge[task.priority]}`}>
-              {task.priority}
-            </span>
+            <select
+              value={task.priority}
+              onChange={e => onUpdate({ priority: e.target.value })}
+              className={`text-xs px-2 py-1 rounded-full border-0 cursor-pointer ${priorityBadge[task.priority] || priorityBadge.medium}`}
+              title="Priority"
+            >
+              {priorities.map(priority => (
+                <option key={priority} value={priority}>{priority}</option>
+              ))}
+            </select>
           </div>
 
-          {task.description && (
+          {task.status_reason && (
             <div className="mt-4">
-              <h3 className="text-sm font-semibold text-slate-700">Description</h3>
-              <p className="text-slate-600 mt-1 whitespace-pre-wrap">{task.description}</p>
+              <h3 className="text-sm font-semibold text-slate-700">Why {statusStyle(task.status).label.toLowerCase()}</h3>
+              <p className="text-slate-600 mt-1 whitespace-pre-wrap text-sm">{task.status_reason}</p>
             </div>
           )}
 
-          {task.acceptance_criteria && task.acceptance_criteria.length > 0 && (
-            <div className="mt-4">
+          <div className="mt-4">
+            <h3 className="text-sm font-semibold text-slate-700">Description</h3>
+            <EditableText
+              value={task.description ?? ''}
+              onSave={description => onUpdate({ description })}
+              multiline
+              placeholder="Add a description"
+              className="text-slate-600 mt-1 whitespace-pre-wrap"
+            />
+          </div>
+
+          <div className="mt-4">
+            <div className="flex items-center justify-between">
               <h3 className="text-sm font-semibold text-slate-700">Acceptance Criteria</h3>
+              {criteriaDraft === null ? (
+                <button
+                  onClick={() => setCriteriaDraft(criteria.map(c => c.text).join('\n'))}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  {criteria.length > 0 ? 'Edit' : 'Add'}
+                </button>
+              ) : (
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => setCriteriaDraft(null)} className="text-slate-500 hover:text-slate-700">Cancel</button>
+                  <button onClick={saveCriteria} className="text-blue-600 hover:text-blue-800 font-medium">Save</button>
+                </div>
+              )}
+            </div>
+            {criteriaDraft !== null && (
+              <textarea
+                autoFocus
+                rows={Math.max(3, criteria.length + 1)}
+                value={criteriaDraft}
+                onChange={e => setCriteriaDraft(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Escape') setCriteriaDraft(null)
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveCriteria()
+                }}
+                placeholder="One criterion per line"
+                className={`${inputClass} mt-2`}
+              />
+            )}
+            {criteriaDraft === null && criteria.length === 0 && (
+              <p className="text-sm text-slate-400 italic mt-1">None yet</p>
+            )}
+            {criteriaDraft === null && criteria.length > 0 && (
+              <>
+                <CriteriaProgressBar progress={task.criteria_progress} />
+                <ul className="mt-2 space-y-2">
+                  {criteria.map((criterion, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm text-slate-600">
+                      <span className={criterion.met ? 'text-green-600' : 'text-slate-300'}>
+                        {criterion.met ? '✓' : '○'}
+                      </span>
+                      <div>
+                        <div className={criterion.met ? 'text-slate-700' : ''}>{criterion.text}</div>
+                        {(criterion.evidence || criterion.verified_at) && (
+                          <div className="text-xs text-slate-400 mt-0.5">
+                            {criterion.evidence}
+                            {criterion.evidence && criterion.verified_at && ' · '}
+                            {criterion.verified_at && `verified ${new Date(criterion.verified_at).toLocaleString()}`}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
+          {task.test_file && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">Tests</h3>
+              <div className="flex items-center gap-2 mt-1">
+                <code className="text-xs text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{task.test_file}</code>
+                {task.tests
+                  ? <TestsBadge tests={task.tests} />
+                  : <span className="text-xs text-slate-400">not run yet</span>}
+              </div>
+              {task.tests && task.tests.failing.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {task.tests.failing.map((name, i) => (
+                    <li key={i} className="text-xs text-red-600 font-mono">✗ {name}</li>
+                  ))}
+                </ul>
+              )}
+              {task.tests && (
+                <div className="text-xs text-slate-400 mt-1">
+                  Recorded {new Date(task.tests.recorded_at).toLocaleString()}
+                </div>
+              )}
+            </div>
+          )}
+
+          {subtasks.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">Subtasks</h3>
+              {task.progress && <SubtaskProgress progress={task.progress} />}
               <ul className="mt-2 space-y-1">
-                {task.acceptance_criteria.map((criterion, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm text-slate-600">
-                    <span className="text-slate-400">-</span>
-                    {criterion}
+                {subtasks.map(child => (
+                  <li key={child.id} className="flex items-center gap-2 text-sm text-slate-600">
+                    <span className="font-mono text-xs text-slate-400">{child.id}</span>
+                    <span className="flex-1">{stripType(child.title)}</span>
+                    <span className="text-xs text-slate-500">{child.status}</span>
                   </li>
                 ))}
               </ul>
             </div>
           )}
 
-          {task.notes && (
-            <div className="mt-4">
-              <h3 className="text-sm font-semibold text-slate-700">Notes</h3>
-              <p className="text-slate-600 mt-1 whitespace-pre-wrap text-sm">{task.notes}</p>
-            </div>
-          )}
+          <div className="mt-4">
+            <h3 className="text-sm font-semibold text-slate-700">Notes</h3>
+            <EditableText
+              value={task.notes ?? ''}
+              onSave={notes => onUpdate({ notes })}
+              multiline
+              placeholder="Add notes"
+              className="text-slate-600 mt-1 whitespace-pre-wrap text-sm"
+            />
+          </div>
+
+          <TaskCommits taskId={task.id} />
 
           <div className="mt-4 pt-4 border-t border-slate-100 text-xs text-slate-400">
             Created: {new Date(task.created_at).toLocaleString()}
@@ -108,9 +452,146 @@ function TaskModal({ task, onClose }: { task: Task; onClose: () => void }) {
   )
 }
 
+const EMPTY_TASK: NewTaskFields = { type: 'IMPL', title: '', description: '', priority: 'medium', parent_id: '', criteria: '' }
+
+function NewTaskModal({ initial, tasks, priorities, onCreate, onClose }: {
+  initial: NewTaskFields
+  tasks: Task[]
+  priorities: string[]
+  onCreate: (fields: NewTaskFields) => void
+  onClose: () => void
+}) {
+  const [fields, setFields] = useState(initial)
+  const set = (changes: Partial<NewTaskFields>) => setFields(current => ({ ...current, ...changes }))
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault()
+    if (fields.title.trim()) onCreate(fields)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <form
+        className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[80vh] overflow-y-auto p-6 space-y-4"
+        onClick={e => e.stopPropagation()}
+        onSubmit={submit}
+      >
+        <h2 className="text-xl font-bold text-slate-800">New task</h2>
+
+        <div className="flex gap-2">
+          <select value={fields.type} onChange={e => set({ type: e.target.value })} className={`${inputClass} w-28`}>
+            {TASK_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <input
+            autoFocus
+            required
+            value={fields.title}
+            onChange={e => set({ title: e.target.value })}
+            placeholder="Title"
+            className={inputClass}
+          />
+        </div>
+
+        <textarea
+          rows={3}
+          value={fields.description}
+          onChange={e => set({ description: e.target.value })}
+          placeholder="Description"
+          className={inputClass}
+        />
+
+        <div className="flex gap-2">
+          <label className="flex-1 text-sm text-slate-600">
+            Priority
+            <select value={fields.priority} onChange={e => set({ priority: e.target.value })} className={`${inputClass} mt-1`}>
+              {priorities.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+            </select>
+          </label>
+          <label className="flex-1 text-sm text-slate-600">
+            Subtask of
+            <select value={fields.parent_id} onChange={e => set({ parent_id: e.target.value })} className={`${inputClass} mt-1`}>
+              <option value="">None</option>
+              {tasks.filter(t => !isDraft(t)).map(t => (
+                <option key={t.id} value={t.id}>{t.id} {stripType(t.title)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <textarea
+          rows={3}
+          value={fields.criteria}
+          onChange={e => set({ criteria: e.target.value })}
+          placeholder="Acceptance criteria, one per line"
+          className={inputClass}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800">
+            Cancel
+          </button>
+          <button type="submit" className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700">
+            Create
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
 export default function Backlog() {
-  const { data: tasks, loading, error } = useApi<Task[]>(() => api.getTasks())
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+  const { data: tasks, loading, error, setData: setTasks } = useApi<Task[]>(() => api.getTasks(), [], {
+    live: event => event.entity_type === 'task',
+  })
+  const { data: workflow } = useApi<Workflow>(() => api.getWorkflow(), [], { live: false })
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Looked up on every render so the open task follows live updates (and closes when deleted)
+  const selectedTask = tasks?.find(t => t.id === selectedId) ?? null
+  const [view, setView] = useState<'board' | 'tree'>('board')
+  const [dragging, setDragging] = useState<Task | null>(null)
+  const [newTask, setNewTask] = useState<NewTaskFields | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  // Swap one task for another (or drop it, for null) in the loaded list
+  const replaceTask = (id: string, next: Task | null) => setTasks(current => current && (
+    next ? current.map(t => t.id === id ? next : t) : current.filter(t => t.id !== id)
+  ))
+
+  // Changes show right away; if the server refuses one, the task goes back to how it was
+  const updateTask = async (task: Task, changes: TaskUpdate) => {
+    setSaveError(null)
+    replaceTask(task.id, applyUpdate(task, changes))
+    try {
+      replaceTask(task.id, await api.updateTask(task.id, changes))
+    } catch (err) {
+      replaceTask(task.id, task)
+      setSaveError(`Couldn't update ${task.id}: ${(err as Error).message}`)
+    }
+  }
+
+  const moveTask = (task: Task, status: string) => {
+    let reason: string | undefined
+    if (needsReason(workflow, status)) {
+      reason = window.prompt(`Why is ${task.id} moving to ${statusStyle(status).label}?`)?.trim()
+      if (!reason) return
+    }
+    updateTask(task, { status, reason })
+  }
+
+  const createTask = async (fields: NewTaskFields) => {
+    const input = toTaskCreate(fields)
+    const draft = draftTask(input, `${DRAFT_ID_PREFIX}${Date.now()}`)
+    setNewTask(null)
+    setSaveError(null)
+    setTasks(current => [...(current ?? []), draft])
+    try {
+      replaceTask(draft.id, await api.createTask(input))
+    } catch (err) {
+      replaceTask(draft.id, null)
+      setSaveError(`Couldn't create the task: ${(err as Error).message}`)
+      setNewTask(fields)   // Reopen the form with what was typed
+    }
+  }
 
   if (loading) {
     return (
@@ -128,46 +609,138 @@ export default function Backlog() {
     )
   }
 
-  const columns: StatusColumn[] = ['TODO', 'IN_PROGRESS', 'DONE', 'BLOCKED']
+  const columns = workflow?.columns ?? DEFAULT_COLUMNS
+  const priorities = workflow?.priorities ?? DEFAULT_PRIORITIES
   const tasksByStatus = columns.reduce((acc, status) => {
     acc[status] = (tasks || []).filter(t => t.status === status)
     return acc
-  }, {} as Record<StatusColumn, Task[]>)
+  }, {} as Record<string, Task[]>)
+
+  // Nest subtasks for the tree view; tasks whose parent isn't loaded stay top-level
+  const allTasks = tasks || []
+  const ids = new Set(allTasks.map(t => t.id))
+  const childrenOf = (id: string) => allTasks
+    .filter(t => t.parent_id === id)
+    .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }))
+  const withChildren = (task: Task): Task => ({ ...task, children: childrenOf(task.id).map(withChildren) })
+  const tree = allTasks.filter(t => !t.parent_id || !ids.has(t.parent_id)).map(withChildren)
 
   return (
     <div className="space-y-4">
-      <div>
-        <h1 className="text-2xl font-bold text-slate-800">Backlog</h1>
-        <p className="text-slate-500 mt-1">
-          {tasks?.length || 0} tasks across {columns.length} columns
-        </p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Backlog</h1>
+          <p className="text-slate-500 mt-1">
+            {tasks?.length || 0} tasks across {columns.length} columns
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setNewTask({
+            ...EMPTY_TASK,
+            priority: priorities.includes(EMPTY_TASK.priority) ? EMPTY_TASK.priority : priorities[0],
+          })}
+            className="px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            New task
+          </button>
+          <div className="flex rounded-lg border border-slate-200 overflow-hidden text-sm">
+            {(['board', 'tree'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 ${view === v ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {v === 'board' ? 'Board' : 'Tree'}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        {columns.map(status => (
-          <div key={status} className={`rounded-lg border p-3 ${statusConfig[status].bgColor}`}>
-            <div className="flex items-center justify-between mb-3">
-              <h2 className={`font-semibold ${statusConfig[status].color}`}>
-                {statusConfig[status].label}
-              </h2>
-              <span className={`text-sm ${statusConfig[status].color} opacity-70`}>
-                {tasksByStatus[status].length}
-              </span>
-            </div>
-            <div className="space-y-2">
-              {tasksByStatus[status].map(task => (
-                <TaskCard key={task.id} task={task} onClick={() => setSelectedTask(task)} />
-              ))}
-              {tasksByStatus[status].length === 0 && (
-                <div className="text-sm text-slate-400 text-center py-4">No tasks</div>
-              )}
+      {saveError && (
+        <div className="flex items-start justify-between gap-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          <span>{saveError}</span>
+          <button onClick={() => setSaveError(null)} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      {view === 'tree' && (
+        <div className="bg-white rounded-lg border border-slate-200">
+          {tree.map(task => (
+            <TaskTreeRow key={task.id} task={task} depth={0} onSelect={t => setSelectedId(t.id)} />
+          ))}
+          {tree.length === 0 && (
+            <div className="text-sm text-slate-400 text-center py-4">No tasks</div>
+          )}
+        </div>
+      )}
+
+      {view === 'board' && <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-[minmax(14rem,1fr)] gap-4 overflow-x-auto">
+        {columns.map(status => {
+          // While dragging, columns the task may move to are outlined and the rest fade
+          const droppable = dragging !== null && canMove(workflow, dragging.status, status)
+          const faded = dragging !== null && !droppable && dragging.status !== status
+          return (
+            <div
+              key={status}
+              className={`rounded-lg border p-3 transition ${statusStyle(status).bgColor} ${
+                droppable ? 'ring-2 ring-blue-300 ring-offset-1' : ''
+              } ${faded ? 'opacity-50' : ''}`}
+              onDragOver={e => {
+                if (droppable) e.preventDefault()
+              }}
+              onDrop={e => {
+                e.preventDefault()
+                if (dragging && droppable) moveTask(dragging, status)
+                setDragging(null)
+              }}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h2 className={`font-semibold ${statusStyle(status).color}`}>
+                  {statusStyle(status).label}
+                </h2>
+                <span className={`text-sm ${statusStyle(status).color} opacity-70`}>
+                  {tasksByStatus[status].length}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {tasksByStatus[status].map(task => (
+                  <TaskCard
+                    key={task.id}
+                    task={task}
+                    onClick={() => setSelectedId(task.id)}
+                    onDragStart={() => setDragging(task)}
+                    onDragEnd={() => setDragging(null)}
+                  />
+                ))}
+                {tasksByStatus[status].length === 0 && (
+                  <div className="text-sm text-slate-400 text-center py-4">No tasks</div>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
-      </div>
+          )
+        })}
+      </div>}
 
       {selectedTask && (
-        <TaskModal task={selectedTask} onClose={() => setSelectedTask(null)} />
+        <TaskModal
+          task={selectedTask}
+          subtasks={childrenOf(selectedTask.id)}
+          priorities={priorities}
+          onUpdate={changes => updateTask(selectedTask, changes)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      {newTask && (
+        <NewTaskModal
+          initial={newTask}
+          tasks={allTasks}
+          priorities={priorities}
+          onCreate={createTask}
+          onClose={() => setNewTask(null)}
+        />
       )}
     </div>
   )
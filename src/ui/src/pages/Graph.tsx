@@ -0,0 +1,267 @@
+import { useState, type MouseEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { useApi } from '../hooks/useApi'
+import { useForceLayout, type Point } from '../hooks/useForceLayout'
+import { api, type GraphEdge, type GraphNode, type Insight, type InsightDetail, type InsightGraph } from '../api/client'
+
+// Node fill per insight type (Tailwind 500 shades, matching the Insights page badges)
+const typeColors: Record<string, string> = {
+  process: '#a855f7',
+  domain: '#3b82f6',
+  architecture: '#22c55e',
+  edge_case: '#f97316',
+  technical: '#64748b',
+}
+const OTHER_TYPE_COLOR = '#94a3b8'
+const TASK_COLOR = '#e2e8f0'
+
+const edgeStyle: Record<string, { stroke: string; dash?: string }> = {
+  contradicts: { stroke: '#f87171' },
+  references: { stroke: '#cbd5e1', dash: '4 3' },
+}
+const DEFAULT_EDGE = { stroke: '#cbd5e1' }
+
+// Sized by link count: a lone insight is small, a hub stands out
+function radius(node: GraphNode) {
+  return node.kind === 'task' ? 6 : 6 + 3 * Math.sqrt(node.links)
+}
+
+function Select({ label, value, options, onChange }: {
+  label: string
+  value: string
+  options: string[]
+  onChange: (value: string) => void
+}) {
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="">All {label}</option>
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  )
+}
+
+function InsightPanel({ id, onSelect }: { id: string; onSelect: (id: string) => void }) {
+  const { data: insight } = useApi<InsightDetail>(() => api.getInsight(id), [id], {
+    live: event => event.entity_id === id,
+  })
+  if (!insight) return <div className="text-sm text-slate-400">Loading...</div>
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-mono text-slate-400">{insight.id}</span>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">{insight.type}</span>
+        <span className="text-xs text-slate-500">{insight.status}</span>
+      </div>
+      <p className="text-sm text-slate-700 whitespace-pre-wrap">{insight.content}</p>
+      {insight.tags && insight.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {insight.tags.map(tag => (
+            <span key={tag} className="text-xs px-2 py-0.5 bg-slate-100 text-slate-600 rounded">{tag}</span>
+          ))}
+        </div>
+      )}
+      {insight.relations.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-slate-500 uppercase">Related</h3>
+          <ul className="mt-1 space-y-1">
+            {insight.relations.map(relation => (
+              <li key={`${relation.direction}-${relation.id}-${relation.relation}`} className="text-sm">
+                <button onClick={() => onSelect(relation.id)} className="font-mono text-blue-600 hover:underline">
+                  {relation.id}
+                </button>
+                <span className="text-slate-500">
+                  {' '}{relation.direction === 'outgoing' ? relation.relation : `← ${relation.relation}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function TaskPanel({ node }: { node: GraphNode }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-mono text-slate-400">{node.id}</span>
+        <span className="text-xs text-slate-500">{node.status}</span>
+      </div>
+      <p className="text-sm text-slate-700">{node.label}</p>
+      <Link to="/backlog" className="text-sm text-blue-600 hover:underline">Open the backlog</Link>
+    </div>
+  )
+}
+
+export default function Graph() {
+  const [tag, setTag] = useState('')
+  const [type, setType] = useState('')
+  const [status, setStatus] = useState('')
+  const [showTasks, setShowTasks] = useState(false)
+  // Kept while filters hide the node, so a related insight opened from the panel stays open
+  const [selection, setSelection] = useState<Pick<GraphNode, 'id' | 'kind'> | null>(null)
+  const selectedId = selection?.id ?? null
+
+  const { data: graph, error } = useApi<InsightGraph>(
+    () => api.getGraph({ tag, type, status, tasks: showTasks }),
+    [tag, type, status, showTasks],
+    { live: event => event.entity_type === 'insight' || (showTasks && event.entity_type === 'task') }
+  )
+  // Filter choices come from every insight, not just the ones shown
+  const { data: insights } = useApi<Insight[]>(() => api.getInsights(), [], {
+    live: event => event.entity_type === 'insight',
+  })
+
+  const nodes = graph?.nodes ?? []
+  const edges = graph?.edges ?? []
+  const positions = useForceLayout(nodes, edges)
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+        Error loading graph: {error.message}
+      </div>
+    )
+  }
+
+  const distinct = (values: string[]) => [...new Set(values)].sort()
+  const tags = distinct((insights ?? []).flatMap(i => i.tags ?? []))
+  const types = distinct((insights ?? []).map(i => i.type))
+  const statuses = distinct((insights ?? []).map(i => i.status))
+
+  const orphaned = nodes.filter(n => n.kind === 'insight' && n.links === 0).length
+  const selectedTask = selection?.kind === 'task' ? nodes.find(n => n.id === selection.id) ?? null : null
+  const neighbours = new Set(edges.flatMap(e =>
+    e.from === selectedId ? [e.to] : e.to === selectedId ? [e.from] : []
+  ))
+  const dimmed = (id: string) => selectedId !== null && id !== selectedId && !neighbours.has(id)
+  const edgeDimmed = (edge: GraphEdge) => selectedId !== null && edge.from !== selectedId && edge.to !== selectedId
+
+  // Fit the view to the laid-out nodes
+  const placed = nodes.map(n => positions.get(n.id)).filter((p): p is Point => p !== undefined)
+  const pad = 40
+  const minX = Math.min(-200, ...placed.map(p => p.x)) - pad
+  const minY = Math.min(-150, ...placed.map(p => p.y)) - pad
+  const maxX = Math.max(200, ...placed.map(p => p.x)) + pad
+  const maxY = Math.max(150, ...placed.map(p => p.y)) + pad
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">Knowledge Graph</h1>
+        <p className="text-slate-500 mt-1">
+          {nodes.filter(n => n.kind === 'insight').length} insights, {edges.filter(e => e.relation !== 'references').length} links
+          {orphaned > 0 && <span className="text-orange-600"> · {orphaned} orphaned</span>}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select label="tags" value={tag} options={tags} onChange={setTag} />
+        <Select label="types" value={type} options={types} onChange={setType} />
+        <Select label="statuses" value={status} options={statuses} onChange={setStatus} />
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input type="checkbox" checked={showTasks} onChange={e => setShowTasks(e.target.checked)} />
+          Tasks that mention them
+        </label>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <svg
+            viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+            className="w-full h-[32rem]"
+            onClick={() => setSelection(null)}
+          >
+            {edges.map(edge => {
+              const from = positions.get(edge.from)
+              const to = positions.get(edge.to)
+              if (!from || !to) return null
+              const style = edgeStyle[edge.relation] ?? DEFAULT_EDGE
+              return (
+                <line
+                  key={`${edge.from}-${edge.to}-${edge.relation}`}
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke={style.stroke}
+                  strokeDasharray={style.dash}
+                  strokeWidth={1.5}
+                  opacity={edgeDimmed(edge) ? 0.2 : 1}
+                >
+                  <title>{edge.from} {edge.relation} {edge.to}</title>
+                </line>
+              )
+            })}
+            {nodes.map(node => {
+              const point = positions.get(node.id)
+              if (!point) return null
+              const r = radius(node)
+              const shared = {
+                stroke: node.id === selectedId ? '#1e293b' : node.kind === 'insight' && node.links === 0 ? '#f97316' : '#ffffff',
+                strokeWidth: node.id === selectedId ? 3 : 1.5,
+                strokeDasharray: node.kind === 'insight' && node.links === 0 ? '3 2' : undefined,
+                opacity: dimmed(node.id) ? 0.25 : 1,
+                className: 'cursor-pointer',
+                onClick: (e: MouseEvent) => {
+                  e.stopPropagation()
+                  setSelection({ id: node.id, kind: node.kind })
+                },
+              }
+              return (
+                <g key={node.id}>
+                  {node.kind === 'task'
+                    ? <rect x={point.x - r} y={point.y - r} width={2 * r} height={2 * r} rx={2} fill={TASK_COLOR} {...shared} />
+                    : <circle cx={point.x} cy={point.y} r={r} fill={typeColors[node.type ?? ''] ?? OTHER_TYPE_COLOR} {...shared} />}
+                  <title>{node.id}: {node.label}</title>
+                  {(node.id === selectedId || neighbours.has(node.id)) && (
+                    <text x={point.x + r + 3} y={point.y + 4} className="text-[10px] fill-slate-600 pointer-events-none">
+                      {node.id}
+                    </text>
+                  )}
+                </g>
+              )
+            })}
+          </svg>
+          {nodes.length === 0 && graph && (
+            <div className="text-center text-slate-500 py-8">No insights match these filters</div>
+          )}
+        </div>
+
+        <div className="lg:w-80 space-y-4">
+          <div className="bg-white rounded-lg border border-slate-200 p-4">
+            {selection?.kind === 'insight' && (
+              <InsightPanel id={selection.id} onSelect={id => setSelection({ id, kind: 'insight' })} />
+            )}
+            {selectedTask && <TaskPanel node={selectedTask} />}
+            {selection?.kind !== 'insight' && !selectedTask && (
+              <p className="text-sm text-slate-400">Click a node to read it</p>
+            )}
+          </div>
+
+          {/* Legend */}
+          <div className="bg-white rounded-lg border border-slate-200 p-4 space-y-1 text-sm text-slate-600">
+            {Object.entries(typeColors).map(([name, color]) => (
+              <div key={name} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                {name}
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm border border-slate-300" style={{ backgroundColor: TASK_COLOR }} />
+              task
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full border border-dashed border-orange-500" />
+              orphaned (no links)
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
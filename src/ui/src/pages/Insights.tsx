@@ -113,12 +113,14 @@ function InsightModal({ insight, onClose }: { insight: Insight; onClose: () => v
 export default function Insights() {
   const [search, setSearch] = useState('')
   const [typeFilter, setTypeFilter] = useState<string>('')
-  const [selectedInsight, setSelectedInsight] = useState<Insight | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
   
   const { data: insights, loading, error } = useApi<Insight[]>(
     () => search ? api.searchInsights(search) : api.getInsights(typeFilter || undefined),
-    [search, typeFilter]
+    [search, typeFilter],
+    { live: event => event.entity_type === 'insight' }
   )
+  const selectedInsight = insights?.find(i => i.id === selectedId) ?? null
 
   const types = ['process', 'domain', 'architecture', 'edge_case', 'technical']
 
@@ -174,7 +176,7 @@ export default function Insights() {
           <InsightCard 
             key={insight.id} 
             insight={insight} 
-            onClick={() => setSelectedInsight(insight)} 
+            onClick={() => setSelectedId(insight.id)} 
           />
         ))}
         {insights?.length === 0 && (
@@ -185,7 +187,7 @@ export default function Insights() {
       </div>
 
       {selectedInsight && (
-        <InsightModal insight={selectedInsight} onClose={() => setSelectedInsight(null)} />
+        <InsightModal insight={selectedInsight} onClose={() => setSelectedId(null)} />
       )}
     </div>
   )
@@ -35,10 +35,16 @@ function SessionCard({ session, onClick }: { session: Session; onClick: () => vo
       </div>
       {session.task_title && (
         <div className="mt-2 text-sm text-slate-600">
-          <span className="font-medium">Task:</span> {session.task_title}
+          <span className="font-medium">Task:</span> {session.task_type && `${session.task_type} `}{session.task_title}
         </div>
       )}
       <p className="text-slate-700 mt-2 line-clamp-3 text-sm">{session.summary}</p>
+      {session.commits.length > 0 && (
+        <div className="mt-2 text-xs text-slate-500">
+          {session.commits.length} commit{session.commits.length === 1 ? '' : 's'}
+          {session.git_branch && <span className="font-mono ml-1">on {session.git_branch}</span>}
+        </div>
+      )}
     </div>
   )
 }
@@ -86,6 +92,7 @@ function SessionModal({ session, onClose }: { session: Session; onClose: () => v
               <div className="text-xs text-slate-500 uppercase tracking-wide">Task</div>
               <div className="font-medium text-slate-800 mt-1">
                 <span className="font-mono text-slate-500">{session.task_id}</span>
+                {session.task_type && <span className="ml-2 text-xs text-slate-500">{session.task_type}</span>}
                 {session.task_title && <span className="ml-2">{session.task_title}</span>}
               </div>
             </div>
@@ -96,6 +103,62 @@ function SessionModal({ session, onClose }: { session: Session; onClose: () => v
             <p className="text-slate-700 mt-2 whitespace-pre-wrap">{session.summary}</p>
           </div>
 
+          {session.learnings && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">Learnings</h3>
+              <p className="text-slate-700 mt-2 whitespace-pre-wrap">{session.learnings}</p>
+            </div>
+          )}
+
+          {session.insights_added && session.insights_added.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">Insights captured</h3>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {session.insights_added.map(id => (
+                  <span key={id} className="text-xs font-mono px-2 py-0.5 bg-blue-50 text-blue-700 rounded">{id}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(session.git_branch || session.commits.length > 0) && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">
+                Commits ({session.commits.length})
+              </h3>
+              <div className="text-xs text-slate-500 mt-1">
+                {session.git_branch && <span className="font-mono">{session.git_branch}</span>}
+                {session.end_commit && (
+                  <span className="font-mono ml-2 text-slate-400">
+                    {session.start_commit ? `${session.start_commit.slice(0, 7)}..` : ''}{session.end_commit.slice(0, 7)}
+                  </span>
+                )}
+              </div>
+              <ul className="mt-2 space-y-1">
+                {session.commits.map(commit => (
+                  <li key={commit.sha} className="flex items-start gap-2 text-sm text-slate-600">
+                    <span className="font-mono text-xs text-slate-400 mt-0.5">{commit.sha.slice(0, 7)}</span>
+                    <span className="flex-1">{commit.subject}</span>
+                    {commit.task_ids.map(id => (
+                      <span key={id} className="text-xs font-mono px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded">{id}</span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {session.files_changed && session.files_changed.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-slate-700">Files changed ({session.files_changed.length})</h3>
+              <ul className="mt-2 space-y-0.5">
+                {session.files_changed.map(file => (
+                  <li key={file} className="text-xs font-mono text-slate-600">{file}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="mt-4 pt-4 border-t border-slate-100 text-xs text-slate-400">
             Session #{session.session_number} on {session.date}
           </div>
@@ -106,8 +169,11 @@ function SessionModal({ session, onClose }: { session: Session; onClose: () => v
 }
 
 export default function Sessions() {
-  const [selectedSession, setSelectedSession] = useState<Session | null>(null)
-  const { data: sessions, loading, error } = useApi<Session[]>(() => api.getSessions(50))
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const { data: sessions, loading, error } = useApi<Session[]>(() => api.getSessions(50), [], {
+    live: event => event.entity_type === 'session',
+  })
+  const selectedSession = sessions?.find(s => s.id === selectedId) ?? null
 
   if (loading) {
     return (
@@ -163,7 +229,7 @@ export default function Sessions() {
                 <SessionCard 
                   key={session.id} 
                   session={session} 
-                  onClick={() => setSelectedSession(session)} 
+                  onClick={() => setSelectedId(session.id)} 
                 />
               ))}
             </div>
@@ -177,7 +243,7 @@ export default function Sessions() {
       </div>
 
       {selectedSession && (
-        <SessionModal session={selectedSession} onClose={() => setSelectedSession(null)} />
+        <SessionModal session={selectedSession} onClose={() => setSelectedId(null)} />
       )}
     </div>
   )